@@ -0,0 +1,394 @@
+// src/api-services/AIProvider.ts
+// Routes summaries, simplifications and word meanings to either the backend or
+// Chrome's on-device models. Both providers share the backend services'
+// callback shapes, so callers only swap the function they call.
+
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import { ChromeBuiltInAIService } from './ChromeBuiltInAIService';
+import { toBcp47 } from './ChromeTranslatorService';
+import { escapeRawText } from './WordExplanationParser';
+import { SummariseService, type SummariseRequest, type SummariseCallbacks } from './SummariseService';
+import { SimplifyService, type SimplifyRequest, type SimplifyCallbacks } from './SimplifyService';
+import {
+  WordsExplanationV2Service,
+  type WordExplanationCallbacks,
+  type WordLocation,
+} from './WordsExplanationV2Service';
+
+/** How long the on-device model gets to produce its first output before the backend takes over */
+const ON_DEVICE_FIRST_OUTPUT_TIMEOUT_MS = 15_000;
+
+/** Simplify-more is offered this many times for on-device output */
+const ON_DEVICE_MAX_SIMPLIFY_ROUNDS = 3;
+
+export type AITask = 'summarise' | 'simplify' | 'explainWord';
+
+export interface AIProvider {
+  readonly id: 'backend' | 'on-device';
+  /** Whether this provider can run `task` with output in `languageCode` (uppercase ISO 639-1) */
+  isAvailable(task: AITask, languageCode?: string): Promise<boolean>;
+  summarise(request: SummariseRequest, callbacks: SummariseCallbacks, abortController?: AbortController): Promise<void>;
+  simplify(request: SimplifyRequest[], callbacks: SimplifyCallbacks, abortController?: AbortController): Promise<void>;
+  explainWord(
+    word: string,
+    context: string,
+    languageCode: string | undefined,
+    callbacks: WordExplanationCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Backend provider
+// ---------------------------------------------------------------------------
+
+export const backendAIProvider: AIProvider = {
+  id: 'backend',
+  isAvailable: async () => true,
+  summarise: (request, callbacks, abortController) =>
+    SummariseService.summarise(request, callbacks, abortController),
+  simplify: (request, callbacks, abortController) =>
+    SimplifyService.simplify(request, callbacks, abortController),
+  explainWord: (word, context, languageCode, callbacks, abortSignal) =>
+    WordsExplanationV2Service.explainWord(word, context, languageCode, callbacks, abortSignal),
+};
+
+// ---------------------------------------------------------------------------
+// On-device provider
+// ---------------------------------------------------------------------------
+
+const SIMPLIFY_SYSTEM_PROMPT =
+  'You rewrite passages in plain, simple language for a general reader. ' +
+  'Keep the meaning, replace jargon with everyday words and use short sentences. ' +
+  'Reply with the rewritten passage only.';
+
+const EXPLAIN_WORD_SYSTEM_PROMPT =
+  'You explain what a word means in the sentence it is used in, in one or two short sentences, ' +
+  'and give up to three short example sentences that use the word with the same meaning.';
+
+const EXPLAIN_WORD_SCHEMA = {
+  type: 'object',
+  properties: {
+    meaning: { type: 'string' },
+    examples: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+  },
+  required: ['meaning', 'examples'],
+};
+
+function toOutputLanguage(languageCode?: string): string | undefined {
+  return languageCode ? toBcp47(languageCode) : undefined;
+}
+
+function onDeviceErrorMessage(error: unknown): string {
+  return (error as Error)?.message || 'On-device model failed';
+}
+
+export const onDeviceAIProvider: AIProvider = {
+  id: 'on-device',
+
+  async isAvailable(task, languageCode) {
+    const outputLanguage = toOutputLanguage(languageCode);
+    return task === 'summarise'
+      ? ChromeBuiltInAIService.isSummarizerAvailable(outputLanguage)
+      : ChromeBuiltInAIService.isLanguageModelAvailable(outputLanguage);
+  },
+
+  async summarise(request, callbacks, abortController) {
+    try {
+      const text = Object.values(request.content).join('\n\n');
+      const summary = await ChromeBuiltInAIService.summarizeStreaming(
+        text,
+        callbacks.onChunk,
+        toOutputLanguage(request.languageCode),
+        abortController?.signal,
+      );
+      // The on-device summary has no page references or follow-up questions
+      callbacks.onComplete(summary, []);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      callbacks.onError('ON_DEVICE_ERROR', onDeviceErrorMessage(error));
+    }
+  },
+
+  async simplify(request, callbacks, abortController) {
+    try {
+      let accumulated = '';
+      for (const item of request) {
+        const previous = item.previousSimplifiedTexts.length > 0
+          ? `\n\nEarlier simplified versions, make yours simpler still:\n${item.previousSimplifiedTexts.join('\n---\n')}`
+          : '';
+        const prefix = accumulated ? `${accumulated}\n\n` : '';
+        const simplified = await ChromeBuiltInAIService.promptStreaming(
+          SIMPLIFY_SYSTEM_PROMPT,
+          `Passage:\n${item.text}${previous}`,
+          (chunk, itemAccumulated) => callbacks.onChunk(chunk, prefix + itemAccumulated),
+          toOutputLanguage(item.languageCode),
+          abortController?.signal,
+        );
+        accumulated = prefix + simplified;
+      }
+      const rounds = request[0]?.previousSimplifiedTexts.length ?? 0;
+      callbacks.onComplete(accumulated, rounds + 1 < ON_DEVICE_MAX_SIMPLIFY_ROUNDS, []);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      callbacks.onError('ON_DEVICE_ERROR', onDeviceErrorMessage(error));
+    }
+  },
+
+  async explainWord(word, context, languageCode, callbacks, abortSignal) {
+    try {
+      const text = context || word;
+      const wordIndex = text.toLowerCase().indexOf(word.toLowerCase());
+      const location: WordLocation = { word, index: wordIndex >= 0 ? wordIndex : 0, length: word.length };
+
+      const result = await ChromeBuiltInAIService.promptJson<{ meaning: string; examples: string[] }>(
+        EXPLAIN_WORD_SYSTEM_PROMPT,
+        `Word: "${word}"\nSentence: ${text}`,
+        EXPLAIN_WORD_SCHEMA,
+        toOutputLanguage(languageCode),
+        abortSignal,
+      );
+      const meaning = (result.meaning ?? '').trim();
+      const examples = (result.examples ?? []).map((example) => example.trim()).filter(Boolean);
+
+      // Same raw format as the backend stream, for callers that keep raw_response
+      const items = examples.map((example) => `[[ITEM]]{${escapeRawText(example)}}`).join('');
+      callbacks.onEvent({
+        location,
+        word,
+        raw_response: `[[[WORD_MEANING]]]:{${escapeRawText(meaning)}}[[[EXAMPLES]]]:{${items}}`,
+        meaning,
+        examples,
+      });
+      callbacks.onComplete();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      callbacks.onError('ON_DEVICE_ERROR', onDeviceErrorMessage(error));
+    }
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+/**
+ * One attempt at the on-device provider. The attempt is abandoned (and its
+ * model call aborted) if it errors or stays silent past the first-output
+ * timeout; callbacks from an abandoned attempt must be dropped.
+ */
+interface OnDeviceAttempt {
+  abortController: AbortController;
+  /** False once the attempt was abandoned in favour of the backend */
+  isActive: () => boolean;
+  /** Call on any output; stops the first-output timer */
+  markOutput: () => void;
+  /** Call when the request completed on-device */
+  succeed: () => void;
+  /** Call when the on-device request failed */
+  fail: (errorCode: string, errorMessage: string) => void;
+}
+
+/**
+ * Run `run` against the on-device provider. Resolves to true if it completed
+ * there (or the caller aborted), false if the backend should take over.
+ */
+function attemptOnDevice(
+  task: AITask,
+  run: (attempt: OnDeviceAttempt) => Promise<void>,
+  callerSignal?: AbortSignal,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const abortController = new AbortController();
+    let active = true;
+
+    const finish = (handled: boolean) => {
+      if (!active) return;
+      active = false;
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
+      resolve(handled);
+    };
+    const onCallerAbort = () => {
+      abortController.abort();
+      finish(true);
+    };
+    const timer = setTimeout(() => {
+      console.warn(`[AIProvider] On-device ${task} produced nothing in ${ON_DEVICE_FIRST_OUTPUT_TIMEOUT_MS}ms, using backend`);
+      abortController.abort();
+      finish(false);
+    }, ON_DEVICE_FIRST_OUTPUT_TIMEOUT_MS);
+
+    if (callerSignal?.aborted) {
+      onCallerAbort();
+      return;
+    }
+    callerSignal?.addEventListener('abort', onCallerAbort);
+
+    run({
+      abortController,
+      isActive: () => active,
+      markOutput: () => clearTimeout(timer),
+      succeed: () => finish(true),
+      fail: (errorCode, errorMessage) => {
+        console.warn(`[AIProvider] On-device ${task} failed, using backend:`, errorCode, errorMessage);
+        finish(false);
+      },
+    }).catch((error) => {
+      console.warn(`[AIProvider] On-device ${task} threw, using backend:`, error);
+      finish(false);
+    });
+  });
+}
+
+/** Backend errors after which on-device output is worth trying */
+function isBackendUnreachable(errorCode: string): boolean {
+  return errorCode === 'NETWORK_ERROR' || /^HTTP_5\d\d$/.test(errorCode);
+}
+
+/**
+ * Whether requests should try the on-device models before the backend.
+ * Follows the "Process on this device" setting.
+ */
+export async function isOnDeviceAIPreferred(): Promise<boolean> {
+  return ChromeStorage.getPreferOnDeviceAI();
+}
+
+/**
+ * Summarise via the preferred provider. With on-device processing preferred
+ * and available, the Summarizer runs first and the backend takes over if it
+ * fails or is silent for too long. Otherwise the backend runs first and the
+ * on-device model only steps in when the backend cannot be reached.
+ */
+export async function summariseWithFallback(
+  request: SummariseRequest,
+  callbacks: SummariseCallbacks,
+  abortController?: AbortController,
+): Promise<void> {
+  const runOnDevice = () =>
+    attemptOnDevice('summarise', (attempt) =>
+      onDeviceAIProvider.summarise(request, {
+        onChunk: (chunk, accumulated) => {
+          if (!attempt.isActive()) return;
+          attempt.markOutput();
+          callbacks.onChunk(chunk, accumulated);
+        },
+        onComplete: (summary, questions) => {
+          if (!attempt.isActive()) return;
+          attempt.succeed();
+          callbacks.onComplete(summary, questions);
+        },
+        onError: attempt.fail,
+        onLoginRequired: () => {},
+      }, attempt.abortController),
+      abortController?.signal,
+    );
+
+  const onDeviceAvailable = () => onDeviceAIProvider.isAvailable('summarise', request.languageCode);
+
+  if (await isOnDeviceAIPreferred() && await onDeviceAvailable()) {
+    if (await runOnDevice()) return;
+    await backendAIProvider.summarise(request, callbacks, abortController);
+    return;
+  }
+
+  await backendAIProvider.summarise(request, {
+    ...callbacks,
+    onError: async (errorCode, errorMessage) => {
+      if (isBackendUnreachable(errorCode) && await onDeviceAvailable() && await runOnDevice()) return;
+      callbacks.onError(errorCode, errorMessage);
+    },
+  }, abortController);
+}
+
+/**
+ * Simplify via the preferred provider, with the same routing as
+ * `summariseWithFallback()`.
+ */
+export async function simplifyWithFallback(
+  request: SimplifyRequest[],
+  callbacks: SimplifyCallbacks,
+  abortController?: AbortController,
+): Promise<void> {
+  const runOnDevice = () =>
+    attemptOnDevice('simplify', (attempt) =>
+      onDeviceAIProvider.simplify(request, {
+        onChunk: (chunk, accumulated) => {
+          if (!attempt.isActive()) return;
+          attempt.markOutput();
+          callbacks.onChunk(chunk, accumulated);
+        },
+        onComplete: (simplifiedText, shouldAllowSimplifyMore, possibleQuestions) => {
+          if (!attempt.isActive()) return;
+          attempt.succeed();
+          callbacks.onComplete(simplifiedText, shouldAllowSimplifyMore, possibleQuestions);
+        },
+        onError: attempt.fail,
+        onLoginRequired: () => {},
+      }, attempt.abortController),
+      abortController?.signal,
+    );
+
+  const onDeviceAvailable = () => onDeviceAIProvider.isAvailable('simplify', request[0]?.languageCode);
+
+  if (await isOnDeviceAIPreferred() && await onDeviceAvailable()) {
+    if (await runOnDevice()) return;
+    await backendAIProvider.simplify(request, callbacks, abortController);
+    return;
+  }
+
+  await backendAIProvider.simplify(request, {
+    ...callbacks,
+    onError: async (errorCode, errorMessage) => {
+      if (isBackendUnreachable(errorCode) && await onDeviceAvailable() && await runOnDevice()) return;
+      callbacks.onError(errorCode, errorMessage);
+    },
+  }, abortController);
+}
+
+/**
+ * Explain a word in context via the preferred provider, with the same routing
+ * as `summariseWithFallback()`.
+ */
+export async function explainWordWithFallback(
+  word: string,
+  context: string,
+  languageCode: string | undefined,
+  callbacks: WordExplanationCallbacks,
+  abortSignal?: AbortSignal,
+): Promise<void> {
+  const runOnDevice = () =>
+    attemptOnDevice('explainWord', (attempt) =>
+      onDeviceAIProvider.explainWord(word, context, languageCode, {
+        onEvent: (wordInfo) => {
+          if (!attempt.isActive()) return;
+          attempt.markOutput();
+          callbacks.onEvent(wordInfo);
+        },
+        onComplete: () => {
+          if (!attempt.isActive()) return;
+          attempt.succeed();
+          callbacks.onComplete();
+        },
+        onError: attempt.fail,
+        onLoginRequired: () => {},
+      }, attempt.abortController.signal),
+      abortSignal,
+    );
+
+  const onDeviceAvailable = () => onDeviceAIProvider.isAvailable('explainWord', languageCode);
+
+  if (await isOnDeviceAIPreferred() && await onDeviceAvailable()) {
+    if (await runOnDevice()) return;
+    await backendAIProvider.explainWord(word, context, languageCode, callbacks, abortSignal);
+    return;
+  }
+
+  await backendAIProvider.explainWord(word, context, languageCode, {
+    ...callbacks,
+    onError: async (errorCode, errorMessage) => {
+      if (isBackendUnreachable(errorCode) && await onDeviceAvailable() && await runOnDevice()) return;
+      callbacks.onError(errorCode, errorMessage);
+    },
+  }, abortSignal);
+}
@@ -0,0 +1,135 @@
+// src/api-services/AnnotationLibraryService.ts
+// Service for the annotation library: highlights, notes, saved paragraphs,
+// links, words and images across every page, with full-text search.
+// Signed-out users search the highlights and notes kept on this device.
+
+import { ENV } from '@/config/env';
+import { TokenRefreshService } from './TokenRefreshService';
+import { ApiResponseHandler } from './ApiResponseHandler';
+import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { LocalAnnotationAdapter } from './LocalAnnotationAdapter';
+import type { SearchLibraryRequest, SearchLibraryResponse } from './dto/AnnotationLibraryDTO';
+import { BackgroundFetch } from './BackgroundFetch';
+
+export interface SearchLibraryCallbacks {
+  onSuccess: (response: SearchLibraryResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+  onSubscriptionRequired?: () => void;
+}
+
+function toQueryString(request: SearchLibraryRequest): string {
+  const params = new URLSearchParams({ offset: String(request.offset), limit: String(request.limit) });
+  if (request.query) params.set('q', request.query);
+  request.types?.forEach((type) => params.append('type', type));
+  if (request.domain) params.set('domain', request.domain);
+  if (request.createdAfter) params.set('created_after', request.createdAfter);
+  if (request.createdBefore) params.set('created_before', request.createdBefore);
+  if (request.folderId) params.set('folder_id', request.folderId);
+  if (request.color) params.set('color', request.color);
+  return params.toString();
+}
+
+/**
+ * Service for the annotation library
+ */
+export class AnnotationLibraryService {
+  private static readonly ENDPOINT = '/api/library/search';
+
+  /**
+   * Search the user's items across all pages, newest first
+   */
+  static async searchLibrary(
+    request: SearchLibraryRequest,
+    callbacks: SearchLibraryCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.searchLibrary(request, callbacks);
+    }
+
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}?${toQueryString(request)}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'GET',
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      // Sync unauthenticated user ID from response headers
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'AnnotationLibraryService');
+
+      // Handle 401 errors with TOKEN_EXPIRED check
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            // Retry request with token refresh
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'GET',
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'AnnotationLibraryService'
+            );
+            
+            if (!retryResponse.ok) {
+              const errorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = errorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = errorData.error_message || errorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+            
+            const data: SearchLibraryResponse = await retryResponse.json();
+            callbacks.onSuccess(data);
+            return;
+          } catch (refreshError) {
+            console.error('[AnnotationLibraryService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+        
+        // Handle other 401 errors (LOGIN_REQUIRED)
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'AnnotationLibraryService');
+          return;
+        }
+        
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (ApiResponseHandler.checkSubscriptionRequired(errorData, response.status)) {
+          ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'AnnotationLibraryService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: SearchLibraryResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+}
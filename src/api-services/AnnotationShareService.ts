@@ -0,0 +1,149 @@
+// src/api-services/AnnotationShareService.ts
+// Service for sharing a page's highlights and notes with other users, and for
+// threaded replies on notes.
+
+import { ENV } from '@/config/env';
+import type {
+  CreateNoteReplyRequest,
+  GetNoteRepliesResponse,
+  GetPageAnnotationSharesResponse,
+  GetSharedPageAnnotationsResponse,
+  NoteReplyResponse,
+  PageAnnotationShareResponse,
+  SharePageAnnotationsRequest,
+} from './dto/AnnotationShareDTO';
+import { BackgroundFetch } from './BackgroundFetch';
+
+function getErrorMessage(errorData: unknown, fallback: string): string {
+  if (errorData && typeof errorData === 'object' && 'detail' in errorData) {
+    const detail = (errorData as { detail?: unknown }).detail;
+    if (detail && typeof detail === 'object' && 'error_message' in detail) {
+      return (detail as { error_message: string }).error_message;
+    }
+    if (typeof detail === 'string') return detail;
+  }
+  return fallback;
+}
+
+export class AnnotationShareService {
+  private static readonly SHARES_URL = `${ENV.API_BASE_URL}/api/page-annotation-shares`;
+  private static readonly NOTES_URL = `${ENV.API_BASE_URL}/api/web-notes`;
+
+  static async sharePage(body: SharePageAnnotationsRequest): Promise<PageAnnotationShareResponse> {
+
+    const response = await BackgroundFetch.fetch(this.SHARES_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to share annotations'));
+    }
+
+    return response.json();
+  }
+
+  /** People the caller has shared this page's annotations with */
+  static async listPageShares(pageUrl: string): Promise<GetPageAnnotationSharesResponse> {
+    const url = `${this.SHARES_URL}?page_url=${encodeURIComponent(pageUrl)}`;
+
+    const response = await BackgroundFetch.fetch(url, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to fetch shares'));
+    }
+
+    return response.json();
+  }
+
+  static async deletePageShare(shareId: string): Promise<void> {
+
+    const response = await BackgroundFetch.fetch(`${this.SHARES_URL}/${shareId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to remove share'));
+    }
+  }
+
+  /** Highlights and notes others have shared with the caller on this page */
+  static async getSharedAnnotations(pageUrl: string): Promise<GetSharedPageAnnotationsResponse> {
+    const url = `${this.SHARES_URL}/received?page_url=${encodeURIComponent(pageUrl)}`;
+
+    const response = await BackgroundFetch.fetch(url, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to fetch shared annotations'));
+    }
+
+    return response.json();
+  }
+
+  /** Every reply on a note, oldest first; threads are rebuilt from `parentReplyId` */
+  static async listNoteReplies(noteId: string): Promise<GetNoteRepliesResponse> {
+
+    const response = await BackgroundFetch.fetch(`${this.NOTES_URL}/${noteId}/replies`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to fetch replies'));
+    }
+
+    return response.json();
+  }
+
+  static async createNoteReply(
+    noteId: string,
+    body: CreateNoteReplyRequest
+  ): Promise<NoteReplyResponse> {
+
+    const response = await BackgroundFetch.fetch(`${this.NOTES_URL}/${noteId}/replies`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to post reply'));
+    }
+
+    return response.json();
+  }
+
+  static async deleteNoteReply(noteId: string, replyId: string): Promise<void> {
+
+    const response = await BackgroundFetch.fetch(`${this.NOTES_URL}/${noteId}/replies/${replyId}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(getErrorMessage(errorData, 'Failed to delete reply'));
+    }
+  }
+}
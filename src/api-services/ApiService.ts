@@ -5,6 +5,7 @@ import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { TokenRefreshService } from './TokenRefreshService';
 import { ApiErrorHandler } from './ApiErrorHandler';
 import { ENV } from '@/config/env';
+import { BackgroundFetch } from './BackgroundFetch';
 
 /**
  * Central class for all API calls
@@ -59,7 +60,7 @@ export class ApiService {
         unauthenticatedUserId;
     }
 
-    const response = await fetch(url, {
+    const response = await BackgroundFetch.fetch(url, {
       ...options,
       headers: {
         ...defaultHeaders,
@@ -113,7 +114,7 @@ export class ApiService {
                 'Authorization': `Bearer ${refreshResponse.accessToken}`,
               };
 
-              const retryResponse = await fetch(url, {
+              const retryResponse = await BackgroundFetch.fetch(url, {
                 ...options,
                 headers: {
                   ...newHeaders,
@@ -4,6 +4,7 @@
 import { ENV } from '@/config/env';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { ApiResponseHandler } from './ApiResponseHandler';
+import { LocalAnnotationAdapter } from './LocalAnnotationAdapter';
 
 // Types
 export interface UserInfo {
@@ -117,6 +118,9 @@ export class AuthService {
             
             // Save auth info to Chrome storage
             await this.saveAuthInfo(loginResponse);
+
+            // Move highlights and notes made while signed out into the account
+            LocalAnnotationAdapter.requestMigration();
             
             resolve(loginResponse);
           } catch (error) {
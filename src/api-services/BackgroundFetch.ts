@@ -0,0 +1,236 @@
+// src/api-services/BackgroundFetch.ts
+// fetch() replacement for API calls. Requests are handed to the background
+// worker over a port; the worker attaches auth headers, refreshes an expired
+// token once for every tab, and streams the response body back. Services keep
+// working with a normal Response, streaming bodies included.
+
+import { ENV } from '@/config/env';
+import { isBackgroundContext } from '@/utils/extensionContext';
+import { ApiHeaders } from './ApiHeaders';
+import { ApiResponseHandler } from './ApiResponseHandler';
+import { TokenRefreshService } from './TokenRefreshService';
+
+/** Port name the background worker listens on */
+export const NETWORK_BROKER_PORT = 'xplaino-network';
+
+/** Request as sent over the port (bodies are text only) */
+export interface BrokerRequest {
+  url: string;
+  method: string;
+  headers: [string, string][];
+  body?: string;
+  credentials?: RequestCredentials;
+}
+
+/** Messages from a content script (or extension page) to the background worker */
+export type BrokerClientMessage =
+  | { type: 'request'; request: BrokerRequest }
+  | { type: 'abort' };
+
+/** Messages from the background worker back to the requester */
+export type BrokerWorkerMessage =
+  | { type: 'head'; status: number; statusText: string; headers: [string, string][] }
+  | { type: 'chunk'; text: string }
+  | { type: 'end' }
+  | { type: 'error'; name: string; message: string };
+
+/** Statuses whose Response must be constructed without a body */
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+/** Whether `url` is an API call the background worker handles */
+export function isBrokeredUrl(url: string): boolean {
+  return url.startsWith(`${ENV.API_BASE_URL}/`);
+}
+
+/**
+ * Whether a request goes through `fetchWithAuth` (in the background worker, or
+ * in this context if the worker is unreachable). Such requests get their auth
+ * headers and token refresh there, so callers send neither.
+ */
+export function isBrokeredRequest(url: string, body: BodyInit | null | undefined): boolean {
+  return isBrokeredUrl(url) && serializeBody(body) !== undefined;
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Text form of a request body, or undefined if it cannot cross a port
+ * (FormData, Blob, binary) and has to be sent directly.
+ */
+function serializeBody(body: BodyInit | null | undefined): string | null | undefined {
+  if (body === undefined || body === null) return null;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return undefined;
+}
+
+export class BackgroundFetch {
+  /**
+   * Drop-in for `fetch(url, init)` for API requests. Non-API URLs and bodies
+   * that cannot be sent as text fall back to a plain fetch (callers add auth
+   * headers themselves). A missing background connection (e.g. after the
+   * extension was reloaded under an open tab) sends the request with auth from
+   * this context.
+   */
+  static fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const body = serializeBody(init.body);
+    if (!isBrokeredUrl(url) || body === undefined) {
+      return fetch(url, init);
+    }
+
+    const request = BackgroundFetch.toBrokerRequest(url, init, body ?? undefined);
+    if (isBackgroundContext()) {
+      return BackgroundFetch.fetchWithAuth(request, init.signal);
+    }
+
+    let port: chrome.runtime.Port;
+    try {
+      port = chrome.runtime.connect({ name: NETWORK_BROKER_PORT });
+    } catch (error) {
+      console.warn('[BackgroundFetch] Background worker unreachable, fetching directly:', error);
+      return BackgroundFetch.fetchWithAuth(request, init.signal);
+    }
+
+    return BackgroundFetch.fetchOverPort(port, request, init.signal);
+  }
+
+  /**
+   * Send an API request with the current auth headers. A TOKEN_EXPIRED 401 is
+   * answered by refreshing the token and retrying once. Runs in the background
+   * worker, so concurrent requests from every tab share a single refresh.
+   */
+  static async fetchWithAuth(request: BrokerRequest, signal?: AbortSignal | null): Promise<Response> {
+    const send = async () => {
+      const headers = new Headers(request.headers);
+      const authHeaders = await ApiHeaders.getAuthHeaders('BackgroundFetch');
+      for (const [name, value] of Object.entries(authHeaders)) {
+        headers.set(name, value);
+      }
+      return fetch(request.url, {
+        method: request.method,
+        headers,
+        body: request.body,
+        credentials: request.credentials,
+        signal,
+      });
+    };
+
+    const response = await send();
+    if (response.status !== 401) return response;
+
+    const errorData = await ApiResponseHandler.parseErrorResponse(response);
+    if (!TokenRefreshService.isTokenExpiredError(response.status, errorData)) return response;
+
+    try {
+      await TokenRefreshService.refreshAccessToken();
+    } catch (error) {
+      // Hand the original 401 back; the service's own handling shows the login modal
+      console.warn('[BackgroundFetch] Token refresh failed:', error);
+      return response;
+    }
+    return send();
+  }
+
+  private static toBrokerRequest(url: string, init: RequestInit, body: string | undefined): BrokerRequest {
+    return {
+      url,
+      method: init.method ?? 'GET',
+      headers: Array.from(new Headers(init.headers).entries()),
+      body,
+      credentials: init.credentials,
+    };
+  }
+
+  private static fetchOverPort(
+    port: chrome.runtime.Port,
+    request: BrokerRequest,
+    signal?: AbortSignal | null
+  ): Promise<Response> {
+    return new Promise<Response>((resolve, reject) => {
+      const encoder = new TextEncoder();
+      let bodyController: ReadableStreamDefaultController<Uint8Array> | null = null;
+      let headReceived = false;
+      let finished = false;
+
+      const finish = () => {
+        finished = true;
+        signal?.removeEventListener('abort', onAbort);
+        port.onMessage.removeListener(onMessage);
+        port.onDisconnect.removeListener(onDisconnect);
+        port.disconnect();
+      };
+
+      const fail = (error: Error) => {
+        if (finished) return;
+        finish();
+        if (headReceived) {
+          bodyController?.error(error);
+        } else {
+          reject(error);
+        }
+      };
+
+      const onAbort = () => {
+        if (finished) return;
+        port.postMessage({ type: 'abort' } satisfies BrokerClientMessage);
+        fail(createAbortError());
+      };
+
+      const onDisconnect = () => {
+        fail(new TypeError('Failed to fetch: background worker disconnected'));
+      };
+
+      const onMessage = (message: BrokerWorkerMessage) => {
+        switch (message.type) {
+          case 'head': {
+            headReceived = true;
+            const hasBody = !NULL_BODY_STATUSES.includes(message.status);
+            const body = hasBody
+              ? new ReadableStream<Uint8Array>({
+                  start: (controller) => {
+                    bodyController = controller;
+                  },
+                  cancel: () => {
+                    if (finished) return;
+                    port.postMessage({ type: 'abort' } satisfies BrokerClientMessage);
+                    finish();
+                  },
+                })
+              : null;
+            resolve(new Response(body, {
+              status: message.status,
+              statusText: message.statusText,
+              headers: message.headers,
+            }));
+            if (!hasBody) finish();
+            break;
+          }
+          case 'chunk':
+            bodyController?.enqueue(encoder.encode(message.text));
+            break;
+          case 'end':
+            if (finished) return;
+            finish();
+            bodyController?.close();
+            break;
+          case 'error':
+            fail(message.name === 'AbortError' ? createAbortError() : new TypeError(message.message));
+            break;
+        }
+      };
+
+      if (signal?.aborted) {
+        port.disconnect();
+        reject(createAbortError());
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort);
+      port.onMessage.addListener(onMessage);
+      port.onDisconnect.addListener(onDisconnect);
+      port.postMessage({ type: 'request', request } satisfies BrokerClientMessage);
+    });
+  }
+}
@@ -0,0 +1,190 @@
+// src/api-services/ChromeBuiltInAIService.ts
+// Service wrapping Chrome's built-in Summarizer and Prompt (LanguageModel) APIs.
+// Only the APIs exposed in the content script's own world are used; when they
+// are missing every availability check reports false and callers use the backend.
+
+/** Availability states that can serve a request (possibly after a model download) */
+const USABLE_AVAILABILITY: Availability[] = ['available', 'downloadable', 'downloading'];
+
+/**
+ * Read a model's text stream, calling `onChunk` with each delta and the text so far.
+ * Resolves to the full text.
+ */
+async function readTextStream(
+  stream: ReadableStream<string>,
+  onChunk: (chunk: string, accumulated: string) => void,
+): Promise<string> {
+  const reader = stream.getReader();
+  let accumulated = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    accumulated += value;
+    onChunk(value, accumulated);
+  }
+  return accumulated;
+}
+
+/**
+ * Static wrapper around the on-device models. Model instances are cached
+ * per configuration so repeated requests reuse the loaded model.
+ */
+export class ChromeBuiltInAIService {
+  private static summarizerCache = new Map<string, Summarizer>();
+  private static availabilityCache = new Map<string, boolean>();
+
+  // -----------------------------------------------------------------------
+  // Feature detection
+  // -----------------------------------------------------------------------
+
+  static isSummarizerExposed(): boolean {
+    return typeof self !== 'undefined' && 'Summarizer' in self;
+  }
+
+  static isLanguageModelExposed(): boolean {
+    return typeof self !== 'undefined' && 'LanguageModel' in self;
+  }
+
+  /**
+   * Whether the Summarizer can produce output in `outputLanguage`.
+   * Results are cached per language for the lifetime of the page.
+   */
+  static async isSummarizerAvailable(outputLanguage?: string): Promise<boolean> {
+    if (!this.isSummarizerExposed()) return false;
+    const key = `summarizer-${outputLanguage ?? ''}`;
+    const cached = this.availabilityCache.get(key);
+    if (cached !== undefined) return cached;
+
+    try {
+      const availability = await Summarizer.availability({
+        type: 'key-points',
+        format: 'markdown',
+        outputLanguage,
+      });
+      const usable = USABLE_AVAILABILITY.includes(availability);
+      this.availabilityCache.set(key, usable);
+      return usable;
+    } catch (err) {
+      console.warn('[ChromeBuiltInAIService] Summarizer.availability() failed:', err);
+      this.availabilityCache.set(key, false);
+      return false;
+    }
+  }
+
+  /**
+   * Whether the Prompt API can produce text output in `outputLanguage`.
+   * Results are cached per language for the lifetime of the page.
+   */
+  static async isLanguageModelAvailable(outputLanguage?: string): Promise<boolean> {
+    if (!this.isLanguageModelExposed()) return false;
+    const key = `languageModel-${outputLanguage ?? ''}`;
+    const cached = this.availabilityCache.get(key);
+    if (cached !== undefined) return cached;
+
+    try {
+      const availability = await LanguageModel.availability({
+        expectedOutputs: [{ type: 'text', languages: outputLanguage ? [outputLanguage] : undefined }],
+      });
+      const usable = USABLE_AVAILABILITY.includes(availability);
+      this.availabilityCache.set(key, usable);
+      return usable;
+    } catch (err) {
+      console.warn('[ChromeBuiltInAIService] LanguageModel.availability() failed:', err);
+      this.availabilityCache.set(key, false);
+      return false;
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Summarizer
+  // -----------------------------------------------------------------------
+
+  private static async getOrCreateSummarizer(outputLanguage?: string): Promise<Summarizer> {
+    const key = outputLanguage ?? '';
+    const cached = this.summarizerCache.get(key);
+    if (cached) return cached;
+
+    const summarizer = await Summarizer.create({
+      type: 'key-points',
+      format: 'markdown',
+      length: 'medium',
+      outputLanguage,
+      sharedContext: 'A web page the reader wants summarised.',
+    });
+    this.summarizerCache.set(key, summarizer);
+    return summarizer;
+  }
+
+  /**
+   * Summarise text as markdown key points, streaming each delta to `onChunk`.
+   * Input beyond the model's quota is cut off.
+   */
+  static async summarizeStreaming(
+    text: string,
+    onChunk: (chunk: string, accumulated: string) => void,
+    outputLanguage?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const summarizer = await this.getOrCreateSummarizer(outputLanguage);
+
+    let input = text;
+    // Usage is roughly proportional to length, so shrink by the overshoot ratio
+    let usage = await summarizer.measureInputUsage(input);
+    while (usage > summarizer.inputQuota && input.length > 0) {
+      input = input.slice(0, Math.floor(input.length * (summarizer.inputQuota / usage) * 0.95));
+      usage = await summarizer.measureInputUsage(input);
+    }
+
+    return readTextStream(summarizer.summarizeStreaming(input, { signal }), onChunk);
+  }
+
+  // -----------------------------------------------------------------------
+  // Prompt API
+  // -----------------------------------------------------------------------
+
+  /**
+   * Run one prompt in a fresh session, streaming each delta to `onChunk`.
+   * Sessions are not reused so earlier prompts never leak into later ones.
+   */
+  static async promptStreaming(
+    systemPrompt: string,
+    input: string,
+    onChunk: (chunk: string, accumulated: string) => void,
+    outputLanguage?: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const session = await LanguageModel.create({
+      initialPrompts: [{ role: 'system', content: systemPrompt }],
+      expectedOutputs: [{ type: 'text', languages: outputLanguage ? [outputLanguage] : undefined }],
+      signal,
+    });
+    try {
+      return await readTextStream(session.promptStreaming(input, { signal }), onChunk);
+    } finally {
+      session.destroy();
+    }
+  }
+
+  /**
+   * Run one prompt whose answer must match a JSON schema and parse it.
+   */
+  static async promptJson<T>(
+    systemPrompt: string,
+    input: string,
+    schema: Record<string, unknown>,
+    outputLanguage?: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const session = await LanguageModel.create({
+      initialPrompts: [{ role: 'system', content: systemPrompt }],
+      expectedOutputs: [{ type: 'text', languages: outputLanguage ? [outputLanguage] : undefined }],
+      signal,
+    });
+    try {
+      const result = await session.prompt(input, { responseConstraint: schema, signal });
+      return JSON.parse(result) as T;
+    } finally {
+      session.destroy();
+    }
+  }
+}
@@ -2,7 +2,6 @@
 // Service for managing custom user prompts.
 
 import { ENV } from '@/config/env';
-import { ApiHeaders } from './ApiHeaders';
 import type {
   CustomPromptResponse,
   GetAllCustomPromptsResponse,
@@ -12,6 +11,7 @@ import type {
   GetSharedCustomPromptsResponse,
   ShareCustomPromptRequest,
 } from './dto/CustomPromptDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 function getErrorMessage(errorData: unknown, fallback: string): string {
   if (errorData && typeof errorData === 'object' && 'detail' in errorData) {
@@ -32,11 +32,10 @@ export class CustomPromptService {
     limit = 50
   ): Promise<GetAllCustomPromptsResponse> {
     const url = `${this.BASE_URL}?offset=${offset}&limit=${limit}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(url, {
+    const response = await BackgroundFetch.fetch(url, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
     });
 
@@ -51,11 +50,10 @@ export class CustomPromptService {
   static async createCustomPrompt(
     body: CreateCustomPromptRequest
   ): Promise<CustomPromptResponse> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(this.BASE_URL, {
+    const response = await BackgroundFetch.fetch(this.BASE_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
       credentials: 'include',
     });
@@ -72,11 +70,10 @@ export class CustomPromptService {
     promptId: string,
     body: UpdateCustomPromptRequest
   ): Promise<CustomPromptResponse> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(`${this.BASE_URL}/${promptId}`, {
+    const response = await BackgroundFetch.fetch(`${this.BASE_URL}/${promptId}`, {
       method: 'PATCH',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
       credentials: 'include',
     });
@@ -93,13 +90,12 @@ export class CustomPromptService {
     promptId: string,
     isHidden: boolean
   ): Promise<CustomPromptResponse> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(
+    const response = await BackgroundFetch.fetch(
       `${this.BASE_URL}/${promptId}/hide?is_hidden=${isHidden}`,
       {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
       }
     );
@@ -113,11 +109,10 @@ export class CustomPromptService {
   }
 
   static async deleteCustomPrompt(promptId: string): Promise<void> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(`${this.BASE_URL}/${promptId}`, {
+    const response = await BackgroundFetch.fetch(`${this.BASE_URL}/${promptId}`, {
       method: 'DELETE',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
     });
 
@@ -131,11 +126,10 @@ export class CustomPromptService {
     promptId: string,
     body: ShareCustomPromptRequest
   ): Promise<CustomPromptShareResponse> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(`${this.BASE_URL}/${promptId}/shares`, {
+    const response = await BackgroundFetch.fetch(`${this.BASE_URL}/${promptId}/shares`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
       credentials: 'include',
     });
@@ -153,11 +147,10 @@ export class CustomPromptService {
     limit = 50
   ): Promise<GetSharedCustomPromptsResponse> {
     const url = `${this.BASE_URL}/shares/received?offset=${offset}&limit=${limit}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(url, {
+    const response = await BackgroundFetch.fetch(url, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
     });
 
@@ -170,11 +163,10 @@ export class CustomPromptService {
   }
 
   static async deleteReceivedShare(shareId: string): Promise<void> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(`${this.BASE_URL}/shares/${shareId}`, {
+    const response = await BackgroundFetch.fetch(`${this.BASE_URL}/shares/${shareId}`, {
       method: 'DELETE',
-      headers: { 'Content-Type': 'application/json', ...authHeaders },
+      headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
     });
 
@@ -188,13 +180,12 @@ export class CustomPromptService {
     shareId: string,
     isHidden: boolean
   ): Promise<CustomPromptShareResponse> {
-    const authHeaders = await ApiHeaders.getAuthHeaders('CustomPromptService');
 
-    const response = await fetch(
+    const response = await BackgroundFetch.fetch(
       `${this.BASE_URL}/shares/${shareId}/hide?is_hidden=${isHidden}`,
       {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
       }
     );
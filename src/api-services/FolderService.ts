@@ -3,10 +3,10 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { GetAllFoldersResponse, CreateFolderRequest, CreateFolderResponse } from './dto/FolderDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Callbacks
 export interface GetAllFoldersCallbacks {
@@ -37,14 +37,10 @@ export class FolderService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('FolderService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -63,9 +59,6 @@ export class FolderService {
               {
                 url,
                 method: 'GET',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
@@ -144,14 +137,12 @@ export class FolderService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('FolderService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -174,7 +165,6 @@ export class FolderService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
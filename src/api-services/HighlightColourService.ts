@@ -3,6 +3,7 @@
 // This endpoint is public — no authentication required.
 
 import { ENV } from '@/config/env';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface HighlightColour {
   id: string;
@@ -18,7 +19,7 @@ export class HighlightColourService {
    */
   static async getColours(): Promise<HighlightColour[]> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const response = await fetch(url);
+    const response = await BackgroundFetch.fetch(url);
 
     if (!response.ok) {
       throw new Error(`Failed to fetch highlight colours: ${response.status} ${response.statusText}`);
@@ -5,6 +5,7 @@ import { ENV } from '@/config/env';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { ApiErrorHandler } from './ApiErrorHandler';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Types
 export interface IssueResponse {
@@ -103,7 +104,7 @@ export class IssueService {
     }
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers,
         body: formData,
@@ -0,0 +1,170 @@
+// src/api-services/LocalAnnotationAdapter.ts
+// Device-local storage adapter behind WebHighlightService and WebNoteService.
+// Signed-out users keep their highlights and notes in IndexedDB instead of the backend.
+// Calls are answered by localAnnotationStore in the background worker; when the
+// outbox replays in the worker itself, the store is called directly.
+
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import { handleLocalAnnotationRequest, type LocalAnnotationRequest } from '@/storage/indexed-db/localAnnotationStore';
+import { isBackgroundContext } from '@/utils/extensionContext';
+import type {
+  CreateWebHighlightRequest,
+  WebHighlightResponse,
+} from './dto/WebHighlightDTO';
+import type { CreateWebNoteRequest, WebNoteResponse } from './dto/WebNoteDTO';
+import type {
+  GetHighlightsCallbacks,
+  CreateHighlightCallbacks,
+  UpdateHighlightCallbacks,
+  DeleteHighlightCallbacks,
+} from './WebHighlightService';
+import type { GetNotesCallbacks, WriteNoteCallbacks, DeleteNoteCallbacks } from './WebNoteService';
+import type { SearchLibraryRequest, SearchLibraryResponse } from './dto/AnnotationLibraryDTO';
+import type { SearchLibraryCallbacks } from './AnnotationLibraryService';
+
+/** Message type handled by the background worker */
+export const LOCAL_ANNOTATIONS_MESSAGE = 'LOCAL_ANNOTATIONS';
+/** Message type asking the background worker to move local items to the signed-in account */
+export const MIGRATE_LOCAL_ANNOTATIONS_MESSAGE = 'MIGRATE_LOCAL_ANNOTATIONS';
+/** Message type the background worker broadcasts to tabs once items have been migrated */
+export const LOCAL_ANNOTATIONS_MIGRATED_MESSAGE = 'LOCAL_ANNOTATIONS_MIGRATED';
+
+/**
+ * Local storage adapter. Mirrors the callback shape of the remote services so
+ * they can hand a call straight over.
+ */
+export class LocalAnnotationAdapter {
+  /**
+   * Whether annotations should stay on this device (the user is not signed in).
+   */
+  static async isActive(): Promise<boolean> {
+    const authInfo = await ChromeStorage.getAuthInfo();
+    return !authInfo?.isLoggedIn;
+  }
+
+  static async getHighlights(pageUrl: string, callbacks: GetHighlightsCallbacks): Promise<void> {
+    await this.run<WebHighlightResponse[]>(
+      { op: 'getHighlights', pageUrl },
+      (highlights) => callbacks.onSuccess({ highlights }),
+      callbacks.onError
+    );
+  }
+
+  static async createHighlight(
+    request: CreateWebHighlightRequest,
+    callbacks: CreateHighlightCallbacks
+  ): Promise<void> {
+    await this.run<WebHighlightResponse>(
+      { op: 'createHighlight', request },
+      (highlight) => callbacks.onSuccess({ highlight }),
+      callbacks.onError
+    );
+  }
+
+  /**
+   * Unknown ids fail with HTTP_404, the same as the backend.
+   */
+  static async updateHighlight(
+    highlightId: string,
+    color: string,
+    callbacks: UpdateHighlightCallbacks
+  ): Promise<void> {
+    await this.run<WebHighlightResponse | null>(
+      { op: 'updateHighlight', highlightId, color },
+      (highlight) =>
+        highlight ? callbacks.onSuccess({ highlight }) : callbacks.onError('HTTP_404', 'Highlight not found'),
+      callbacks.onError
+    );
+  }
+
+  static async deleteHighlight(highlightId: string, callbacks: DeleteHighlightCallbacks): Promise<void> {
+    await this.run({ op: 'deleteHighlight', highlightId }, () => callbacks.onSuccess(), callbacks.onError);
+  }
+
+  static async getWebNotes(pageUrl: string, callbacks: GetNotesCallbacks): Promise<void> {
+    await this.run<WebNoteResponse[]>(
+      { op: 'getNotes', pageUrl },
+      (notes) => callbacks.onSuccess({ notes }),
+      callbacks.onError
+    );
+  }
+
+  static async createNote(request: CreateWebNoteRequest, callbacks: WriteNoteCallbacks): Promise<void> {
+    await this.run<WebNoteResponse>(
+      { op: 'createNote', request },
+      (note) => callbacks.onSuccess({ note }),
+      callbacks.onError
+    );
+  }
+
+  /**
+   * Unknown ids fail with HTTP_404, the same as the backend.
+   */
+  static async updateNote(noteId: string, content: string, callbacks: WriteNoteCallbacks): Promise<void> {
+    await this.run<WebNoteResponse | null>(
+      { op: 'updateNote', noteId, content },
+      (note) => (note ? callbacks.onSuccess({ note }) : callbacks.onError('HTTP_404', 'Note not found')),
+      callbacks.onError
+    );
+  }
+
+  static async deleteNote(noteId: string, callbacks: DeleteNoteCallbacks): Promise<void> {
+    await this.run({ op: 'deleteNote', noteId }, () => callbacks.onSuccess(), callbacks.onError);
+  }
+
+  /**
+   * Search the highlights and notes on this device; other item types are only
+   * kept for signed-in users.
+   */
+  static async searchLibrary(request: SearchLibraryRequest, callbacks: SearchLibraryCallbacks): Promise<void> {
+    await this.run<SearchLibraryResponse>({ op: 'searchLibrary', request }, callbacks.onSuccess, callbacks.onError);
+  }
+
+  /**
+   * Ask the background worker to upload local items to the signed-in account.
+   * Fire-and-forget: items that fail stay local and are retried on the next sign-in.
+   */
+  static requestMigration(): void {
+    chrome.runtime.sendMessage({ type: MIGRATE_LOCAL_ANNOTATIONS_MESSAGE }, () => {
+      if (chrome.runtime.lastError) {
+        console.warn('[LocalAnnotationAdapter] Migration request failed:', chrome.runtime.lastError.message);
+      }
+    });
+  }
+
+  private static async run<T>(
+    request: LocalAnnotationRequest,
+    onSuccess: (data: T) => void,
+    onError: (errorCode: string, errorMessage: string) => void
+  ): Promise<void> {
+    let data: T;
+    try {
+      data = await this.send<T>(request);
+    } catch (error) {
+      console.error('[LocalAnnotationAdapter] Local storage request failed:', request.op, error);
+      onError('LOCAL_STORAGE_ERROR', (error as Error).message || 'Local storage error');
+      return;
+    }
+    onSuccess(data);
+  }
+
+  private static send<T>(request: LocalAnnotationRequest): Promise<T> {
+    // A worker's own messages never reach its listener
+    if (isBackgroundContext()) {
+      return handleLocalAnnotationRequest(request) as Promise<T>;
+    }
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: LOCAL_ANNOTATIONS_MESSAGE, request }, (response) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message || 'Extension messaging failed'));
+          return;
+        }
+        if (!response?.success) {
+          reject(new Error(response?.error || 'Local storage request failed'));
+          return;
+        }
+        resolve(response.data as T);
+      });
+    });
+  }
+}
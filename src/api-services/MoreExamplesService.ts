@@ -3,9 +3,9 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface MoreExamplesRequest {
   word: string;
@@ -42,14 +42,12 @@ export class MoreExamplesService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('MoreExamplesService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -72,7 +70,6 @@ export class MoreExamplesService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
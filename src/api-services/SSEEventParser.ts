@@ -0,0 +1,124 @@
+// src/api-services/SSEEventParser.ts
+// Incremental parser for text/event-stream bodies (no I/O, so it can be unit tested in isolation).
+
+/**
+ * A single dispatched server-sent event.
+ * `data` is the joined value of all `data:` lines of the event (joined with "\n").
+ */
+export interface SSEMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental SSE parser following the WHATWG event-stream rules:
+ * - Input may be split at any byte/character boundary across `feed()` calls
+ * - Lines end with "\n", "\r\n" or "\r"; a blank line dispatches the event
+ * - Multiple `data:` lines in one event are joined with "\n"
+ * - Lines starting with ":" are comments and ignored
+ * - A single leading space after the field colon is stripped
+ *
+ * Usage:
+ *   const parser = new SSEEventParser();
+ *   for (const msg of parser.feed(decodedText)) { ... }
+ *   for (const msg of parser.flush()) { ... } // at end of stream
+ */
+export class SSEEventParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+
+  /**
+   * Feed the next decoded chunk of the stream.
+   * @returns Events completed by this chunk (possibly none)
+   */
+  feed(text: string): SSEMessage[] {
+    this.buffer += text;
+    return this.drainLines(false);
+  }
+
+  /**
+   * Signal end of stream. Processes a trailing unterminated line and
+   * dispatches a pending event even if the final blank line never arrived.
+   */
+  flush(): SSEMessage[] {
+    const messages = this.drainLines(true);
+    if (this.buffer.length > 0) {
+      this.processLine(this.buffer, messages);
+      this.buffer = '';
+    }
+    this.dispatch(messages);
+    return messages;
+  }
+
+  /** Drop all buffered state (e.g. before re-using the parser for another stream) */
+  reset(): void {
+    this.buffer = '';
+    this.dataLines = [];
+    this.eventType = '';
+    this.lastEventId = undefined;
+  }
+
+  private drainLines(endOfStream: boolean): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks —
+      // wait for the next chunk before deciding.
+      if (ch === '\r' && i === this.buffer.length - 1 && !endOfStream) break;
+
+      this.processLine(this.buffer.slice(start, i), messages);
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  private processLine(line: string, messages: SSEMessage[]): void {
+    if (line === '') {
+      this.dispatch(messages);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      default:
+        // `retry` and unknown fields are ignored — reconnection is not used
+        break;
+    }
+  }
+
+  private dispatch(messages: SSEMessage[]): void {
+    if (this.dataLines.length > 0) {
+      messages.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.lastEventId,
+      });
+    }
+    this.dataLines = [];
+    this.eventType = '';
+  }
+}
@@ -0,0 +1,310 @@
+// src/api-services/SSEStreamClient.ts
+// Shared fetch + SSE streaming client that all streaming API services are built on
+
+import { TokenRefreshService } from './TokenRefreshService';
+import { ApiHeaders } from './ApiHeaders';
+import { ApiResponseHandler } from './ApiResponseHandler';
+import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { SSEEventParser, type SSEMessage } from './SSEEventParser';
+import { BackgroundFetch, isBrokeredRequest } from './BackgroundFetch';
+
+export interface SSEStreamRequest {
+  url: string;
+  /** JSON string or FormData (Content-Type is left to the browser for FormData) */
+  body: string | FormData;
+  /** Service name used for auth headers and log prefixes */
+  serviceName: string;
+  abortController?: AbortController;
+  /**
+   * Subject used in the string_too_long validation message,
+   * e.g. "The selected text" → "The selected text is too long. Maximum 50,000 characters allowed."
+   */
+  tooLongSubject?: string;
+}
+
+export interface SSEStreamHandlers<TEvent> {
+  /** Called for every parsed JSON event except `{ type: 'error' }` events, which are mapped below */
+  onEvent: (event: TEvent) => void;
+  /** Called once the stream finished normally ([DONE] or connection closed) */
+  onDone?: () => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+  onSubscriptionRequired?: () => void;
+}
+
+/** Error event shape emitted in-stream by every streaming endpoint */
+interface SSEErrorPayload {
+  type: 'error';
+  error_code?: string;
+  error_message?: string;
+}
+
+/** Result of handling one SSE message inside the read loop */
+type DispatchResult = 'continue' | 'done' | 'stop';
+
+/**
+ * Streaming client for SSE endpoints.
+ *
+ * Centralises: auth headers, unauthenticated-user-id syncing, 401 → token refresh → retry
+ * (done by the background worker for brokered requests; here only for FormData uploads),
+ * LOGIN_REQUIRED / SUBSCRIPTION_REQUIRED / string_too_long mapping, the reader loop with
+ * abort checks, `[DONE]` handling and in-stream error events.
+ * Aborts are silent — no callback is fired when the caller aborts.
+ */
+export class SSEStreamClient {
+  static async stream<TEvent>(
+    request: SSEStreamRequest,
+    handlers: SSEStreamHandlers<TEvent>
+  ): Promise<void> {
+    const { url, body, serviceName, abortController } = request;
+    const brokered = isBrokeredRequest(url, body);
+    const authHeaders = brokered ? {} : await ApiHeaders.getAuthHeaders(serviceName);
+
+    const headers: Record<string, string> = {
+      'Accept': 'text/event-stream',
+      ...authHeaders,
+    };
+    // Don't set Content-Type for FormData - browser will set it with boundary
+    if (!(body instanceof FormData)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    try {
+      let response = await BackgroundFetch.fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: abortController?.signal,
+        credentials: 'include',
+      });
+
+      // Sync unauthenticated user ID from response headers
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, serviceName);
+
+      // Handle 401 errors, retrying once after a token refresh when the token expired
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (!TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          this.handleUnauthorized(errorData, response.status, serviceName, handlers);
+          return;
+        }
+
+        // The background worker refreshes and retries brokered requests itself,
+        // so an expired token here means its refresh failed
+        if (brokered) {
+          console.error(`[${serviceName}] Token refresh failed in the background worker`);
+          await TokenRefreshService.handleTokenRefreshFailure();
+          handlers.onLoginRequired?.();
+          return;
+        }
+
+        try {
+          response = await TokenRefreshRetry.retrySSERequestWithTokenRefresh(
+            {
+              url,
+              method: 'POST',
+              headers,
+              body,
+              signal: abortController?.signal,
+              credentials: 'include',
+            },
+            serviceName
+          );
+        } catch (refreshError) {
+          if ((refreshError as Error)?.name === 'AbortError') return;
+          console.error(`[${serviceName}] Token refresh failed:`, refreshError);
+          await TokenRefreshService.handleTokenRefreshFailure();
+          handlers.onLoginRequired?.();
+          return;
+        }
+
+        if (response.status === 401) {
+          const retryErrorData = await ApiResponseHandler.parseErrorResponse(response);
+          this.handleUnauthorized(retryErrorData, response.status, serviceName, handlers);
+          return;
+        }
+      }
+
+      if (!response.ok) {
+        await this.handleHttpError(response, request, handlers);
+        return;
+      }
+
+      await this.readStream(response, request, handlers);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          // Request was aborted, don't call error callback
+          return;
+        }
+        handlers.onError('NETWORK_ERROR', error.message);
+      } else {
+        handlers.onError('UNKNOWN_ERROR', 'An unknown error occurred');
+      }
+    }
+  }
+
+  private static handleUnauthorized<TEvent>(
+    errorData: unknown,
+    status: number,
+    serviceName: string,
+    handlers: SSEStreamHandlers<TEvent>
+  ): void {
+    if (ApiResponseHandler.checkLoginRequired(errorData, status)) {
+      ApiResponseHandler.handleLoginRequired(handlers.onLoginRequired, serviceName);
+      return;
+    }
+    handlers.onError('AUTH_ERROR', 'Authentication failed');
+  }
+
+  /**
+   * Map a non-OK HTTP response to the matching handler.
+   * Error code/message from the body win; otherwise falls back to HTTP_ERROR + status text.
+   */
+  private static async handleHttpError<TEvent>(
+    response: Response,
+    request: SSEStreamRequest,
+    handlers: SSEStreamHandlers<TEvent>
+  ): Promise<void> {
+    const { serviceName } = request;
+    const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+    // Check for string_too_long validation error
+    const stringTooLongCheck = ApiResponseHandler.checkStringTooLongError(errorData);
+    if (stringTooLongCheck.isError) {
+      handlers.onError(
+        'VALIDATION_ERROR',
+        `${request.tooLongSubject ?? 'The text'} is too long. Maximum ${stringTooLongCheck.maxLength?.toLocaleString()} characters allowed.`
+      );
+      return;
+    }
+
+    // Check for LOGIN_REQUIRED in error response body (regardless of status code)
+    if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+      ApiResponseHandler.handleLoginRequired(handlers.onLoginRequired, serviceName);
+      return;
+    }
+
+    // Check for SUBSCRIPTION_REQUIRED in error response body (regardless of status code)
+    if (ApiResponseHandler.checkSubscriptionRequired(errorData, response.status)) {
+      ApiResponseHandler.handleSubscriptionRequired(handlers.onSubscriptionRequired, serviceName);
+      return;
+    }
+
+    const errorCode = errorData?.error_code || 'HTTP_ERROR';
+    let errorMessage = errorData?.error_message;
+    if (!errorMessage && typeof errorData?.detail === 'string') {
+      errorMessage = errorData.detail;
+    }
+    if (!errorMessage) {
+      errorMessage = typeof errorData === 'string' && errorData
+        ? `HTTP ${response.status}: ${errorData}`
+        : `HTTP ${response.status}`;
+    }
+    handlers.onError(errorCode, errorMessage);
+  }
+
+  private static async readStream<TEvent>(
+    response: Response,
+    request: SSEStreamRequest,
+    handlers: SSEStreamHandlers<TEvent>
+  ): Promise<void> {
+    const { serviceName, abortController } = request;
+    const reader = response.body?.getReader();
+    if (!reader) {
+      handlers.onError('STREAM_ERROR', 'Failed to get response reader');
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    const parser = new SSEEventParser();
+
+    try {
+      // eslint-disable-next-line no-constant-condition
+      outer: while (true) {
+        // Check if aborted before reading
+        if (abortController?.signal.aborted) {
+          console.log(`[${serviceName}] Abort detected, cancelling reader`);
+          await reader.cancel();
+          return;
+        }
+
+        const { done, value } = await reader.read();
+
+        // Check if aborted after reading
+        if (abortController?.signal.aborted) {
+          console.log(`[${serviceName}] Abort detected after read, cancelling reader`);
+          await reader.cancel();
+          return;
+        }
+
+        const messages = done
+          ? [...parser.feed(decoder.decode()), ...parser.flush()]
+          : parser.feed(decoder.decode(value, { stream: true }));
+
+        for (const message of messages) {
+          const result = this.dispatch(message, serviceName, handlers);
+          if (result === 'stop') {
+            await reader.cancel();
+            return;
+          }
+          if (result === 'done') {
+            // [DONE] signals the stream is complete — finish immediately without
+            // waiting for the HTTP connection to close (which can hang with proxies).
+            reader.cancel().catch(() => {});
+            break outer;
+          }
+        }
+
+        if (done) break;
+      }
+    } finally {
+      // Ensure reader is released
+      reader.releaseLock();
+    }
+
+    handlers.onDone?.();
+  }
+
+  /** Parse one SSE message and route it to the handlers */
+  private static dispatch<TEvent>(
+    message: SSEMessage,
+    serviceName: string,
+    handlers: SSEStreamHandlers<TEvent>
+  ): DispatchResult {
+    const data = message.data.trim();
+    if (data === '[DONE]') return 'done';
+    if (!data) return 'continue';
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch (parseError) {
+      console.error(`[${serviceName}] Failed to parse SSE event:`, data, parseError);
+      return 'continue';
+    }
+
+    if (this.isErrorPayload(payload)) {
+      const errorData = { error_code: payload.error_code };
+      if (ApiResponseHandler.checkLoginRequired(errorData, 0)) {
+        ApiResponseHandler.handleLoginRequired(handlers.onLoginRequired, serviceName);
+      } else if (ApiResponseHandler.checkSubscriptionRequired(errorData, 0)) {
+        ApiResponseHandler.handleSubscriptionRequired(handlers.onSubscriptionRequired, serviceName);
+      } else {
+        handlers.onError(
+          payload.error_code || 'UNKNOWN_ERROR',
+          payload.error_message || 'An error occurred'
+        );
+      }
+      return 'stop';
+    }
+
+    handlers.onEvent(payload as TEvent);
+    return 'continue';
+  }
+
+  private static isErrorPayload(payload: unknown): payload is SSEErrorPayload {
+    return typeof payload === 'object' && payload !== null && (payload as { type?: unknown }).type === 'error';
+  }
+}
@@ -3,10 +3,10 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { SaveImageRequest, SavedImageResponse } from './dto/SavedImageDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Callbacks
 export interface SaveImageCallbacks {
@@ -38,14 +38,12 @@ export class SavedImageService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedImageService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -68,7 +66,6 @@ export class SavedImageService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -149,14 +146,10 @@ export class SavedImageService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${savedImageId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedImageService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -175,9 +168,6 @@ export class SavedImageService {
               {
                 url,
                 method: 'DELETE',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
@@ -3,11 +3,11 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
-import { SaveLinkRequest, SavedLinkResponse } from './dto/SavedLinkDTO';
+import { SaveLinkRequest, SavedLinkResponse, GetSavedLinksResponse } from './dto/SavedLinkDTO';
 import { FolderResponse } from './dto/SavedParagraphDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Callbacks
 export interface SaveLinkCallbacks {
@@ -24,6 +24,13 @@ export interface RemoveSavedLinkCallbacks {
   onSubscriptionRequired?: () => void;
 }
 
+export interface GetSavedLinksCallbacks {
+  onSuccess: (response: GetSavedLinksResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+  onSubscriptionRequired?: () => void;
+}
+
 export interface CreateLinkFolderCallbacks {
   onSuccess: (response: FolderResponse) => void;
   onError: (errorCode: string, errorMessage: string) => void;
@@ -46,14 +53,12 @@ export class SavedLinkService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedLinkService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -76,7 +81,6 @@ export class SavedLinkService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -157,14 +161,10 @@ export class SavedLinkService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${linkId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedLinkService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -183,9 +183,6 @@ export class SavedLinkService {
               {
                 url,
                 method: 'DELETE',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
@@ -254,6 +251,108 @@ export class SavedLinkService {
     }
   }
 
+  /**
+   * Get saved links in a folder with pagination
+   */
+  static async getSavedLinksByFolder(
+    folderId: string,
+    offset: number = 0,
+    limit: number = 50,
+    callbacks: GetSavedLinksCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/?folder_id=${encodeURIComponent(folderId)}&offset=${offset}&limit=${limit}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'GET',
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      // Sync unauthenticated user ID from response headers
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'SavedLinkService');
+
+      // Handle 401 errors with TOKEN_EXPIRED check
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            // Retry request with token refresh
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'GET',
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'SavedLinkService'
+            );
+            
+            if (!retryResponse.ok) {
+              const errorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = errorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = errorData.error_message || errorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+            
+            const data: GetSavedLinksResponse = await retryResponse.json();
+            callbacks.onSuccess(data);
+            return;
+          } catch (refreshError) {
+            console.error('[SavedLinkService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+        
+        // Handle other 401 errors (LOGIN_REQUIRED)
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'SavedLinkService');
+          return;
+        }
+        
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        
+        // Check for LOGIN_REQUIRED in error response body (regardless of status code)
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'SavedLinkService');
+          return;
+        }
+        
+        // Check for SUBSCRIPTION_REQUIRED in error response body (regardless of status code)
+        if (ApiResponseHandler.checkSubscriptionRequired(errorData, response.status)) {
+          ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'SavedLinkService');
+          return;
+        }
+        
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: GetSavedLinksResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+
   /**
    * Create a link folder
    */
@@ -263,14 +362,12 @@ export class SavedLinkService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/folder`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedLinkService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -293,7 +390,6 @@ export class SavedLinkService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -3,10 +3,10 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
-import { SaveParagraphRequest, SavedParagraphResponse, CreateParagraphFolderRequest, FolderResponse } from './dto/SavedParagraphDTO';
+import { SaveParagraphRequest, SavedParagraphResponse, GetSavedParagraphsResponse, CreateParagraphFolderRequest, FolderResponse } from './dto/SavedParagraphDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Callbacks
 export interface SaveParagraphCallbacks {
@@ -16,6 +16,11 @@ export interface SaveParagraphCallbacks {
   onSubscriptionRequired?: () => void;
 }
 
+export interface GetSavedParagraphsCallbacks {
+  onSuccess: (response: GetSavedParagraphsResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+}
+
 export interface CreateParagraphFolderCallbacks {
   onSuccess: (response: FolderResponse) => void;
   onError: (errorCode: string, errorMessage: string) => void;
@@ -45,14 +50,12 @@ export class SavedParagraphService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedParagraphService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -75,7 +78,6 @@ export class SavedParagraphService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -156,14 +158,12 @@ export class SavedParagraphService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/folder`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedParagraphService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -186,7 +186,6 @@ export class SavedParagraphService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -258,6 +257,88 @@ export class SavedParagraphService {
     }
   }
 
+  /**
+   * Get the paragraphs saved from a page. Read on page load, so a 401 is
+   * reported through onError rather than prompting the user to sign in.
+   */
+  static async getSavedParagraphsBySourceUrl(
+    sourceUrl: string,
+    callbacks: GetSavedParagraphsCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/?source_url=${encodeURIComponent(sourceUrl)}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'GET',
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      // Sync unauthenticated user ID from response headers
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'SavedParagraphService');
+
+      // Handle 401 errors with TOKEN_EXPIRED check
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            // Retry request with token refresh
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'GET',
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'SavedParagraphService'
+            );
+            
+            if (!retryResponse.ok) {
+              const errorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = errorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = errorData.error_message || errorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+            
+            const data: GetSavedParagraphsResponse = await retryResponse.json();
+            callbacks.onSuccess(data);
+            return;
+          } catch (refreshError) {
+            console.error('[SavedParagraphService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+        
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: GetSavedParagraphsResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+
   /**
    * Remove a saved paragraph
    */
@@ -267,14 +348,10 @@ export class SavedParagraphService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${paragraphId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedParagraphService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -293,9 +370,6 @@ export class SavedParagraphService {
               {
                 url,
                 method: 'DELETE',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
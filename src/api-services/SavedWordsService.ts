@@ -3,9 +3,9 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Types
 
@@ -68,14 +68,12 @@ export class SavedWordsService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedWordsService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -98,7 +96,6 @@ export class SavedWordsService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -179,14 +176,10 @@ export class SavedWordsService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${wordId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedWordsService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -205,9 +198,6 @@ export class SavedWordsService {
               {
                 url,
                 method: 'DELETE',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
@@ -286,14 +276,10 @@ export class SavedWordsService {
     abortSignal?: AbortSignal
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}?offset=${offset}&limit=${limit}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('SavedWordsService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -312,9 +298,6 @@ export class SavedWordsService {
               {
                 url,
                 method: 'GET',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
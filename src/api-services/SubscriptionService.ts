@@ -2,12 +2,12 @@
 // Service for fetching user subscription status from backend
 
 import { ENV } from '@/config/env';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { TokenRefreshService } from './TokenRefreshService';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import type { SubscriptionStatusDTO } from './dto/SubscriptionDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 /**
  * Service for fetching user subscription status from backend API.
@@ -40,13 +40,11 @@ export class SubscriptionService {
 
       const userId = accountSettings.userId;
       const url = `${ENV.API_BASE_URL}${this.ENDPOINT_PREFIX}/${userId}`;
-      const authHeaders = await ApiHeaders.getAuthHeaders('SubscriptionService');
 
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         credentials: 'include',
       });
@@ -69,7 +67,6 @@ export class SubscriptionService {
                   method: 'GET',
                   headers: {
                     'Content-Type': 'application/json',
-                    ...authHeaders,
                   },
                   credentials: 'include',
                 },
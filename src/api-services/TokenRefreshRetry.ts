@@ -4,6 +4,7 @@
 import { TokenRefreshService } from './TokenRefreshService';
 import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
+import { BackgroundFetch, isBrokeredRequest } from './BackgroundFetch';
 
 export interface RequestConfig {
   url: string;
@@ -39,6 +40,7 @@ export class TokenRefreshRetry {
     requestConfig: RequestConfig,
     serviceName: string
   ): Promise<Response> {
+    this.assertNotBrokered(requestConfig, serviceName);
     console.log(`[${serviceName}] Token expired, attempting refresh`);
 
     // Refresh the token
@@ -64,7 +66,7 @@ export class TokenRefreshRetry {
     }
 
     // Retry the request
-    const retryResponse = await fetch(requestConfig.url, {
+    const retryResponse = await BackgroundFetch.fetch(requestConfig.url, {
       method: requestConfig.method || 'POST',
       headers: retryHeaders,
       body: requestConfig.body,
@@ -90,6 +92,7 @@ export class TokenRefreshRetry {
     requestConfig: RequestConfig,
     serviceName: string
   ): Promise<Response> {
+    this.assertNotBrokered(requestConfig, serviceName);
     console.log(`[${serviceName}] Token expired, attempting refresh for SSE request`);
 
     // Refresh the token
@@ -120,7 +123,7 @@ export class TokenRefreshRetry {
     }
 
     // Retry the request
-    const retryResponse = await fetch(requestConfig.url, {
+    const retryResponse = await BackgroundFetch.fetch(requestConfig.url, {
       method: requestConfig.method || 'POST',
       headers: retryHeaders,
       body: requestConfig.body,
@@ -133,5 +136,16 @@ export class TokenRefreshRetry {
 
     return retryResponse;
   }
-}
 
+  /**
+   * The background worker already refreshed and retried a brokered request, so
+   * a TOKEN_EXPIRED answer means that refresh failed; refreshing again would only
+   * repeat it.
+   * @throws Error for brokered requests
+   */
+  private static assertNotBrokered(requestConfig: RequestConfig, serviceName: string): void {
+    if (isBrokeredRequest(requestConfig.url, requestConfig.body)) {
+      throw new Error(`[${serviceName}] Token refresh already failed in the background worker`);
+    }
+  }
+}
@@ -3,6 +3,7 @@
 
 import { ENV } from '@/config/env';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import { isBackgroundContext } from '@/utils/extensionContext';
 import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import type { LoginResponse } from './AuthService';
@@ -12,17 +13,15 @@ class LoginRequiredError extends Error {
   constructor() { super('LOGIN_REQUIRED'); }
 }
 
+/** Message type asking the background worker to refresh the access token */
+export const REFRESH_ACCESS_TOKEN_MESSAGE = 'REFRESH_ACCESS_TOKEN';
+
 /**
  * Service for handling token refresh operations
  */
 export class TokenRefreshService {
   private static readonly REFRESH_TOKEN_ENDPOINT = '/api/auth/refresh-token';
 
-  /** Lock TTL in ms — if a tab crashes while holding the lock, it auto-expires. */
-  private static readonly LOCK_TTL_MS = 15_000;
-  /** How often waiting tabs poll Chrome storage for the lock to be released. */
-  private static readonly LOCK_POLL_INTERVAL_MS = 200;
-
   /**
    * Delays (ms) between successive LOGIN_REQUIRED retries.
    * Attempt 1 → 100 ms, attempt 2 → 200 ms, attempt 3 → 200 ms.
@@ -31,132 +30,48 @@ export class TokenRefreshService {
   private static readonly REFRESH_RETRY_DELAYS_MS = [100, 200, 200];
 
   /**
-   * Level 1 (intra-tab): in-memory promise mutex.
-   * Ensures that concurrent callers inside the same tab share one promise.
+   * In-memory promise mutex: concurrent callers in this context share one refresh.
+   * Refreshes all run in the background worker, so in the worker this also
+   * covers every tab.
    */
   private static refreshPromise: Promise<LoginResponse> | null = null;
 
   /**
    * Public entry point.
-   * Level 1 — in-memory mutex (same-tab concurrency).
-   * Level 2 — Chrome storage lock (cross-tab concurrency, e.g. laptop sleep/wake).
+   * Content scripts and extension pages ask the background worker, which does
+   * the refresh once for everyone; the worker refreshes itself.
    */
   static async refreshAccessToken(): Promise<LoginResponse> {
     if (this.refreshPromise) {
-      console.log('[TokenRefreshService] Refresh already in progress in this tab, reusing promise');
+      console.log('[TokenRefreshService] Refresh already in progress, reusing promise');
       return this.refreshPromise;
     }
 
-    this.refreshPromise = this._refreshWithStorageLock().finally(() => {
-      this.refreshPromise = null;
-    });
+    this.refreshPromise = (isBackgroundContext() ? this._executeRefreshWithRetry() : this._refreshInBackground())
+      .finally(() => {
+        this.refreshPromise = null;
+      });
 
     return this.refreshPromise;
   }
 
   /**
-   * Level 2 — Chrome storage distributed lock.
-   * Tries to acquire the lock; if another tab already holds it, waits for that
-   * tab to finish and then reads the fresh tokens from storage.
+   * Ask the background worker to refresh. Falls back to refreshing here if the
+   * worker can't be reached (e.g. the extension was reloaded under an open tab).
    */
-  private static async _refreshWithStorageLock(): Promise<LoginResponse> {
-    const lockId = await this._acquireStorageLock();
-
-    if (!lockId) {
-      console.log('[TokenRefreshService] Another tab holds the refresh lock, waiting for it to finish');
-      return this._waitForOtherTabRefresh();
-    }
-
-    console.log(`[TokenRefreshService] Acquired refresh lock (${lockId})`);
+  private static async _refreshInBackground(): Promise<LoginResponse> {
+    let response: { success: boolean; data?: LoginResponse; error?: string } | undefined;
     try {
-      return await this._executeRefreshWithRetry();
-    } finally {
-      await this._releaseStorageLock(lockId);
-      console.log(`[TokenRefreshService] Released refresh lock (${lockId})`);
-    }
-  }
-
-  /**
-   * Try to acquire the Chrome storage lock using an optimistic write-then-verify
-   * pattern.  Chrome storage operations are serialized within the extension so
-   * the race window is extremely narrow.
-   * @returns The lockId string if acquired, null if another tab already holds it.
-   */
-  private static async _acquireStorageLock(): Promise<string | null> {
-    const now = Date.now();
-    const existingLock = await ChromeStorage.getTokenRefreshLock();
-
-    // If a live (non-expired) lock exists, don't even attempt
-    if (existingLock && now - existingLock.acquiredAt < this.LOCK_TTL_MS) {
-      return null;
-    }
-
-    // Optimistically write our lock
-    const lockId = `${now}-${Math.random().toString(36).slice(2)}`;
-    await ChromeStorage.setTokenRefreshLock({ lockId, acquiredAt: now });
-
-    // Re-read to verify we won the race
-    const verifyLock = await ChromeStorage.getTokenRefreshLock();
-    if (verifyLock?.lockId !== lockId) {
-      return null;
+      response = await chrome.runtime.sendMessage({ type: REFRESH_ACCESS_TOKEN_MESSAGE });
+    } catch (error) {
+      console.warn('[TokenRefreshService] Background worker unreachable, refreshing in this tab:', error);
+      return this._executeRefreshWithRetry();
     }
 
-    return lockId;
-  }
-
-  /**
-   * Release the lock only if we still own it (guards against TTL takeovers).
-   */
-  private static async _releaseStorageLock(lockId: string): Promise<void> {
-    const current = await ChromeStorage.getTokenRefreshLock();
-    if (current?.lockId === lockId) {
-      await ChromeStorage.setTokenRefreshLock(null);
+    if (!response?.success || !response.data) {
+      throw new Error(response?.error || 'Token refresh failed');
     }
-  }
-
-  /**
-   * Called by tabs that lost the lock race.
-   * Polls every LOCK_POLL_INTERVAL_MS until the winning tab releases the lock,
-   * then returns the fresh tokens written to storage by that tab.
-   * If the lock never releases within LOCK_TTL_MS (holding tab crashed),
-   * this tab takes over and calls _executeRefresh() itself.
-   */
-  private static async _waitForOtherTabRefresh(): Promise<LoginResponse> {
-    const deadline = Date.now() + this.LOCK_TTL_MS;
-
-    while (Date.now() < deadline) {
-      await new Promise<void>((resolve) => setTimeout(resolve, this.LOCK_POLL_INTERVAL_MS));
-
-      const lock = await ChromeStorage.getTokenRefreshLock();
-      const lockExpiredOrGone = !lock || Date.now() - lock.acquiredAt >= this.LOCK_TTL_MS;
-
-      if (lockExpiredOrGone) {
-        // The winning tab has finished (or crashed). Read the fresh tokens.
-        const authInfo = await ChromeStorage.getAuthInfo();
-        if (authInfo?.accessToken && authInfo?.refreshToken) {
-          console.log('[TokenRefreshService] Got fresh tokens from storage after waiting for other tab');
-          return {
-            isLoggedIn: authInfo.isLoggedIn ?? true,
-            accessToken: authInfo.accessToken,
-            refreshToken: authInfo.refreshToken,
-            accessTokenExpiresAt: authInfo.accessTokenExpiresAt ?? 0,
-            refreshTokenExpiresAt: authInfo.refreshTokenExpiresAt ?? 0,
-            userSessionPk: authInfo.userSessionPk ?? '',
-            user: authInfo.user ?? { id: '', name: '', email: '' },
-          } as LoginResponse;
-        }
-
-        // Storage has no valid tokens — the other tab's refresh must have failed.
-        // Try to do the refresh ourselves.
-        console.log('[TokenRefreshService] Lock released but no fresh tokens found, attempting own refresh');
-        return this._executeRefreshWithRetry();
-      }
-    }
-
-    // Deadline exceeded — holding tab likely crashed. Take over.
-    console.warn('[TokenRefreshService] Lock TTL exceeded, taking over refresh');
-    await ChromeStorage.setTokenRefreshLock(null);
-    return this._executeRefreshWithRetry();
+    return response.data;
   }
 
   /**
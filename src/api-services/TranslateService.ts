@@ -3,10 +3,11 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { ChromeTranslatorService, toBcp47 } from './ChromeTranslatorService';
+import { BackgroundFetch } from './BackgroundFetch';
+import { TranslationMemory } from './TranslationMemory';
 
 // Types
 export interface TranslateTextItem {
@@ -274,14 +275,12 @@ export class TranslateService {
     abortController?: AbortController
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('TranslateService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortController?.signal,
@@ -305,7 +304,6 @@ export class TranslateService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortController?.signal,
@@ -396,12 +394,18 @@ export class TranslateService {
 /** Timeout (ms) for the Chrome Translator API path before falling back. */
 const CHROME_API_TIMEOUT_MS = 15_000;
 
+/** Source language in memory keys when it cannot be detected (backend-only browsers) */
+const UNKNOWN_SOURCE_LANGUAGE = 'auto';
+
 /**
  * Try the Chrome built-in Translator API first.  If the browser does not
  * support it, the requested language pair is unavailable, or the call takes
  * longer than `CHROME_API_TIMEOUT_MS`, fall back to the backend SSE endpoint
  * transparently.
  *
+ * Texts translated before (on any page) come from the translation memory and
+ * are reported through `onProgress` straight away; only the rest are sent on.
+ *
  * The callback interface is identical to `TranslateService.translate()` so
  * callers can swap in this function without any other changes.
  */
@@ -417,11 +421,72 @@ export async function translateWithFallback(
   const chromeAvailable = await ChromeTranslatorService.ensureAvailable();
   console.log('[translateWithFallback] Chrome Translator API available:', chromeAvailable);
 
+  // Detect page source language (best-effort); it is part of the memory key
+  const sampleText = request.texts[0]?.text ?? '';
+  const sourceLang = chromeAvailable
+    ? await ChromeTranslatorService.detectSourceLanguage(sampleText)
+    : UNKNOWN_SOURCE_LANGUAGE;
+
+  // --- 2. Translation memory ---
+  const memoryKeys = await Promise.all(
+    request.texts.map((item) => TranslationMemory.keyFor(item.text, sourceLang, request.targetLangugeCode)),
+  );
+  const results = await TranslationMemory.lookup(memoryKeys);
+  const missing: number[] = [];
+  results.forEach((remembered, i) => {
+    if (remembered === null) {
+      missing.push(i);
+    } else {
+      callbacks.onProgress?.(i, remembered);
+    }
+  });
+  console.log('[translateWithFallback] Translation memory hits:', request.texts.length - missing.length,
+    'of', request.texts.length);
+
+  if (missing.length === 0) {
+    callbacks.onSuccess(results as string[]);
+    return;
+  }
+
+  // Translate the rest, mapping their positions back onto the full request
+  const missingCallbacks: TranslateCallbacks = {
+    ...callbacks,
+    onProgress: (index, translatedText) => {
+      if (index < missing.length) callbacks.onProgress?.(missing[index], translatedText);
+    },
+    onSuccess: (translatedTexts) => {
+      const learned: { key: string; translatedText: string }[] = [];
+      translatedTexts.forEach((translatedText, i) => {
+        if (i >= missing.length) return;
+        results[missing[i]] = translatedText;
+        if (translatedText) learned.push({ key: memoryKeys[missing[i]], translatedText });
+      });
+      TranslationMemory.remember(learned);
+      callbacks.onSuccess(results.map((text) => text ?? ''));
+    },
+  };
+
+  await translateUncached(
+    { ...request, texts: missing.map((i) => request.texts[i]) },
+    missingCallbacks,
+    chromeAvailable,
+    sourceLang,
+    abortController,
+  );
+}
+
+/**
+ * The Chrome Translator API / backend part of `translateWithFallback`
+ */
+async function translateUncached(
+  request: TranslateRequest,
+  callbacks: TranslateCallbacks,
+  chromeAvailable: boolean,
+  sourceLang: string,
+  abortController?: AbortController,
+): Promise<void> {
   if (chromeAvailable) {
     try {
-      // Detect page source language (best-effort)
-      const sampleText = request.texts[0]?.text ?? '';
-      const sourceLang = await ChromeTranslatorService.detectSourceLanguage(sampleText);
       const targetBcp47 = toBcp47(request.targetLangugeCode);
       console.log('[translateWithFallback] Source lang:', sourceLang, 'Target BCP47:', targetBcp47);
 
@@ -485,7 +550,7 @@ export async function translateWithFallback(
     console.log('[translateWithFallback] Chrome Translator API NOT available in this context, using backend');
   }
 
-  // --- 2. Fallback: backend SSE translation ---
+  // --- 3. Fallback: backend SSE translation ---
   console.log('[translateWithFallback] Falling back to backend TranslateService');
   await TranslateService.translate(request, callbacks, abortController);
 }
@@ -0,0 +1,68 @@
+// src/api-services/TranslationMemory.ts
+// Persistent translation memory consulted by translateWithFallback.
+// Each translate request costs one lookup for all of its texts and one write for
+// the new translations. The memory is an optimisation: failures are logged and
+// treated as misses.
+
+import { sha256 } from '@/content/utils/urlHasher';
+import type {
+  TranslationMemoryRequest,
+  TranslationMemoryStats,
+} from '@/storage/indexed-db/translationMemoryStore';
+
+/** Message type handled by the background worker */
+export const TRANSLATION_MEMORY_MESSAGE = 'TRANSLATION_MEMORY';
+
+export class TranslationMemory {
+  /**
+   * Memory key for a source text and language pair. Texts are hashed so the
+   * memory never holds the pages' original text.
+   */
+  static async keyFor(text: string, sourceLanguage: string, targetLanguage: string): Promise<string> {
+    return `${sourceLanguage.toLowerCase()}:${targetLanguage.toLowerCase()}:${await sha256(text)}`;
+  }
+
+  /** Remembered translations for `keys`, in order; null where there is none */
+  static async lookup(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    try {
+      return await this.send<(string | null)[]>({ op: 'lookup', keys });
+    } catch (error) {
+      console.warn('[TranslationMemory] Lookup failed:', error);
+      return keys.map(() => null);
+    }
+  }
+
+  static async remember(entries: { key: string; translatedText: string }[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await this.send({ op: 'store', entries });
+    } catch (error) {
+      console.warn('[TranslationMemory] Store failed:', error);
+    }
+  }
+
+  static getStats(): Promise<TranslationMemoryStats> {
+    return this.send<TranslationMemoryStats>({ op: 'getStats' });
+  }
+
+  static clear(): Promise<void> {
+    return this.send({ op: 'clear' });
+  }
+
+  private static send<T>(request: TranslationMemoryRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: TRANSLATION_MEMORY_MESSAGE, request }, (response) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message || 'Extension messaging failed'));
+          return;
+        }
+        if (!response?.success) {
+          reject(new Error(response?.error || 'Translation memory request failed'));
+          return;
+        }
+        resolve(response.data as T);
+      });
+    });
+  }
+}
@@ -3,10 +3,10 @@
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import type { UserFeedbackRequest, UserFeedbackResponse } from './dto/UserFeedbackDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface SubmitFeedbackCallbacks {
   onSuccess: (response: UserFeedbackResponse) => void;
@@ -28,14 +28,12 @@ export class UserFeedbackService {
     callbacks: SubmitFeedbackCallbacks
   ): Promise<void> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('UserFeedbackService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         credentials: 'include',
@@ -54,7 +52,6 @@ export class UserFeedbackService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 credentials: 'include',
               },
@@ -2,11 +2,11 @@
 // Service for fetching and updating user account settings from backend
 
 import { ENV } from '@/config/env';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import type { UserAccountSettingsDTO } from '@/storage/chrome-local/dto/UserAccountSettingsDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 /**
  * Request body for updating user settings via PATCH /api/user-settings
@@ -48,13 +48,11 @@ export class UserSettingsService {
   static async syncUserAccountSettings(): Promise<void> {
     try {
       const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-      const authHeaders = await ApiHeaders.getAuthHeaders('UserSettingsService');
 
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         credentials: 'include',
       });
@@ -77,7 +75,6 @@ export class UserSettingsService {
                   method: 'GET',
                   headers: {
                     'Content-Type': 'application/json',
-                    ...authHeaders,
                   },
                   credentials: 'include',
                 },
@@ -146,13 +143,11 @@ export class UserSettingsService {
    */
   static async updateUserSettings(body: UpdateSettingsRequest): Promise<UserAccountSettingsDTO> {
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('UserSettingsService.update');
 
-    const response = await fetch(url, {
+    const response = await BackgroundFetch.fetch(url, {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
-        ...authHeaders,
       },
       body: JSON.stringify(body),
       credentials: 'include',
@@ -174,7 +169,6 @@ export class UserSettingsService {
               method: 'PATCH',
               headers: {
                 'Content-Type': 'application/json',
-                ...authHeaders,
               },
               body: JSON.stringify(body),
               credentials: 'include',
@@ -215,7 +209,7 @@ export class UserSettingsService {
   static async getAllLanguages(): Promise<GetAllLanguagesResponse> {
     const url = `${ENV.API_BASE_URL}${this.LANGUAGES_ENDPOINT}`;
 
-    const response = await fetch(url, {
+    const response = await BackgroundFetch.fetch(url, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
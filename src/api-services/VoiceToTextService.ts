@@ -6,6 +6,7 @@ import { TokenRefreshService } from './TokenRefreshService';
 import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // Types
 export interface VoiceToTextRequest {
@@ -44,7 +45,7 @@ export class VoiceToTextService {
       const formData = new FormData();
       formData.append('audio', audioBlob, 'recording.webm');
 
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           // Don't set Content-Type header - browser will set it with boundary for FormData
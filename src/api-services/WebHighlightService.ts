@@ -1,16 +1,20 @@
 // src/api-services/WebHighlightService.ts
-// Service for managing web highlights (browser extension text highlights)
+// Service for managing web highlights (browser extension text highlights).
+// Signed-out users are served by LocalAnnotationAdapter (device-local IndexedDB).
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { LocalAnnotationAdapter } from './LocalAnnotationAdapter';
 import type {
   CreateWebHighlightRequest,
   CreatedWebHighlightResponse,
   GetWebHighlightsResponse,
+  UpdateWebHighlightRequest,
+  UpdatedWebHighlightResponse,
 } from './dto/WebHighlightDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface GetHighlightsCallbacks {
   onSuccess: (response: GetWebHighlightsResponse) => void;
@@ -23,6 +27,12 @@ export interface CreateHighlightCallbacks {
   onLoginRequired?: () => void;
 }
 
+export interface UpdateHighlightCallbacks {
+  onSuccess: (response: UpdatedWebHighlightResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+}
+
 export interface DeleteHighlightCallbacks {
   onSuccess: () => void;
   onError: (errorCode: string, errorMessage: string) => void;
@@ -37,23 +47,25 @@ export class WebHighlightService {
 
   /**
    * Fetch all highlights for the authenticated user on a specific page URL.
-   * Returns empty list if unauthenticated (no 401 from the backend).
+   * Signed-out users get the highlights stored on this device.
    */
   static async getHighlights(
     pageUrl: string,
     callbacks: GetHighlightsCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.getHighlights(pageUrl, callbacks);
+    }
+
     const encodedUrl = encodeURIComponent(pageUrl);
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}?url=${encodedUrl}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebHighlightService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         signal: abortSignal,
         credentials: 'include',
@@ -82,21 +94,24 @@ export class WebHighlightService {
 
   /**
    * Create a new web highlight for the authenticated user.
+   * Signed-out users save it on this device instead.
    */
   static async createHighlight(
     request: CreateWebHighlightRequest,
     callbacks: CreateHighlightCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.createHighlight(request, callbacks);
+    }
+
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebHighlightService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...authHeaders,
         },
         body: JSON.stringify(request),
         signal: abortSignal,
@@ -116,7 +131,6 @@ export class WebHighlightService {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(request),
                 signal: abortSignal,
@@ -180,6 +194,110 @@ export class WebHighlightService {
     }
   }
 
+  /**
+   * Change the colour of an existing highlight (PATCH).
+   * 404 → highlight was deleted elsewhere; reported as an error.
+   */
+  static async updateHighlight(
+    highlightId: string,
+    color: string,
+    callbacks: UpdateHighlightCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.updateHighlight(highlightId, color, callbacks);
+    }
+
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${highlightId}`;
+    const body = JSON.stringify({ color } satisfies UpdateWebHighlightRequest);
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body,
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WebHighlightService');
+
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'PATCH',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body,
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'WebHighlightService'
+            );
+
+            if (!retryResponse.ok) {
+              const retryErrorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = retryErrorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = retryErrorData.error_message || retryErrorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+
+            const data: UpdatedWebHighlightResponse = await retryResponse.json();
+            callbacks.onSuccess(data);
+            return;
+          } catch (refreshError) {
+            console.error('[WebHighlightService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebHighlightService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebHighlightService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: UpdatedWebHighlightResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+
   /**
    * Delete a web highlight by ID.
    * 404 is treated as a soft success (highlight already gone).
@@ -190,15 +308,15 @@ export class WebHighlightService {
     callbacks: DeleteHighlightCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.deleteHighlight(highlightId, callbacks);
+    }
+
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${highlightId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebHighlightService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: {
-          ...authHeaders,
-        },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -214,9 +332,6 @@ export class WebHighlightService {
               {
                 url,
                 method: 'DELETE',
-                headers: {
-                  ...authHeaders,
-                },
                 signal: abortSignal,
                 credentials: 'include',
               },
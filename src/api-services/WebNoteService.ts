@@ -1,19 +1,21 @@
 // src/api-services/WebNoteService.ts
 // Service for managing web notes (browser extension notes on text selections).
 // Follows the exact same pattern as WebHighlightService.ts.
-// Note: the backend returns 200 with null/empty for unauthenticated requests
-// instead of 401, so no login-required handling is needed in most flows.
+// Signed-out users are served by LocalAnnotationAdapter (device-local IndexedDB),
+// so the backend's null/empty answers for unauthenticated requests are only seen
+// when a session lapses without the stored auth info being cleared.
 
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { LocalAnnotationAdapter } from './LocalAnnotationAdapter';
 import type {
   CreateWebNoteRequest,
   GetWebNotesResponse,
   WebNoteWriteResponse,
 } from './dto/WebNoteDTO';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface GetNotesCallbacks {
   onSuccess: (response: GetWebNotesResponse) => void;
@@ -37,21 +39,24 @@ export class WebNoteService {
 
   /**
    * Fetch all notes for the authenticated user on a specific page URL.
-   * Returns empty list when unauthenticated (backend returns 200 with []).
+   * Signed-out users get the notes stored on this device.
    */
   static async getWebNotes(
     pageUrl: string,
     callbacks: GetNotesCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.getWebNotes(pageUrl, callbacks);
+    }
+
     const encodedUrl = encodeURIComponent(pageUrl);
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}?url=${encodedUrl}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebNoteService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'GET',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json' },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -79,22 +84,25 @@ export class WebNoteService {
   }
 
   /**
-   * Create a new web note.
-   * When unauthenticated the backend returns 200 { note: null } — onSuccess is
-   * called with that null note so the caller can handle it gracefully.
+   * Create a new web note (on this device for signed-out users).
+   * When the backend sees the request as unauthenticated it returns 200 { note: null };
+   * onSuccess is called with that null note so the caller can handle it gracefully.
    */
   static async createNote(
     request: CreateWebNoteRequest,
     callbacks: WriteNoteCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.createNote(request, callbacks);
+    }
+
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebNoteService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(request),
         signal: abortSignal,
         credentials: 'include',
@@ -111,7 +119,7 @@ export class WebNoteService {
               {
                 url,
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json', ...authHeaders },
+                headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(request),
                 signal: abortSignal,
                 credentials: 'include',
@@ -187,14 +195,17 @@ export class WebNoteService {
     callbacks: WriteNoteCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.updateNote(noteId, content, callbacks);
+    }
+
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${noteId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebNoteService');
     const body = JSON.stringify({ content });
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json', ...authHeaders },
+        headers: { 'Content-Type': 'application/json' },
         body,
         signal: abortSignal,
         credentials: 'include',
@@ -211,7 +222,7 @@ export class WebNoteService {
               {
                 url,
                 method: 'PATCH',
-                headers: { 'Content-Type': 'application/json', ...authHeaders },
+                headers: { 'Content-Type': 'application/json' },
                 body,
                 signal: abortSignal,
                 credentials: 'include',
@@ -287,13 +298,15 @@ export class WebNoteService {
     callbacks: DeleteNoteCallbacks,
     abortSignal?: AbortSignal
   ): Promise<void> {
+    if (await LocalAnnotationAdapter.isActive()) {
+      return LocalAnnotationAdapter.deleteNote(noteId, callbacks);
+    }
+
     const url = `${ENV.API_BASE_URL}${this.ENDPOINT}/${noteId}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebNoteService');
 
     try {
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'DELETE',
-        headers: { ...authHeaders },
         signal: abortSignal,
         credentials: 'include',
       });
@@ -309,7 +322,6 @@ export class WebNoteService {
               {
                 url,
                 method: 'DELETE',
-                headers: { ...authHeaders },
                 signal: abortSignal,
                 credentials: 'include',
               },
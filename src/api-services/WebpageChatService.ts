@@ -3,11 +3,12 @@
 // Implements classify (JSON POST) and answer (SSE POST) following AskService patterns.
 
 import { ENV } from '@/config/env';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
 import { TokenRefreshService } from './TokenRefreshService';
+import { SSEStreamClient, type SSEStreamHandlers } from './SSEStreamClient';
 import { ChunkMetadata } from '@/content/utils/pageChunker';
+import { BackgroundFetch } from './BackgroundFetch';
 
 // =============================================================================
 // Types
@@ -64,6 +65,11 @@ export interface CitationDetail {
   tabName?: string;
   tabId?: string;
   pageNumber?: number;
+  /** Seconds into the video, for a YouTube transcript chunk */
+  startTime?: number;
+  /** Page the cited chunk came from, when it is not the current page (collection chat) */
+  sourceUrl?: string;
+  sourceTitle?: string;
 }
 
 export interface AnswerCallbacks {
@@ -111,99 +117,52 @@ function translateNumberedCitations(
 }
 
 // =============================================================================
-// SSE stream reader — shared logic extracted for reuse in retry path
+// Answer stream handling — shared with WebpageChatImageService
 // =============================================================================
 
-async function processSSEStream(
-  response: Response,
-  callbacks: AnswerCallbacks,
-  abortController?: AbortController
-): Promise<void> {
-  const reader = response.body?.getReader();
-  if (!reader) {
-    callbacks.onError('STREAM_ERROR', 'Failed to get response reader');
-    return;
-  }
+/** Events streamed by the /answer endpoints (error events are handled by SSEStreamClient) */
+export type AnswerStreamEvent =
+  | { type: 'chunk'; text?: string; accumulated?: string }
+  | { type: 'inline_citation'; citationNumber: number; chunkIds?: string[]; citations?: CitationDetail[] }
+  | { type: 'possible_questions'; possibleQuestions?: string[] };
 
-  const decoder = new TextDecoder();
-  let buffer = '';
+/**
+ * Build SSE handlers that accumulate the answer, translate [N] citation placeholders
+ * and fire onCitations once the stream finishes ([DONE] or natural close).
+ */
+export function createAnswerStreamHandlers(callbacks: AnswerCallbacks): SSEStreamHandlers<AnswerStreamEvent> {
   let accumulated = '';
   const citationMap: Record<string, CitationDetail> = {};
   const citationNumberToChunkIds: Record<number, string[]> = {};
   let possibleQuestions: string[] = [];
 
-  try {
-    // eslint-disable-next-line no-constant-condition
-    outer: while (true) {
-      if (abortController?.signal.aborted) {
-        await reader.cancel();
-        return;
-      }
-
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      if (abortController?.signal.aborted) {
-        await reader.cancel();
-        return;
-      }
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() ?? '';
-
-      for (const line of lines) {
-        if (!line.startsWith('data: ')) continue;
-        const data = line.slice(6).trim();
-
-        // [DONE] signals the stream is complete — commit immediately without
-        // waiting for the HTTP connection to close (which can hang with proxies).
-        if (data === '[DONE]') {
-          break outer;
-        }
-
-        try {
-          const event = JSON.parse(data) as Record<string, unknown>;
-          const evType = event.type as string | undefined;
-
-          if (evType === 'chunk') {
-            const text = (event.text as string) ?? '';
-            accumulated = (event.accumulated as string) ?? accumulated + text;
-            const progressiveAnswer = translateNumberedCitations(accumulated, citationNumberToChunkIds);
-            callbacks.onChunk(text, accumulated, progressiveAnswer);
-          } else if (evType === 'inline_citation') {
-            const citationNumber = event.citationNumber as number;
-            const chunkIds = (event.chunkIds as string[]) ?? [];
-            const citations = (event.citations as CitationDetail[]) ?? [];
-            citationNumberToChunkIds[citationNumber] = chunkIds;
-            for (const c of citations) {
-              citationMap[c.chunkId] = c;
-            }
-            callbacks.onInlineCitation?.(citationNumber, chunkIds, citations);
-          } else if (evType === 'possible_questions') {
-            possibleQuestions = (event.possibleQuestions as string[]) ?? [];
-          } else if (evType === 'error') {
-            const code = (event.error_code as string) ?? 'UNKNOWN_ERROR';
-            const msg = (event.error_message as string) ?? 'An error occurred';
-            if (ApiResponseHandler.checkLoginRequired({ error_code: code }, 0)) {
-              ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatService');
-            } else {
-              callbacks.onError(code, msg);
-            }
-            return;
-          }
-        } catch {
-          // Ignore malformed SSE data lines
+  return {
+    onEvent: (event) => {
+      if (event.type === 'chunk') {
+        const text = event.text ?? '';
+        accumulated = event.accumulated ?? accumulated + text;
+        const progressiveAnswer = translateNumberedCitations(accumulated, citationNumberToChunkIds);
+        callbacks.onChunk(text, accumulated, progressiveAnswer);
+      } else if (event.type === 'inline_citation') {
+        const chunkIds = event.chunkIds ?? [];
+        const citations = event.citations ?? [];
+        citationNumberToChunkIds[event.citationNumber] = chunkIds;
+        for (const c of citations) {
+          citationMap[c.chunkId] = c;
         }
+        callbacks.onInlineCitation?.(event.citationNumber, chunkIds, citations);
+      } else if (event.type === 'possible_questions') {
+        possibleQuestions = event.possibleQuestions ?? [];
       }
-    }
-  } finally {
-    reader.releaseLock();
-  }
-
-  // Fire onCitations whether we exited via [DONE] or natural stream close.
-  const finalAnswer = translateNumberedCitations(accumulated, citationNumberToChunkIds);
-  callbacks.onCitations(finalAnswer, citationMap, possibleQuestions);
+    },
+    onDone: () => {
+      const finalAnswer = translateNumberedCitations(accumulated, citationNumberToChunkIds);
+      callbacks.onCitations(finalAnswer, citationMap, possibleQuestions);
+    },
+    onError: callbacks.onError,
+    onLoginRequired: callbacks.onLoginRequired,
+    onSubscriptionRequired: callbacks.onSubscriptionRequired,
+  };
 }
 
 // =============================================================================
@@ -223,17 +182,13 @@ export class WebpageChatService {
     onLoginRequired: () => void
   ): Promise<ClassifyResult> {
     const url = `${ENV.API_BASE_URL}${this.CLASSIFY_ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebpageChatService.classify');
 
-    const fetchWithHeaders = async (headers: Record<string, string>): Promise<Response> =>
-      fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...headers },
-        body: JSON.stringify(request),
-        credentials: 'include',
-      });
-
-    let response = await fetchWithHeaders(authHeaders);
+    let response = await BackgroundFetch.fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      credentials: 'include',
+    });
     await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WebpageChatService.classify');
 
     // Token refresh retry
@@ -245,7 +200,7 @@ export class WebpageChatService {
             {
               url,
               method: 'POST',
-              headers: { 'Content-Type': 'application/json', ...authHeaders },
+              headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify(request),
               credentials: 'include',
             },
@@ -285,96 +240,14 @@ export class WebpageChatService {
     callbacks: AnswerCallbacks,
     abortController?: AbortController
   ): Promise<void> {
-    const url = `${ENV.API_BASE_URL}${this.ANSWER_ENDPOINT}`;
-    const authHeaders = await ApiHeaders.getAuthHeaders('WebpageChatService.answer');
-
-    const requestBody = JSON.stringify(request);
-    const fetchConfig = {
-      method: 'POST' as const,
-      headers: {
-        'Content-Type': 'application/json',
-        Accept: 'text/event-stream',
-        ...authHeaders,
+    await SSEStreamClient.stream<AnswerStreamEvent>(
+      {
+        url: `${ENV.API_BASE_URL}${this.ANSWER_ENDPOINT}`,
+        body: JSON.stringify(request),
+        serviceName: 'WebpageChatService.answer',
+        abortController,
       },
-      body: requestBody,
-      signal: abortController?.signal,
-      credentials: 'include' as const,
-    };
-
-    try {
-      let response = await fetch(url, fetchConfig);
-      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WebpageChatService.answer');
-
-      // 401 handling with token refresh
-      if (response.status === 401) {
-        const errorData = await ApiResponseHandler.parseErrorResponse(response);
-
-        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
-          try {
-            response = await TokenRefreshRetry.retrySSERequestWithTokenRefresh(
-              {
-                url,
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  Accept: 'text/event-stream',
-                  ...authHeaders,
-                },
-                body: requestBody,
-                signal: abortController?.signal,
-                credentials: 'include',
-              },
-              'WebpageChatService.answer'
-            );
-
-            if (response.status === 401) {
-              const retryErr = await ApiResponseHandler.parseErrorResponse(response);
-              if (ApiResponseHandler.checkLoginRequired(retryErr, response.status)) {
-                ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatService.answer');
-                return;
-              }
-              callbacks.onError('AUTH_ERROR', 'Authentication failed');
-              return;
-            }
-          } catch {
-            await TokenRefreshService.handleTokenRefreshFailure();
-            callbacks.onLoginRequired();
-            return;
-          }
-        } else if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
-          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatService.answer');
-          return;
-        } else {
-          callbacks.onError('AUTH_ERROR', 'Authentication failed');
-          return;
-        }
-      }
-
-      if (!response.ok) {
-        const errorData = await ApiResponseHandler.parseErrorResponse(response);
-        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
-          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatService.answer');
-          return;
-        }
-        if (ApiResponseHandler.checkSubscriptionRequired(errorData, response.status)) {
-          ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'WebpageChatService.answer');
-          return;
-        }
-        callbacks.onError(
-          errorData?.error_code ?? 'HTTP_ERROR',
-          errorData?.error_message ?? `HTTP ${response.status}`
-        );
-        return;
-      }
-
-      await processSSEStream(response, callbacks, abortController);
-    } catch (err) {
-      if (err instanceof Error) {
-        if (err.name === 'AbortError') return;
-        callbacks.onError('NETWORK_ERROR', err.message);
-      } else {
-        callbacks.onError('UNKNOWN_ERROR', 'An unknown error occurred');
-      }
-    }
+      createAnswerStreamHandlers(callbacks)
+    );
   }
 }
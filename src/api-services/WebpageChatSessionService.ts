@@ -0,0 +1,169 @@
+// src/api-services/WebpageChatSessionService.ts
+// Service for syncing "Chat with Webpage" sessions to the backend (cross-browser restore)
+
+import { ENV } from '@/config/env';
+import { TokenRefreshService } from './TokenRefreshService';
+import { ApiResponseHandler } from './ApiResponseHandler';
+import { TokenRefreshRetry } from './TokenRefreshRetry';
+import type {
+  GetWebpageChatSessionsResponse,
+  SaveWebpageChatSessionsRequest,
+} from './dto/WebpageChatSessionDTO';
+import { BackgroundFetch } from './BackgroundFetch';
+
+export interface GetChatSessionsCallbacks {
+  onSuccess: (response: GetWebpageChatSessionsResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+}
+
+export interface SaveChatSessionsCallbacks {
+  onSuccess: () => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+}
+
+/**
+ * Service for syncing webpage chat sessions
+ */
+export class WebpageChatSessionService {
+  private static readonly ENDPOINT = '/api/webpage-chat/sessions';
+
+  /**
+   * Fetch the synced chat sessions for a page URL.
+   * Returns an empty session list if nothing has been synced for the page.
+   */
+  static async getSessions(
+    pageUrl: string,
+    callbacks: GetChatSessionsCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const encodedUrl = encodeURIComponent(pageUrl);
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}?url=${encodedUrl}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WebpageChatSessionService');
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: GetWebpageChatSessionsResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+
+  /**
+   * Replace the synced chat sessions for a page URL.
+   * Returns 204 No Content on success — body is never read.
+   */
+  static async saveSessions(
+    request: SaveWebpageChatSessionsRequest,
+    callbacks: SaveChatSessionsCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WebpageChatSessionService');
+
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'PUT',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(request),
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'WebpageChatSessionService'
+            );
+
+            if (!retryResponse.ok) {
+              const retryErrorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = retryErrorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = retryErrorData.error_message || retryErrorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+
+            callbacks.onSuccess();
+            return;
+          } catch (refreshError) {
+            console.error('[WebpageChatSessionService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatSessionService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WebpageChatSessionService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      callbacks.onSuccess();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// src/api-services/WordExplanationParser.check.ts
+// Runs every fixture through the parser, whole and fed one character at a time,
+// and throws if any result differs. Not part of the extension bundle; run with
+// `npm run check:parser`.
+
+import {
+  parseWordExplanation,
+  WordExplanationParseError,
+  WordExplanationStreamParser,
+  type ParsedWordExplanation,
+} from './WordExplanationParser';
+import { WORD_EXPLANATION_FIXTURES } from './WordExplanationParser.fixtures';
+
+function parseCharByChar(raw: string): ParsedWordExplanation {
+  const parser = new WordExplanationStreamParser();
+  for (const ch of raw) parser.feed(ch);
+  return parser.finish();
+}
+
+function describe(parse: () => ParsedWordExplanation): unknown {
+  try {
+    const { meaning, examples, issues } = parse();
+    return { meaning, examples, issues: issues.map((issue) => issue.code) };
+  } catch (error) {
+    if (!(error instanceof WordExplanationParseError)) throw error;
+    return { error: error.code, message: error.message };
+  }
+}
+
+const failures: string[] = [];
+
+for (const { name, raw, expected } of WORD_EXPLANATION_FIXTURES) {
+  const results: [string, unknown][] = [
+    ['whole', describe(() => parseWordExplanation(raw))],
+    ['char by char', describe(() => parseCharByChar(raw))],
+  ];
+  for (const [mode, actual] of results) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures.push(`${name} (${mode})\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+    }
+  }
+}
+
+if (failures.length > 0) {
+  throw new Error(`${failures.length} word explanation fixture(s) failed:\n${failures.join('\n')}`);
+}
+console.log(`All ${WORD_EXPLANATION_FIXTURES.length} word explanation fixtures passed`);
@@ -0,0 +1,77 @@
+// src/api-services/WordExplanationParser.fixtures.ts
+// Raw responses, well-formed and malformed, with what parseWordExplanation should
+// make of them. Checked by WordExplanationParser.check.ts.
+
+import type { WordExplanationParseErrorCode } from './WordExplanationParser';
+
+export interface WordExplanationFixture {
+  name: string;
+  raw: string;
+  expected:
+    | { meaning: string; examples: string[]; issues: WordExplanationParseErrorCode[] }
+    /** parseWordExplanation throws a WordExplanationParseError with this code and message */
+    | { error: WordExplanationParseErrorCode; message: string };
+}
+
+export const WORD_EXPLANATION_FIXTURES: WordExplanationFixture[] = [
+  {
+    name: 'well-formed',
+    raw: '[[[WORD_MEANING]]]:{to make clear}[[[EXAMPLES]]]:{[[ITEM]]{Let me explain.}[[ITEM]]{She explained the rules.}}',
+    expected: { meaning: 'to make clear', examples: ['Let me explain.', 'She explained the rules.'], issues: [] },
+  },
+  {
+    name: 'whitespace between tokens',
+    raw: '[[[WORD_MEANING]]] : { to make clear }\n[[[EXAMPLES]]]:{\n  [[ITEM]]{Let me explain.}\n}',
+    expected: { meaning: 'to make clear', examples: ['Let me explain.'], issues: [] },
+  },
+  {
+    name: 'balanced braces kept as text',
+    raw: '[[[WORD_MEANING]]]:{a set {of} things}[[[EXAMPLES]]]:{[[ITEM]]{x = {1, 2}}}',
+    expected: { meaning: 'a set {of} things', examples: ['x = {1, 2}'], issues: [] },
+  },
+  {
+    name: 'escaped characters',
+    raw: '[[[WORD_MEANING]]]:{a \\} b \\{ c \\\\ d \\[[[e}',
+    expected: { meaning: 'a } b { c \\ d [[[e', examples: [], issues: [] },
+  },
+  {
+    name: 'stray closing brace in a meaning',
+    raw: '[[[WORD_MEANING]]]:{a } b}[[[EXAMPLES]]]:{[[ITEM]]{one}}',
+    expected: { meaning: 'a } b', examples: ['one'], issues: ['UNBALANCED_BRACE'] },
+  },
+  {
+    name: 'meaning not closed before the next section',
+    raw: '[[[WORD_MEANING]]]:{a[[[EXAMPLES]]]:{[[ITEM]]{one}}',
+    expected: { meaning: 'a', examples: ['one'], issues: ['UNTERMINATED_SECTION'] },
+  },
+  {
+    name: 'item not closed before the next item',
+    raw: '[[[WORD_MEANING]]]:{a}[[[EXAMPLES]]]:{[[ITEM]]{one[[ITEM]]{two}}',
+    expected: { meaning: 'a', examples: ['one', 'two'], issues: ['UNTERMINATED_ITEM'] },
+  },
+  {
+    name: 'response cut off inside an item',
+    raw: '[[[WORD_MEANING]]]:{a}[[[EXAMPLES]]]:{[[ITEM]]{one}[[ITEM]]{tw',
+    expected: { meaning: 'a', examples: ['one', 'tw'], issues: ['UNTERMINATED_ITEM'] },
+  },
+  {
+    name: 'text before the first section',
+    raw: 'junk[[[WORD_MEANING]]]:{a}',
+    expected: { meaning: 'a', examples: [], issues: ['UNEXPECTED_TEXT'] },
+  },
+  {
+    name: 'header without closing brackets',
+    raw: '[[[WORD_MEANING:{a}',
+    expected: { error: 'MISSING_MEANING', message: 'Response has no WORD_MEANING section (MALFORMED_HEADER)' },
+  },
+  {
+    name: 'no meaning section',
+    raw: '[[[EXAMPLES]]]:{[[ITEM]]{one}}',
+    expected: { error: 'MISSING_MEANING', message: 'Response has no WORD_MEANING section' },
+  },
+  {
+    name: 'empty response',
+    raw: '',
+    expected: { error: 'MISSING_MEANING', message: 'Response has no WORD_MEANING section' },
+  },
+];
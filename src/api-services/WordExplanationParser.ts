@@ -0,0 +1,439 @@
+// src/api-services/WordExplanationParser.ts
+// Incremental parser for the word-explanation raw response protocol (no I/O, so it can be checked
+// in isolation; see WordExplanationParser.fixtures.ts).
+
+/**
+ * Protocol:
+ *   response := section*
+ *   section  := "[[[" NAME "]]]" ":" "{" (text | item*) "}"
+ *   item     := "[[ITEM]]" "{" text "}"
+ *
+ * e.g. `[[[WORD_MEANING]]]:{to make clear}[[[EXAMPLES]]]:{[[ITEM]]{Let me explain.}[[ITEM]]{…}}`
+ *
+ * Inside text a backslash escapes the next character (`\}`, `\{`, `\\`, `\[`),
+ * balanced `{…}` pairs are kept as text, and a stray `}` only ends the text if
+ * what follows can end it (the next section, item or end of input); otherwise
+ * it is kept as text. Whitespace between tokens is ignored.
+ *
+ * Malformed input is recovered from where possible and reported as issues
+ * (each case is a fixture in WordExplanationParser.fixtures.ts):
+ *   `…:{a } b}[[[EXAMPLES]]]…`          UNBALANCED_BRACE, meaning "a } b"
+ *   `…:{a[[[EXAMPLES]]]…`               UNTERMINATED_SECTION, meaning "a"
+ *   `…[[ITEM]]{one[[ITEM]]{two}}`       UNTERMINATED_ITEM, examples ["one", "two"]
+ *   `…[[ITEM]]{one}[[ITEM]]{tw` (end)   UNTERMINATED_ITEM, examples ["one", "tw"]
+ *   `junk[[[WORD_MEANING]]]:{a}`        UNEXPECTED_TEXT, meaning "a"
+ *   `[[[WORD_MEANING:{a}`               MALFORMED_HEADER, nothing parsed
+ * A response without a meaning fails with MISSING_MEANING.
+ */
+
+const SECTION_OPEN = '[[[';
+const SECTION_CLOSE = ']]]';
+const ITEM_MARKER = '[[ITEM]]';
+
+const MEANING_SECTION = 'WORD_MEANING';
+const EXAMPLES_SECTION = 'EXAMPLES';
+
+export type WordExplanationParseErrorCode =
+  | 'MALFORMED_HEADER'
+  | 'UNEXPECTED_TEXT'
+  | 'UNBALANCED_BRACE'
+  | 'UNTERMINATED_SECTION'
+  | 'UNTERMINATED_ITEM'
+  | 'MISSING_MEANING';
+
+export class WordExplanationParseError extends Error {
+  constructor(
+    public readonly code: WordExplanationParseErrorCode,
+    message: string,
+    /** Character offset in the response where the problem was found */
+    public readonly offset: number
+  ) {
+    super(message);
+    this.name = 'WordExplanationParseError';
+  }
+}
+
+/** One `[[[NAME]]]:{…}` section. A section is a list once its body starts with `[[ITEM]]`. */
+export interface RawResponseSection {
+  name: string;
+  kind: 'text' | 'list';
+  text: string;
+  items: string[];
+  /** False while the section's closing brace has not been seen */
+  closed: boolean;
+}
+
+export interface ParsedWordExplanation {
+  meaning: string;
+  examples: string[];
+  /** Problems the parser recovered from */
+  issues: WordExplanationParseError[];
+}
+
+export interface PartialWordExplanation {
+  meaning: string;
+  examples: string[];
+}
+
+type TokenizerState =
+  | 'between'
+  | 'header'
+  | 'beforeBody'
+  | 'bodyStart'
+  | 'text'
+  | 'list'
+  | 'beforeItemBody'
+  | 'item';
+
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+}
+
+/** Escape text so it round-trips through the protocol unchanged */
+export function escapeRawText(text: string): string {
+  return text.replace(/[\\{}[\]]/g, '\\$&');
+}
+
+/**
+ * Incremental tokenizer for the raw response protocol.
+ * Input may be split at any character across `feed()` calls; ambiguous input
+ * at the end of a chunk (a partial marker, a trailing backslash, a `}` whose
+ * meaning depends on what follows) is held back until the next chunk.
+ *
+ * Usage:
+ *   const tokenizer = new RawResponseTokenizer();
+ *   tokenizer.feed(chunk);          // returns sections so far, open ones included
+ *   const sections = tokenizer.finish();
+ */
+export class RawResponseTokenizer {
+  private buffer = '';
+  /** Offset of buffer[0] in the whole response */
+  private offset = 0;
+  private state: TokenizerState = 'between';
+  private depth = 0;
+  private sawColon = false;
+  private headerName = '';
+  private inJunk = false;
+  private sections: RawResponseSection[] = [];
+  private current: RawResponseSection | null = null;
+  private issues: WordExplanationParseError[] = [];
+
+  /**
+   * Feed the next chunk of the response.
+   * @returns All sections so far; the last one may still be open
+   */
+  feed(text: string): RawResponseSection[] {
+    this.buffer += text;
+    this.run(false);
+    return this.sections;
+  }
+
+  /** Signal end of input. Open sections and items are closed and reported. */
+  finish(): RawResponseSection[] {
+    this.run(true);
+    if (this.state === 'header' || this.state === 'beforeBody') {
+      this.report('MALFORMED_HEADER', `Section header "${this.headerName}" is incomplete`, 0);
+    } else if (this.state === 'item') {
+      this.report('UNTERMINATED_ITEM', 'Response ended inside an item', 0);
+    } else if (this.current) {
+      this.report('UNTERMINATED_SECTION', `Response ended inside section ${this.current.name}`, 0);
+    }
+    this.closeSection();
+    this.state = 'between';
+    return this.sections;
+  }
+
+  /** Problems recovered from so far */
+  getIssues(): WordExplanationParseError[] {
+    return this.issues;
+  }
+
+  private report(code: WordExplanationParseErrorCode, message: string, index: number): void {
+    this.issues.push(new WordExplanationParseError(code, message, this.offset + index));
+  }
+
+  private openSection(name: string): void {
+    this.current = { name, kind: 'text', text: '', items: [], closed: false };
+    this.sections.push(this.current);
+  }
+
+  private closeSection(): void {
+    if (this.current) this.current.closed = true;
+    this.current = null;
+  }
+
+  private append(text: string): void {
+    if (!this.current) return;
+    if (this.state === 'item') {
+      this.current.items[this.current.items.length - 1] += text;
+    } else {
+      this.current.text += text;
+    }
+  }
+
+  /** Index of the first non-whitespace character at or after `from` */
+  private skipWhitespace(from: number): number {
+    let i = from;
+    while (i < this.buffer.length && isWhitespace(this.buffer[i])) i++;
+    return i;
+  }
+
+  /** Whether the rest of the buffer from `i` is a proper prefix of `marker` */
+  private isPartialMarker(i: number, marker: string): boolean {
+    const rest = this.buffer.slice(i);
+    return rest.length < marker.length && marker.startsWith(rest);
+  }
+
+  /**
+   * Decide whether a depth-0 `}` at `i` ends the current text or item.
+   * @returns true/false, or null if more input is needed to tell
+   */
+  private closesBody(i: number, final: boolean, closers: string[]): boolean | null {
+    const j = this.skipWhitespace(i + 1);
+    if (j >= this.buffer.length) return final ? true : null;
+    if (closers.some((closer) => this.buffer.startsWith(closer, j))) return true;
+    if (!final && closers.some((closer) => this.isPartialMarker(j, closer))) return null;
+    return false;
+  }
+
+  private run(final: boolean): void {
+    const buf = this.buffer;
+    let i = 0;
+
+    scan: while (i < buf.length) {
+      const ch = buf[i];
+
+      switch (this.state) {
+        case 'between': {
+          if (isWhitespace(ch)) {
+            i++;
+            break;
+          }
+          if (buf.startsWith(SECTION_OPEN, i)) {
+            this.inJunk = false;
+            this.headerName = '';
+            this.state = 'header';
+            i += SECTION_OPEN.length;
+            break;
+          }
+          if (!final && this.isPartialMarker(i, SECTION_OPEN)) break scan;
+          if (!this.inJunk) {
+            this.report('UNEXPECTED_TEXT', 'Text outside of a section was ignored', i);
+            this.inJunk = true;
+          }
+          i++;
+          break;
+        }
+
+        case 'header': {
+          const end = buf.indexOf(SECTION_CLOSE, i);
+          if (end < 0) {
+            if (!final) break scan;
+            this.headerName = buf.slice(i).trim();
+            i = buf.length;
+            break;
+          }
+          this.headerName = buf.slice(i, end).trim();
+          this.sawColon = false;
+          this.state = 'beforeBody';
+          i = end + SECTION_CLOSE.length;
+          break;
+        }
+
+        case 'beforeBody': {
+          if (isWhitespace(ch)) {
+            i++;
+          } else if (ch === ':' && !this.sawColon) {
+            this.sawColon = true;
+            i++;
+          } else if (ch === '{' && this.headerName) {
+            this.openSection(this.headerName);
+            this.state = 'bodyStart';
+            i++;
+          } else {
+            this.report('MALFORMED_HEADER', `Section "${this.headerName}" has no body`, i);
+            this.state = 'between';
+          }
+          break;
+        }
+
+        case 'bodyStart': {
+          const j = this.skipWhitespace(i);
+          if (j >= buf.length && !final) break scan;
+          if (buf.startsWith(ITEM_MARKER, j)) {
+            this.current!.kind = 'list';
+            this.state = 'list';
+            i = j;
+          } else if (!final && this.isPartialMarker(j, ITEM_MARKER)) {
+            break scan;
+          } else {
+            this.depth = 0;
+            this.state = 'text';
+          }
+          break;
+        }
+
+        case 'list': {
+          if (isWhitespace(ch)) {
+            i++;
+          } else if (buf.startsWith(ITEM_MARKER, i)) {
+            this.state = 'beforeItemBody';
+            i += ITEM_MARKER.length;
+          } else if (ch === '}') {
+            this.closeSection();
+            this.state = 'between';
+            i++;
+          } else if (buf.startsWith(SECTION_OPEN, i)) {
+            this.report('UNTERMINATED_SECTION', `Section ${this.current!.name} was not closed`, i);
+            this.closeSection();
+            this.state = 'between';
+          } else if (!final && (this.isPartialMarker(i, ITEM_MARKER) || this.isPartialMarker(i, SECTION_OPEN))) {
+            break scan;
+          } else {
+            this.report('UNEXPECTED_TEXT', `Text between items of ${this.current!.name} was ignored`, i);
+            i++;
+          }
+          break;
+        }
+
+        case 'beforeItemBody': {
+          if (isWhitespace(ch)) {
+            i++;
+          } else if (ch === '{') {
+            this.current!.items.push('');
+            this.depth = 0;
+            this.state = 'item';
+            i++;
+          } else {
+            this.report('UNEXPECTED_TEXT', 'Item marker without a body was ignored', i);
+            this.state = 'list';
+          }
+          break;
+        }
+
+        case 'text':
+        case 'item': {
+          const isItem = this.state === 'item';
+
+          if (ch === '\\') {
+            if (i + 1 >= buf.length) {
+              if (!final) break scan;
+              this.append(ch);
+              i++;
+            } else {
+              this.append(buf[i + 1]);
+              i += 2;
+            }
+            break;
+          }
+
+          if (ch === '{') {
+            this.depth++;
+            this.append(ch);
+            i++;
+            break;
+          }
+
+          if (ch === '}') {
+            if (this.depth > 0) {
+              this.depth--;
+              this.append(ch);
+              i++;
+              break;
+            }
+            const closes = this.closesBody(i, final, isItem ? [ITEM_MARKER, '}', SECTION_OPEN] : [SECTION_OPEN]);
+            if (closes === null) break scan;
+            if (closes) {
+              if (isItem) {
+                this.state = 'list';
+              } else {
+                this.closeSection();
+                this.state = 'between';
+              }
+            } else {
+              this.report('UNBALANCED_BRACE', 'Unescaped "}" was kept as text', i);
+              this.append(ch);
+            }
+            i++;
+            break;
+          }
+
+          if (this.depth === 0 && (buf.startsWith(SECTION_OPEN, i) || (isItem && buf.startsWith(ITEM_MARKER, i)))) {
+            if (isItem) {
+              this.report('UNTERMINATED_ITEM', 'Item was not closed', i);
+              this.state = 'list';
+            } else {
+              this.report('UNTERMINATED_SECTION', `Section ${this.current!.name} was not closed`, i);
+              this.closeSection();
+              this.state = 'between';
+            }
+            break;
+          }
+          if (
+            !final &&
+            this.depth === 0 &&
+            (this.isPartialMarker(i, SECTION_OPEN) || (isItem && this.isPartialMarker(i, ITEM_MARKER)))
+          ) {
+            break scan;
+          }
+
+          this.append(ch);
+          i++;
+          break;
+        }
+      }
+    }
+
+    this.offset += i;
+    this.buffer = buf.slice(i);
+  }
+}
+
+function toWordExplanation(sections: RawResponseSection[]): PartialWordExplanation {
+  const meaningSection = sections.find((s) => s.name === MEANING_SECTION);
+  const examplesSection = sections.find((s) => s.name === EXAMPLES_SECTION);
+  return {
+    meaning: meaningSection?.kind === 'text' ? meaningSection.text.trim() : '',
+    examples: examplesSection?.kind === 'list'
+      ? examplesSection.items.map((item) => item.trim()).filter(Boolean)
+      : [],
+  };
+}
+
+/**
+ * Streaming word-explanation parser: feed chunks for partial results, then
+ * `finish()` for the final one.
+ */
+export class WordExplanationStreamParser {
+  private tokenizer = new RawResponseTokenizer();
+
+  /** Feed the next chunk. Returns the meaning and examples so far (possibly cut mid-sentence). */
+  feed(text: string): PartialWordExplanation {
+    return toWordExplanation(this.tokenizer.feed(text));
+  }
+
+  /**
+   * Signal end of input.
+   * @throws WordExplanationParseError with code MISSING_MEANING if no meaning was found
+   */
+  finish(): ParsedWordExplanation {
+    const sections = this.tokenizer.finish();
+    const issues = this.tokenizer.getIssues();
+    const { meaning, examples } = toWordExplanation(sections);
+    if (!meaning) {
+      const detail = issues.length > 0 ? ` (${issues.map((issue) => issue.code).join(', ')})` : '';
+      throw new WordExplanationParseError('MISSING_MEANING', `Response has no ${MEANING_SECTION} section${detail}`, 0);
+    }
+    return { meaning, examples, issues };
+  }
+}
+
+/**
+ * Parse a complete raw response.
+ * @throws WordExplanationParseError with code MISSING_MEANING if no meaning was found
+ */
+export function parseWordExplanation(rawResponse: string): ParsedWordExplanation {
+  const parser = new WordExplanationStreamParser();
+  parser.feed(rawResponse);
+  return parser.finish();
+}
@@ -0,0 +1,167 @@
+// src/api-services/WordReviewService.ts
+// Service for syncing saved-word review scheduling to the backend (cross-browser decks)
+
+import { ENV } from '@/config/env';
+import { TokenRefreshService } from './TokenRefreshService';
+import { ApiResponseHandler } from './ApiResponseHandler';
+import { TokenRefreshRetry } from './TokenRefreshRetry';
+import type {
+  GetWordReviewStatesResponse,
+  SaveWordReviewStatesRequest,
+} from './dto/WordReviewDTO';
+import { BackgroundFetch } from './BackgroundFetch';
+
+export interface GetReviewStatesCallbacks {
+  onSuccess: (response: GetWordReviewStatesResponse) => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+}
+
+export interface SaveReviewStatesCallbacks {
+  onSuccess: () => void;
+  onError: (errorCode: string, errorMessage: string) => void;
+  onLoginRequired?: () => void;
+}
+
+/**
+ * Service for syncing saved-word review states
+ */
+export class WordReviewService {
+  private static readonly ENDPOINT = '/api/saved-words/review-states';
+
+  /**
+   * Fetch the synced review states of all the user's saved words.
+   * Words that were never reviewed have no state.
+   */
+  static async getReviewStates(
+    callbacks: GetReviewStatesCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WordReviewService');
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      const data: GetWordReviewStatesResponse = await response.json();
+      callbacks.onSuccess(data);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+
+  /**
+   * Upsert review states by saved word id. States of other words are left as they are.
+   * Returns 204 No Content on success — body is never read.
+   */
+  static async saveReviewStates(
+    request: SaveWordReviewStatesRequest,
+    callbacks: SaveReviewStatesCallbacks,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const url = `${ENV.API_BASE_URL}${this.ENDPOINT}`;
+
+    try {
+      const response = await BackgroundFetch.fetch(url, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: abortSignal,
+        credentials: 'include',
+      });
+
+      await ApiResponseHandler.syncUnauthenticatedUserId(response, 'WordReviewService');
+
+      if (response.status === 401) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (TokenRefreshRetry.shouldRetryWithTokenRefresh(response, errorData)) {
+          try {
+            const retryResponse = await TokenRefreshRetry.retryRequestWithTokenRefresh(
+              {
+                url,
+                method: 'PUT',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(request),
+                signal: abortSignal,
+                credentials: 'include',
+              },
+              'WordReviewService'
+            );
+
+            if (!retryResponse.ok) {
+              const retryErrorData = await retryResponse.json().catch(() => ({}));
+              const errorCode = retryErrorData.error_code || `HTTP_${retryResponse.status}`;
+              const errorMessage = retryErrorData.error_message || retryErrorData.detail || retryResponse.statusText;
+              callbacks.onError(errorCode, errorMessage);
+              return;
+            }
+
+            callbacks.onSuccess();
+            return;
+          } catch (refreshError) {
+            console.error('[WordReviewService] Token refresh failed:', refreshError);
+            await TokenRefreshService.handleTokenRefreshFailure();
+            callbacks.onError('AUTH_ERROR', 'Token refresh failed');
+            return;
+          }
+        }
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WordReviewService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || 'UNAUTHORIZED';
+        const errorMessage = errorData.error_message || errorData.detail || 'Unauthorized';
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = await ApiResponseHandler.parseErrorResponse(response);
+
+        if (ApiResponseHandler.checkLoginRequired(errorData, response.status)) {
+          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WordReviewService');
+          return;
+        }
+
+        const errorCode = errorData.error_code || `HTTP_${response.status}`;
+        const errorMessage = errorData.error_message || errorData.detail || response.statusText;
+        callbacks.onError(errorCode, errorMessage);
+        return;
+      }
+
+      callbacks.onSuccess();
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        callbacks.onError('ABORTED', 'Request was aborted');
+      } else {
+        callbacks.onError('NETWORK_ERROR', (error as Error).message || 'Network error occurred');
+      }
+    }
+  }
+}
@@ -1,9 +1,10 @@
 // src/api-services/WordsExplanationV2Service.ts
 import { ENV } from '@/config/env';
 import { TokenRefreshService } from './TokenRefreshService';
-import { ApiHeaders } from './ApiHeaders';
 import { ApiResponseHandler } from './ApiResponseHandler';
 import { TokenRefreshRetry } from './TokenRefreshRetry';
+import { WordExplanationStreamParser, WordExplanationParseError } from './WordExplanationParser';
+import { BackgroundFetch } from './BackgroundFetch';
 
 export interface WordLocation {
   word: string;
@@ -100,14 +101,11 @@ export class WordsExplanationV2Service {
       });
 
       // Make POST request with SSE
-      const authHeaders = await ApiHeaders.getAuthHeaders('WordsExplanationV2Service');
-
-      const response = await fetch(url, {
+      const response = await BackgroundFetch.fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           Accept: 'text/event-stream',
-          ...authHeaders,
         },
         body: JSON.stringify(requestBody),
         signal: combinedSignal,
@@ -132,7 +130,6 @@ export class WordsExplanationV2Service {
                 headers: {
                   'Content-Type': 'application/json',
                   'Accept': 'text/event-stream',
-                  ...authHeaders,
                 },
                 body: JSON.stringify(requestBody),
                 signal: combinedSignal,
@@ -161,70 +158,7 @@ export class WordsExplanationV2Service {
             }
             
             // Process SSE stream from retry response
-            const retryReader = retryResponse.body.getReader();
-            const retryDecoder = new TextDecoder();
-            let retryBuffer = '';
-            
-            while (true) {
-              const { done, value } = await retryReader.read();
-              
-              if (done) break;
-              
-              retryBuffer += retryDecoder.decode(value, { stream: true });
-              const retryLines = retryBuffer.split('\n');
-              retryBuffer = retryLines.pop() || '';
-              
-              for (const line of retryLines) {
-                if (line.startsWith('data: ')) {
-                  const data = line.slice(6).trim();
-                  
-                  if (data === '[DONE]') {
-                    console.log('[WordsExplanationV2Service] Retry stream completed');
-                    callbacks.onComplete();
-                    return;
-                  }
-                  
-                  // Check if it's an error event (JSON format)
-                  if (data.startsWith('{')) {
-                    try {
-                      const errorEvent = JSON.parse(data);
-                      if (errorEvent.error_code && errorEvent.error_message) {
-                        // Check for LOGIN_REQUIRED in SSE error events
-                        const errorData = { error_code: errorEvent.error_code };
-                        if (ApiResponseHandler.checkLoginRequired(errorData, 0)) {
-                          ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WordsExplanationV2Service');
-                          return;
-                        } else if (ApiResponseHandler.checkSubscriptionRequired(errorData, 0)) {
-                          ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'WordsExplanationV2Service');
-                          return;
-                        }
-                        callbacks.onError(errorEvent.error_code, errorEvent.error_message);
-                        return;
-                      }
-                    } catch {
-                      // Not a JSON error event, treat as raw response
-                    }
-                  }
-                  
-                  // Parse the raw response format
-                  const { meaning, examples } = this.parseRawResponse(data);
-                  
-                  console.log('[WordsExplanationV2Service] Parsed retry response:', { meaning, examples, rawData: data });
-                  
-                  if (meaning || examples.length > 0) {
-                    const wordInfo: WordInfo = {
-                      location: wordLocation,
-                      word: word,
-                      raw_response: data,
-                      meaning,
-                      examples,
-                    };
-                    
-                    callbacks.onEvent(wordInfo);
-                  }
-                }
-              }
-            }
+            await this.readExplanationStream(retryResponse.body.getReader(), word, wordLocation, callbacks);
             return; // Exit after processing retry response
           } catch (refreshError) {
             console.error('[WordsExplanationV2Service] Token refresh failed:', refreshError);
@@ -275,84 +209,7 @@ export class WordsExplanationV2Service {
         return;
       }
 
-      // Read SSE stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-
-            if (data === '[DONE]') {
-              console.log('[WordsExplanationV2Service] Stream completed');
-              callbacks.onComplete();
-              return;
-            }
-
-            // The data is the raw_response string directly from the API
-            // Format: [[[WORD_MEANING]]]:{meaning}[[[EXAMPLES]]]:{[[ITEM]]{example1}[[ITEM]]{example2}}
-            
-            // Check if it's an error event (JSON format)
-            if (data.startsWith('{')) {
-              try {
-                const errorEvent = JSON.parse(data);
-                if (errorEvent.error_code && errorEvent.error_message) {
-                  // Check for LOGIN_REQUIRED in SSE error events
-                  const errorData = { error_code: errorEvent.error_code };
-                  if (ApiResponseHandler.checkLoginRequired(errorData, 0)) {
-                    ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WordsExplanationV2Service');
-                    return;
-                  } else if (ApiResponseHandler.checkSubscriptionRequired(errorData, 0)) {
-                    ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'WordsExplanationV2Service');
-                    return;
-                  }
-                  callbacks.onError(errorEvent.error_code, errorEvent.error_message);
-                  return;
-                }
-              } catch {
-                // Not a JSON error event, treat as raw response
-              }
-            }
-
-            // Parse the raw response format
-            const { meaning, examples } = this.parseRawResponse(data);
-            
-            console.log('[WordsExplanationV2Service] Parsed response:', { meaning, examples, rawData: data });
-            
-            if (meaning || examples.length > 0) {
-              // Create WordInfo object
-              const wordInfo: WordInfo = {
-                location: wordLocation,
-                word: word,
-                raw_response: data,
-                meaning,
-                examples,
-              };
-              
-              console.log('[WordsExplanationV2Service] Received word info:', wordInfo);
-              callbacks.onEvent(wordInfo);
-            } else {
-              console.warn('[WordsExplanationV2Service] Could not parse raw response:', data);
-            }
-          }
-        }
-      }
-
-      // If we exit the loop without [DONE], still call onComplete
-      console.log('[WordsExplanationV2Service] Stream ended without [DONE]');
-      callbacks.onComplete();
+      await this.readExplanationStream(response.body.getReader(), word, wordLocation, callbacks);
     } catch (error: unknown) {
       clearTimeout(timeoutId);
 
@@ -394,48 +251,127 @@ export class WordsExplanationV2Service {
   }
 
   /**
-   * Parse raw_response from API to extract meaning and examples
+   * Read the SSE stream of a word explanation. The data lines of each event are
+   * fed to a WordExplanationStreamParser as they arrive, and the explanation is
+   * reported once the event ends (blank line, `[DONE]` or end of stream).
    * Format: [[[WORD_MEANING]]]:{...}[[[EXAMPLES]]]:{[[ITEM]]{...}[[ITEM]]{...}}
+   * A response that cannot be parsed cancels the stream and is reported via
+   * `onError('PARSE_ERROR', ...)`.
    */
-  static parseRawResponse(rawResponse: string): {
-    meaning: string;
-    examples: string[];
-  } {
-    try {
-      console.log('[WordsExplanationV2Service] Parsing raw response:', rawResponse);
-      
-      // Extract meaning - match everything between [[[WORD_MEANING]]]:{  and  }[[[EXAMPLES]]]
-      const meaningMatch = rawResponse.match(/\[\[\[WORD_MEANING\]\]\]:\{([^}]*)\}/);
-      const meaning = meaningMatch ? meaningMatch[1].trim() : '';
-      
-      console.log('[WordsExplanationV2Service] Extracted meaning:', meaning);
+  private static async readExplanationStream(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    word: string,
+    wordLocation: WordLocation,
+    callbacks: WordExplanationCallbacks
+  ): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let parser: WordExplanationStreamParser | null = null;
+    let rawResponse = '';
+
+    // Report the event read so far; false if it failed to parse
+    const finishEvent = (): boolean => {
+      if (!parser) return true;
+      const eventParser = parser;
+      parser = null;
+      try {
+        const parsed = eventParser.finish();
+        if (parsed.issues.length > 0) {
+          console.warn('[WordsExplanationV2Service] Recovered from malformed raw response:', parsed.issues, rawResponse);
+        }
+        const wordInfo: WordInfo = {
+          location: wordLocation,
+          word: word,
+          raw_response: rawResponse,
+          meaning: parsed.meaning,
+          examples: parsed.examples,
+        };
+        console.log('[WordsExplanationV2Service] Received word info:', wordInfo);
+        callbacks.onEvent(wordInfo);
+        return true;
+      } catch (error) {
+        if (!(error instanceof WordExplanationParseError)) throw error;
+        console.error('[WordsExplanationV2Service] Failed to parse raw_response:', error, rawResponse);
+        callbacks.onError('PARSE_ERROR', error.message);
+        return false;
+      }
+    };
 
-      // Extract examples - match everything between [[[EXAMPLES]]]:{  and the final }
-      const examplesMatch = rawResponse.match(/\[\[\[EXAMPLES\]\]\]:\{(.*)\}$/);
-      const examples: string[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
 
-      if (examplesMatch) {
-        const examplesContent = examplesMatch[1];
-        console.log('[WordsExplanationV2Service] Examples content:', examplesContent);
-        
-        // Match all [[ITEM]]{...} patterns
-        const itemMatches = examplesContent.matchAll(/\[\[ITEM\]\]\{([^}]+)\}/g);
-
-        for (const itemMatch of itemMatches) {
-          const example = itemMatch[1].trim();
-          if (example) {
-            examples.push(example);
-            console.log('[WordsExplanationV2Service] Extracted example:', example);
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim() === '') {
+          // Blank line: the event is complete
+          if (!finishEvent()) {
+            await reader.cancel();
+            return;
           }
+          continue;
+        }
+        if (!line.startsWith('data: ')) continue;
+
+        const data = line.slice(6).trim();
+
+        if (data === '[DONE]') {
+          if (!finishEvent()) {
+            await reader.cancel();
+            return;
+          }
+          console.log('[WordsExplanationV2Service] Stream completed');
+          callbacks.onComplete();
+          return;
         }
-      }
 
-      console.log('[WordsExplanationV2Service] Parse result:', { meaning, examples });
-      return { meaning, examples };
-    } catch (error) {
-      console.error('[WordsExplanationV2Service] Failed to parse raw_response:', error, rawResponse);
-      return { meaning: '', examples: [] };
+        // Check if it's an error event (JSON format); only the first line of an event can be one
+        if (!parser && data.startsWith('{')) {
+          let errorEvent: { error_code?: string; error_message?: string } | null = null;
+          try {
+            errorEvent = JSON.parse(data);
+          } catch {
+            // Not a JSON error event, treat as raw response
+          }
+          if (errorEvent?.error_code && errorEvent.error_message) {
+            await reader.cancel();
+            // Check for LOGIN_REQUIRED in SSE error events
+            const errorData = { error_code: errorEvent.error_code };
+            if (ApiResponseHandler.checkLoginRequired(errorData, 0)) {
+              ApiResponseHandler.handleLoginRequired(callbacks.onLoginRequired, 'WordsExplanationV2Service');
+              return;
+            } else if (ApiResponseHandler.checkSubscriptionRequired(errorData, 0)) {
+              ApiResponseHandler.handleSubscriptionRequired(callbacks.onSubscriptionRequired, 'WordsExplanationV2Service');
+              return;
+            }
+            callbacks.onError(errorEvent.error_code, errorEvent.error_message);
+            return;
+          }
+        }
+
+        // Multi-line data of one event is joined with newlines, as SSE specifies
+        if (parser) {
+          parser.feed('\n');
+          rawResponse += '\n';
+        } else {
+          parser = new WordExplanationStreamParser();
+          rawResponse = '';
+        }
+        parser.feed(data);
+        rawResponse += data;
+      }
     }
+
+    if (!finishEvent()) return;
+
+    // If we exit the loop without [DONE], still call onComplete
+    console.log('[WordsExplanationV2Service] Stream ended without [DONE]');
+    callbacks.onComplete();
   }
 }
-
@@ -0,0 +1,52 @@
+// src/api-services/dto/AnnotationLibraryDTO.ts
+// DTOs for the cross-site annotation library
+
+import type { AnchorData } from './WebHighlightDTO';
+
+export type LibraryItemType = 'highlight' | 'note' | 'paragraph' | 'link' | 'word' | 'image';
+
+export interface LibraryItemResponse {
+  id: string;
+  type: LibraryItemType;
+  /** Page the item was made on (the saved URL itself for links) */
+  sourceUrl: string;
+  pageTitle: string | null;
+  /** Highlighted or saved text, the word, the link or image name */
+  text: string;
+  /** Note body (Markdown) or the word's contextual meaning */
+  content: string | null;
+  /** Highlight colour; null for the default yellow and for other types */
+  color: string | null;
+  /** Folder of saved paragraphs, links, words and images; null otherwise */
+  folderId: string | null;
+  /** Where the item sits on its page, for highlights, notes and anchored paragraphs */
+  anchor: AnchorData | null;
+  imageUrl: string | null;
+  createdAt: string;
+}
+
+export interface SearchLibraryRequest {
+  /** Full-text query over text, content and page title */
+  query?: string;
+  /** Item types to include; all when empty */
+  types?: LibraryItemType[];
+  domain?: string;
+  /** ISO date (inclusive) */
+  createdAfter?: string;
+  /** ISO date (inclusive) */
+  createdBefore?: string;
+  folderId?: string;
+  color?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface SearchLibraryResponse {
+  /** Newest first */
+  items: LibraryItemResponse[];
+  total: number;
+  offset: number;
+  limit: number;
+  /** Every domain with items matching the other filters, for the domain filter */
+  domains: string[];
+}
@@ -0,0 +1,65 @@
+// src/api-services/dto/AnnotationShareDTO.ts
+// DTOs for sharing a page's highlights and notes with other users, and for replies on notes
+
+import type { WebHighlightResponse } from './WebHighlightDTO';
+import type { WebNoteResponse } from './WebNoteDTO';
+
+export interface AnnotationAuthor {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl: string | null;
+}
+
+/** Share with a user ID or an email address; exactly one is set */
+export interface SharePageAnnotationsRequest {
+  pageUrl: string;
+  sharedToUserId?: string;
+  sharedToEmail?: string;
+}
+
+export interface PageAnnotationShareResponse {
+  id: string;
+  pageUrl: string;
+  ownerId: string;
+  sharedTo: AnnotationAuthor;
+  createdAt: string;
+}
+
+export interface GetPageAnnotationSharesResponse {
+  shares: PageAnnotationShareResponse[];
+}
+
+export interface SharedWebHighlightResponse extends WebHighlightResponse {
+  author: AnnotationAuthor;
+}
+
+export interface SharedWebNoteResponse extends WebNoteResponse {
+  author: AnnotationAuthor;
+}
+
+/** Other users' highlights and notes on a page that were shared with the caller */
+export interface GetSharedPageAnnotationsResponse {
+  highlights: SharedWebHighlightResponse[];
+  notes: SharedWebNoteResponse[];
+}
+
+export interface NoteReplyResponse {
+  id: string;
+  noteId: string;
+  /** Reply this one answers; null for a reply to the note itself */
+  parentReplyId: string | null;
+  /** Markdown */
+  content: string;
+  author: AnnotationAuthor;
+  createdAt: string;
+}
+
+export interface CreateNoteReplyRequest {
+  content: string;
+  parentReplyId?: string;
+}
+
+export interface GetNoteRepliesResponse {
+  replies: NoteReplyResponse[];
+}
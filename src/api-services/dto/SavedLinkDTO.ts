@@ -22,3 +22,10 @@ export interface SavedLinkResponse {
   updated_at: string;
 }
 
+
+export interface GetSavedLinksResponse {
+  links: SavedLinkResponse[];
+  total: number;
+  offset: number;
+  limit: number;
+}
@@ -1,11 +1,15 @@
 // src/api-services/dto/SavedParagraphDTO.ts
 // DTOs for Saved Paragraph API
 
+import type { AnchorData } from './WebHighlightDTO';
+
 export interface SaveParagraphRequest {
   content: string;
   source_url: string;
   name?: string;
   folder_id?: string;
+  /** Where the paragraph sits on the page, so the bookmark can be shown on revisit */
+  anchor?: AnchorData;
 }
 
 export interface SavedParagraphResponse {
@@ -14,11 +18,17 @@ export interface SavedParagraphResponse {
   source_url: string;
   content: string;
   folder_id: string | null;
+  /** Null for paragraphs saved before anchors were stored */
+  anchor: AnchorData | null;
   user_id: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface GetSavedParagraphsResponse {
+  paragraphs: SavedParagraphResponse[];
+}
+
 export interface CreateParagraphFolderRequest {
   name: string;
   parent_folder_id?: string;
@@ -22,6 +22,11 @@ export interface AnchorData {
   endContainer: AnchorContainer;
   textQuote: AnchorTextQuote;
   textPosition: AnchorTextPosition;
+  /**
+   * 1-based page in a PDF document. Set only on PDF anchors, whose containers
+   * carry no XPath and whose quote/position are relative to that page's text.
+   */
+  pageNumber?: number;
 }
 
 export interface CreateWebHighlightRequest {
@@ -32,6 +37,10 @@ export interface CreateWebHighlightRequest {
   note?: string;
 }
 
+export interface UpdateWebHighlightRequest {
+  color: string;
+}
+
 export interface WebHighlightResponse {
   id: string;
   pageUrl: string;
@@ -50,3 +59,7 @@ export interface GetWebHighlightsResponse {
 export interface CreatedWebHighlightResponse {
   highlight: WebHighlightResponse;
 }
+
+export interface UpdatedWebHighlightResponse {
+  highlight: WebHighlightResponse;
+}
@@ -19,6 +19,7 @@ export interface WebNoteResponse {
   pageUrl: string;
   selectedText: string;
   anchor: AnchorData;
+  /** Markdown; notes written before rich-text editing are plain text, which reads as Markdown */
   content: string;
   createdAt: string;
   updatedAt: string;
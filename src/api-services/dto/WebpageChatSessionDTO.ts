@@ -0,0 +1,23 @@
+// src/api-services/dto/WebpageChatSessionDTO.ts
+// DTOs for Webpage Chat session sync API
+
+import type { ChatSession } from '@/store/webpageChatAtoms';
+
+/**
+ * A chat session as stored on the backend.
+ * Transient UI state (active citation highlights, pending annotation) is never synced.
+ */
+export type WebpageChatSessionPayload = Omit<ChatSession, 'activeCitations' | 'pendingAnnotation'>;
+
+export interface SaveWebpageChatSessionsRequest {
+  pageUrl: string;
+  activeSessionId: string;
+  sessions: WebpageChatSessionPayload[];
+}
+
+export interface GetWebpageChatSessionsResponse {
+  pageUrl: string;
+  activeSessionId: string | null;
+  sessions: WebpageChatSessionPayload[];
+  updatedAt: string | null;
+}
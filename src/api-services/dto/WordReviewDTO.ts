@@ -0,0 +1,28 @@
+// src/api-services/dto/WordReviewDTO.ts
+// DTOs for saved-word review (spaced repetition) sync API
+
+/**
+ * SM-2 scheduling state of one saved word, as stored on the backend.
+ * Card content (meaning, examples…) stays on the device and is never synced.
+ */
+export interface WordReviewStatePayload {
+  savedWordId: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  /** ISO timestamp the card is next due */
+  dueAt: string;
+  /** ISO timestamp of the first review, null while the card is new */
+  introducedAt: string | null;
+  lastReviewedAt: string | null;
+  /** ISO timestamp of the last change; the newer side wins when merging */
+  updatedAt: string;
+}
+
+export interface GetWordReviewStatesResponse {
+  states: WordReviewStatePayload[];
+}
+
+export interface SaveWordReviewStatesRequest {
+  states: WordReviewStatePayload[];
+}
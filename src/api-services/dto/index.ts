@@ -6,5 +6,5 @@
  */
 
 export type { DomainResponseDTO, GetAllDomainsResponseDTO } from './DomainDTO';
-export type { SaveLinkRequest, SavedLinkResponse } from './SavedLinkDTO';
+export type { SaveLinkRequest, SavedLinkResponse, GetSavedLinksResponse } from './SavedLinkDTO';
 
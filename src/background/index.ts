@@ -6,12 +6,50 @@ import { ApiService } from '@/api-services/ApiService';
 import { extractDomain } from '@/utils/domain';
 import { DomainStatus } from '@/types/domain';
 import { ENV } from '@/config/env';
+import { WebHighlightService } from '@/api-services/WebHighlightService';
+import { WebNoteService } from '@/api-services/WebNoteService';
+import { NETWORK_BROKER_PORT } from '@/api-services/BackgroundFetch';
+import { TokenRefreshService, REFRESH_ACCESS_TOKEN_MESSAGE } from '@/api-services/TokenRefreshService';
+import {
+  LOCAL_ANNOTATIONS_MESSAGE,
+  MIGRATE_LOCAL_ANNOTATIONS_MESSAGE,
+  LOCAL_ANNOTATIONS_MIGRATED_MESSAGE,
+} from '@/api-services/LocalAnnotationAdapter';
+import {
+  handleLocalAnnotationRequest,
+  listLocalAnnotations,
+  deleteLocalHighlight,
+  deleteLocalNote,
+} from '@/storage/indexed-db/localAnnotationStore';
+import { TRANSLATION_MEMORY_MESSAGE } from '@/api-services/TranslationMemory';
+import { handleTranslationMemoryRequest } from '@/storage/indexed-db/translationMemoryStore';
+import { VECTOR_INDEX_MESSAGE } from '@/content/utils/vectorStore';
+import { handleVectorIndexRequest } from '@/storage/indexed-db/vectorIndexStore';
+import { SYNC_OUTBOX_MESSAGE } from '@/content/utils/syncOutbox';
+import { CHAT_SESSIONS_MESSAGE } from '@/content/utils/chatSessionStore';
+import { handleChatSessionRequest } from '@/storage/indexed-db/chatSessionStore';
+import { handleNetworkBrokerPort } from './networkBroker';
+import {
+  handleSyncOutboxRequest,
+  holdLocalOutboxItems,
+  releaseLocalOutboxItems,
+  scheduleOutboxFlush,
+  OUTBOX_FLUSH_ALARM,
+} from './syncOutbox';
 
 // This file serves as the entry point for the background script
 // Add background logic here (message handling, alarms, etc.)
 
 console.log('Background service worker initialized');
 
+// Replay writes still queued when the worker last stopped
+scheduleOutboxFlush(0);
+
+// Backoff retries of the sync outbox outlive the worker as alarms
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === OUTBOX_FLUSH_ALARM) scheduleOutboxFlush(0);
+});
+
 /**
  * Builds and registers the uninstall redirect URL.
  *
@@ -226,6 +264,94 @@ function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+let localAnnotationMigration: Promise<void> | null = null;
+
+/**
+ * Upload highlights and notes saved on this device while signed out to the
+ * account that just signed in, deleting each local copy once the backend has it.
+ * Stops at the first failure; the rest stay local and are retried on the next sign-in.
+ * Tabs are told the new ids so open pages keep working without a reload.
+ */
+function migrateLocalAnnotations(): Promise<void> {
+  localAnnotationMigration ??= (async () => {
+    // Edits queued while signed out must not reach the backend under device ids
+    holdLocalOutboxItems();
+    const { highlights, notes } = await listLocalAnnotations();
+    if (highlights.length === 0 && notes.length === 0) {
+      await releaseLocalOutboxItems({});
+      return;
+    }
+
+    console.log('[Background] Migrating', highlights.length, 'highlights and', notes.length, 'notes to account');
+    const idMap: Record<string, string> = {};
+
+    try {
+      for (const highlight of highlights) {
+        const serverId = await new Promise<string>((resolve, reject) => {
+          WebHighlightService.createHighlight(
+            {
+              pageUrl: highlight.pageUrl,
+              selectedText: highlight.selectedText,
+              anchor: highlight.anchor,
+              ...(highlight.color ? { color: highlight.color } : {}),
+              ...(highlight.note ? { note: highlight.note } : {}),
+            },
+            {
+              onSuccess: (response) => resolve(response.highlight.id),
+              onError: (errorCode, errorMessage) => reject(new Error(`${errorCode}: ${errorMessage}`)),
+              onLoginRequired: () => reject(new Error('Login required')),
+            }
+          );
+        });
+        await deleteLocalHighlight(highlight.id);
+        idMap[highlight.id] = serverId;
+      }
+
+      for (const note of notes) {
+        const serverId = await new Promise<string>((resolve, reject) => {
+          WebNoteService.createNote(
+            {
+              pageUrl: note.pageUrl,
+              selectedText: note.selectedText,
+              anchor: note.anchor,
+              content: note.content,
+            },
+            {
+              onSuccess: (response) =>
+                response.note ? resolve(response.note.id) : reject(new Error('Login required')),
+              onError: (errorCode, errorMessage) => reject(new Error(`${errorCode}: ${errorMessage}`)),
+              onLoginRequired: () => reject(new Error('Login required')),
+            }
+          );
+        });
+        await deleteLocalNote(note.id);
+        idMap[note.id] = serverId;
+      }
+    } catch (error) {
+      console.warn('[Background] Local annotation migration stopped:', error);
+    }
+
+    await releaseLocalOutboxItems(idMap);
+    if (Object.keys(idMap).length === 0) return;
+    const tabs = await chrome.tabs.query({}).catch(() => [] as chrome.tabs.Tab[]);
+    for (const tab of tabs) {
+      if (tab.id === undefined) continue;
+      // Tabs without the content script reject; nothing to update there
+      chrome.tabs.sendMessage(tab.id, { type: LOCAL_ANNOTATIONS_MIGRATED_MESSAGE, idMap }).catch(() => {});
+    }
+  })().finally(() => {
+    localAnnotationMigration = null;
+  });
+  return localAnnotationMigration;
+}
+
+// API requests from content scripts and extension pages, one port per request
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === NETWORK_BROKER_PORT) {
+    handleNetworkBrokerPort(port);
+  }
+});
+
 // Message listener for handling OAuth flow and image fetching
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Handle image fetch from content script (bypasses CORS)
@@ -302,6 +428,90 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  // Handle token refresh for content scripts (one refresh shared by every tab)
+  if (message.type === REFRESH_ACCESS_TOKEN_MESSAGE) {
+    TokenRefreshService.refreshAccessToken()
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // IndexedDB stores. A database opened by a content script belongs to the
+  // origin of the page it runs on, so extension data would be split per site
+  // and written into each site's storage. The stores under
+  // src/storage/indexed-db are opened here instead, on the extension origin;
+  // their content-side clients send `{ type, request }` and get back
+  // `{ success, data }` or `{ success: false, error }`.
+
+  // Handle signed-out highlight/note storage from content scripts
+  if (message.type === LOCAL_ANNOTATIONS_MESSAGE) {
+    handleLocalAnnotationRequest(message.request)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Background] Local annotation request failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // Handle translation memory lookups and writes from content scripts
+  if (message.type === TRANSLATION_MEMORY_MESSAGE) {
+    handleTranslationMemoryRequest(message.request)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Background] Translation memory request failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // Handle page vector index reads and writes from content scripts
+  if (message.type === VECTOR_INDEX_MESSAGE) {
+    handleVectorIndexRequest(message.request)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Background] Vector index request failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // Handle webpage chat session reads and writes from content scripts
+  if (message.type === CHAT_SESSIONS_MESSAGE) {
+    handleChatSessionRequest(message.request)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Background] Chat session request failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // Handle the highlight/note/bookmark write queue from content scripts
+  if (message.type === SYNC_OUTBOX_MESSAGE) {
+    handleSyncOutboxRequest(message.request)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Background] Sync outbox request failed:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+
+    return true; // async response
+  }
+
+  // Handle migration of signed-out highlights/notes after login
+  if (message.type === MIGRATE_LOCAL_ANNOTATIONS_MESSAGE) {
+    migrateLocalAnnotations().then(() => sendResponse({ success: true }));
+    return true; // async response
+  }
+
   // Handle request to inject the Translator bridge into the page's main world
   if (message.type === 'INJECT_TRANSLATOR_BRIDGE') {
     const tabId = sender.tab?.id;
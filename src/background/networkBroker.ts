@@ -0,0 +1,88 @@
+// src/background/networkBroker.ts
+// Background side of BackgroundFetch: runs API requests for content scripts and
+// extension pages and streams the responses back over their ports.
+
+import {
+  BackgroundFetch,
+  isBrokeredUrl,
+  type BrokerClientMessage,
+  type BrokerWorkerMessage,
+} from '@/api-services/BackgroundFetch';
+
+/** Response types that only make sense while someone is reading them */
+const STREAMING_CONTENT_TYPES = ['text/event-stream'];
+
+function isStreamingResponse(response: Response): boolean {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  return STREAMING_CONTENT_TYPES.some((type) => contentType.startsWith(type));
+}
+
+/**
+ * Serve one request on a freshly connected port.
+ *
+ * If the requesting tab goes away (navigation, reload, closed tab) a streaming
+ * response is cancelled, since nobody is left to read it. Other requests run to
+ * completion so writes such as saving a highlight still reach the backend.
+ */
+export function handleNetworkBrokerPort(port: chrome.runtime.Port): void {
+  const controller = new AbortController();
+  let connected = true;
+  let streaming = false;
+
+  const post = (message: BrokerWorkerMessage) => {
+    if (!connected) return;
+    try {
+      port.postMessage(message);
+    } catch {
+      connected = false;
+    }
+  };
+
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    if (streaming) controller.abort();
+  });
+
+  port.onMessage.addListener((message: BrokerClientMessage) => {
+    if (message.type === 'abort') {
+      controller.abort();
+      return;
+    }
+    if (message.type !== 'request') return;
+
+    const { request } = message;
+    if (!isBrokeredUrl(request.url)) {
+      post({ type: 'error', name: 'TypeError', message: `Not an API URL: ${request.url}` });
+      return;
+    }
+
+    (async () => {
+      const response = await BackgroundFetch.fetchWithAuth(request, controller.signal);
+      streaming = isStreamingResponse(response);
+      if (streaming && !connected) controller.abort();
+
+      post({
+        type: 'head',
+        status: response.status,
+        statusText: response.statusText,
+        headers: Array.from(response.headers.entries()),
+      });
+
+      if (response.body) {
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          post({ type: 'chunk', text: value });
+        }
+      }
+      post({ type: 'end' });
+    })().catch((error: unknown) => {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (err.name !== 'AbortError') {
+        console.error('[NetworkBroker] Request failed:', request.method, request.url, err);
+      }
+      post({ type: 'error', name: err.name, message: err.message });
+    });
+  });
+}
@@ -0,0 +1,452 @@
+// src/background/syncOutbox.ts
+// Background side of the sync outbox: queues writes sent by content scripts and
+// replays them in order with exponential backoff. Running here rather than in a
+// tab means every site feeds one queue, and any open page (or the worker
+// starting up) is enough to replay it. Results are broadcast to every tab.
+
+import { WebHighlightService } from '@/api-services/WebHighlightService';
+import { WebNoteService } from '@/api-services/WebNoteService';
+import { SavedParagraphService } from '@/api-services/SavedParagraphService';
+import { SavedLinkService } from '@/api-services/SavedLinkService';
+import { SavedWordsService } from '@/api-services/SavedWordsService';
+import { SavedImageService } from '@/api-services/SavedImageService';
+import {
+  OUTBOX_EVENT_MESSAGE,
+  createTempId,
+  getOutboxItemId,
+  isTempId,
+  isTransientSyncError,
+} from '@/content/utils/syncOutbox';
+import {
+  listOutboxEntries,
+  writeOutboxEntries,
+  type OutboxEntry,
+  type OutboxEvent,
+  type OutboxOperation,
+  type SyncOutboxRequest,
+} from '@/storage/indexed-db/syncOutboxStore';
+import { isLocalAnnotationId } from '@/storage/indexed-db/localAnnotationStore';
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 5 * 60_000;
+
+/** Alarm that wakes the worker for a backoff retry; its timers die with it when idle */
+export const OUTBOX_FLUSH_ALARM = 'xplaino_sync_outbox_flush';
+/** Chrome does not fire alarms sooner than this */
+const MIN_ALARM_DELAY_MS = 30_000;
+
+type ExecuteResult =
+  | { ok: true; serverId?: string }
+  | { ok: false; errorCode: string; errorMessage: string };
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+function createEntry(operation: OutboxOperation): OutboxEntry {
+  return { id: createTempId(), operation, status: 'pending', attempts: 0, nextAttemptAt: 0, createdAt: Date.now() };
+}
+
+// =============================================================================
+// Queue access
+// =============================================================================
+
+let queueLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write of the queue without another one interleaving, so an
+ * enqueue never lands between replay reading the queue and writing it back.
+ */
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn);
+  queueLock = run.catch(() => {});
+  return run;
+}
+
+/** Entry whose request is on its way to the backend; it can no longer be rewritten */
+let sendingEntryId: string | null = null;
+
+/** Set while items saved on this device are uploaded on sign-in; operations on them wait for their server ids */
+let holdingLocalItems = false;
+
+async function broadcast(event: OutboxEvent): Promise<void> {
+  const tabs = await chrome.tabs.query({}).catch(() => [] as chrome.tabs.Tab[]);
+  for (const tab of tabs) {
+    if (tab.id === undefined) continue;
+    // Tabs without the content script reject; nothing to update there
+    chrome.tabs.sendMessage(tab.id, { type: OUTBOX_EVENT_MESSAGE, event }).catch(() => {});
+  }
+}
+
+/**
+ * Queue an operation and start replaying. Operations on an item whose create
+ * has not been sent yet are folded into that create: an update rewrites its
+ * content (or colour) and a delete cancels it outright. Once the create is on
+ * its way an update is queued on its own and follows it to the server id.
+ */
+function enqueue(operation: OutboxOperation): Promise<void> {
+  return withQueueLock(async () => {
+    const entries = await listOutboxEntries();
+    const itemId = getOutboxItemId(operation);
+    const forItem = itemId ? entries.filter((e) => getOutboxItemId(e.operation) === itemId) : [];
+
+    const put: OutboxEntry[] = [];
+    const remove: string[] = [];
+
+    if (itemId && isTempId(itemId) && forItem.length > 0) {
+      if (operation.type === 'deleteHighlight' || operation.type === 'deleteNote') {
+        await writeOutboxEntries([], forItem.map((e) => e.id));
+        return;
+      }
+      if (operation.type === 'updateNote') {
+        const create = forItem.find((e) => e.operation.type === 'createNote' && e.id !== sendingEntryId);
+        if (create && create.operation.type === 'createNote') {
+          put.push({
+            ...create,
+            operation: { ...create.operation, request: { ...create.operation.request, content: operation.content } },
+          });
+          await writeOutboxEntries(put);
+          return;
+        }
+      }
+      if (operation.type === 'updateHighlight') {
+        const create = forItem.find((e) => e.operation.type === 'createHighlight' && e.id !== sendingEntryId);
+        if (create && create.operation.type === 'createHighlight') {
+          put.push({
+            ...create,
+            operation: { ...create.operation, request: { ...create.operation.request, color: operation.color } },
+          });
+          await writeOutboxEntries(put);
+          return;
+        }
+      }
+    }
+
+    // Only the latest queued content of a note (or colour of a highlight) matters
+    if (operation.type === 'updateNote' || operation.type === 'deleteNote') {
+      remove.push(...forItem.filter((e) => e.operation.type === 'updateNote').map((e) => e.id));
+    }
+    if (operation.type === 'updateHighlight' || operation.type === 'deleteHighlight') {
+      remove.push(...forItem.filter((e) => e.operation.type === 'updateHighlight').map((e) => e.id));
+    }
+
+    put.push(createEntry(operation));
+    await writeOutboxEntries(put, remove);
+  }).then(() => scheduleOutboxFlush(0));
+}
+
+/** Queue a failed entry (and anything waiting on it) for another attempt right away */
+async function retry(itemId: string): Promise<void> {
+  const retried = await withQueueLock(async () => {
+    const entries = (await listOutboxEntries())
+      .filter((e) => getOutboxItemId(e.operation) === itemId)
+      .map((e) => ({ ...e, status: 'pending' as const, nextAttemptAt: 0 }));
+    if (entries.length > 0) await writeOutboxEntries(entries);
+    return entries.length > 0;
+  });
+  if (retried) scheduleOutboxFlush(0);
+}
+
+/** Keep operations on items saved on this device (`device-…` ids) from replaying until they are released */
+export function holdLocalOutboxItems(): void {
+  holdingLocalItems = true;
+}
+
+/**
+ * Release operations held by `holdLocalOutboxItems` once the sign-in migration
+ * has run: point them at the server ids in `idMap`, and drop those on items
+ * that were not uploaded, since the backend would only answer them with a 404.
+ */
+export async function releaseLocalOutboxItems(idMap: Record<string, string>): Promise<void> {
+  await withQueueLock(async () => {
+    const put: OutboxEntry[] = [];
+    const remove: string[] = [];
+    for (const entry of await listOutboxEntries()) {
+      const itemId = getOutboxItemId(entry.operation);
+      if (!itemId || !isLocalAnnotationId(itemId)) continue;
+      if (idMap[itemId]) {
+        put.push({ ...entry, operation: withResolvedId(entry.operation, itemId, idMap[itemId]) });
+      } else {
+        remove.push(entry.id);
+      }
+    }
+    if (remove.length > 0) {
+      console.warn('[SyncOutbox] Dropping', remove.length, 'operations on items that stayed on this device');
+    }
+    if (put.length > 0 || remove.length > 0) await writeOutboxEntries(put, remove);
+    holdingLocalItems = false;
+  });
+  scheduleOutboxFlush(0);
+}
+
+/** Drop every queued operation for an item (e.g. the user cleared a failed highlight) */
+function discard(itemId: string): Promise<void> {
+  return withQueueLock(async () => {
+    const entries = await listOutboxEntries();
+    const ids = entries.filter((e) => getOutboxItemId(e.operation) === itemId).map((e) => e.id);
+    if (ids.length > 0) await writeOutboxEntries([], ids);
+  });
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+function execute(operation: OutboxOperation): Promise<ExecuteResult> {
+  return new Promise((resolve) => {
+    const onError = (errorCode: string, errorMessage: string) => resolve({ ok: false, errorCode, errorMessage });
+    const onLoginRequired = () => resolve({ ok: false, errorCode: 'LOGIN_REQUIRED', errorMessage: 'Login required' });
+    const onSubscriptionRequired = () =>
+      resolve({ ok: false, errorCode: 'SUBSCRIPTION_REQUIRED', errorMessage: 'Subscription required' });
+    // A delete of something already gone has done its job
+    const onDeleteError = (errorCode: string, errorMessage: string) =>
+      errorCode === 'HTTP_404' ? resolve({ ok: true }) : onError(errorCode, errorMessage);
+
+    switch (operation.type) {
+      case 'createHighlight':
+        WebHighlightService.createHighlight(operation.request, {
+          onSuccess: (response) => resolve({ ok: true, serverId: response.highlight.id }),
+          onError,
+          onLoginRequired,
+        });
+        break;
+      case 'updateHighlight':
+        WebHighlightService.updateHighlight(operation.highlightId, operation.color, {
+          onSuccess: () => resolve({ ok: true }),
+          onError,
+          onLoginRequired,
+        });
+        break;
+      case 'deleteHighlight':
+        WebHighlightService.deleteHighlight(operation.highlightId, {
+          onSuccess: () => resolve({ ok: true }),
+          onError: onDeleteError,
+          onLoginRequired,
+        });
+        break;
+      case 'createNote':
+        WebNoteService.createNote(operation.request, {
+          // The backend answers unauthenticated writes with a null note
+          onSuccess: (response) => (response.note ? resolve({ ok: true, serverId: response.note.id }) : onLoginRequired()),
+          onError,
+          onLoginRequired,
+        });
+        break;
+      case 'updateNote':
+        WebNoteService.updateNote(operation.noteId, operation.content, {
+          onSuccess: (response) => (response.note ? resolve({ ok: true }) : onError('HTTP_404', 'Note not found')),
+          onError,
+          onLoginRequired,
+        });
+        break;
+      case 'deleteNote':
+        WebNoteService.deleteNote(operation.noteId, {
+          onSuccess: () => resolve({ ok: true }),
+          onError: onDeleteError,
+          onLoginRequired,
+        });
+        break;
+      case 'saveParagraph':
+        SavedParagraphService.saveParagraph(operation.request, {
+          onSuccess: (response) => resolve({ ok: true, serverId: response.id }),
+          onError,
+          onLoginRequired,
+          onSubscriptionRequired,
+        });
+        break;
+      case 'saveLink':
+        SavedLinkService.saveLink(operation.request, {
+          onSuccess: (response) => resolve({ ok: true, serverId: response.id }),
+          onError,
+          onLoginRequired,
+          onSubscriptionRequired,
+        });
+        break;
+      case 'saveWord':
+        SavedWordsService.saveWord(operation.request, {
+          onSuccess: (response) => resolve({ ok: true, serverId: response.id }),
+          onError,
+          onLoginRequired,
+          onSubscriptionRequired,
+        });
+        break;
+      case 'saveImage':
+        SavedImageService.saveImage(operation.request, {
+          onSuccess: (response) => resolve({ ok: true, serverId: response.id }),
+          onError,
+          onLoginRequired,
+          onSubscriptionRequired,
+        });
+        break;
+    }
+  });
+}
+
+/** Point later operations at the server id once a create has synced */
+function withResolvedId(operation: OutboxOperation, tempId: string, serverId: string): OutboxOperation {
+  switch (operation.type) {
+    case 'updateHighlight':
+    case 'deleteHighlight':
+      return operation.highlightId === tempId ? { ...operation, highlightId: serverId } : operation;
+    case 'updateNote':
+    case 'deleteNote':
+      return operation.noteId === tempId ? { ...operation, noteId: serverId } : operation;
+    default:
+      return operation;
+  }
+}
+
+/** Whether a replay pass should send `entry` now */
+function isReady(entry: OutboxEntry): boolean {
+  if (entry.status === 'failed' || entry.nextAttemptAt > Date.now()) return false;
+  const itemId = getOutboxItemId(entry.operation);
+  if (!itemId) return true;
+  // Waits for the sign-in migration to give the item a server id
+  if (holdingLocalItems && isLocalAnnotationId(itemId)) return false;
+  // Waits for the create that issues its real id
+  return !(isTempId(itemId) && !entry.operation.type.startsWith('create'));
+}
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+let flushRequested = false;
+
+/**
+ * Run a replay pass after `delayMs`, replacing any pass already scheduled.
+ * A delayed pass is also set as an alarm, in case the worker is shut down
+ * (after about 30 s idle) before the timer fires.
+ */
+export function scheduleOutboxFlush(delayMs: number): void {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushOutbox();
+  }, delayMs);
+  if (delayMs > 0) {
+    chrome.alarms.create(OUTBOX_FLUSH_ALARM, { when: Date.now() + Math.max(delayMs, MIN_ALARM_DELAY_MS) });
+  }
+}
+
+async function flushOutbox(): Promise<void> {
+  if (flushing) {
+    // Picked up once the running pass ends
+    flushRequested = true;
+    return;
+  }
+  if (!navigator.onLine) return;
+  flushing = true;
+  flushRequested = false;
+  try {
+    await replayEntries();
+  } catch (err) {
+    console.warn('[SyncOutbox] flushOutbox failed:', err);
+  } finally {
+    flushing = false;
+    sendingEntryId = null;
+  }
+  if (flushRequested) scheduleOutboxFlush(0);
+}
+
+/**
+ * Send ready entries oldest first. The queue is re-read before each send, so
+ * entries queued or rewritten meanwhile are replayed in the same pass.
+ */
+async function replayEntries(): Promise<void> {
+  const attempted = new Set<string>();
+
+  for (;;) {
+    const entry = await withQueueLock(async () => {
+      const next = (await listOutboxEntries()).find((e) => !attempted.has(e.id) && isReady(e));
+      sendingEntryId = next?.id ?? null;
+      return next;
+    });
+    if (!entry) break;
+    attempted.add(entry.id);
+
+    const itemId = getOutboxItemId(entry.operation);
+    const result = await execute(entry.operation);
+
+    if (result.ok) {
+      const resolvedId = itemId && isTempId(itemId) ? result.serverId : undefined;
+      await withQueueLock(async () => {
+        const entries = await listOutboxEntries();
+        const rewritten: OutboxEntry[] = [];
+
+        // Deleted while its create was in flight: the enqueue already dropped the
+        // entry, so remove the item the create just made on the server
+        const cancelled = !entries.some((e) => e.id === entry.id);
+        const { operation } = entry;
+        if (cancelled && resolvedId && (operation.type === 'createHighlight' || operation.type === 'createNote')) {
+          const pageUrl = operation.request.pageUrl;
+          rewritten.push(
+            createEntry(
+              operation.type === 'createNote'
+                ? { type: 'deleteNote', noteId: resolvedId, pageUrl }
+                : { type: 'deleteHighlight', highlightId: resolvedId, pageUrl }
+            )
+          );
+        }
+        if (itemId && resolvedId) {
+          for (const other of entries) {
+            const operation = withResolvedId(other.operation, itemId, resolvedId);
+            if (operation !== other.operation) rewritten.push({ ...other, operation });
+          }
+        }
+        await writeOutboxEntries(rewritten, [entry.id]);
+        sendingEntryId = null;
+      });
+      broadcast({ type: 'synced', entry, serverId: resolvedId });
+      continue;
+    }
+
+    const attempts = entry.attempts + 1;
+    const transient = isTransientSyncError(result.errorCode);
+    const delay = backoffDelay(attempts);
+    const updated: OutboxEntry = transient
+      ? { ...entry, attempts, nextAttemptAt: Date.now() + delay, lastError: result.errorCode }
+      : { ...entry, attempts, status: 'failed', lastError: result.errorCode };
+    const stillQueued = await withQueueLock(async () => {
+      sendingEntryId = null;
+      // Deleted while in flight; nothing left to retry
+      if (!(await listOutboxEntries()).some((e) => e.id === entry.id)) return false;
+      await writeOutboxEntries([updated]);
+      return true;
+    });
+    if (!stillQueued) continue;
+
+    if (transient) {
+      // The API is unreachable; leave the rest for the next pass
+      console.log(`[SyncOutbox] ${entry.operation.type} failed (${result.errorCode}), retrying in ${delay}ms`);
+      scheduleOutboxFlush(delay);
+      return;
+    }
+
+    console.warn(`[SyncOutbox] ${entry.operation.type} failed permanently:`, result.errorCode, result.errorMessage);
+    broadcast({ type: 'failed', entry: updated });
+  }
+
+  // Entries still backing off from an earlier pass
+  const waiting = (await listOutboxEntries()).filter((e) => e.status === 'pending' && e.nextAttemptAt > Date.now());
+  if (waiting.length > 0) {
+    scheduleOutboxFlush(Math.min(...waiting.map((e) => e.nextAttemptAt)) - Date.now());
+  }
+}
+
+/**
+ * Handle a request from `syncOutbox` in a content script.
+ */
+export async function handleSyncOutboxRequest(request: SyncOutboxRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'list':
+      return listOutboxEntries();
+    case 'enqueue':
+      return enqueue(request.operation);
+    case 'retry':
+      return retry(request.itemId);
+    case 'discard':
+      return discard(request.itemId);
+    case 'flush':
+      scheduleOutboxFlush(0);
+      return;
+  }
+}
@@ -0,0 +1,52 @@
+// src/content/components/AuthorAvatar/AuthorAvatar.tsx
+// Round avatar for the author of a shared annotation or reply: their picture,
+// or their initials on a colour derived from their ID.
+
+import React, { useState } from 'react';
+import type { AnnotationAuthor } from '@/api-services/dto/AnnotationShareDTO';
+
+const AVATAR_COLORS = ['#0d8070', '#2563eb', '#9333ea', '#c2410c', '#be185d', '#4d7c0f'];
+
+function initialsOf(author: AnnotationAuthor): string {
+  const source = author.name?.trim() || author.email;
+  const parts = source.split(/[\s@.]+/).filter(Boolean);
+  return ((parts[0]?.[0] ?? '') + (parts[1]?.[0] ?? '')).toUpperCase() || '?';
+}
+
+function colorOf(authorId: string): string {
+  let hash = 0;
+  for (let i = 0; i < authorId.length; i++) hash = (hash * 31 + authorId.charCodeAt(i)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+export interface AuthorAvatarProps {
+  author: AnnotationAuthor;
+  /** Diameter in pixels */
+  size?: number;
+}
+
+export const AuthorAvatar: React.FC<AuthorAvatarProps> = ({ author, size = 20 }) => {
+  const [imageFailed, setImageFailed] = useState(false);
+  const style = { width: `${size}px`, height: `${size}px`, fontSize: `${Math.round(size * 0.42)}px` };
+
+  if (author.avatarUrl && !imageFailed) {
+    return (
+      <img
+        className="authorAvatar"
+        style={style}
+        src={author.avatarUrl}
+        alt=""
+        referrerPolicy="no-referrer"
+        onError={() => setImageFailed(true)}
+      />
+    );
+  }
+
+  return (
+    <span className="authorAvatar" style={{ ...style, background: colorOf(author.id) }} aria-hidden="true">
+      {initialsOf(author)}
+    </span>
+  );
+};
+
+AuthorAvatar.displayName = 'AuthorAvatar';
@@ -0,0 +1,149 @@
+// src/content/components/CommandPalette/CommandPalette.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatBinding, type ShortcutCommandId } from '@/content/utils/shortcutRegistry';
+
+export interface CommandPaletteItem {
+  id: ShortcutCommandId;
+  label: string;
+  /** Current key binding, shown next to the label */
+  binding: string | null;
+  /** Reason the command can't run right now (e.g. no text selected) */
+  disabledReason?: string;
+}
+
+export interface CommandPaletteProps {
+  /** Whether the palette is visible */
+  visible: boolean;
+  /** Commands to list, in display order */
+  commands: CommandPaletteItem[];
+  /** Show macOS key symbols instead of Ctrl+… */
+  isMac: boolean;
+  /** Called with the chosen command; the palette closes itself first */
+  onRun: (id: ShortcutCommandId) => void;
+  /** Called on Escape or backdrop click */
+  onClose: () => void;
+}
+
+function matchesQuery(label: string, query: string): boolean {
+  const haystack = label.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  visible,
+  commands,
+  isMac,
+  onRun,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const filtered = useMemo(
+    () => commands.filter((c) => matchesQuery(c.label, query)),
+    [commands, query]
+  );
+
+  // Reset and focus every time the palette opens
+  useEffect(() => {
+    if (!visible) return;
+    setQuery('');
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  }, [visible]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the active row in view while navigating with the arrow keys
+  useEffect(() => {
+    const row = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!visible) return null;
+
+  const run = (item: CommandPaletteItem | undefined) => {
+    if (!item || item.disabledReason) return;
+    onClose();
+    onRun(item.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep keystrokes away from the page's own shortcut handlers
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, filtered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(filtered[activeIndex]);
+    }
+  };
+
+  return (
+    <div className="commandPaletteOverlay" onMouseDown={onClose}>
+      <div
+        className="commandPaletteContent"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+        role="dialog"
+        aria-label="Command palette"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          className="commandPaletteInput"
+          placeholder="Type a command…"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <div className="commandPaletteList" ref={listRef} role="listbox">
+          {filtered.length === 0 && (
+            <div className="commandPaletteEmpty">No matching commands</div>
+          )}
+          {filtered.map((item, i) => (
+            <button
+              key={item.id}
+              type="button"
+              role="option"
+              aria-selected={i === activeIndex}
+              className={
+                'commandPaletteItem' +
+                (i === activeIndex ? ' commandPaletteItemActive' : '') +
+                (item.disabledReason ? ' commandPaletteItemDisabled' : '')
+              }
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => run(item)}
+              title={item.disabledReason}
+            >
+              <span className="commandPaletteLabel">{item.label}</span>
+              {item.disabledReason && (
+                <span className="commandPaletteHint">{item.disabledReason}</span>
+              )}
+              {item.binding && (
+                <kbd className="commandPaletteBinding">{formatBinding(item.binding, isMac)}</kbd>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+CommandPalette.displayName = 'CommandPalette';
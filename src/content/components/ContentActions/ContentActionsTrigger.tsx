@@ -5,6 +5,7 @@ import { isRangeOverlappingUnderlinedText } from '../../utils/textSelectionUnder
 import { useAtom, useAtomValue, useSetAtom } from 'jotai';
 import { shouldShowTextFeatureAtom, shouldShowWordFeatureAtom, contentActionsModalOpenAtom } from '@/store/uiAtoms';
 import { highlightColoursAtom, selectedHighlightColourIdAtom } from '@/store/webHighlightAtoms';
+import { reattachingAnnotationIdAtom } from '@/store/orphanedAnnotationAtoms';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { isGoogleDocsPage } from '@/content/utils/googleDocsHelper';
 
@@ -121,6 +122,8 @@ export const ContentActionsTrigger: React.FC<ContentActionsTriggerProps> = ({
   const shouldShowWordFeature = useAtomValue(shouldShowWordFeatureAtom);
   const setShouldShowWordFeature = useSetAtom(shouldShowWordFeatureAtom);
   const isContentActionsModalOpen = useAtomValue(contentActionsModalOpenAtom);
+  // While an orphaned annotation is being re-attached, the selection belongs to that flow
+  const reattachingAnnotationId = useAtomValue(reattachingAnnotationIdAtom);
 
   // Highlight colour atoms
   const [highlightColours] = useAtom(highlightColoursAtom);
@@ -274,6 +277,10 @@ export const ContentActionsTrigger: React.FC<ContentActionsTriggerProps> = ({
       if (isContentActionsModalOpen) {
         return;
       }
+
+      if (reattachingAnnotationId) {
+        return;
+      }
       
       // Double-check that we're not inside our container (in case selection changed)
       const currentTarget = document.activeElement;
@@ -346,7 +353,7 @@ export const ContentActionsTrigger: React.FC<ContentActionsTriggerProps> = ({
         ChromeStorage.setShouldShowTextFeature(false);
       }
     }, isGDocs ? 50 : 10);
-  }, [getSelectionPosition, isWordSelection, selection, onShowToast, shouldShowTextFeature, setShouldShowTextFeature, isContentActionsModalOpen, isGDocs]);
+  }, [getSelectionPosition, isWordSelection, selection, onShowToast, shouldShowTextFeature, setShouldShowTextFeature, isContentActionsModalOpen, reattachingAnnotationId, isGDocs]);
 
   // Handle selection change (to hide component when selection is cleared)
   const handleSelectionChange = useCallback(() => {
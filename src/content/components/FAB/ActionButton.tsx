@@ -1,6 +1,6 @@
 // src/content/components/FAB/ActionButton.tsx
 import React, { useRef } from 'react';
-import { FileText, Languages, MoreVertical, Power, StopCircle, Bookmark, Globe, LayoutDashboard, Settings, Lightbulb, Bug, MessageSquare } from 'lucide-react';
+import { FileText, Languages, MoreVertical, Power, StopCircle, Bookmark, Globe, LayoutDashboard, Settings, Lightbulb, Bug, MessageSquare, GraduationCap, ListTree } from 'lucide-react';
 import { OnHoverMessage } from '../OnHoverMessage';
 import { Spinner } from '../ui/Spinner';
 
@@ -12,7 +12,7 @@ export interface ActionButtonProps {
   /** Click handler */
   onClick: () => void;
   /** Icon to display */
-  icon: 'summarise' | 'translate' | 'options' | 'settings' | 'disable' | 'stop' | 'bookmark' | 'globe' | 'dashboard' | 'featureRequest' | 'reportIssue' | 'askAboutPage';
+  icon: 'summarise' | 'translate' | 'options' | 'settings' | 'disable' | 'stop' | 'bookmark' | 'globe' | 'dashboard' | 'featureRequest' | 'reportIssue' | 'askAboutPage' | 'review' | 'annotations';
   /** Additional class name */
   className?: string;
   /** Whether to show loading spinner instead of icon */
@@ -42,6 +42,8 @@ const iconMap = {
   featureRequest: Lightbulb,
   reportIssue: Bug,
   askAboutPage: MessageSquare,
+  review: GraduationCap,
+  annotations: ListTree,
 };
 
 export const ActionButton: React.FC<ActionButtonProps> = ({
@@ -31,6 +31,10 @@ export interface FABProps {
   onFeatureRequest?: () => void;
   /** Callback when Ask About Page is clicked */
   onAskAboutPage?: () => void;
+  /** Callback when Review saved words is clicked */
+  onReviewWords?: () => void;
+  /** Callback when Annotations on this page is clicked */
+  onShowAnnotations?: () => void;
   /** Whether component is rendered in Shadow DOM (uses plain class names) */
   useShadowDom?: boolean;
   /** Whether summarise button is loading */
@@ -57,6 +61,8 @@ export interface FABProps {
   forceShowActions?: boolean;
   /** Whether the welcome modal is currently visible (triggers teal glow on FAB) */
   showWelcomeGlow?: boolean;
+  /** Saved words due for review today (badge on the FAB, hidden at 0) */
+  reviewDueCount?: number;
 }
 
 export const FAB: React.FC<FABProps> = ({
@@ -68,6 +74,8 @@ export const FAB: React.FC<FABProps> = ({
   onSaveUrl,
   onFeatureRequest,
   onAskAboutPage,
+  onReviewWords,
+  onShowAnnotations,
   useShadowDom = false,
   canHideActions = true,
   onShowModal,
@@ -79,6 +87,7 @@ export const FAB: React.FC<FABProps> = ({
   isBookmarked = false,
   forceShowActions = false,
   showWelcomeGlow = false,
+  reviewDueCount = 0,
 }) => {
   const [actionsVisible, setActionsVisible] = useState(false);
   const [showPulse, setShowPulse] = useState(true);
@@ -295,6 +304,16 @@ export const FAB: React.FC<FABProps> = ({
     setShowTranslationPopover(false);
   }, []);
 
+  const handleReviewWords = useCallback(() => {
+    console.log('[FAB] Review saved words clicked');
+    onReviewWords?.();
+  }, [onReviewWords]);
+
+  const handleShowAnnotations = useCallback(() => {
+    console.log('[FAB] Annotations on this page clicked');
+    onShowAnnotations?.();
+  }, [onShowAnnotations]);
+
   const handleOptions = useCallback(() => {
     console.log('[FAB] Options clicked');
     onOptions?.();
@@ -390,6 +409,7 @@ export const FAB: React.FC<FABProps> = ({
     `fabContainer ${actionsVisible ? 'actionsVisible' : ''} ${showWelcomeGlow ? 'welcomeGlow' : ''}`,
     `${styles.fabContainer} ${actionsVisible ? styles.actionsVisible : ''} ${showWelcomeGlow ? styles.welcomeGlow : ''}`
   );
+  const fabDueBadgeClass = getClassName('fabDueBadge', styles.fabDueBadge);
   const fabButtonClass = getClassName(
     `fabButton ${showPulse ? 'pulse' : ''} ${actionsVisible ? 'actionsVisible' : ''}`,
     `${styles.fabButton} ${showPulse ? styles.pulse : ''} ${actionsVisible ? styles.actionsVisible : ''}`
@@ -445,6 +465,18 @@ export const FAB: React.FC<FABProps> = ({
             className={actionButtonClass}
             isBookmarked={isBookmarked}
           />
+          <ActionButton
+            icon="review"
+            tooltip={reviewDueCount > 0 ? `Review saved words (${reviewDueCount} due)` : 'Review saved words'}
+            onClick={handleReviewWords}
+            className={actionButtonClass}
+          />
+          <ActionButton
+            icon="annotations"
+            tooltip="Annotations on this page"
+            onClick={handleShowAnnotations}
+            className={actionButtonClass}
+          />
           <ActionButton
             icon="settings"
             tooltip="Settings"
@@ -504,6 +536,11 @@ export const FAB: React.FC<FABProps> = ({
                 objectFit: 'contain'
               }}
             />
+            {reviewDueCount > 0 && (
+              <span className={fabDueBadgeClass} aria-label={`${reviewDueCount} words due for review`}>
+                {reviewDueCount > 99 ? '99+' : reviewDueCount}
+              </span>
+            )}
           </button>
         </div>
       </div>
@@ -1,6 +1,7 @@
 // src/content/components/HighlightDotMenu/HighlightDotMenu.tsx
 import React, { useRef, useState, useEffect } from 'react';
-import { Trash2, FileText } from 'lucide-react';
+import { Trash2, FileText, RefreshCw } from 'lucide-react';
+import type { OutboxSyncStatus } from '@/content/utils/syncOutbox';
 
 export interface HighlightDotMenuProps {
   /** Fixed viewport coordinates — the 13px dot will be centered here */
@@ -13,6 +14,10 @@ export interface HighlightDotMenuProps {
   onDelete: () => void;
   /** Called when "Add a note" is clicked */
   onAddNote?: () => void;
+  /** Set while the highlight has changes waiting in the sync outbox */
+  syncStatus?: OutboxSyncStatus;
+  /** Called when "Retry sync" is clicked (only offered for failed syncs) */
+  onRetrySync?: () => void;
   /** Called when the mouse enters the dot/dropdown — cancels hide timer */
   onMouseEnter: () => void;
   /** Called when the mouse leaves the dot/dropdown — starts hide timer */
@@ -25,6 +30,8 @@ export const HighlightDotMenu: React.FC<HighlightDotMenuProps> = ({
   onDotClick,
   onDelete,
   onAddNote,
+  syncStatus,
+  onRetrySync,
   onMouseEnter,
   onMouseLeave,
 }) => {
@@ -58,7 +65,7 @@ export const HighlightDotMenu: React.FC<HighlightDotMenuProps> = ({
       onMouseLeave={handleMouseLeave}
     >
       <button
-        className={`highlightDotBtn${isMounted ? ' visible' : ''}`}
+        className={`highlightDotBtn${isMounted ? ' visible' : ''}${syncStatus ? ` ${syncStatus}` : ''}`}
         onMouseDown={(e) => e.stopPropagation()}
         onClick={(e) => {
           e.stopPropagation();
@@ -75,6 +82,29 @@ export const HighlightDotMenu: React.FC<HighlightDotMenuProps> = ({
           className="highlightDotDropdown"
           onMouseDown={(e) => e.stopPropagation()}
         >
+          {syncStatus && (
+            <>
+              <div className={`highlightDotSyncStatus ${syncStatus}`}>
+                {syncStatus === 'failed' ? 'Not synced' : 'Waiting to sync'}
+              </div>
+              {syncStatus === 'failed' && (
+                <button
+                  className="highlightDotOption"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRetrySync?.();
+                  }}
+                  aria-label="Retry sync"
+                >
+                  <RefreshCw size={13} />
+                  <span>Retry sync</span>
+                </button>
+              )}
+              <div className="highlightDotOptionSeparator" />
+            </>
+          )}
+
           {/* Add a note */}
           <button
             className="highlightDotOption"
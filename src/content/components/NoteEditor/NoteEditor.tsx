@@ -1,16 +1,27 @@
 // src/content/components/NoteEditor/NoteEditor.tsx
 // Floating note editor card (create / edit modes).
 // Ported from PdfHighlightLayer.tsx noteEditor panel in xplaino-web.
+// Notes are edited as rich text and stored as Markdown. Older plain-text notes
+// load as Markdown paragraphs, with single line breaks kept.
 
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { X, Trash2 } from 'lucide-react';
+import { useEditor, EditorContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import { TaskList, TaskItem } from '@tiptap/extension-list';
+import { Markdown } from '@tiptap/markdown';
+import { X, Trash2, Heading2, List, ListOrdered, ListChecks, Code, Link2, Quote } from 'lucide-react';
+import { NoteReplyThread, type NoteReplyThreadProps } from '../NoteReplyThread/NoteReplyThread';
 
 export interface NoteEditorProps {
   mode: 'create' | 'edit';
   noteId?: string;
+  /** Markdown (or legacy plain text) to start from */
   initialContent?: string;
+  /** Text the note is anchored to; offered as a quote */
+  selectedText?: string;
   /** Fixed viewport coordinates where the editor should appear */
   position: { left: number; top: number };
+  /** Receives the note as Markdown */
   onSave: (content: string) => void;
   onUpdate: (noteId: string, content: string) => void;
   onDelete: (noteId: string) => void;
@@ -19,12 +30,15 @@ export interface NoteEditorProps {
   onMouseEnter: () => void;
   /** Called when the mouse leaves the editor — start a close timer */
   onMouseLeave: () => void;
+  /** Replies on the note (edit mode, signed-in users); omitted hides the thread */
+  replyThread?: NoteReplyThreadProps;
 }
 
 export const NoteEditor: React.FC<NoteEditorProps> = ({
   mode,
   noteId,
   initialContent = '',
+  selectedText,
   position,
   onSave,
   onUpdate,
@@ -32,13 +46,53 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
   onClose,
   onMouseEnter,
   onMouseLeave,
+  replyThread,
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const linkInputRef = useRef<HTMLInputElement>(null);
   const [content, setContent] = useState(initialContent);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
+  const [linkUrl, setLinkUrl] = useState<string | null>(null);
+  // Keyboard shortcuts are bound once by the editor; read the latest handlers through refs
+  const handleSaveRef = useRef<() => void>(() => {});
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({ link: { openOnClick: false } }),
+      TaskList,
+      TaskItem.configure({ nested: true }),
+      Markdown.configure({ markedOptions: { gfm: true, breaks: true } }),
+    ],
+    content: initialContent,
+    contentType: 'markdown',
+    autofocus: 'end',
+    // Keep the toolbar's active states in step with the cursor
+    shouldRerenderOnTransaction: true,
+    editorProps: {
+      handleKeyDown: (_view, e) => {
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          handleSaveRef.current();
+          return true;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          onCloseRef.current();
+          return true;
+        }
+        return false;
+      },
+    },
+    onUpdate: ({ editor }) => {
+      setContent(editor.isEmpty ? '' : editor.getMarkdown());
+    },
+  });
+
+  useEffect(() => () => { editor?.destroy(); }, [editor]);
 
   // Trigger the open animation on the next frame
   useEffect(() => {
@@ -46,14 +100,10 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     return () => cancelAnimationFrame(raf);
   }, []);
 
-  // Position cursor at end on mount and focus
+  const isEditingLink = linkUrl !== null;
   useEffect(() => {
-    const el = textareaRef.current;
-    if (!el) return;
-    const len = el.value.length;
-    el.setSelectionRange(len, len);
-    el.focus();
-  }, []);
+    if (isEditingLink) linkInputRef.current?.focus();
+  }, [isEditingLink]);
 
   // Clamp the editor so it stays on-screen
   const getClampedStyle = useCallback((): React.CSSProperties => {
@@ -86,6 +136,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
       setIsSaving(false);
     }
   }, [isSaving, content, mode, noteId, onSave, onUpdate]);
+  handleSaveRef.current = handleSave;
 
   const handleDelete = useCallback(async () => {
     if (isDeleting || !noteId) return;
@@ -97,20 +148,83 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
     }
   }, [isDeleting, noteId, onDelete]);
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+  const modeClass = mode === 'create' ? 'noteEditorCreate' : 'noteEditorEdit';
+  const visibleClass = isVisible ? ' noteEditorVisible' : '';
+  const busy = isSaving || isDeleting;
+
+  useEffect(() => {
+    editor?.setEditable(!busy);
+  }, [editor, busy]);
+
+  const handleLinkButton = () => {
+    if (!editor) return;
+    if (editor.isActive('link')) {
+      editor.chain().focus().extendMarkRange('link').unsetLink().run();
+      return;
+    }
+    setLinkUrl('');
+  };
+
+  const applyLink = () => {
+    const href = linkUrl?.trim();
+    setLinkUrl(null);
+    if (!editor) return;
+    if (!href) {
+      editor.commands.focus();
+      return;
+    }
+    const url = /^[a-z][a-z\d+.-]*:/i.test(href) ? href : `https://${href}`;
+    if (editor.state.selection.empty) {
+      editor.chain().focus().insertContent({ type: 'text', text: href, marks: [{ type: 'link', attrs: { href: url } }] }).run();
+    } else {
+      editor.chain().focus().setLink({ href: url }).run();
+    }
+  };
+
+  const handleLinkKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
       e.preventDefault();
-      handleSave();
+      applyLink();
     }
     if (e.key === 'Escape') {
       e.preventDefault();
-      onClose();
+      setLinkUrl(null);
+      editor?.commands.focus();
     }
   };
 
-  const modeClass = mode === 'create' ? 'noteEditorCreate' : 'noteEditorEdit';
-  const visibleClass = isVisible ? ' noteEditorVisible' : '';
-  const busy = isSaving || isDeleting;
+  const quoteSelectedText = () => {
+    if (!editor || !selectedText?.trim()) return;
+    const paragraphs = selectedText
+      .trim()
+      .split(/\n\s*\n/)
+      .map((text) => text.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map((text) => ({ type: 'paragraph', content: [{ type: 'text', text }] }));
+    editor
+      .chain()
+      .focus()
+      .insertContent([{ type: 'blockquote', content: paragraphs }, { type: 'paragraph' }])
+      .run();
+  };
+
+  const toolbarButton = (
+    title: string,
+    icon: React.ReactNode,
+    isActive: boolean,
+    onPress: () => void
+  ) => (
+    <button
+      type="button"
+      className={`noteEditorToolbarBtn${isActive ? ' noteEditorToolbarBtnActive' : ''}`}
+      onMouseDown={(e) => { e.preventDefault(); onPress(); }}
+      title={title}
+      aria-label={title}
+      disabled={busy}
+    >
+      {icon}
+    </button>
+  );
 
   return (
     <div
@@ -134,19 +248,52 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
         </button>
       </div>
 
-      {/* Textarea */}
-      <textarea
-        ref={textareaRef}
-        className="noteEditorTextarea"
-        value={content}
-        onChange={(e) => {
-          setContent(e.target.value);
-        }}
-        onKeyDown={handleKeyDown}
-        placeholder="Write your note here…"
-        rows={3}
-        disabled={busy}
-      />
+      {/* Formatting toolbar */}
+      {editor && (
+        <div className="noteEditorToolbar">
+          {toolbarButton('Heading', <Heading2 size={13} />, editor.isActive('heading'), () =>
+            editor.chain().focus().toggleHeading({ level: 3 }).run()
+          )}
+          {toolbarButton('Bullet list', <List size={13} />, editor.isActive('bulletList'), () =>
+            editor.chain().focus().toggleBulletList().run()
+          )}
+          {toolbarButton('Numbered list', <ListOrdered size={13} />, editor.isActive('orderedList'), () =>
+            editor.chain().focus().toggleOrderedList().run()
+          )}
+          {toolbarButton('Checklist', <ListChecks size={13} />, editor.isActive('taskList'), () =>
+            editor.chain().focus().toggleTaskList().run()
+          )}
+          {toolbarButton('Code', <Code size={13} />, editor.isActive('code'), () =>
+            editor.chain().focus().toggleCode().run()
+          )}
+          {toolbarButton(editor.isActive('link') ? 'Remove link' : 'Link', <Link2 size={13} />, editor.isActive('link'), handleLinkButton)}
+          {selectedText?.trim() && (
+            <>
+              <div className="noteEditorToolbarDivider" />
+              {toolbarButton('Quote the highlighted text', <Quote size={13} />, false, quoteSelectedText)}
+            </>
+          )}
+        </div>
+      )}
+
+      {isEditingLink && (
+        <input
+          ref={linkInputRef}
+          className="noteEditorLinkInput"
+          type="url"
+          value={linkUrl}
+          onChange={(e) => setLinkUrl(e.target.value)}
+          onKeyDown={handleLinkKeyDown}
+          onBlur={() => setLinkUrl(null)}
+          placeholder="Paste a link and press Enter"
+        />
+      )}
+
+      {/* Editor */}
+      <div className="noteEditorContent">
+        {!content && <span className="noteEditorPlaceholder">Write your note here…</span>}
+        <EditorContent editor={editor} />
+      </div>
 
       {/* Actions row */}
       <div className="noteEditorActions">
@@ -179,6 +326,8 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({
         </button>
       </div>
 
+      {mode === 'edit' && replyThread && <NoteReplyThread {...replyThread} />}
+
       {/* Bottom-left resize grip — purely decorative, actual resize is handled by CSS */}
       <div className="noteEditorResizeHandle" aria-hidden="true">
         <svg viewBox="0 0 10 10" fill="currentColor" width="10" height="10">
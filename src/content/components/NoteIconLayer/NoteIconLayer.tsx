@@ -22,6 +22,8 @@ export interface NoteIconLayerProps {
   onClick: (noteId: string, anchorRect: DOMRect) => void;
   /** ID of the note whose editor is currently open/pinned */
   pinnedNoteId: string | null;
+  /** Called when the user clicks the badge of a note whose sync failed */
+  onRetrySync?: (noteId: string) => void;
 }
 
 export const NoteIconLayer: React.FC<NoteIconLayerProps> = ({
@@ -31,6 +33,7 @@ export const NoteIconLayer: React.FC<NoteIconLayerProps> = ({
   onLeave,
   onClick,
   pinnedNoteId,
+  onRetrySync,
 }) => {
   return (
     <>
@@ -71,10 +74,28 @@ export const NoteIconLayer: React.FC<NoteIconLayerProps> = ({
               }}
               onMouseDown={(e) => e.stopPropagation()}
               aria-label="View or edit note"
-              title="Note"
+              title={
+                note.syncStatus === 'failed'
+                  ? 'Note (not synced)'
+                  : note.syncStatus === 'pending'
+                    ? 'Note (waiting to sync)'
+                    : 'Note'
+              }
             >
               <MessageSquare size={17} strokeWidth={2.2} />
             </button>
+            {note.syncStatus && (
+              <button
+                className={`noteIconSyncBadge ${note.syncStatus}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (note.syncStatus === 'failed') onRetrySync?.(note.id);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                aria-label={note.syncStatus === 'failed' ? 'Retry sync' : 'Waiting to sync'}
+                title={note.syncStatus === 'failed' ? 'Not synced, click to retry' : 'Waiting to sync'}
+              />
+            )}
           </div>
         );
       })}
@@ -0,0 +1,161 @@
+// src/content/components/NoteReplyThread/NoteReplyThread.tsx
+// Threaded replies on a note, with a form to reply to the note or to any reply.
+// Shown under own notes in the NoteEditor and under shared notes in the
+// SharedAnnotationLayer card.
+
+import React, { useMemo, useState } from 'react';
+import { CornerDownRight, Trash2 } from 'lucide-react';
+import type { NoteReplyResponse } from '@/api-services/dto/AnnotationShareDTO';
+import { AuthorAvatar } from '../AuthorAvatar/AuthorAvatar';
+
+/** Replies nested deeper than this are drawn at this depth */
+const MAX_INDENT_DEPTH = 3;
+
+export interface NoteReplyThreadProps {
+  /** Replies on the note, oldest first; null while they load */
+  replies: NoteReplyResponse[] | null;
+  /** Signed-in user's ID; their own replies can be deleted */
+  currentUserId: string | null;
+  /** Post a reply to the note, or to another reply when `parentReplyId` is set */
+  onReply: (content: string, parentReplyId?: string) => Promise<void>;
+  onDelete: (replyId: string) => Promise<void>;
+}
+
+interface ThreadEntry {
+  reply: NoteReplyResponse;
+  depth: number;
+}
+
+/** Depth-first order, each reply followed by its answers */
+function flattenThread(replies: NoteReplyResponse[]): ThreadEntry[] {
+  const ids = new Set(replies.map((reply) => reply.id));
+  const children = new Map<string | null, NoteReplyResponse[]>();
+  for (const reply of replies) {
+    // Answers to a deleted reply move up to the note
+    const parent = reply.parentReplyId && ids.has(reply.parentReplyId) ? reply.parentReplyId : null;
+    children.set(parent, [...(children.get(parent) ?? []), reply]);
+  }
+  const entries: ThreadEntry[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const reply of children.get(parentId) ?? []) {
+      entries.push({ reply, depth });
+      visit(reply.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return entries;
+}
+
+export const NoteReplyThread: React.FC<NoteReplyThreadProps> = ({
+  replies,
+  currentUserId,
+  onReply,
+  onDelete,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<NoteReplyResponse | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = useMemo(() => flattenThread(replies ?? []), [replies]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || isPosting) return;
+    setIsPosting(true);
+    setError(null);
+    try {
+      await onReply(content, replyingTo?.id);
+      setDraft('');
+      setReplyingTo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post reply');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (replyId: string) => {
+    setError(null);
+    try {
+      await onDelete(replyId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete reply');
+    }
+  };
+
+  return (
+    <div className="noteReplyThread" onMouseDown={(e) => e.stopPropagation()}>
+      {replies === null ? (
+        <p className="noteReplyThreadStatus">Loading replies…</p>
+      ) : entries.length > 0 && (
+        <ul className="noteReplyList">
+          {entries.map(({ reply, depth }) => (
+            <li
+              key={reply.id}
+              className="noteReply"
+              style={{ marginLeft: `${Math.min(depth, MAX_INDENT_DEPTH) * 14}px` }}
+            >
+              <div className="noteReplyHeader">
+                <AuthorAvatar author={reply.author} size={16} />
+                <span className="noteReplyAuthor">{reply.author.name || reply.author.email}</span>
+                <span className="noteReplyDate">{new Date(reply.createdAt).toLocaleDateString()}</span>
+              </div>
+              <p className="noteReplyContent">{reply.content}</p>
+              <div className="noteReplyActions">
+                <button type="button" className="noteReplyAction" onClick={() => setReplyingTo(reply)}>
+                  <CornerDownRight size={11} />
+                  Reply
+                </button>
+                {reply.author.id === currentUserId && (
+                  <button
+                    type="button"
+                    className="noteReplyAction"
+                    onClick={() => handleDelete(reply.id)}
+                    aria-label="Delete reply"
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="noteReplyForm" onSubmit={handleSubmit}>
+        {replyingTo && (
+          <div className="noteReplyingTo">
+            <span>Replying to {replyingTo.author.name || replyingTo.author.email}</span>
+            <button type="button" className="noteReplyAction" onClick={() => setReplyingTo(null)}>
+              Cancel
+            </button>
+          </div>
+        )}
+        <textarea
+          className="noteReplyInput"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep page shortcuts from firing while typing
+            e.stopPropagation();
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              e.currentTarget.form?.requestSubmit();
+            }
+          }}
+          placeholder={replyingTo ? 'Write a reply…' : 'Reply to this note…'}
+          rows={2}
+          disabled={isPosting}
+        />
+        {error && <p className="noteReplyError">{error}</p>}
+        <button type="submit" className="noteReplySubmit" disabled={isPosting || !draft.trim()}>
+          {isPosting ? 'Posting…' : 'Reply'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+NoteReplyThread.displayName = 'NoteReplyThread';
@@ -0,0 +1,123 @@
+// src/content/components/ReaderToolbar/ReaderToolbar.tsx
+import React from 'react';
+import { Minus, Plus, Sun, Moon, X, ChevronsLeftRight, UnfoldVertical } from 'lucide-react';
+import type { Theme } from '@/constants/theme';
+import type { ReaderPreferencesDTO } from '@/storage/chrome-local/dto';
+
+export interface ReaderToolbarProps {
+  /** Whether the reader view is open */
+  visible: boolean;
+  preferences: ReaderPreferencesDTO;
+  /** Theme currently applied (the stored preference may be null = follow site theme) */
+  theme: Theme;
+  /** Called with the updated preferences on every change */
+  onChange: (preferences: ReaderPreferencesDTO) => void;
+  onClose: () => void;
+}
+
+const FONT_SIZE_RANGE = { min: 14, max: 28, step: 1 };
+const LINE_HEIGHT_RANGE = { min: 1.3, max: 2.2, step: 0.1 };
+const CONTENT_WIDTH_RANGE = { min: 480, max: 1000, step: 80 };
+
+function stepValue(value: number, range: { min: number; max: number; step: number }, direction: 1 | -1): number {
+  const next = Math.round((value + direction * range.step) * 10) / 10;
+  return Math.min(range.max, Math.max(range.min, next));
+}
+
+/**
+ * Floating controls for the reader view: text size, font, line spacing,
+ * column width, light/dark theme and close.
+ */
+export const ReaderToolbar: React.FC<ReaderToolbarProps> = ({
+  visible,
+  preferences,
+  theme,
+  onChange,
+  onClose,
+}) => {
+  if (!visible) return null;
+
+  const update = (patch: Partial<ReaderPreferencesDTO>) => onChange({ ...preferences, ...patch });
+
+  const renderStepper = (
+    key: 'fontSize' | 'lineHeight' | 'contentWidth',
+    range: { min: number; max: number; step: number },
+    label: string,
+    icon: React.ReactNode
+  ) => (
+    <div className="readerToolbarGroup" title={label}>
+      <button
+        type="button"
+        className="readerToolbarButton"
+        onClick={() => update({ [key]: stepValue(preferences[key], range, -1) })}
+        disabled={preferences[key] <= range.min}
+        aria-label={`Decrease ${label.toLowerCase()}`}
+      >
+        <Minus size={14} />
+      </button>
+      <span className="readerToolbarIcon">{icon}</span>
+      <button
+        type="button"
+        className="readerToolbarButton"
+        onClick={() => update({ [key]: stepValue(preferences[key], range, 1) })}
+        disabled={preferences[key] >= range.max}
+        aria-label={`Increase ${label.toLowerCase()}`}
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div
+      className="readerToolbar"
+      role="toolbar"
+      aria-label="Reader view"
+      // Keep keystrokes and clicks away from the page's own handlers
+      onKeyDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      {renderStepper('fontSize', FONT_SIZE_RANGE, 'Text size', <span className="readerToolbarGlyph">Aa</span>)}
+      {renderStepper('lineHeight', LINE_HEIGHT_RANGE, 'Line spacing', <UnfoldVertical size={14} />)}
+      {renderStepper('contentWidth', CONTENT_WIDTH_RANGE, 'Column width', <ChevronsLeftRight size={14} />)}
+
+      <div className="readerToolbarGroup">
+        {(['serif', 'sans'] as const).map((family) => (
+          <button
+            key={family}
+            type="button"
+            className={`readerToolbarButton readerToolbarFontButton ${family === 'serif' ? 'readerToolbarSerif' : ''} ${preferences.fontFamily === family ? 'readerToolbarButtonActive' : ''}`}
+            onClick={() => update({ fontFamily: family })}
+            aria-pressed={preferences.fontFamily === family}
+          >
+            {family === 'serif' ? 'Serif' : 'Sans'}
+          </button>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        className="readerToolbarButton"
+        onClick={() => update({ theme: theme === 'dark' ? 'light' : 'dark' })}
+        title={theme === 'dark' ? 'Light theme' : 'Dark theme'}
+        aria-label={theme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme'}
+      >
+        {theme === 'dark' ? <Sun size={16} /> : <Moon size={16} />}
+      </button>
+
+      <div className="readerToolbarDivider" />
+
+      <button
+        type="button"
+        className="readerToolbarButton"
+        onClick={onClose}
+        title="Close reader view"
+        aria-label="Close reader view"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+ReaderToolbar.displayName = 'ReaderToolbar';
@@ -0,0 +1,141 @@
+// src/content/components/SharedAnnotationLayer/SharedAnnotationLayer.tsx
+// Renders an author avatar at the end of each highlight or note that another
+// user shared on this page. Clicking an avatar opens a card with the
+// annotation and, for notes, its reply thread.
+
+import React from 'react';
+import { X } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import type { NoteReplyResponse } from '@/api-services/dto/AnnotationShareDTO';
+import type { SharedAnnotationState } from '@/store/sharedAnnotationAtoms';
+import { AuthorAvatar } from '../AuthorAvatar/AuthorAvatar';
+import { NoteReplyThread } from '../NoteReplyThread/NoteReplyThread';
+
+const AVATAR_SIZE = 20;
+const CARD_WIDTH = 260;
+const CARD_MARGIN = 8;
+
+export interface SharedAnnotationLayerProps {
+  annotations: SharedAnnotationState[];
+  /** Fixed-viewport avatar positions keyed by annotation ID (rightmost edge of the range) */
+  positions: Record<string, { left: number; top: number }>;
+  /** Annotation whose card is open */
+  openId: string | null;
+  onOpen: (id: string) => void;
+  onClose: () => void;
+  /** Replies keyed by note ID; a note without an entry is still loading */
+  replies: Map<string, NoteReplyResponse[]>;
+  currentUserId: string | null;
+  onReply: (noteId: string, content: string, parentReplyId?: string) => Promise<void>;
+  onDeleteReply: (noteId: string, replyId: string) => Promise<void>;
+}
+
+export const SharedAnnotationLayer: React.FC<SharedAnnotationLayerProps> = ({
+  annotations,
+  positions,
+  openId,
+  onOpen,
+  onClose,
+  replies,
+  currentUserId,
+  onReply,
+  onDeleteReply,
+}) => {
+  // Avatars that land on the same spot (a note on a highlight) are fanned out
+  const placed = new Map<string, number>();
+  const avatarPositions: Record<string, { left: number; top: number }> = {};
+  for (const annotation of annotations) {
+    const position = positions[annotation.id];
+    if (!position) continue;
+    const key = `${Math.round(position.left)}:${Math.round(position.top)}`;
+    const index = placed.get(key) ?? 0;
+    placed.set(key, index + 1);
+    avatarPositions[annotation.id] = { left: position.left + index * (AVATAR_SIZE - 6), top: position.top };
+  }
+
+  const open = openId ? annotations.find((a) => a.id === openId) : undefined;
+  const openPosition = open ? avatarPositions[open.id] : undefined;
+
+  return (
+    <>
+      {annotations.map((annotation) => {
+        const position = avatarPositions[annotation.id];
+        if (!position) return null;
+        const authorName = annotation.author.name || annotation.author.email;
+        return (
+          <div
+            key={annotation.id}
+            className="sharedAnnotationAvatarWrapper"
+            style={{ left: `${position.left}px`, top: `${position.top}px` }}
+          >
+            <button
+              type="button"
+              className={`sharedAnnotationAvatarBtn${openId === annotation.id ? ' sharedAnnotationAvatarBtnOpen' : ''}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                if (openId === annotation.id) {
+                  onClose();
+                } else {
+                  onOpen(annotation.id);
+                }
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              title={annotation.kind === 'note' ? `Note by ${authorName}` : `Highlighted by ${authorName}`}
+              aria-label={annotation.kind === 'note' ? `Open note by ${authorName}` : `Open highlight by ${authorName}`}
+            >
+              <AuthorAvatar author={annotation.author} size={AVATAR_SIZE} />
+              {annotation.kind === 'note' && <span className="sharedAnnotationNoteBadge" aria-hidden="true" />}
+            </button>
+          </div>
+        );
+      })}
+
+      {open && openPosition && (
+        <div
+          className="sharedAnnotationCard"
+          style={{
+            left: `${Math.max(CARD_MARGIN, Math.min(openPosition.left - CARD_WIDTH / 2, window.innerWidth - CARD_WIDTH - CARD_MARGIN))}px`,
+            top: `${Math.min(openPosition.top + AVATAR_SIZE + 6, window.innerHeight - 160)}px`,
+            width: `${CARD_WIDTH}px`,
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div className="sharedAnnotationCardHeader">
+            <AuthorAvatar author={open.author} size={22} />
+            <div className="sharedAnnotationCardAuthor">
+              <span className="sharedAnnotationCardName">{open.author.name || open.author.email}</span>
+              <span className="sharedAnnotationCardMeta">
+                {open.kind === 'note' ? 'Note' : 'Highlight'} · {new Date(open.createdAt).toLocaleDateString()}
+              </span>
+            </div>
+            <button type="button" className="sharedAnnotationCardClose" onClick={onClose} aria-label="Close">
+              <X size={14} />
+            </button>
+          </div>
+          <blockquote
+            className="sharedAnnotationCardQuote"
+            style={open.color ? { borderLeftColor: open.color } : undefined}
+          >
+            {open.selectedText}
+          </blockquote>
+          {open.content && (
+            <div className="sharedAnnotationCardContent">
+              <ReactMarkdown remarkPlugins={[remarkBreaks]}>{open.content}</ReactMarkdown>
+            </div>
+          )}
+          {open.kind === 'note' && (
+            <NoteReplyThread
+              replies={replies.get(open.id) ?? null}
+              currentUserId={currentUserId}
+              onReply={(content, parentReplyId) => onReply(open.id, content, parentReplyId)}
+              onDelete={(replyId) => onDeleteReply(open.id, replyId)}
+            />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+SharedAnnotationLayer.displayName = 'SharedAnnotationLayer';
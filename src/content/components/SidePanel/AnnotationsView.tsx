@@ -0,0 +1,409 @@
+// src/content/components/SidePanel/AnnotationsView.tsx
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import ReactMarkdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import { Bookmark, BookOpen, Highlighter, Image as ImageIcon, Loader2, MessageSquare, Search, Trash2, UserPlus, X, type LucideIcon } from 'lucide-react';
+import { pageAnnotationsAtom, type PageAnnotation, type PageAnnotationKind } from '@/store/pageAnnotationAtoms';
+import { pageSharesAtom } from '@/store/sharedAnnotationAtoms';
+import { isUserLoggedInAtom } from '@/store/uiAtoms';
+import { highlightColoursAtom } from '@/store/webHighlightAtoms';
+import type { ExportFormat } from '@/content/utils/exportFormatter';
+import { ExportMenu } from './ExportMenu';
+import styles from './AnnotationsView.module.css';
+
+export interface AnnotationsViewActions {
+  /** Scroll the page to an annotation */
+  onScrollTo: (annotation: PageAnnotation) => void;
+  /** Delete highlights and notes, remove bookmarks and saved words, dismiss image explanations */
+  onDelete: (annotations: PageAnnotation[]) => void;
+  /** Give highlights another colour */
+  onRecolor: (highlightIds: string[], color: string) => void;
+  /** Share the page's highlights and notes with a user ID or email address */
+  onShare: (recipient: string) => Promise<void>;
+  /** Stop sharing with someone */
+  onUnshare: (shareId: string) => Promise<void>;
+  /** Download the page's highlights and notes */
+  onExport: (format: ExportFormat) => void;
+}
+
+export interface AnnotationsViewProps {
+  actions: AnnotationsViewActions;
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+type KindFilter = PageAnnotationKind | 'all';
+
+const KIND_LABELS: Record<PageAnnotationKind, { one: string; many: string }> = {
+  highlight: { one: 'Highlight', many: 'Highlights' },
+  note: { one: 'Note', many: 'Notes' },
+  bookmark: { one: 'Bookmark', many: 'Bookmarks' },
+  word: { one: 'Word', many: 'Words' },
+  image: { one: 'Image', many: 'Images' },
+};
+
+const KIND_ICONS: Record<PageAnnotationKind, LucideIcon> = {
+  highlight: Highlighter,
+  note: MessageSquare,
+  bookmark: Bookmark,
+  word: BookOpen,
+  image: ImageIcon,
+};
+
+function annotationKey(annotation: PageAnnotation): string {
+  return `${annotation.kind}:${annotation.id}`;
+}
+
+function matchesQuery(annotation: PageAnnotation, query: string): boolean {
+  if (!query) return true;
+  const haystack = `${annotation.text} ${annotation.content ?? ''}`.toLowerCase();
+  return haystack.includes(query);
+}
+
+interface PageShareSectionProps {
+  actions: AnnotationsViewActions;
+  getClassName: (baseClass: string) => string;
+}
+
+/** Who the page's highlights and notes are shared with, and a form to add someone */
+const PageShareSection: React.FC<PageShareSectionProps> = ({ actions, getClassName }) => {
+  const shares = useAtomValue(pageSharesAtom);
+  const [isOpen, setIsOpen] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [shareLoading, setShareLoading] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recipient.trim() || shareLoading) return;
+    try {
+      setShareLoading(true);
+      setShareError(null);
+      await actions.onShare(recipient.trim());
+      setRecipient('');
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to share annotations');
+    } finally {
+      setShareLoading(false);
+    }
+  };
+
+  const handleUnshare = async (shareId: string) => {
+    try {
+      setShareError(null);
+      await actions.onUnshare(shareId);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to remove share');
+    }
+  };
+
+  return (
+    <div className={getClassName('annotationsShare')}>
+      <button
+        type="button"
+        className={getClassName('annotationsShareToggle')}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <UserPlus size={13} />
+        {shares.length > 0 ? `Shared with ${shares.length === 1 ? '1 person' : `${shares.length} people`}` : 'Share with teammates'}
+      </button>
+      {isOpen && (
+        <>
+          <form className={getClassName('annotationsShareForm')} onSubmit={handleShare}>
+            <input
+              type="text"
+              className={getClassName('annotationsShareInput')}
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="Email or user ID"
+              autoFocus
+            />
+            <button
+              type="submit"
+              className={getClassName('annotationsShareSubmit')}
+              disabled={!recipient.trim() || shareLoading}
+            >
+              {shareLoading && <Loader2 size={12} className={getClassName('annotationsSpin')} />}
+              Share
+            </button>
+          </form>
+          {shareError && <p className={getClassName('annotationsShareError')}>{shareError}</p>}
+          {shares.length > 0 && (
+            <ul className={getClassName('annotationsShareList')}>
+              {shares.map((share) => (
+                <li key={share.id} className={getClassName('annotationsShareItem')}>
+                  <span className={getClassName('annotationsShareName')}>
+                    {share.sharedTo.name || share.sharedTo.email}
+                  </span>
+                  <button
+                    type="button"
+                    className={getClassName('annotationsShareRemove')}
+                    onClick={() => handleUnshare(share.id)}
+                    aria-label={`Stop sharing with ${share.sharedTo.name || share.sharedTo.email}`}
+                    title="Stop sharing"
+                  >
+                    <X size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Every highlight, note, bookmark, saved word and explained image on the page,
+ * in document order. Filter by type, colour or text; click an item to scroll
+ * to it; select several to delete or recolour them together.
+ */
+export const AnnotationsView: React.FC<AnnotationsViewProps> = ({
+  actions,
+  useShadowDom = false,
+}) => {
+  const annotations = useAtomValue(pageAnnotationsAtom);
+  const colours = useAtomValue(highlightColoursAtom);
+  const isLoggedIn = useAtomValue(isUserLoggedInAtom);
+  const [query, setQuery] = useState('');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [colourFilter, setColourFilter] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  const counts = useMemo(() => {
+    const byKind: Record<PageAnnotationKind, number> = { highlight: 0, note: 0, bookmark: 0, word: 0, image: 0 };
+    for (const annotation of annotations) byKind[annotation.kind] += 1;
+    return byKind;
+  }, [annotations]);
+
+  const visible = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    return annotations.filter((annotation) => {
+      if (kindFilter !== 'all' && annotation.kind !== kindFilter) return false;
+      // A colour filter narrows the list to highlights of that colour
+      if (colourFilter && (annotation.kind !== 'highlight' || annotation.color?.toLowerCase() !== colourFilter)) {
+        return false;
+      }
+      return matchesQuery(annotation, normalizedQuery);
+    });
+  }, [annotations, query, kindFilter, colourFilter]);
+
+  // Drop selections whose annotation is gone (deleted here or elsewhere on the page)
+  useEffect(() => {
+    setSelected((prev) => {
+      const keys = new Set(annotations.map(annotationKey));
+      const next = new Set([...prev].filter((key) => keys.has(key)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [annotations]);
+
+  const selectedAnnotations = annotations.filter((annotation) => selected.has(annotationKey(annotation)));
+  const selectedHighlightIds = selectedAnnotations.filter((a) => a.kind === 'highlight').map((a) => a.id);
+  const allVisibleSelected = visible.length > 0 && visible.every((a) => selected.has(annotationKey(a)));
+
+  const toggleSelected = (annotation: PageAnnotation) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const key = annotationKey(annotation);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(annotationKey)));
+  };
+
+  const handleDelete = () => {
+    if (selectedAnnotations.length === 0) return;
+    actions.onDelete(selectedAnnotations);
+    setSelected(new Set());
+  };
+
+  const kindFilters: KindFilter[] = ['all', 'highlight', 'note', 'bookmark', 'word', 'image'];
+
+  // Sharing needs an account; annotations saved while signed out stay on this device
+  const shareSection = isLoggedIn && <PageShareSection actions={actions} getClassName={getClassName} />;
+
+  if (annotations.length === 0) {
+    return (
+      <div className={getClassName('annotationsView')}>
+        {shareSection}
+        <div className={getClassName('annotationsEmpty')}>
+          <p className={getClassName('annotationsEmptyTitle')}>Nothing on this page yet</p>
+          <p className={getClassName('annotationsEmptyText')}>
+            Highlights, notes, bookmarked paragraphs, saved words and explained images will be listed here.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={getClassName('annotationsView')}>
+      {shareSection}
+      <div className={getClassName('annotationsToolbar')}>
+        <div className={getClassName('annotationsSearch')}>
+          <Search size={14} />
+          <input
+            type="text"
+            className={getClassName('annotationsSearchInput')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search annotations"
+          />
+          {query && (
+            <button
+              type="button"
+              className={getClassName('annotationsSearchClear')}
+              onClick={() => setQuery('')}
+              aria-label="Clear search"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        {/* The export covers highlights and notes, the items saved to the page */}
+        {counts.highlight + counts.note > 0 && (
+          <ExportMenu
+            onExport={actions.onExport}
+            buttonClassName={getClassName('annotationsExport')}
+            iconSize={14}
+            useShadowDom={useShadowDom}
+          />
+        )}
+      </div>
+
+      <div className={getClassName('annotationsFilters')}>
+        {kindFilters.map((kind) => {
+          const count = kind === 'all' ? annotations.length : counts[kind];
+          if (kind !== 'all' && count === 0) return null;
+          return (
+            <button
+              key={kind}
+              type="button"
+              className={`${getClassName('annotationsFilter')} ${kindFilter === kind ? getClassName('annotationsFilterActive') : ''}`}
+              onClick={() => setKindFilter(kind)}
+            >
+              {kind === 'all' ? 'All' : KIND_LABELS[kind].many} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {counts.highlight > 0 && colours.length > 0 && (
+        <div className={getClassName('annotationsColours')}>
+          <span className={getClassName('annotationsColoursLabel')}>Colour</span>
+          {colours.map((colour) => {
+            const hex = colour.hexcode.toLowerCase();
+            return (
+              <button
+                key={colour.id}
+                type="button"
+                className={`${getClassName('annotationsSwatch')} ${colourFilter === hex ? getClassName('annotationsSwatchActive') : ''}`}
+                style={{ backgroundColor: colour.hexcode }}
+                onClick={() => setColourFilter(colourFilter === hex ? null : hex)}
+                aria-label={`Show highlights in ${colour.hexcode}`}
+                aria-pressed={colourFilter === hex}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      <div className={getClassName('annotationsToolbar')}>
+        <label className={getClassName('annotationsSelectAll')}>
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} disabled={visible.length === 0} />
+          <span>{selected.size > 0 ? `${selected.size} selected` : 'Select all'}</span>
+        </label>
+        {selected.size > 0 && (
+          <div className={getClassName('annotationsBulkActions')}>
+            {selectedHighlightIds.length > 0 && colours.map((colour) => (
+              <button
+                key={colour.id}
+                type="button"
+                className={getClassName('annotationsSwatch')}
+                style={{ backgroundColor: colour.hexcode }}
+                onClick={() => actions.onRecolor(selectedHighlightIds, colour.hexcode)}
+                title="Recolour selected highlights"
+                aria-label={`Recolour selected highlights to ${colour.hexcode}`}
+              />
+            ))}
+            <button
+              type="button"
+              className={getClassName('annotationsDelete')}
+              onClick={handleDelete}
+              title="Delete selected"
+            >
+              <Trash2 size={12} />
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className={getClassName('annotationsEmptyText')}>No annotations match.</p>
+      ) : (
+        <ul className={getClassName('annotationsList')}>
+          {visible.map((annotation) => {
+            const key = annotationKey(annotation);
+            const Icon = KIND_ICONS[annotation.kind];
+            return (
+              <li key={key} className={getClassName('annotationsItem')}>
+                <input
+                  type="checkbox"
+                  className={getClassName('annotationsItemCheckbox')}
+                  checked={selected.has(key)}
+                  onChange={() => toggleSelected(annotation)}
+                  aria-label="Select annotation"
+                />
+                <button
+                  type="button"
+                  className={getClassName('annotationsItemBody')}
+                  onClick={() => actions.onScrollTo(annotation)}
+                  title="Show on page"
+                >
+                  <span className={getClassName('annotationsItemKind')}>
+                    <Icon size={12} />
+                    {KIND_LABELS[annotation.kind].one}
+                  </span>
+                  {annotation.kind === 'image' && annotation.imageSrc && (
+                    <img className={getClassName('annotationsItemImage')} src={annotation.imageSrc} alt="" />
+                  )}
+                  <span
+                    className={getClassName('annotationsItemText')}
+                    style={annotation.kind === 'highlight' && annotation.color ? { borderLeftColor: annotation.color } : undefined}
+                  >
+                    {annotation.text}
+                  </span>
+                  {annotation.content && (
+                    <div className={getClassName('annotationsItemNote')}>
+                      <ReactMarkdown remarkPlugins={[remarkBreaks]}>{annotation.content}</ReactMarkdown>
+                    </div>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+AnnotationsView.displayName = 'AnnotationsView';
@@ -0,0 +1,90 @@
+// src/content/components/SidePanel/ExportMenu.tsx
+import React, { useCallback, useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, type ExportFormat } from '@/content/utils/exportFormatter';
+import styles from './ExportMenu.module.css';
+
+export interface ExportMenuProps {
+  /** Called with the chosen format; the menu closes itself first */
+  onExport: (format: ExportFormat) => void;
+  /** Class for the trigger button, so it matches the toolbar it sits in */
+  buttonClassName: string;
+  /** Icon size for the trigger button */
+  iconSize?: number;
+  /** Open the menu above the button (for bottom toolbars) instead of below */
+  openUpward?: boolean;
+  disabled?: boolean;
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  buttonClassName,
+  iconSize = 13,
+  openUpward = false,
+  disabled = false,
+  useShadowDom = false,
+}) => {
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  // Fixed position so the menu escapes overflow:hidden toolbars
+  const [menuPos, setMenuPos] = useState<React.CSSProperties | null>(null);
+
+  const handleToggle = (e: React.MouseEvent<HTMLButtonElement>) => {
+    if (menuPos) {
+      setMenuPos(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    setMenuPos(
+      openUpward
+        ? { bottom: window.innerHeight - rect.top + 6, right: window.innerWidth - rect.right }
+        : { top: rect.bottom + 6, right: window.innerWidth - rect.right }
+    );
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className={buttonClassName}
+        onClick={handleToggle}
+        disabled={disabled}
+        aria-label="Export"
+        title="Export"
+      >
+        <Download size={iconSize} />
+      </button>
+      {menuPos && (
+        <>
+          <div className={getClassName('exportMenuBackdrop')} onMouseDown={() => setMenuPos(null)} />
+          <div className={getClassName('exportMenu')} style={menuPos} role="menu">
+            <div className={getClassName('exportMenuTitle')}>Export as</div>
+            {EXPORT_FORMATS.map((format) => (
+              <button
+                key={format.id}
+                type="button"
+                role="menuitem"
+                className={getClassName('exportMenuItem')}
+                onClick={() => {
+                  setMenuPos(null);
+                  onExport(format.id);
+                }}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+ExportMenu.displayName = 'ExportMenu';
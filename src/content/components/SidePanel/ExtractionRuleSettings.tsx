@@ -0,0 +1,219 @@
+// src/content/components/SidePanel/ExtractionRuleSettings.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import type { SiteExtractionRuleDTO } from '@/storage/chrome-local/dto';
+import {
+  findSiteExtractionRule,
+  getRuleDomain,
+  getSelectorForElement,
+  isValidSelector,
+  parseSelectorList,
+} from '@/content/utils/siteExtractionRules';
+import { startElementPicker } from '@/content/utils/elementPicker';
+import styles from './ExtractionRuleSettings.module.css';
+
+export interface ExtractionRuleSettingsProps {
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+type PickTarget = 'main' | 'include' | 'exclude';
+
+const PICK_HINTS: Record<PickTarget, string> = {
+  main: 'Click the main content area',
+  include: 'Click an area to always include',
+  exclude: 'Click an area to leave out',
+};
+
+function appendLine(text: string, line: string): string {
+  const lines = parseSelectorList(text);
+  if (lines.includes(line)) return text;
+  return [...lines, line].join('\n');
+}
+
+/**
+ * Editor for this site's content extraction rule: the main content container
+ * plus areas to always include or leave out. Selectors can be typed or picked
+ * on the page. Saved rules apply to summaries, page chat and page translation.
+ */
+export const ExtractionRuleSettings: React.FC<ExtractionRuleSettingsProps> = ({ useShadowDom = false }) => {
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  const domain = getRuleDomain();
+  const [savedRule, setSavedRule] = useState<SiteExtractionRuleDTO | null>(null);
+  const [mainSelector, setMainSelector] = useState('');
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [pickTarget, setPickTarget] = useState<PickTarget | null>(null);
+  const stopPickerRef = useRef<(() => void) | null>(null);
+
+  const applyRuleToForm = (rule: SiteExtractionRuleDTO | null) => {
+    setMainSelector(rule?.mainSelector ?? '');
+    setIncludeText(rule?.includeSelectors.join('\n') ?? '');
+    setExcludeText(rule?.excludeSelectors.join('\n') ?? '');
+  };
+
+  useEffect(() => {
+    ChromeStorage.getSiteExtractionRules().then((rules) => {
+      const rule = findSiteExtractionRule(rules, domain);
+      setSavedRule(rule);
+      applyRuleToForm(rule);
+    });
+  }, [domain]);
+
+  // Leaving the settings view mid-pick must not leave the page outline behind
+  useEffect(() => () => stopPickerRef.current?.(), []);
+
+  const handlePick = (target: PickTarget) => {
+    stopPickerRef.current?.();
+    setPickTarget(target);
+    stopPickerRef.current = startElementPicker({
+      hint: PICK_HINTS[target],
+      onPick: (element) => {
+        stopPickerRef.current = null;
+        setPickTarget(null);
+        const selector = getSelectorForElement(element);
+        if (target === 'main') setMainSelector(selector);
+        else if (target === 'include') setIncludeText((text) => appendLine(text, selector));
+        else setExcludeText((text) => appendLine(text, selector));
+      },
+      onCancel: () => {
+        stopPickerRef.current = null;
+        setPickTarget(null);
+      },
+    });
+  };
+
+  const includeSelectors = parseSelectorList(includeText);
+  const excludeSelectors = parseSelectorList(excludeText);
+  const trimmedMain = mainSelector.trim();
+  const invalidSelectors = [trimmedMain, ...includeSelectors, ...excludeSelectors]
+    .filter((selector) => selector && !isValidSelector(selector));
+
+  const isEmpty = !trimmedMain && includeSelectors.length === 0 && excludeSelectors.length === 0;
+  const inheritedFrom = savedRule && savedRule.domain !== domain ? savedRule.domain : null;
+
+  const handleSave = async () => {
+    if (invalidSelectors.length > 0) return;
+    if (isEmpty) {
+      await ChromeStorage.removeSiteExtractionRule(domain);
+      const rules = await ChromeStorage.getSiteExtractionRules();
+      setSavedRule(findSiteExtractionRule(rules, domain));
+      return;
+    }
+    const rule: SiteExtractionRuleDTO = {
+      domain,
+      mainSelector: trimmedMain || null,
+      includeSelectors,
+      excludeSelectors,
+      updatedAt: new Date().toISOString(),
+    };
+    await ChromeStorage.setSiteExtractionRule(rule);
+    setSavedRule(rule);
+  };
+
+  const handleReset = async () => {
+    await ChromeStorage.removeSiteExtractionRule(domain);
+    const rules = await ChromeStorage.getSiteExtractionRules();
+    const rule = findSiteExtractionRule(rules, domain);
+    setSavedRule(rule);
+    applyRuleToForm(rule);
+  };
+
+  const renderPickButton = (target: PickTarget, label: string) => (
+    <button
+      type="button"
+      className={`${getClassName('extractionPickButton')} ${pickTarget === target ? getClassName('extractionPickButtonActive') : ''}`}
+      onClick={() => handlePick(target)}
+    >
+      <Crosshair size={14} />
+      {pickTarget === target ? 'Picking…' : label}
+    </button>
+  );
+
+  return (
+    <div className={getClassName('extractionRuleEditor')}>
+      {inheritedFrom && (
+        <div className={getClassName('extractionRuleNote')}>Using the rule saved for {inheritedFrom}</div>
+      )}
+
+      <div className={getClassName('extractionField')}>
+        <div className={getClassName('extractionFieldHeader')}>
+          <label className={getClassName('extractionFieldLabel')}>Main content</label>
+          {renderPickButton('main', 'Pick content area')}
+        </div>
+        <input
+          type="text"
+          className={getClassName('extractionInput')}
+          value={mainSelector}
+          onChange={(e) => setMainSelector(e.target.value)}
+          placeholder="Detected automatically"
+          spellCheck={false}
+        />
+      </div>
+
+      <div className={getClassName('extractionField')}>
+        <div className={getClassName('extractionFieldHeader')}>
+          <label className={getClassName('extractionFieldLabel')}>Always include</label>
+          {renderPickButton('include', 'Pick area')}
+        </div>
+        <textarea
+          className={getClassName('extractionTextarea')}
+          value={includeText}
+          onChange={(e) => setIncludeText(e.target.value)}
+          placeholder="One selector per line"
+          rows={2}
+          spellCheck={false}
+        />
+      </div>
+
+      <div className={getClassName('extractionField')}>
+        <div className={getClassName('extractionFieldHeader')}>
+          <label className={getClassName('extractionFieldLabel')}>Leave out</label>
+          {renderPickButton('exclude', 'Pick area')}
+        </div>
+        <textarea
+          className={getClassName('extractionTextarea')}
+          value={excludeText}
+          onChange={(e) => setExcludeText(e.target.value)}
+          placeholder="One selector per line"
+          rows={2}
+          spellCheck={false}
+        />
+      </div>
+
+      {invalidSelectors.map((selector) => (
+        <div key={selector} className={getClassName('extractionWarning')}>
+          Not a valid selector: {selector}
+        </div>
+      ))}
+
+      <div className={getClassName('extractionActions')}>
+        <button
+          type="button"
+          className={getClassName('extractionSaveButton')}
+          onClick={handleSave}
+          disabled={invalidSelectors.length > 0}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          className={getClassName('extractionResetButton')}
+          onClick={handleReset}
+          disabled={savedRule?.domain !== domain}
+        >
+          Reset to automatic
+        </button>
+      </div>
+    </div>
+  );
+};
+
+ExtractionRuleSettings.displayName = 'ExtractionRuleSettings';
@@ -7,6 +7,7 @@ import { COLORS } from '@/constants/colors';
 import { OnHoverMessage } from '../OnHoverMessage';
 import { MinimizeIcon } from '../ui/MinimizeIcon';
 import { TryPDFBadge } from '../TryPDFBadge/TryPDFBadge';
+import { isPdfDocument } from '@/content/utils/pdfDocument';
 
 export interface HeaderProps {
   /** Brand image source */
@@ -18,7 +19,7 @@ export interface HeaderProps {
   /** Whether component is rendered in Shadow DOM (uses plain class names) */
   useShadowDom?: boolean;
   /** Active tab type */
-  activeTab?: 'summary' | 'chat' | 'settings';
+  activeTab?: 'summary' | 'chat' | 'settings' | 'review' | 'annotations';
   /** Bookmark handler */
   onBookmark?: () => void;
   /** Whether to show bookmark icon */
@@ -78,7 +79,8 @@ export const Header: React.FC<HeaderProps> = ({
           useShadowDom={useShadowDom}
           direction="right"
         />
-        <TryPDFBadge useShadowDom={useShadowDom} />
+        {/* PDFs opened in the browser are handled right here, no need to promote the website */}
+        {!isPdfDocument() && <TryPDFBadge useShadowDom={useShadowDom} />}
       </div>
 
       {/* Center: Branding or Page Summary */}
@@ -91,6 +93,14 @@ export const Header: React.FC<HeaderProps> = ({
           <div className={getClassName('headerTitle')}>
             Chat with this page
           </div>
+        ) : activeTab === 'review' ? (
+          <div className={getClassName('headerTitle')}>
+            Review saved words
+          </div>
+        ) : activeTab === 'annotations' ? (
+          <div className={getClassName('headerTitle')}>
+            Annotations on this page
+          </div>
         ) : (
           <>
             {brandImageSrc ? (
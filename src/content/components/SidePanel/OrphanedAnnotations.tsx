@@ -0,0 +1,108 @@
+// src/content/components/SidePanel/OrphanedAnnotations.tsx
+import React, { useCallback, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import ReactMarkdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import { ChevronDown, ChevronRight, Highlighter, MessageSquare, Link2, Trash2 } from 'lucide-react';
+import { orphanedAnnotationsAtom, reattachingAnnotationIdAtom } from '@/store/orphanedAnnotationAtoms';
+import styles from './OrphanedAnnotations.module.css';
+
+export interface OrphanedAnnotationsProps {
+  /** Start re-attaching an orphan: the user's next text selection becomes its new anchor */
+  onReattach: (id: string) => void;
+  /** Delete an orphan for good */
+  onDiscard: (id: string) => void;
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+/**
+ * Collapsible list of highlights and notes whose text could no longer be
+ * found on the page. Renders nothing when every annotation resolved.
+ */
+export const OrphanedAnnotations: React.FC<OrphanedAnnotationsProps> = ({
+  onReattach,
+  onDiscard,
+  useShadowDom = false,
+}) => {
+  const orphans = useAtomValue(orphanedAnnotationsAtom);
+  const reattachingId = useAtomValue(reattachingAnnotationIdAtom);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  if (orphans.length === 0) return null;
+
+  return (
+    <div className={getClassName('orphanedAnnotations')}>
+      <button
+        type="button"
+        className={getClassName('orphanedHeader')}
+        onClick={() => setIsExpanded((v) => !v)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span>
+          {orphans.length} {orphans.length === 1 ? 'annotation' : 'annotations'} could not be found on this page
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul className={getClassName('orphanedList')}>
+          {orphans.map((orphan) => {
+            const isReattaching = reattachingId === orphan.id;
+            return (
+              <li key={orphan.id} className={getClassName('orphanedItem')}>
+                <div className={getClassName('orphanedItemBody')}>
+                  <span className={getClassName('orphanedKind')}>
+                    {orphan.kind === 'note' ? <MessageSquare size={12} /> : <Highlighter size={12} />}
+                  </span>
+                  <div className={getClassName('orphanedText')}>
+                    <blockquote
+                      className={getClassName('orphanedQuote')}
+                      style={orphan.color ? { borderLeftColor: orphan.color } : undefined}
+                    >
+                      {orphan.selectedText}
+                    </blockquote>
+                    {orphan.content && (
+                      <div className={getClassName('orphanedNote')}>
+                        <ReactMarkdown remarkPlugins={[remarkBreaks]}>{orphan.content}</ReactMarkdown>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className={getClassName('orphanedActions')}>
+                  <button
+                    type="button"
+                    className={`${getClassName('orphanedAction')} ${isReattaching ? getClassName('orphanedActionActive') : ''}`}
+                    onClick={() => onReattach(orphan.id)}
+                    disabled={isReattaching}
+                  >
+                    <Link2 size={12} />
+                    {isReattaching ? 'Select text on the page…' : 'Re-attach'}
+                  </button>
+                  <button
+                    type="button"
+                    className={`${getClassName('orphanedAction')} ${getClassName('orphanedActionDanger')}`}
+                    onClick={() => onDiscard(orphan.id)}
+                    aria-label="Delete"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+OrphanedAnnotations.displayName = 'OrphanedAnnotations';
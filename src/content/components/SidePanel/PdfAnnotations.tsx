@@ -0,0 +1,269 @@
+// src/content/components/SidePanel/PdfAnnotations.tsx
+import React, { useCallback, useMemo, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { ChevronDown, ChevronRight, Highlighter, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import { webHighlightsAtom } from '@/store/webHighlightAtoms';
+import { webNotesAtom } from '@/store/webNoteAtoms';
+import { pdfNoteDraftAtom } from '@/store/pdfAnnotationAtoms';
+import type { OutboxSyncStatus } from '@/content/utils/syncOutbox';
+import styles from './PdfAnnotations.module.css';
+
+export interface PdfAnnotationActions {
+  /** Highlight the text currently selected in the PDF viewer */
+  onHighlightSelection: () => void;
+  /** Start a note on the text currently selected in the PDF viewer */
+  onNoteFromSelection: () => void;
+  onSaveNoteDraft: (content: string) => void;
+  onCancelNoteDraft: () => void;
+  /** Scroll the viewer to a 1-based page */
+  onGoToPage: (pageNumber: number) => void;
+  onUpdateNote: (noteId: string, content: string) => void;
+  onDeleteHighlight: (highlightId: string) => void;
+  onDeleteNote: (noteId: string) => void;
+}
+
+export interface PdfAnnotationsProps {
+  actions: PdfAnnotationActions;
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+interface PdfAnnotationItem {
+  kind: 'highlight' | 'note';
+  id: string;
+  selectedText: string;
+  pageNumber: number;
+  position: number;
+  color?: string | null;
+  content?: string;
+  syncStatus?: OutboxSyncStatus;
+}
+
+/**
+ * Highlights and notes on the open PDF, by page. The PDF viewer cannot be
+ * painted on, so this list is where they are shown, created and edited.
+ */
+export const PdfAnnotations: React.FC<PdfAnnotationsProps> = ({
+  actions,
+  useShadowDom = false,
+}) => {
+  const highlights = useAtomValue(webHighlightsAtom);
+  const notes = useAtomValue(webNotesAtom);
+  const noteDraft = useAtomValue(pdfNoteDraftAtom);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [draftContent, setDraftContent] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  const items = useMemo(() => {
+    const all: PdfAnnotationItem[] = [];
+    for (const h of highlights.values()) {
+      if (!h.anchor.pageNumber) continue;
+      all.push({
+        kind: 'highlight',
+        id: h.id,
+        selectedText: h.selectedText,
+        pageNumber: h.anchor.pageNumber,
+        position: h.anchor.textPosition.start,
+        color: h.color,
+        syncStatus: h.syncStatus,
+      });
+    }
+    for (const n of notes.values()) {
+      if (!n.anchor.pageNumber) continue;
+      all.push({
+        kind: 'note',
+        id: n.id,
+        selectedText: n.selectedText,
+        pageNumber: n.anchor.pageNumber,
+        position: n.anchor.textPosition.start,
+        content: n.content,
+        syncStatus: n.syncStatus,
+      });
+    }
+    return all.sort((a, b) => a.pageNumber - b.pageNumber || a.position - b.position);
+  }, [highlights, notes]);
+
+  const handleSaveDraft = () => {
+    if (!draftContent.trim()) return;
+    actions.onSaveNoteDraft(draftContent.trim());
+    setDraftContent('');
+  };
+
+  const handleCancelDraft = () => {
+    actions.onCancelNoteDraft();
+    setDraftContent('');
+  };
+
+  const startEditing = (item: PdfAnnotationItem) => {
+    setEditingNoteId(item.id);
+    setEditContent(item.content ?? '');
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingNoteId || !editContent.trim()) return;
+    actions.onUpdateNote(editingNoteId, editContent.trim());
+    setEditingNoteId(null);
+  };
+
+  const syncLabel = (status?: OutboxSyncStatus) => {
+    if (status === 'pending') return 'Waiting to sync';
+    if (status === 'failed') return 'Sync failed';
+    return null;
+  };
+
+  return (
+    <div className={getClassName('pdfAnnotations')}>
+      <button
+        type="button"
+        className={getClassName('pdfAnnotationsHeader')}
+        onClick={() => setIsExpanded((v) => !v)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span>
+          PDF annotations{items.length > 0 ? ` (${items.length})` : ''}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className={getClassName('pdfAnnotationsBody')}>
+          <div className={getClassName('pdfAnnotationsToolbar')}>
+            <button type="button" className={getClassName('pdfAction')} onClick={actions.onHighlightSelection}>
+              <Highlighter size={12} />
+              Highlight selection
+            </button>
+            <button type="button" className={getClassName('pdfAction')} onClick={actions.onNoteFromSelection}>
+              <MessageSquare size={12} />
+              Add note
+            </button>
+          </div>
+
+          {noteDraft && (
+            <div className={getClassName('pdfNoteDraft')}>
+              <blockquote className={getClassName('pdfQuote')}>{noteDraft.selectedText}</blockquote>
+              <textarea
+                className={getClassName('pdfNoteInput')}
+                value={draftContent}
+                onChange={(e) => setDraftContent(e.target.value)}
+                placeholder="Write a note…"
+                rows={3}
+                autoFocus
+              />
+              <div className={getClassName('pdfItemActions')}>
+                <button type="button" className={getClassName('pdfAction')} onClick={handleCancelDraft}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className={`${getClassName('pdfAction')} ${getClassName('pdfActionPrimary')}`}
+                  onClick={handleSaveDraft}
+                  disabled={!draftContent.trim()}
+                >
+                  Save note
+                </button>
+              </div>
+            </div>
+          )}
+
+          {items.length === 0 && !noteDraft ? (
+            <p className={getClassName('pdfAnnotationsEmpty')}>
+              Select text in the PDF, then highlight it or add a note.
+            </p>
+          ) : (
+            <ul className={getClassName('pdfAnnotationsList')}>
+              {items.map((item) => {
+                const status = syncLabel(item.syncStatus);
+                const isEditing = editingNoteId === item.id;
+                return (
+                  <li key={item.id} className={getClassName('pdfItem')}>
+                    <div className={getClassName('pdfItemHeader')}>
+                      <button
+                        type="button"
+                        className={getClassName('pdfPageLink')}
+                        onClick={() => actions.onGoToPage(item.pageNumber)}
+                        title={`Go to page ${item.pageNumber}`}
+                      >
+                        {item.kind === 'note' ? <MessageSquare size={12} /> : <Highlighter size={12} />}
+                        Page {item.pageNumber}
+                      </button>
+                      {status && <span className={getClassName('pdfItemStatus')}>{status}</span>}
+                    </div>
+                    <blockquote
+                      className={getClassName('pdfQuote')}
+                      style={item.color ? { borderLeftColor: item.color } : undefined}
+                    >
+                      {item.selectedText}
+                    </blockquote>
+                    {isEditing ? (
+                      <textarea
+                        className={getClassName('pdfNoteInput')}
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        rows={3}
+                        autoFocus
+                      />
+                    ) : (
+                      item.content && <p className={getClassName('pdfNoteContent')}>{item.content}</p>
+                    )}
+                    <div className={getClassName('pdfItemActions')}>
+                      {isEditing ? (
+                        <>
+                          <button type="button" className={getClassName('pdfAction')} onClick={() => setEditingNoteId(null)}>
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            className={`${getClassName('pdfAction')} ${getClassName('pdfActionPrimary')}`}
+                            onClick={handleSaveEdit}
+                            disabled={!editContent.trim()}
+                          >
+                            Save
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          {item.kind === 'note' && (
+                            <button
+                              type="button"
+                              className={getClassName('pdfAction')}
+                              onClick={() => startEditing(item)}
+                              aria-label="Edit note"
+                              title="Edit note"
+                            >
+                              <Pencil size={12} />
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className={`${getClassName('pdfAction')} ${getClassName('pdfActionDanger')}`}
+                            onClick={() =>
+                              item.kind === 'note' ? actions.onDeleteNote(item.id) : actions.onDeleteHighlight(item.id)
+                            }
+                            aria-label="Delete"
+                            title="Delete"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+PdfAnnotations.displayName = 'PdfAnnotations';
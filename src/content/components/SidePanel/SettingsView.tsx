@@ -1,12 +1,14 @@
 // src/content/components/SidePanel/SettingsView.tsx
 import React, { useEffect, useState, useCallback } from 'react';
-import { Settings, LayoutDashboard, LogOut, RefreshCw, Layers } from 'lucide-react';
+import { Settings, LayoutDashboard, LogOut, RefreshCw, Layers, Trash2 } from 'lucide-react';
 import { useAtomValue, useSetAtom } from 'jotai';
 import { userAuthInfoAtom, showLoginModalAtom } from '@/store/uiAtoms';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { DomainStatus } from '@/types/domain';
 import { extractDomain } from '@/utils/domain';
 import { Dropdown } from './Dropdown';
+import { ShortcutSettings } from './ShortcutSettings';
+import { ExtractionRuleSettings } from './ExtractionRuleSettings';
 import { useLanguageOptions } from '@/hooks';
 import { IconTabGroup } from '@/components/ui/IconTabGroup/IconTabGroup';
 import { showDisableModal } from '@/content/index';
@@ -14,8 +16,29 @@ import { ENV } from '@/config/env';
 import { AuthService } from '@/api-services/AuthService';
 import { UserSettingsService } from '@/api-services/UserSettingsService';
 import type { UpdateSettingsRequest } from '@/api-services/UserSettingsService';
+import {
+  listVectorIndexes,
+  deleteVectorIndex,
+  enforceVectorIndexBudget,
+  type VectorIndexMeta,
+} from '@/content/utils/vectorStore';
+import { TranslationMemory } from '@/api-services/TranslationMemory';
+import type { TranslationMemoryStats } from '@/storage/indexed-db/translationMemoryStore';
 import styles from './SettingsView.module.css';
 
+const INDEX_BUDGET_OPTIONS_MB = [25, 50, 100, 200];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatHitRate({ hits, misses }: TranslationMemoryStats): string {
+  const lookups = hits + misses;
+  return lookups === 0 ? '–' : `${Math.round((hits / lookups) * 100)}%`;
+}
+
 export interface SettingsViewProps {
   /** Whether to use Shadow DOM styling */
   useShadowDom?: boolean;
@@ -53,6 +76,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
 
   const [themeSelection, setThemeSelection] = useState<'account' | 'LIGHT' | 'DARK'>('account');
   const [globalDisabled, setGlobalDisabled] = useState<boolean>(false);
+  const [chatSessionSyncEnabled, setChatSessionSyncEnabled] = useState<boolean>(false);
+  const [preferOnDeviceAI, setPreferOnDeviceAI] = useState<boolean>(false);
+  const [pageIndexes, setPageIndexes] = useState<VectorIndexMeta[]>([]);
+  const [indexBudgetMb, setIndexBudgetMb] = useState<number>(ChromeStorage.VECTOR_INDEX_BUDGET_MB_DEFAULT);
+  const [translationMemoryStats, setTranslationMemoryStats] = useState<TranslationMemoryStats | null>(null);
+  const [shortcutsDisabledOnDomain, setShortcutsDisabledOnDomain] = useState<boolean>(false);
   const [domainStatus, setDomainStatus] = useState<DomainStatus | null>(null);
   const [currentDomain, setCurrentDomain] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
@@ -82,10 +111,15 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
       setCurrentDomain(domain);
 
       // Load extension settings and domain status
-      const [extDomainTheme, gDisabled, dStatus] = await Promise.all([
+      const [extDomainTheme, gDisabled, dStatus, chatSyncEnabled, budgetMb, indexes, shortcutsDisabledDomains, onDeviceAI] = await Promise.all([
         domain ? ChromeStorage.getUserExtensionDomainTheme(domain) : null,
         ChromeStorage.getGlobalDisabled(),
         domain ? ChromeStorage.getDomainStatus(domain) : null,
+        ChromeStorage.getWebpageChatSessionSyncEnabled(),
+        ChromeStorage.getVectorIndexBudgetMb(),
+        listVectorIndexes(),
+        ChromeStorage.getShortcutsDisabledDomains(),
+        ChromeStorage.getPreferOnDeviceAI(),
       ]);
 
       // Determine initial theme selection
@@ -97,8 +131,18 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
       }
 
       setGlobalDisabled(gDisabled);
+      setChatSessionSyncEnabled(chatSyncEnabled);
+      setPreferOnDeviceAI(onDeviceAI);
+      setIndexBudgetMb(budgetMb);
+      setPageIndexes(indexes);
+      setShortcutsDisabledOnDomain(!!domain && shortcutsDisabledDomains.includes(domain));
       if (dStatus) setDomainStatus(dStatus);
 
+      // Kept in the background worker; the section stays hidden if it can't be reached
+      TranslationMemory.getStats()
+        .then(setTranslationMemoryStats)
+        .catch((statsError) => console.warn('[SettingsView] Error loading translation memory stats:', statsError));
+
       // Load account settings (logged-in) or guest language (non-logged-in)
       if (isLoggedIn) {
         try {
@@ -248,6 +292,45 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
     }
   };
 
+  const handleChatSessionSyncToggle = async (checked: boolean) => {
+    await ChromeStorage.setWebpageChatSessionSyncEnabled(checked);
+    setChatSessionSyncEnabled(checked);
+  };
+
+  const handlePreferOnDeviceAIToggle = async (checked: boolean) => {
+    await ChromeStorage.setPreferOnDeviceAI(checked);
+    setPreferOnDeviceAI(checked);
+  };
+
+  const handleShortcutsDomainToggle = async (checked: boolean) => {
+    if (!currentDomain) return;
+    await ChromeStorage.setShortcutsDisabledForDomain(currentDomain, !checked);
+    setShortcutsDisabledOnDomain(!checked);
+  };
+
+  const handleIndexBudgetChange = async (value: string) => {
+    const budgetMb = Number(value);
+    await ChromeStorage.setVectorIndexBudgetMb(budgetMb);
+    setIndexBudgetMb(budgetMb);
+    // Shrinking the budget evicts least-recently-used indexes right away
+    await enforceVectorIndexBudget(budgetMb * 1024 * 1024);
+    setPageIndexes(await listVectorIndexes());
+  };
+
+  const handleForgetPageIndex = async (pageUrlHash: string) => {
+    await deleteVectorIndex(pageUrlHash);
+    setPageIndexes((prev) => prev.filter((m) => m.pageUrlHash !== pageUrlHash));
+  };
+
+  const handleClearTranslationMemory = async () => {
+    try {
+      await TranslationMemory.clear();
+      setTranslationMemoryStats({ hits: 0, misses: 0, entryCount: 0, byteSize: 0 });
+    } catch (error) {
+      console.error('[SettingsView] Error clearing translation memory:', error);
+    }
+  };
+
   const handleAccountSettingsClick = () => {
     const accountSettingsUrl = `${ENV.XPLAINO_WEBSITE_BASE_URL}/user/account/settings`;
     window.open(accountSettingsUrl, '_blank');
@@ -282,6 +365,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
     setShowLoginModal(true);
   };
 
+  const indexBudgetOptions = INDEX_BUDGET_OPTIONS_MB.map((mb) => ({
+    value: String(mb),
+    label: `${mb} MB budget`,
+  }));
+  const totalIndexBytes = pageIndexes.reduce((sum, m) => sum + m.byteSize, 0);
+
   // Theme dropdown options - only show "As per account settings" when logged in
   const themeOptions = isLoggedIn
     ? [
@@ -439,6 +528,30 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
             </div>
           )}
 
+          {/* Sync Chat Sessions Toggle (logged-in users only — sessions are synced to the account) */}
+          {isLoggedIn && (
+            <div className={getClassName('settingItem')}>
+              <div className={getClassName('toggleSetting')}>
+                <label className={getClassName('settingLabel')}>Sync chat sessions across browsers</label>
+                <Toggle
+                  checked={chatSessionSyncEnabled}
+                  onChange={handleChatSessionSyncToggle}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* On-device AI Toggle (summaries, simplifications and word meanings) */}
+          <div className={getClassName('settingItem')}>
+            <div className={getClassName('toggleSetting')}>
+              <label className={getClassName('settingLabel')}>Process on this device when possible</label>
+              <Toggle
+                checked={preferOnDeviceAI}
+                onChange={handlePreferOnDeviceAIToggle}
+              />
+            </div>
+          </div>
+
           {/* Enable Globally Toggle */}
           <div className={getClassName('settingItem')}>
             <div className={getClassName('toggleSetting')}>
@@ -466,6 +579,149 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ useShadowDom = false
           )}
         </div>
       </div>
+
+      <div className={getClassName('sectionDivider')} />
+
+      {/* Keyboard Shortcuts Section */}
+      <div className={getClassName('section')}>
+        <div className={getClassName('sectionHeader')}>
+          <div className={getClassName('sectionAccent')} />
+          <h3 className={getClassName('sectionTitle')}>Keyboard shortcuts</h3>
+          <div className={getClassName('sectionHeaderLine')} />
+        </div>
+        <div className={getClassName('sectionContent')}>
+          {currentDomain && (
+            <div className={getClassName('settingItem')}>
+              <div className={getClassName('toggleSetting')}>
+                <label className={getClassName('settingLabel')}>
+                  Shortcuts on <span className={getClassName('domainName')}>{currentDomain}</span>
+                </label>
+                <Toggle
+                  checked={!shortcutsDisabledOnDomain}
+                  onChange={handleShortcutsDomainToggle}
+                />
+              </div>
+            </div>
+          )}
+          <ShortcutSettings useShadowDom={useShadowDom} />
+        </div>
+      </div>
+
+      <div className={getClassName('sectionDivider')} />
+
+      {/* Content Extraction Section */}
+      {currentDomain && (
+        <>
+          <div className={getClassName('section')}>
+            <div className={getClassName('sectionHeader')}>
+              <div className={getClassName('sectionAccent')} />
+              <h3 className={getClassName('sectionTitle')}>
+                Content extraction on <span className={getClassName('domainName')}>{currentDomain}</span>
+              </h3>
+              <div className={getClassName('sectionHeaderLine')} />
+            </div>
+            <div className={getClassName('sectionContent')}>
+              <ExtractionRuleSettings useShadowDom={useShadowDom} />
+            </div>
+          </div>
+
+          <div className={getClassName('sectionDivider')} />
+        </>
+      )}
+
+      {/* Chat Page Indexes Section */}
+      <div className={getClassName('section')}>
+        <div className={getClassName('sectionHeader')}>
+          <div className={getClassName('sectionAccent')} />
+          <h3 className={getClassName('sectionTitle')}>Chat page indexes</h3>
+          <div className={getClassName('sectionHeaderLine')} />
+        </div>
+        <div className={getClassName('sectionContent')}>
+          <div className={getClassName('settingItem')}>
+            <div className={getClassName('languageSettingRow')}>
+              <label className={getClassName('settingLabel')}>
+                Storage ({formatBytes(totalIndexBytes)} used)
+              </label>
+              <Dropdown
+                options={indexBudgetOptions}
+                value={String(indexBudgetMb)}
+                onChange={handleIndexBudgetChange}
+                useShadowDom={useShadowDom}
+              />
+            </div>
+          </div>
+
+          {pageIndexes.length === 0 ? (
+            <div className={getClassName('pageIndexEmpty')}>No pages indexed yet.</div>
+          ) : (
+            <div className={getClassName('pageIndexList')}>
+              {pageIndexes.map((meta) => (
+                <div key={meta.pageUrlHash} className={getClassName('pageIndexItem')}>
+                  <div className={getClassName('pageIndexInfo')}>
+                    <div
+                      className={getClassName('pageIndexTitle')}
+                      title={meta.pageUrl}
+                    >
+                      {meta.pageTitle || meta.pageUrl || 'Untitled page'}
+                    </div>
+                    <div className={getClassName('pageIndexStats')}>
+                      {meta.pageUrl && `${extractDomain(meta.pageUrl)} · `}
+                      {meta.chunkCount} chunks · {formatBytes(meta.byteSize)}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className={getClassName('pageIndexForgetButton')}
+                    onClick={() => handleForgetPageIndex(meta.pageUrlHash)}
+                    aria-label="Forget this page's index"
+                    title="Forget this page's index"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Translation Memory Section */}
+      {translationMemoryStats && (
+        <>
+          <div className={getClassName('sectionDivider')} />
+
+          <div className={getClassName('section')}>
+            <div className={getClassName('sectionHeader')}>
+              <div className={getClassName('sectionAccent')} />
+              <h3 className={getClassName('sectionTitle')}>Translation memory</h3>
+              <div className={getClassName('sectionHeaderLine')} />
+            </div>
+            <div className={getClassName('sectionContent')}>
+              <div className={getClassName('pageIndexItem')}>
+                <div className={getClassName('pageIndexInfo')}>
+                  <div className={getClassName('pageIndexTitle')}>
+                    Hit rate {formatHitRate(translationMemoryStats)}
+                  </div>
+                  <div className={getClassName('pageIndexStats')}>
+                    {translationMemoryStats.hits.toLocaleString()} of{' '}
+                    {(translationMemoryStats.hits + translationMemoryStats.misses).toLocaleString()} texts reused ·{' '}
+                    {translationMemoryStats.entryCount.toLocaleString()} translations · {formatBytes(translationMemoryStats.byteSize)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className={getClassName('pageIndexForgetButton')}
+                  onClick={handleClearTranslationMemory}
+                  aria-label="Clear translation memory"
+                  title="Clear translation memory"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
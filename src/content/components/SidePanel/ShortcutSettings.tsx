@@ -0,0 +1,115 @@
+// src/content/components/SidePanel/ShortcutSettings.tsx
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import {
+  SHORTCUT_COMMANDS,
+  resolveShortcutBindings,
+  bindingFromEvent,
+  formatBinding,
+  findShortcutConflicts,
+  type ShortcutCommandId,
+} from '@/content/utils/shortcutRegistry';
+import styles from './ShortcutSettings.module.css';
+
+export interface ShortcutSettingsProps {
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+const isMac = /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Editable list of keyboard shortcut bindings with conflict warnings.
+ * Click a binding, then press the new key combination; Backspace clears it, Escape cancels.
+ */
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ useShadowDom = false }) => {
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  const [overrides, setOverrides] = useState<Record<string, string | null>>({});
+  const [recordingId, setRecordingId] = useState<ShortcutCommandId | null>(null);
+
+  useEffect(() => {
+    ChromeStorage.getShortcutBindingOverrides().then(setOverrides);
+  }, []);
+
+  const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides]);
+  const conflicts = useMemo(() => findShortcutConflicts(bindings), [bindings]);
+
+  const saveOverrides = async (next: Record<string, string | null>) => {
+    setOverrides(next);
+    await ChromeStorage.setShortcutBindingOverrides(next);
+  };
+
+  const handleRecordKeyDown = (id: ShortcutCommandId, e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      saveOverrides({ ...overrides, [id]: null });
+      setRecordingId(null);
+      return;
+    }
+
+    // Wait for a full combination — modifier-only presses and bare keys return null
+    const binding = bindingFromEvent(e.nativeEvent);
+    if (!binding) return;
+    saveOverrides({ ...overrides, [id]: binding });
+    setRecordingId(null);
+  };
+
+  return (
+    <div className={getClassName('shortcutList')}>
+      {SHORTCUT_COMMANDS.map((command) => {
+        const binding = bindings[command.id];
+        const isRecording = recordingId === command.id;
+        const rowConflicts = conflicts.filter((c) => c.commandId === command.id);
+
+        return (
+          <div key={command.id} className={getClassName('shortcutRow')}>
+            <div className={getClassName('shortcutRowMain')}>
+              <span className={getClassName('shortcutLabel')}>{command.label}</span>
+              {/* A read-only input so the page-level shortcut listener ignores keys pressed while recording */}
+              <input
+                type="text"
+                readOnly
+                className={`${getClassName('shortcutBinding')} ${isRecording ? getClassName('shortcutBindingRecording') : ''}`}
+                value={isRecording ? 'Press keys…' : binding ? formatBinding(binding, isMac) : 'Not set'}
+                onClick={() => setRecordingId(command.id)}
+                onBlur={() => setRecordingId((current) => (current === command.id ? null : current))}
+                onKeyDown={(e) => isRecording && handleRecordKeyDown(command.id, e)}
+                aria-label={`Shortcut for ${command.label}`}
+              />
+            </div>
+            {rowConflicts.map((conflict) => (
+              <div key={`${conflict.kind}-${conflict.conflictsWith}`} className={getClassName('shortcutConflict')}>
+                {conflict.kind === 'reserved'
+                  ? `Also a browser shortcut (${conflict.conflictsWith})`
+                  : `Same as: ${conflict.conflictsWith}`}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        className={getClassName('shortcutResetButton')}
+        onClick={() => saveOverrides({})}
+        disabled={Object.keys(overrides).length === 0}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+ShortcutSettings.displayName = 'ShortcutSettings';
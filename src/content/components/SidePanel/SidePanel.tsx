@@ -4,14 +4,18 @@ import { useSetAtom, useAtomValue } from 'jotai';
 import styles from './SidePanel.module.css';
 import { Header } from './Header';
 import { SummaryView } from './SummaryView';
+import type { PdfAnnotationActions } from './PdfAnnotations';
+import type { YouTubeCaptionActions } from './YouTubeCaptions';
+import { AnnotationsView, type AnnotationsViewActions } from './AnnotationsView';
 import { SettingsView } from './SettingsView';
+import { WordReviewView } from './WordReviewView';
 import { WebpageChatView } from '../WebpageChat/WebpageChatView';
-import { ChatRefreshWarningModal } from '../WebpageChat/ChatRefreshWarningModal';
 import { SaveLinkModal } from '../SaveLinkModal/SaveLinkModal';
 import { UserFeedbackModal } from '../UserFeedbackModal/UserFeedbackModal';
 import { showLoginModalAtom, currentThemeAtom, activePanelWidthAtom, showUserFeedbackModalAtom } from '@/store/uiAtoms';
 import { summaryAtom, summariseStateAtom } from '@/store/summaryAtoms';
 import { SavedLinkService } from '@/api-services/SavedLinkService';
+import { enqueueOutboxOperation, isTransientSyncError } from '@/content/utils/syncOutbox';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 
 // Reference link pattern from backend: [[[ref:("id1","id2")]]]
@@ -35,7 +39,7 @@ export interface SidePanelProps {
   useShadowDom?: boolean;
   /** Callback when login is required (401 error) */
   onLoginRequired?: () => void;
-  /** Initial tab to show when panel opens ('summary' | 'chat' | 'settings') */
+  /** Initial tab to show when panel opens ('summary' | 'chat' | 'settings' | 'review' | 'annotations') */
   initialTab?: TabType;
   /** Callback to show toast message */
   onShowToast?: (message: string, type?: 'success' | 'error') => void;
@@ -45,9 +49,19 @@ export interface SidePanelProps {
   onBookmark?: () => void;
   /** Initial saved link ID (from content script) */
   initialSavedLinkId?: string | null;
+  /** Start re-attaching an orphaned highlight/note to the next text selection */
+  onReattachOrphan?: (id: string) => void;
+  /** Delete an orphaned highlight/note */
+  onDiscardOrphan?: (id: string) => void;
+  /** Highlight/note actions for Chrome's PDF viewer; set only on PDF tabs */
+  pdfAnnotationActions?: PdfAnnotationActions;
+  /** Caption track and translation actions; set only on YouTube watch pages */
+  youtubeCaptionActions?: YouTubeCaptionActions;
+  /** Scroll, delete and recolour actions for the annotations overview */
+  annotationActions?: AnnotationsViewActions;
 }
 
-type TabType = 'summary' | 'chat' | 'settings';
+type TabType = 'summary' | 'chat' | 'settings' | 'review' | 'annotations';
 
 const MIN_WIDTH = 300;
 const MAX_WIDTH = 800;
@@ -63,6 +77,11 @@ export const SidePanel: React.FC<SidePanelProps> = ({
   onShowBookmarkToast,
   onBookmark,
   initialSavedLinkId = null,
+  onReattachOrphan,
+  onDiscardOrphan,
+  pdfAnnotationActions,
+  youtubeCaptionActions,
+  annotationActions,
 }) => {
   const [activeTab, setActiveTab] = useState<TabType>(initialTab || 'summary');
   const setGlobalWidth = useSetAtom(activePanelWidthAtom);
@@ -291,12 +310,14 @@ export const SidePanel: React.FC<SidePanelProps> = ({
     // Filter out reference links from summary
     const filteredSummary = filterReferenceLinks(summary);
 
+    const request = {
+      url: urlToSave,
+      summary: filteredSummary,
+      name: nameToSave || undefined,
+    };
+
     await SavedLinkService.saveLink(
-      {
-        url: urlToSave,
-        summary: filteredSummary,
-        name: nameToSave || undefined,
-      },
+      request,
       {
         onSuccess: (response) => {
           console.log('[SidePanel] Link saved successfully:', response);
@@ -309,6 +330,12 @@ export const SidePanel: React.FC<SidePanelProps> = ({
         onError: (errorCode, errorMessage) => {
           console.error('[SidePanel] Failed to save link:', errorCode, errorMessage);
           setIsSavingLink(false);
+          if (isTransientSyncError(errorCode)) {
+            enqueueOutboxOperation({ type: 'saveLink', request });
+            setIsSaveLinkModalOpen(false);
+            onShowToast?.('Saved offline, it will sync when you reconnect', 'success');
+            return;
+          }
           let displayMessage = 'Failed to save link';
           
           // Handle specific error codes
@@ -381,6 +408,10 @@ export const SidePanel: React.FC<SidePanelProps> = ({
             useShadowDom={useShadowDom}
             onLoginRequired={handleLoginRequired}
             isOpen={isOpen}
+            onReattachOrphan={onReattachOrphan}
+            onDiscardOrphan={onDiscardOrphan}
+            pdfAnnotationActions={pdfAnnotationActions}
+            youtubeCaptionActions={youtubeCaptionActions}
           />
         )}
         {activeTab === 'chat' && (
@@ -392,6 +423,18 @@ export const SidePanel: React.FC<SidePanelProps> = ({
         {activeTab === 'settings' && (
           <SettingsView useShadowDom={useShadowDom} />
         )}
+        {activeTab === 'review' && (
+          <WordReviewView
+            useShadowDom={useShadowDom}
+            isOpen={isOpen}
+          />
+        )}
+        {activeTab === 'annotations' && annotationActions && (
+          <AnnotationsView
+            actions={annotationActions}
+            useShadowDom={useShadowDom}
+          />
+        )}
       </div>
 
       {/* Save Link Modal */}
@@ -408,11 +451,6 @@ export const SidePanel: React.FC<SidePanelProps> = ({
         isSaving={isSavingLink}
       />
 
-      {/* Chat refresh-warning modal — rendered unconditionally so it appears
-          even when the side panel is closed. Uses position:fixed so it covers
-          the full viewport regardless of panel width/position. */}
-      <ChatRefreshWarningModal useShadowDom={useShadowDom} />
-
       {/* User feedback modal — overlays the panel content via position:absolute.
           The sidePanel container (position:fixed) acts as the containing block. */}
       <UserFeedbackModal visible={showFeedbackModal} useShadowDom={useShadowDom} />
@@ -1,16 +1,34 @@
 // src/content/components/SidePanel/SummaryView.tsx
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { ArrowUp, Trash2, Plus, Square } from 'lucide-react';
 import { useAtom } from 'jotai';
 import ReactMarkdown from 'react-markdown';
 import styles from './SummaryView.module.css';
-import { SummariseService } from '@/api-services/SummariseService';
+import { summariseWithFallback } from '@/api-services/AIProvider';
 import { AskService, ChatMessage } from '@/api-services/AskService';
 import { getLanguageCode } from '@/api-services/TranslateService';
 import { getSummarisePayloadOrWait } from '@/content/pageContentBridge';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
 import { OnHoverMessage } from '../OnHoverMessage/OnHoverMessage';
 import { LoadingDots } from './LoadingDots';
+import { ExportMenu } from './ExportMenu';
+import { OrphanedAnnotations } from './OrphanedAnnotations';
+import { PdfAnnotations, type PdfAnnotationActions } from './PdfAnnotations';
+import { YouTubeCaptions, type YouTubeCaptionActions } from './YouTubeCaptions';
+import { isPdfDocument, goToPdfPage } from '@/content/utils/pdfDocument';
+import { isYouTubeWatchPage, seekYouTubeVideo, formatTimestamp } from '@/content/utils/youtubeVideo';
+import {
+  buildTranscriptChapters,
+  organizeSummaryByChapters,
+  TIMESTAMP_MARKER_PATTERN,
+} from '@/content/utils/youtubeTranscriptChunker';
+import {
+  exportSummary,
+  downloadExportFile,
+  SUMMARY_REF_PATTERN,
+  SUMMARY_ASK_REF_PATTERN,
+  type ExportFormat,
+} from '@/content/utils/exportFormatter';
 import {
   pageReadingStatusAtom,
   summariseStateAtom,
@@ -25,6 +43,7 @@ import {
   focusAskInputAtom,
   summaryIdToElementMapAtom,
 } from '@/store/summaryAtoms';
+import { youtubeTranscriptSegmentsAtom, youtubeChapterMarkersAtom } from '@/store/youtubeTranscriptAtoms';
 import { COLORS, colorWithOpacity } from '@/constants/colors';
 
 export interface SummaryViewProps {
@@ -34,17 +53,24 @@ export interface SummaryViewProps {
   onLoginRequired?: () => void;
   /** Whether the side panel is open - used to clear highlights on close */
   isOpen?: boolean;
+  /** Start re-attaching an orphaned highlight/note to the next text selection */
+  onReattachOrphan?: (id: string) => void;
+  /** Delete an orphaned highlight/note */
+  onDiscardOrphan?: (id: string) => void;
+  /** Highlight/note actions for Chrome's PDF viewer; set only on PDF tabs */
+  pdfAnnotationActions?: PdfAnnotationActions;
+  /** Caption track and translation actions; set only on YouTube watch pages */
+  youtubeCaptionActions?: YouTubeCaptionActions;
 }
 
-// Summary ref format: [[[ref:("id1","id2")]]] or [[[ref:("id1")]]]
-const REF_LINK_PATTERN = /\[\[\[ref:\s*\(([^)]*)\)\]\]\]/g;
-// Ask ref format: [[[(N)substring]]] where N is the block number (same as our sequential ID)
-const ASK_REF_PATTERN = /\[\[\[\((\d+)\)[\s\S]*?\]\]\]/g;
-
 export const SummaryView: React.FC<SummaryViewProps> = ({
   useShadowDom = false,
   onLoginRequired,
   isOpen = true,
+  onReattachOrphan,
+  onDiscardOrphan,
+  pdfAnnotationActions,
+  youtubeCaptionActions,
 }) => {
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const askInputRef = useRef<HTMLInputElement>(null);
@@ -64,6 +90,19 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
   const [hasContent] = useAtom(hasContentAtom);
   const [focusAskInput, setFocusAskInput] = useAtom(focusAskInputAtom);
   const [idToElementMap, setIdToElementMap] = useAtom(summaryIdToElementMapAtom);
+  const [transcriptSegments] = useAtom(youtubeTranscriptSegmentsAtom);
+  const [chapterMarkers] = useAtom(youtubeChapterMarkersAtom);
+
+  // YouTube summaries are keyed by chapter start (seconds); refs seek the video
+  const isYouTube = isYouTubeWatchPage();
+  const transcriptChapters = useMemo(
+    () => (isYouTube && transcriptSegments ? buildTranscriptChapters(transcriptSegments, chapterMarkers) : []),
+    [isYouTube, transcriptSegments, chapterMarkers]
+  );
+  const displayedSummary = useMemo(
+    () => (summary && transcriptChapters.length > 0 ? organizeSummaryByChapters(summary, transcriptChapters) : summary),
+    [summary, transcriptChapters]
+  );
   
   const abortControllerRef = useRef<AbortController | null>(null);
   
@@ -336,6 +375,20 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
       highlightTimeoutRef.current = null;
     }
 
+    // PDF summary blocks are keyed by page number; scroll the viewer to that page
+    if (isPdfDocument()) {
+      const pageNumber = Number(firstId);
+      if (pageNumber) goToPdfPage(pageNumber);
+      return;
+    }
+
+    // YouTube summary blocks are keyed by start time in seconds; seek the player
+    if (isYouTube) {
+      const seconds = Number(firstId);
+      if (Number.isFinite(seconds)) seekYouTubeVideo(seconds);
+      return;
+    }
+
     const element = idToElementMap?.get(firstId) ?? null;
     if (!element || !element.isConnected) return;
 
@@ -370,20 +423,20 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
     } catch {
       // ignore
     }
-  }, [activeRefKey, clearHighlightSmoothly, idToElementMap]);
+  }, [activeRefKey, clearHighlightSmoothly, idToElementMap, isYouTube]);
 
   // Parse refs: summary [[[ref:("id1","id2")]]] and Ask [[[(N)substring]]] -> ref keys for click-to-scroll
   const parseReferences = useCallback((text: string): { parsedText: string; references: string[] } => {
     const references: string[] = [];
     let refIndex = 0;
-    let parsed = text.replace(REF_LINK_PATTERN, (_match, inner: string) => {
+    let parsed = text.replace(SUMMARY_REF_PATTERN, (_match, inner: string) => {
       refIndex++;
       const ids = inner.split(',').map((s) => s.trim().replace(/^"|"$/g, '')).filter(Boolean);
       const refKey = ids.join(',');
       references.push(refKey);
       return `\`REF_${refIndex}_PLACEHOLDER\``;
     });
-    parsed = parsed.replace(ASK_REF_PATTERN, (_match, N: string) => {
+    parsed = parsed.replace(SUMMARY_ASK_REF_PATTERN, (_match, N: string) => {
       refIndex++;
       references.push(String(N));
       return `\`REF_${refIndex}_PLACEHOLDER\``;
@@ -391,6 +444,29 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
     return { parsedText: parsed, references };
   }, []);
 
+  // Ref button label: the block number, or on YouTube the time it points to
+  const renderRefLabel = (refNum: number, refKey: string) => {
+    if (!isYouTube) return refNum;
+    const seconds = Number(refKey.split(',')[0]);
+    return Number.isFinite(seconds) ? formatTimestamp(seconds) : refNum;
+  };
+
+  // Chapter headings carry `TIME_<seconds>`, rendered as a button that seeks the video
+  const renderTimestampMarker = (codeText: string) => {
+    const timeMatch = codeText.match(TIMESTAMP_MARKER_PATTERN);
+    if (!timeMatch) return null;
+    const seconds = parseInt(timeMatch[1], 10);
+    return (
+      <button
+        className={getClassName('timestampButton')}
+        title={`Play from ${formatTimestamp(seconds)}`}
+        onClick={() => seekYouTubeVideo(seconds)}
+      >
+        {formatTimestamp(seconds)}
+      </button>
+    );
+  };
+
   // Render summary with markdown and reference links
   const renderSummaryContent = (text: string) => {
     const { parsedText, references } = parseReferences(text);
@@ -418,15 +494,15 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
                 const isActive = activeRefKey === refKey;
                 return (
                   <button
-                    className={`${getClassName('refButton')} ${isActive ? getClassName('refButtonActive') : ''}`}
+                    className={`${getClassName(isYouTube ? 'timestampButton' : 'refButton')} ${isActive ? getClassName('refButtonActive') : ''}`}
                     title={refKey}
                     onClick={() => handleReferenceClick(refKey)}
                   >
-                    {refNum}
+                    {renderRefLabel(refNum, refKey)}
                   </button>
                 );
               }
-              return <code className={getClassName('markdownCode')}>{children}</code>;
+              return renderTimestampMarker(codeText) ?? <code className={getClassName('markdownCode')}>{children}</code>;
             },
           }}
         >
@@ -455,15 +531,15 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
               const refKey = references[refNum - 1];
               return (
                 <button
-                  className={getClassName('refButton')}
+                  className={getClassName(isYouTube ? 'timestampButton' : 'refButton')}
                   title={refKey}
                   onClick={() => handleReferenceClick(refKey)}
                 >
-                  {refNum}
+                  {renderRefLabel(refNum, refKey)}
                 </button>
               );
             }
-            return <code className={getClassName('markdownCode')}>{children}</code>;
+            return renderTimestampMarker(codeText) ?? <code className={getClassName('markdownCode')}>{children}</code>;
           },
         }}
       >
@@ -529,7 +605,7 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
       // Increment API counter for review prompt tracking (fire-and-forget)
       ChromeStorage.incrementUserTotalApiCounter().catch(() => {});
 
-      await SummariseService.summarise(
+      await summariseWithFallback(
         {
           content,
           context_type: 'PAGE',
@@ -709,6 +785,17 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    const file = await exportSummary(
+      summary,
+      chatMessages,
+      { url: window.location.href, title: document.title },
+      format,
+      (id) => idToElementMap?.get(id)?.textContent ?? null
+    );
+    downloadExportFile(file);
+  };
+
   const handleQuestionClick = (question: string) => {
     // Call API directly - question will be displayed immediately by handleAskQuestion
     handleAskQuestion(question);
@@ -806,6 +893,25 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
 
   return (
     <div className={getClassName('summaryView')}>
+      {/* Highlights/notes whose text is no longer on the page */}
+      {onReattachOrphan && onDiscardOrphan && (
+        <OrphanedAnnotations
+          onReattach={onReattachOrphan}
+          onDiscard={onDiscardOrphan}
+          useShadowDom={useShadowDom}
+        />
+      )}
+
+      {/* Highlights/notes on the open PDF (the viewer itself cannot show them) */}
+      {pdfAnnotationActions && (
+        <PdfAnnotations actions={pdfAnnotationActions} useShadowDom={useShadowDom} />
+      )}
+
+      {/* Caption track choice and translated captions for the open video */}
+      {youtubeCaptionActions && (
+        <YouTubeCaptions actions={youtubeCaptionActions} useShadowDom={useShadowDom} />
+      )}
+
       {/* Scrollable Content Area */}
       <div className={getClassName('chatContainer')} ref={chatContainerRef}>
         {/* 3-Dot Loading Animation - Show when summarising and no chunks received yet */}
@@ -817,7 +923,7 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
         {(summary || streamingText) && (
           <div className={getClassName('summaryContent')}>
             <div className={getClassName('summaryText')}>
-              {renderSummaryContent(summary || streamingText)}
+              {renderSummaryContent(displayedSummary || streamingText)}
               {summariseState === 'summarising' && (
                 <span className={getClassName('cursor')}>|</span>
               )}
@@ -977,6 +1083,18 @@ export const SummaryView: React.FC<SummaryViewProps> = ({
           </button>
         )}
 
+        {/* Export Button - Only show once there is finished content */}
+        {(summary || chatMessages.length > 0) && (
+          <ExportMenu
+            onExport={handleExport}
+            buttonClassName={getClassName('exportButton')}
+            iconSize={18}
+            openUpward
+            disabled={summariseState === 'summarising' || askingState === 'asking'}
+            useShadowDom={useShadowDom}
+          />
+        )}
+
         {/* Delete/Clear Button - Only show when there is content */}
         {hasContent && (
           <button
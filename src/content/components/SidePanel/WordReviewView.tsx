@@ -0,0 +1,294 @@
+// src/content/components/SidePanel/WordReviewView.tsx
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ExternalLink, RefreshCw } from 'lucide-react';
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import type { WordReviewCardDTO } from '@/storage/chrome-local/dto';
+import {
+  enrichWordReviewCard,
+  getDueWordReviewCards,
+  gradeWordReviewCard,
+  refreshWordReviewDeck,
+} from '@/content/utils/wordReviewDeck';
+import { REVIEW_GRADES, formatNextInterval, type ReviewGrade } from '@/content/utils/spacedRepetition';
+import styles from './WordReviewView.module.css';
+
+export interface WordReviewViewProps {
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+  /** Whether the side panel is open (keyboard grading is off while closed) */
+  isOpen?: boolean;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+type FlashcardKind = 'recognize' | 'cloze';
+
+interface Flashcard {
+  kind: FlashcardKind;
+  /** Sentence shown on the front; for cloze cards the word is blanked out */
+  sentence: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pick the card face. Cards alternate between "what does this word mean?"
+ * and "which word fits this sentence?" as they are reviewed, the latter only
+ * when the page context or an example actually contains the word.
+ */
+function buildFlashcard(card: WordReviewCardDTO): Flashcard {
+  const wordRe = new RegExp(`\\b${escapeRegExp(card.word)}\\b`, 'i');
+  const clozeSource = [card.context, ...card.examples].find((s) => wordRe.test(s));
+  if (clozeSource && card.repetitions % 2 === 1) {
+    return { kind: 'cloze', sentence: clozeSource.replace(new RegExp(wordRe.source, 'gi'), '_____') };
+  }
+  return { kind: 'recognize', sentence: card.context };
+}
+
+function getSourceHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+function isEditableTarget(event: KeyboardEvent): boolean {
+  const target = event.composedPath()[0];
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+}
+
+/**
+ * Spaced-repetition review of saved words. Space or Enter reveals the answer,
+ * 1–4 grade it (Again, Hard, Good, Easy).
+ */
+export const WordReviewView: React.FC<WordReviewViewProps> = ({
+  useShadowDom = false,
+  isOpen = true,
+}) => {
+  const [deck, setDeck] = useState<Record<string, WordReviewCardDTO> | null>(null);
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const enrichedIdsRef = useRef(new Set<string>());
+  const sessionStartedRef = useRef(false);
+
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  const loadQueue = useCallback(async () => {
+    const stored = await ChromeStorage.getWordReviewDeck();
+    setDeck(stored);
+    setQueue(getDueWordReviewCards(stored).map((c) => c.savedWordId));
+    setIsRevealed(false);
+  }, []);
+
+  const syncDeck = useCallback(async () => {
+    setIsSyncing(true);
+    const result = await refreshWordReviewDeck();
+    setIsSyncing(false);
+    // Don't reshuffle the queue under someone who is already reviewing
+    if (result !== 'signed-out' && !sessionStartedRef.current) {
+      await loadQueue();
+    }
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    sessionStartedRef.current = false;
+    setReviewedCount(0);
+    loadQueue().then(syncDeck);
+  }, [isOpen, loadQueue, syncDeck]);
+
+  const currentCard = deck && queue.length > 0 ? deck[queue[0]] ?? null : null;
+  const flashcard = useMemo(() => (currentCard ? buildFlashcard(currentCard) : null), [currentCard]);
+
+  // Fill in examples/synonyms for cards saved without them
+  useEffect(() => {
+    if (!currentCard || enrichedIdsRef.current.has(currentCard.savedWordId)) return;
+    enrichedIdsRef.current.add(currentCard.savedWordId);
+    enrichWordReviewCard(currentCard).then((enriched) => {
+      setDeck((prev) => (prev ? { ...prev, [enriched.savedWordId]: { ...prev[enriched.savedWordId], examples: enriched.examples, synonyms: enriched.synonyms } } : prev));
+    });
+  }, [currentCard]);
+
+  const handleGrade = useCallback(async (grade: ReviewGrade) => {
+    if (!currentCard || !isRevealed) return;
+    sessionStartedRef.current = true;
+    const graded = await gradeWordReviewCard(currentCard.savedWordId, grade);
+    setReviewedCount((n) => n + 1);
+    setIsRevealed(false);
+    if (graded) {
+      setDeck((prev) => (prev ? { ...prev, [graded.savedWordId]: graded } : prev));
+    }
+    // A failed card goes to the back of the queue for another go this session
+    setQueue((prev) => (grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+  }, [currentCard, isRevealed]);
+
+  // Keyboard grading
+  useEffect(() => {
+    if (!isOpen || !currentCard) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event)) return;
+      if (!isRevealed && (event.key === ' ' || event.key === 'Enter')) {
+        event.preventDefault();
+        event.stopPropagation();
+        setIsRevealed(true);
+        return;
+      }
+      const gradeIndex = ['1', '2', '3', '4'].indexOf(event.key);
+      if (isRevealed && gradeIndex >= 0) {
+        event.preventDefault();
+        event.stopPropagation();
+        handleGrade(REVIEW_GRADES[gradeIndex]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, currentCard, isRevealed, handleGrade]);
+
+  if (!deck) {
+    return <div className={getClassName('wordReviewView')} />;
+  }
+
+  const totalCards = Object.keys(deck).length;
+
+  if (!currentCard || !flashcard) {
+    return (
+      <div className={getClassName('wordReviewView')}>
+        <div className={getClassName('wordReviewEmpty')}>
+          {totalCards === 0 ? (
+            <>
+              <p className={getClassName('wordReviewEmptyTitle')}>No saved words yet</p>
+              <p className={getClassName('wordReviewEmptyText')}>
+                Save words from the word explanation popover and they will show up here for review.
+              </p>
+            </>
+          ) : (
+            <>
+              <p className={getClassName('wordReviewEmptyTitle')}>All caught up</p>
+              <p className={getClassName('wordReviewEmptyText')}>
+                {reviewedCount > 0 ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}. ` : ''}
+                No more words are due today.
+              </p>
+            </>
+          )}
+          <button
+            type="button"
+            className={getClassName('wordReviewSync')}
+            onClick={syncDeck}
+            disabled={isSyncing}
+          >
+            <RefreshCw size={12} />
+            {isSyncing ? 'Syncing…' : 'Sync saved words'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={getClassName('wordReviewView')}>
+      <div className={getClassName('wordReviewProgress')}>
+        <span>{queue.length} due</span>
+        {isSyncing && <span>Syncing…</span>}
+      </div>
+
+      <div className={getClassName('flashcard')}>
+        <div className={getClassName('flashcardFront')}>
+          {flashcard.kind === 'recognize' ? (
+            <>
+              <div className={getClassName('flashcardWord')}>{currentCard.word}</div>
+              {flashcard.sentence && (
+                <blockquote className={getClassName('flashcardContext')}>{flashcard.sentence}</blockquote>
+              )}
+              <div className={getClassName('flashcardPrompt')}>What does it mean here?</div>
+            </>
+          ) : (
+            <>
+              <blockquote className={getClassName('flashcardContext')}>{flashcard.sentence}</blockquote>
+              <div className={getClassName('flashcardPrompt')}>Which saved word fills the blank?</div>
+            </>
+          )}
+        </div>
+
+        {isRevealed ? (
+          <div className={getClassName('flashcardBack')}>
+            {flashcard.kind === 'cloze' && (
+              <div className={getClassName('flashcardWord')}>{currentCard.word}</div>
+            )}
+            {currentCard.meaning && (
+              <p className={getClassName('flashcardMeaning')}>{currentCard.meaning}</p>
+            )}
+            {currentCard.examples.length > 0 && (
+              <ul className={getClassName('flashcardExamples')}>
+                {currentCard.examples.slice(0, 3).map((example) => (
+                  <li key={example}>{example}</li>
+                ))}
+              </ul>
+            )}
+            {currentCard.synonyms.length > 0 && (
+              <div className={getClassName('flashcardSynonyms')}>
+                {currentCard.synonyms.slice(0, 6).map((synonym) => (
+                  <span key={synonym} className={getClassName('flashcardSynonym')}>{synonym}</span>
+                ))}
+              </div>
+            )}
+            {currentCard.sourceUrl && (
+              <a
+                className={getClassName('flashcardSource')}
+                href={currentCard.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={currentCard.sourceUrl}
+              >
+                <ExternalLink size={12} />
+                Saved from {getSourceHost(currentCard.sourceUrl)}
+              </a>
+            )}
+          </div>
+        ) : (
+          <button
+            type="button"
+            className={getClassName('flashcardReveal')}
+            onClick={() => setIsRevealed(true)}
+          >
+            Show answer <kbd className={getClassName('flashcardKey')}>Space</kbd>
+          </button>
+        )}
+      </div>
+
+      {isRevealed && (
+        <div className={getClassName('gradeButtons')}>
+          {REVIEW_GRADES.map((grade, index) => (
+            <button
+              key={grade}
+              type="button"
+              className={`${getClassName('gradeButton')} ${getClassName(`grade${GRADE_LABELS[grade]}`)}`}
+              onClick={() => handleGrade(grade)}
+            >
+              <span className={getClassName('gradeLabel')}>{GRADE_LABELS[grade]}</span>
+              <span className={getClassName('gradeInterval')}>{formatNextInterval(currentCard, grade)}</span>
+              <kbd className={getClassName('flashcardKey')}>{index + 1}</kbd>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+WordReviewView.displayName = 'WordReviewView';
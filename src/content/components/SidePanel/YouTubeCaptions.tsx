@@ -0,0 +1,123 @@
+// src/content/components/SidePanel/YouTubeCaptions.tsx
+import React, { useCallback, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { ChevronDown, ChevronRight, Languages } from 'lucide-react';
+import {
+  youtubeCaptionTracksAtom,
+  youtubeCaptionTrackIdAtom,
+  youtubeTranslatedSegmentsAtom,
+  youtubeTranslationStatusAtom,
+  youtubeCaptionOverlayEnabledAtom,
+} from '@/store/youtubeTranscriptAtoms';
+import styles from './YouTubeCaptions.module.css';
+
+export interface YouTubeCaptionActions {
+  /** Re-read the transcript from another caption track */
+  onSelectTrack: (trackId: string) => void;
+  /** Translate the transcript into the user's native language */
+  onTranslate: () => void;
+  /** Show or hide the translated caption overlay on the player */
+  onShowTranslatedCaptionsChange: (show: boolean) => void;
+}
+
+export interface YouTubeCaptionsProps {
+  actions: YouTubeCaptionActions;
+  /** Whether to use Shadow DOM styling */
+  useShadowDom?: boolean;
+}
+
+/**
+ * Caption track picker and transcript translation for the open video.
+ * Chat and summaries read whichever track is chosen here.
+ */
+export const YouTubeCaptions: React.FC<YouTubeCaptionsProps> = ({
+  actions,
+  useShadowDom = false,
+}) => {
+  const tracks = useAtomValue(youtubeCaptionTracksAtom);
+  const trackId = useAtomValue(youtubeCaptionTrackIdAtom);
+  const translated = useAtomValue(youtubeTranslatedSegmentsAtom);
+  const translationStatus = useAtomValue(youtubeTranslationStatusAtom);
+  const overlayEnabled = useAtomValue(youtubeCaptionOverlayEnabledAtom);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const getClassName = useCallback((baseClass: string) => {
+    if (useShadowDom) {
+      return baseClass;
+    }
+    return styles[baseClass as keyof typeof styles] || baseClass;
+  }, [useShadowDom]);
+
+  if (tracks.length === 0) return null;
+
+  const translatedCount = translated?.filter((text) => text !== null).length ?? 0;
+  const statusText = (() => {
+    switch (translationStatus) {
+      case 'translating':
+        return `Translating… ${translatedCount}/${translated?.length ?? 0}`;
+      case 'done':
+        return 'Transcript translated';
+      case 'error':
+        return 'Translation failed';
+      default:
+        return null;
+    }
+  })();
+
+  return (
+    <div className={getClassName('youtubeCaptions')}>
+      <button
+        type="button"
+        className={getClassName('youtubeCaptionsHeader')}
+        onClick={() => setIsExpanded((v) => !v)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span>Captions ({tracks.find((t) => t.id === trackId)?.name ?? 'none'})</span>
+      </button>
+
+      {isExpanded && (
+        <div className={getClassName('youtubeCaptionsBody')}>
+          <label className={getClassName('youtubeCaptionsField')}>
+            <span>Transcript track</span>
+            <select
+              className={getClassName('youtubeCaptionsSelect')}
+              value={trackId ?? ''}
+              onChange={(e) => actions.onSelectTrack(e.target.value)}
+            >
+              {tracks.map((track) => (
+                <option key={track.id} value={track.id}>
+                  {track.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className={getClassName('youtubeCaptionsToolbar')}>
+            <button
+              type="button"
+              className={getClassName('youtubeCaptionsAction')}
+              onClick={actions.onTranslate}
+              disabled={translationStatus === 'translating'}
+            >
+              <Languages size={12} />
+              {translationStatus === 'error' ? 'Retry translation' : 'Translate transcript'}
+            </button>
+            {statusText && <span className={getClassName('youtubeCaptionsStatus')}>{statusText}</span>}
+          </div>
+
+          <label className={getClassName('youtubeCaptionsToggle')}>
+            <input
+              type="checkbox"
+              checked={overlayEnabled}
+              onChange={(e) => actions.onShowTranslatedCaptionsChange(e.target.checked)}
+            />
+            <span>Show translated captions on the video</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+YouTubeCaptions.displayName = 'YouTubeCaptions';
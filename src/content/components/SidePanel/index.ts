@@ -9,5 +9,21 @@ export { SettingsView } from './SettingsView';
 export { MyView } from './MyView';
 export { ResizeHandle } from './ResizeHandle';
 export type { ResizeHandleProps, ResizeHandlePosition } from './ResizeHandle';
+export { ShortcutSettings } from './ShortcutSettings';
+export type { ShortcutSettingsProps } from './ShortcutSettings';
+export { ExtractionRuleSettings } from './ExtractionRuleSettings';
+export type { ExtractionRuleSettingsProps } from './ExtractionRuleSettings';
+export { ExportMenu } from './ExportMenu';
+export type { ExportMenuProps } from './ExportMenu';
 export { Dropdown } from './Dropdown';
 export type { DropdownProps, DropdownOption } from './Dropdown';
+export { OrphanedAnnotations } from './OrphanedAnnotations';
+export type { OrphanedAnnotationsProps } from './OrphanedAnnotations';
+export { PdfAnnotations } from './PdfAnnotations';
+export type { PdfAnnotationsProps, PdfAnnotationActions } from './PdfAnnotations';
+export { YouTubeCaptions } from './YouTubeCaptions';
+export type { YouTubeCaptionsProps, YouTubeCaptionActions } from './YouTubeCaptions';
+export { WordReviewView } from './WordReviewView';
+export type { WordReviewViewProps } from './WordReviewView';
+export { AnnotationsView } from './AnnotationsView';
+export type { AnnotationsViewProps, AnnotationsViewActions } from './AnnotationsView';
@@ -9,7 +9,7 @@ import React, {
   useCallback,
   useMemo,
 } from 'react';
-import { ArrowUp, Square, Trash2, Plus, X, Quote, BookMarked, MoreHorizontal, Pencil, EyeOff, Share2, ExternalLink, Loader2 } from 'lucide-react';
+import { ArrowUp, Square, Trash2, Plus, X, History, Quote, BookMarked, MoreHorizontal, Pencil, EyeOff, Share2, ExternalLink, Loader2, DatabaseZap, Library } from 'lucide-react';
 import { useAtom, useSetAtom, useAtomValue } from 'jotai';
 import ReactMarkdown from 'react-markdown';
 import remarkBreaks from 'remark-breaks';
@@ -17,6 +17,10 @@ import styles from './WebpageChatView.module.css';
 import { OnHoverMessage } from '../OnHoverMessage/OnHoverMessage';
 import { CreateCustomPromptModal } from '../CreateCustomPromptModal/CreateCustomPromptModal';
 import { CustomPromptService } from '@/api-services/CustomPromptService';
+import { SavedLinkService } from '@/api-services/SavedLinkService';
+import { FolderService } from '@/api-services/FolderService';
+import type { SavedLinkResponse } from '@/api-services/dto/SavedLinkDTO';
+import type { FolderWithSubFoldersResponse } from '@/api-services/dto/FolderDTO';
 import type { CustomPromptResponse } from '@/api-services/dto/CustomPromptDTO';
 
 import { WebpageChatService, CitationDetail, ConversationMessage, stripCiteMarkers } from '@/api-services/WebpageChatService';
@@ -24,14 +28,29 @@ import { WebpageChatImageService } from '@/api-services/WebpageChatImageService'
 import { ENV, FEATURE_FLAGS } from '@/config/env';
 import { getLanguageCode } from '@/api-services/TranslateService';
 import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
-import { chunkPage, extractFullPageText } from '@/content/utils/pageChunker';
+import { extractDomain } from '@/utils/domain';
+import { chunkPage, extractFullPageText, type PageChunk } from '@/content/utils/pageChunker';
 import { embedText, embedTexts, cosineSimilarity } from '@/content/utils/embeddingClient';
-import { getVectorIndex, putVectorIndex } from '@/content/utils/vectorStore';
+import {
+  getVectorIndex,
+  searchVectorIndexes,
+  putVectorIndex,
+  deleteVectorIndex,
+  enforceVectorIndexBudget,
+  listVectorIndexes,
+  type VectorIndex,
+  type VectorIndexMeta,
+  type StoredChunk,
+} from '@/content/utils/vectorStore';
 import { hashPageUrl, hashPageContent, sha256 } from '@/content/utils/urlHasher';
 import { bm25Rerank } from '@/content/utils/bm25Reranker';
 import { isGoogleDocsPage, extractGoogleDocsId, googleDocsUrlWithoutTab } from '@/content/utils/googleDocsHelper';
 import { GoogleDocsApiService } from '@/api-services/GoogleDocsApiService';
 import { chunkGoogleDocTabs, extractGoogleDocFullText } from '@/content/utils/googleDocsChunker';
+import { isPdfDocument, extractPdfPages, getPdfDocumentUrl, goToPdfPage } from '@/content/utils/pdfDocument';
+import { chunkPdfPages, extractPdfFullText } from '@/content/utils/pdfChunker';
+import { isYouTubeWatchPage, getYouTubeVideoUrl, seekYouTubeVideo, formatTimestamp } from '@/content/utils/youtubeVideo';
+import { chunkTranscript, extractTranscriptFullText } from '@/content/utils/youtubeTranscriptChunker';
 import {
   activateCitation,
   deactivateCitation,
@@ -39,9 +58,12 @@ import {
   parseAnswerCitations,
   locateAndPulsateText,
   locateCitation,
+  buildCitationSourceUrl,
   ParsedCitation,
 } from '@/content/utils/citationManager';
 import { LoadingDots } from '../SidePanel/LoadingDots';
+import { ExportMenu } from '../SidePanel/ExportMenu';
+import { exportChatSession, downloadExportFile, type ExportFormat } from '@/content/utils/exportFormatter';
 
 import {
   webpageChatSessionsAtom,
@@ -58,6 +80,7 @@ import {
   webpageChatIndexingIndicatorAtom,
   webpageChatIsLoadingAtom,
   ChatSession,
+  ChatCollectionScope,
   RenderedMessage,
   AnnotationData,
   makeSessionId,
@@ -66,7 +89,8 @@ import {
 /** Shared prompt used by the FAB Summarise button, Ctrl+M, and the built-in pill. */
 const SUMMARISE_PAGE_QUESTION = 'Summarise this page';
 
-import { showLoginModalAtom, showUserFeedbackModalAtom } from '@/store/uiAtoms';
+import { showLoginModalAtom, showUserFeedbackModalAtom, userAuthInfoAtom } from '@/store/uiAtoms';
+import { youtubeTranscriptSegmentsAtom, type YouTubeTranscriptSegment } from '@/store/youtubeTranscriptAtoms';
 
 // ============================================================
 // Constants
@@ -95,6 +119,19 @@ function makeMsgId(): string {
   return `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 }
 
+/** Human-readable "last used" label for the session list (e.g. "5m ago") */
+function formatLastUsed(timestamp: number): string {
+  if (!timestamp) return '';
+  const diffMin = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMin < 1) return 'just now';
+  if (diffMin < 60) return `${diffMin}m ago`;
+  const diffHours = Math.floor(diffMin / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
 /** Update a single session inside the sessions array by id */
 function updateSession(
   sessions: ChatSession[],
@@ -145,15 +182,29 @@ const CitationChip: React.FC<CitationChipProps> = ({
   const [pulsating, setPulsating] = useState(shouldPulsate ?? false);
 
   const isGDocs = isGoogleDocsPage();
+  // PDF text lives in the viewer plugin, out of reach of DOM highlighting; chips jump to the page instead
+  const isPdf = isPdfDocument();
+  // The page does not show the transcript; chips seek the video instead
+  const isYouTube = isYouTubeWatchPage();
+  const isChipOnly = isGDocs || isPdf || isYouTube;
+
+  // Collection chats can cite other pages — those chips open the source page instead
+  const sourceDetail = chunkIds.map((id) => citationMap[id]).find((d) => d?.sourceUrl);
 
   const handleClick = () => {
     setPulsating(false);
-    console.log(`[Citation][CitationChip] clicked — chunkIds=${JSON.stringify(chunkIds)} isActive=${isActive} isGDocs=${isGDocs}`);
+
+    if (sourceDetail) {
+      const sourceUrl = buildCitationSourceUrl(sourceDetail);
+      if (sourceUrl) window.open(sourceUrl, '_blank', 'noopener');
+      return;
+    }
+    console.log(`[Citation][CitationChip] clicked — chunkIds=${JSON.stringify(chunkIds)} isActive=${isActive} isGDocs=${isGDocs} isPdf=${isPdf}`);
 
     if (isActive) {
       console.log(`[Citation][CitationChip] deactivating ${chunkIds.length} chunk(s)`);
-      // On Google Docs DOM highlighting is a no-op (canvas rendering); skip unwrap.
-      if (!isGDocs) {
+      // On Google Docs and PDFs DOM highlighting is a no-op; skip unwrap.
+      if (!isChipOnly) {
         for (const id of chunkIds) deactivateCitation(id);
       }
       const removed = new Set(chunkIds);
@@ -166,7 +217,7 @@ const CitationChip: React.FC<CitationChipProps> = ({
       );
     } else {
       // Deactivate all currently active citations first (single-selection behaviour)
-      if (!isGDocs) {
+      if (!isChipOnly) {
         setActiveCitations((prev) => {
           for (const id of prev) deactivateCitation(id);
           return [];
@@ -175,11 +226,15 @@ const CitationChip: React.FC<CitationChipProps> = ({
         setActiveCitations(() => []);
       }
 
-      if (isGDocs) {
-        // On Google Docs: no DOM highlighting possible (canvas).
+      if (isChipOnly) {
+        // On Google Docs (canvas) and PDFs (viewer plugin): no DOM highlighting possible.
         // Just mark all chunkIds as active so the chip visually highlights.
         const activated = chunkIds.filter((id) => citationMap[id]);
-        console.log(`[Citation][CitationChip] Google Docs — activating ${activated.length} chunk(s) (chip-only, no DOM highlight)`);
+        console.log(`[Citation][CitationChip] ${isPdf ? 'PDF' : isYouTube ? 'YouTube' : 'Google Docs'} — activating ${activated.length} chunk(s) (chip-only, no DOM highlight)`);
+        const pageNumber = activated.map((id) => citationMap[id].pageNumber).find((n) => n);
+        if (isPdf && pageNumber) goToPdfPage(pageNumber);
+        const startTime = activated.map((id) => citationMap[id].startTime).find((t) => t !== undefined);
+        if (isYouTube && startTime !== undefined) seekYouTubeVideo(startTime);
         setActiveCitations(() => activated);
         setSessions((prev) =>
           updateSession(prev, sessionId, (s) => ({
@@ -210,14 +265,18 @@ const CitationChip: React.FC<CitationChipProps> = ({
   if (isActive) chipClass += ' ' + cn('citationChipActive');
   if (pulsating) chipClass += ' ' + cn('citationChipPulsating');
 
-  // Build a tooltip with tab name / page number when available (Google Docs citations)
+  // Build a tooltip with tab name / page number / video time when available (Google Docs, PDF and YouTube citations)
   let tooltipText = `Citation ${number}`;
+  if (sourceDetail?.sourceUrl) {
+    tooltipText = `Open source: ${sourceDetail.sourceTitle || sourceDetail.sourceUrl}`;
+  }
   for (const id of chunkIds) {
     const d = citationMap[id];
-    if (d?.tabName || d?.pageNumber) {
+    if (d?.tabName || d?.pageNumber || d?.startTime !== undefined) {
       const parts: string[] = [];
       if (d.tabName) parts.push(`Tab: ${d.tabName}`);
       if (d.pageNumber) parts.push(`Page ${d.pageNumber}`);
+      if (d.startTime !== undefined) parts.push(`At ${formatTimestamp(d.startTime)}`);
       tooltipText = parts.join(' · ');
       break;
     }
@@ -239,6 +298,147 @@ const CitationChip: React.FC<CitationChipProps> = ({
   );
 };
 
+// ============================================================
+// CollectionScopePanel sub-component
+// ============================================================
+
+interface FlatFolder {
+  folder: FolderWithSubFoldersResponse;
+  depth: number;
+}
+
+function flattenFolders(folders: FolderWithSubFoldersResponse[], depth = 0): FlatFolder[] {
+  return folders.flatMap((folder) => [
+    { folder, depth },
+    ...flattenFolders(folder.subFolders ?? [], depth + 1),
+  ]);
+}
+
+interface CollectionScopePanelProps {
+  isLoggedIn: boolean;
+  activeScope?: ChatCollectionScope;
+  onSelect: (scope: ChatCollectionScope) => void;
+  useShadowDom?: boolean;
+}
+
+/** Picker for chatting over a bookmark folder or a hand-picked set of indexed pages */
+const CollectionScopePanel: React.FC<CollectionScopePanelProps> = ({
+  isLoggedIn,
+  activeScope,
+  onSelect,
+  useShadowDom,
+}) => {
+  const cn = useCallback(
+    (base: string) => (useShadowDom ? base : (styles[base as keyof typeof styles] ?? base)),
+    [useShadowDom]
+  );
+
+  const [folders, setFolders] = useState<FlatFolder[]>([]);
+  const [foldersLoading, setFoldersLoading] = useState(false);
+  const [indexedPages, setIndexedPages] = useState<VectorIndexMeta[]>([]);
+  const [selectedHashes, setSelectedHashes] = useState<Set<string>>(
+    () => new Set(activeScope?.kind === 'pages' ? activeScope.pageUrlHashes : [])
+  );
+
+  useEffect(() => {
+    listVectorIndexes().then(setIndexedPages);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    const controller = new AbortController();
+    setFoldersLoading(true);
+    FolderService.getAllFolders(
+      {
+        onSuccess: (response) => {
+          setFolders(flattenFolders(response.folders));
+          setFoldersLoading(false);
+        },
+        onError: (code, message) => {
+          if (code !== 'ABORTED') console.warn('[WebpageChatView] Failed to load folders:', message);
+          setFoldersLoading(false);
+        },
+      },
+      controller.signal
+    );
+    return () => controller.abort();
+  }, [isLoggedIn]);
+
+  const togglePage = (pageUrlHash: string) => {
+    setSelectedHashes((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageUrlHash)) next.delete(pageUrlHash);
+      else next.add(pageUrlHash);
+      return next;
+    });
+  };
+
+  return (
+    <div className={cn('sessionList')}>
+      <div className={cn('collectionSectionLabel')}>Bookmark folders</div>
+      {!isLoggedIn && (
+        <div className={cn('collectionEmpty')}>Log in to chat over your bookmark folders.</div>
+      )}
+      {isLoggedIn && foldersLoading && (
+        <div className={cn('collectionEmpty')}>Loading folders…</div>
+      )}
+      {isLoggedIn && !foldersLoading && folders.length === 0 && (
+        <div className={cn('collectionEmpty')}>No folders yet.</div>
+      )}
+      {folders.map(({ folder, depth }) => (
+        <button
+          key={folder.id}
+          type="button"
+          className={
+            cn('sessionListItem') +
+            (activeScope?.kind === 'folder' && activeScope.folderId === folder.id
+              ? ' ' + cn('sessionListItemActive')
+              : '')
+          }
+          style={{ paddingLeft: 8 + depth * 12 }}
+          onClick={() => onSelect({ kind: 'folder', folderId: folder.id, name: folder.name })}
+        >
+          <span className={cn('sessionListName')}>{folder.name}</span>
+        </button>
+      ))}
+
+      <div className={cn('collectionSectionLabel')}>Indexed pages</div>
+      {indexedPages.length === 0 && (
+        <div className={cn('collectionEmpty')}>Pages appear here once you've chatted with them.</div>
+      )}
+      {indexedPages.map((meta) => (
+        <label key={meta.pageUrlHash} className={cn('collectionPageItem')} title={meta.pageUrl}>
+          <input
+            type="checkbox"
+            checked={selectedHashes.has(meta.pageUrlHash)}
+            onChange={() => togglePage(meta.pageUrlHash)}
+          />
+          <span className={cn('sessionListName')}>
+            {meta.pageTitle || meta.pageUrl || 'Untitled page'}
+          </span>
+          {meta.pageUrl && <span className={cn('collectionPageSite')}>{extractDomain(meta.pageUrl)}</span>}
+        </label>
+      ))}
+      {indexedPages.length > 0 && (
+        <button
+          type="button"
+          className={cn('collectionApplyButton')}
+          disabled={selectedHashes.size === 0}
+          onClick={() =>
+            onSelect({
+              kind: 'pages',
+              pageUrlHashes: [...selectedHashes],
+              name: `${selectedHashes.size} indexed page${selectedHashes.size === 1 ? '' : 's'}`,
+            })
+          }
+        >
+          Chat over {selectedHashes.size || ''} selected page{selectedHashes.size === 1 ? '' : 's'}
+        </button>
+      )}
+    </div>
+  );
+};
+
 // ============================================================
 // AssistantMessage sub-component
 // ============================================================
@@ -399,11 +599,16 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
   const isLoading = useAtomValue(webpageChatIsLoadingAtom);
   const setShowLoginModal = useSetAtom(showLoginModalAtom);
   const setShowFeedbackModal = useSetAtom(showUserFeedbackModalAtom);
+  const isLoggedIn = useAtomValue(userAuthInfoAtom)?.isLoggedIn ?? false;
+  const youtubeTranscript = useAtomValue(youtubeTranscriptSegmentsAtom);
 
   // ── Local UI state ─────────────────────────────────────────
   const [inputValue, setInputValue] = useState('');
   const [dotCount, setDotCount] = useState(1);
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
+  const [showSessionList, setShowSessionList] = useState(false);
+  const [pageIndexForgotten, setPageIndexForgotten] = useState(false);
+  const [showCollectionPanel, setShowCollectionPanel] = useState(false);
 
   // Keyboard shortcut label for the Summarise pill (Mac vs Windows/Linux)
   const isMac = useMemo(() => /Mac|iPod|iPhone|iPad/.test(navigator.platform), []);
@@ -659,6 +864,30 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
   // Session management
   // ============================================================
 
+  const sessionsByLastUsed = useMemo(
+    () => [...sessions].sort((a, b) => b.lastUsedAt - a.lastUsedAt),
+    [sessions]
+  );
+
+  const handleSelectCollection = (scope: ChatCollectionScope | undefined) => {
+    setSessions((prev) =>
+      updateSession(prev, activeSessionId, (s) => ({ ...s, collectionScope: scope }))
+    );
+    setShowCollectionPanel(false);
+  };
+
+  const handleForgetPageIndex = async () => {
+    await forgetCurrentPageIndex();
+    setPageIndexForgotten(true);
+    setTimeout(() => setPageIndexForgotten(false), 2000);
+  };
+
+  const handleExportSession = async (format: ExportFormat) => {
+    if (!activeSession) return;
+    const file = await exportChatSession(activeSession, { url: window.location.href, title: document.title }, format);
+    downloadExportFile(file);
+  };
+
   const handleAddSession = () => {
     const newId = makeSessionId();
     const newSession: ChatSession = {
@@ -670,6 +899,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       activeCitations: [],
       pendingAnnotation: null,
       googleDocsTabScope: 'current',
+      lastUsedAt: Date.now(),
     };
 
     // Abort in-flight and clean up current session highlights
@@ -687,6 +917,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
   };
 
   const handleSwitchSession = (id: string) => {
+    setShowSessionList(false);
     if (id === activeSessionId) return;
 
     // Do NOT abort an in-flight stream — let it complete in the background and
@@ -694,6 +925,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
     // to streamingSessionIdRef, so it won't bleed into other session views.
     removeAllHighlights();
     setActiveSessionId(id);
+    setSessions((prev) => updateSession(prev, id, (s) => ({ ...s, lastUsedAt: Date.now() })));
     setErrorMsg('');
 
     const target = sessions.find((s) => s.id === id);
@@ -795,6 +1027,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
             ...s,
             messages: newMessages,
             pendingAnnotation: null, // consume
+            lastUsedAt: Date.now(),
           };
         })
       );
@@ -876,18 +1109,43 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       // Stage 2: Build chunks
       const answerHistory = trimHistory(currentSession?.history ?? [], ANSWER_HISTORY_TURNS);
       let chunks: ReturnType<typeof chunkPage> = [];
+      const collectionScope = currentSession?.collectionScope;
 
-      if (classifyResult.type === 'contextual' || annotation) {
+      if (collectionScope) {
+        // Collection chat: every question is answered from the collection's indexes
+        try {
+          chunks = await buildCollectionChunks(collectionScope, q);
+        } catch (err) {
+          console.warn('[WebpageChatView] Collection search failed:', err);
+          streamingSessionIdRef.current = null;
+          setChatState('error');
+          setSessions((prev) =>
+            updateSession(prev, activeSessionId, (s) => ({
+              ...s,
+              messages: [
+                ...s.messages,
+                { id: makeMsgId(), type: 'error', errorQuestion: q },
+              ],
+            }))
+          );
+          setErrorMsg(
+            err instanceof Error && err.message !== 'LOGIN_REQUIRED'
+              ? err.message
+              : "Couldn't load this collection."
+          );
+          return;
+        }
+      } else if (classifyResult.type === 'contextual' || annotation) {
         try {
-          chunks = await buildContextualChunks(q, () => setIsIndexing(true));
+          chunks = await buildContextualChunks(q, () => setIsIndexing(true), youtubeTranscript);
         } catch (err) {
           console.warn('[WebpageChatView] Vector path failed, falling back to broad:', err);
-          chunks = chunkPage();
+          chunks = await buildPageChunks(youtubeTranscript);
         } finally {
           setIsIndexing(false);
         }
       } else {
-        chunks = chunkPage();
+        chunks = await buildPageChunks(youtubeTranscript);
       }
 
       if (chunks.length === 0) {
@@ -950,7 +1208,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       await WebpageChatService.answer(
         {
           question: q,
-          questionType: classifyResult.type,
+          questionType: collectionScope ? 'contextual' : classifyResult.type,
           pageUrl: window.location.href,
           pageTitle: document.title || undefined,
           languageCode,
@@ -964,7 +1222,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
           },
           onInlineCitation: (_citationNumber, _chunkIds, citations) => {
             for (const c of citations) {
-              msgCitationMap[c.chunkId] = c;
+              msgCitationMap[c.chunkId] = withCitationSource(c, chunks);
             }
             setSessions((prev) =>
               updateSession(prev, activeSessionId, (s) => ({
@@ -975,8 +1233,11 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
           },
           onCitations: (answer, citeMap, possibleQuestions) => {
             const locatableCiteMap: Record<string, CitationDetail> = {};
-            for (const [chunkId, detail] of Object.entries(citeMap)) {
-              const found = locateCitation(detail).found;
+            for (const [chunkId, rawDetail] of Object.entries(citeMap)) {
+              const detail = withCitationSource(rawDetail, chunks);
+              // Citations into other pages of a collection can't be located here,
+              // and transcript citations point at a time rather than the DOM
+              const found = detail.sourceUrl || detail.startTime !== undefined ? true : locateCitation(detail).found;
               console.log(`[Citation][onCitations] chunkId=${chunkId} locatable=${found}`);
               if (found) {
                 locatableCiteMap[chunkId] = detail;
@@ -1062,6 +1323,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       setLastQuestion,
       setIsIndexing,
       setShowLoginModal,
+      youtubeTranscript,
     ]
   );
 
@@ -1090,6 +1352,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
               imageContext: { imageUrl, imageExplanationId },
             },
           ],
+          lastUsedAt: Date.now(),
         }))
       );
 
@@ -1100,9 +1363,9 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       setChatState('indexing');
       let chunks: ReturnType<typeof chunkPage> = [];
       try {
-        chunks = await buildContextualChunks(question || displayQ, () => setIsIndexing(true));
+        chunks = await buildContextualChunks(question || displayQ, () => setIsIndexing(true), youtubeTranscript);
       } catch {
-        chunks = chunkPage();
+        chunks = await buildPageChunks(youtubeTranscript);
       } finally {
         setIsIndexing(false);
       }
@@ -1242,7 +1505,7 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
       );
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [isLoading, sessions, activeSessionId, setSessions, setChatState, setStreamingAnswer, setErrorMsg, setLastQuestion, setIsIndexing, setShowLoginModal]
+    [isLoading, sessions, activeSessionId, setSessions, setChatState, setStreamingAnswer, setErrorMsg, setLastQuestion, setIsIndexing, setShowLoginModal, youtubeTranscript]
   );
 
   // ── Stop ────────────────────────────────────────────────────
@@ -1372,8 +1635,97 @@ export const WebpageChatView: React.FC<WebpageChatViewProps> = ({
         >
           <Plus size={13} />
         </button>
+        <button
+          type="button"
+          className={
+            cn('sessionTabAdd') +
+            (showSessionList ? ' ' + cn('sessionListToggleActive') : '')
+          }
+          onClick={() => setShowSessionList((v) => !v)}
+          aria-label="All sessions"
+          title="All sessions"
+        >
+          <History size={13} />
+        </button>
+        <button
+          type="button"
+          className={
+            cn('sessionTabAdd') +
+            (pageIndexForgotten ? ' ' + cn('sessionListToggleActive') : '')
+          }
+          onClick={handleForgetPageIndex}
+          disabled={isCurrentSessionStreaming}
+          aria-label="Forget this page's index"
+          title={pageIndexForgotten ? 'Page index forgotten' : "Forget this page's index"}
+        >
+          <DatabaseZap size={13} />
+        </button>
+        <button
+          type="button"
+          className={
+            cn('sessionTabAdd') +
+            (showCollectionPanel || activeSession?.collectionScope ? ' ' + cn('sessionListToggleActive') : '')
+          }
+          onClick={() => setShowCollectionPanel((v) => !v)}
+          aria-label="Chat across a collection"
+          title="Chat across a folder or several indexed pages"
+        >
+          <Library size={13} />
+        </button>
+        <ExportMenu
+          onExport={handleExportSession}
+          buttonClassName={cn('sessionTabAdd')}
+          disabled={!activeSession || activeSession.messages.length === 0 || isCurrentSessionStreaming}
+          useShadowDom={useShadowDom}
+        />
       </div>
 
+      {/* Collection picker — chat over a bookmark folder or several indexed pages */}
+      {showCollectionPanel && (
+        <CollectionScopePanel
+          isLoggedIn={isLoggedIn}
+          activeScope={activeSession?.collectionScope}
+          onSelect={handleSelectCollection}
+          useShadowDom={useShadowDom}
+        />
+      )}
+
+      {activeSession?.collectionScope && (
+        <div className={cn('collectionScopeBar')}>
+          <span className={cn('tabScopeLabel')}>Chatting across:</span>
+          <span className={cn('collectionScopeName')}>{activeSession.collectionScope.name}</span>
+          <button
+            type="button"
+            className={cn('sessionTabClose') + ' ' + cn('collectionScopeClear')}
+            onClick={() => handleSelectCollection(undefined)}
+            aria-label="Back to this page only"
+            title="Back to this page only"
+          >
+            <X size={10} />
+          </button>
+        </div>
+      )}
+
+      {/* Session list — all sessions for this page, most recently used first */}
+      {showSessionList && (
+        <div className={cn('sessionList')}>
+          {sessionsByLastUsed.map((session) => (
+            <button
+              key={session.id}
+              type="button"
+              className={
+                cn('sessionListItem') +
+                (session.id === activeSessionId ? ' ' + cn('sessionListItemActive') : '')
+              }
+              onClick={() => handleSwitchSession(session.id)}
+            >
+              <span className={cn('sessionListName')}>{session.name}</span>
+              <span className={cn('sessionListTime')}>{formatLastUsed(session.lastUsedAt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Message list */}
       <div className={cn('messageList')} ref={containerRef}>
         {!hasContent && chatState === 'idle' && !errorMsg && (
@@ -1920,18 +2272,61 @@ WebpageChatView.displayName = 'WebpageChatView';
 
 async function buildContextualChunks(
   question: string,
-  onIndexingStart: () => void
+  onIndexingStart: () => void,
+  transcript: YouTubeTranscriptSegment[] | null
 ): Promise<ReturnType<typeof chunkPage>> {
   // ── Google Docs path ──────────────────────────────────────────
   if (isGoogleDocsPage()) {
     return buildGoogleDocsChunks(question, onIndexingStart);
   }
 
+  // ── PDF viewer path ───────────────────────────────────────────
+  if (isPdfDocument()) {
+    return buildPdfChunks(question, onIndexingStart);
+  }
+
+  // ── YouTube transcript path ───────────────────────────────────
+  if (isYouTubeWatchPage() && transcript && transcript.length > 0) {
+    return buildYouTubeTranscriptChunks(question, onIndexingStart, transcript);
+  }
+
   // ── Standard DOM path ─────────────────────────────────────────
+  return searchIndexedContent(question, onIndexingStart, {
+    pageUrl: window.location.href,
+    fullText: extractFullPageText(),
+    freshChunks: chunkPage,
+    emptyMessage: 'No chunks to index',
+  });
+}
+
+// ============================================================
+// Google Docs contextual chunks via REST API
+// ============================================================
+
+async function buildGoogleDocsChunks(
+  question: string,
+  onIndexingStart: () => void
+): Promise<ReturnType<typeof chunkPage>> {
   const pageUrl = window.location.href;
-  const urlHash = await hashPageUrl(pageUrl);
+  const docId = extractGoogleDocsId(pageUrl);
+  if (!docId) throw new Error('Could not extract Google Docs ID from URL');
+
+  const accessToken = await GoogleDocsApiService.getGoogleAccessToken();
+
+  // Fetch the full document with all tabs
+  const { tabs: allTabs } = await GoogleDocsApiService.fetchAndFlattenTabs(
+    docId,
+    accessToken
+  );
+  if (allTabs.length === 0) throw new Error('Google Doc has no tabs');
+
+  const tabsToChunk = allTabs;
+
+  // Index key is per-document (all tabs always included)
+  const baseUrl = googleDocsUrlWithoutTab(pageUrl);
+  const urlHash = await sha256(`gdocs:${baseUrl}`);
 
-  const fullText = extractFullPageText();
+  const fullText = extractGoogleDocFullText(tabsToChunk);
   const contentHash = await hashPageContent(fullText);
 
   let storedIndex = await getVectorIndex(urlHash);
@@ -1939,22 +2334,18 @@ async function buildContextualChunks(
   if (!storedIndex || storedIndex.pageContentHash !== contentHash) {
     onIndexingStart();
 
-    const freshChunks = chunkPage();
-    if (freshChunks.length === 0) throw new Error('No chunks to index');
+    const freshChunks = chunkGoogleDocTabs(tabsToChunk);
+    if (freshChunks.length === 0) throw new Error('Google Doc has no content to index');
 
-    const texts = freshChunks.map((c) => c.text);
-    const vectors = await embedTexts(texts);
+    const chunks = await embedChunksIncrementally(freshChunks, storedIndex);
 
-    await putVectorIndex({
+    await storeVectorIndex({
       pageUrlHash: urlHash,
       pageContentHash: contentHash,
       indexedAt: new Date().toISOString(),
-      chunks: freshChunks.map((c, i) => ({
-        chunkId: c.chunkId,
-        text: c.text,
-        vector: vectors[i],
-        metadata: c.metadata,
-      })),
+      pageUrl: baseUrl,
+      pageTitle: document.title,
+      chunks,
     });
 
     storedIndex = await getVectorIndex(urlHash);
@@ -1968,56 +2359,100 @@ async function buildContextualChunks(
 }
 
 // ============================================================
-// Google Docs contextual chunks via REST API
+// PDF contextual chunks from the document's own text
 // ============================================================
 
-async function buildGoogleDocsChunks(
+async function buildPdfChunks(
   question: string,
   onIndexingStart: () => void
 ): Promise<ReturnType<typeof chunkPage>> {
-  const pageUrl = window.location.href;
-  const docId = extractGoogleDocsId(pageUrl);
-  if (!docId) throw new Error('Could not extract Google Docs ID from URL');
+  const pages = await extractPdfPages();
+  return searchIndexedContent(question, onIndexingStart, {
+    pageUrl: getPdfDocumentUrl(),
+    fullText: extractPdfFullText(pages),
+    freshChunks: () => chunkPdfPages(pages),
+    emptyMessage: 'PDF has no extractable text',
+  });
+}
 
-  const accessToken = await GoogleDocsApiService.getGoogleAccessToken();
+// ============================================================
+// YouTube contextual chunks from the video transcript
+// ============================================================
 
-  // Fetch the full document with all tabs
-  const { tabs: allTabs } = await GoogleDocsApiService.fetchAndFlattenTabs(
-    docId,
-    accessToken
-  );
-  if (allTabs.length === 0) throw new Error('Google Doc has no tabs');
+async function buildYouTubeTranscriptChunks(
+  question: string,
+  onIndexingStart: () => void,
+  transcript: YouTubeTranscriptSegment[]
+): Promise<ReturnType<typeof chunkPage>> {
+  return searchIndexedContent(question, onIndexingStart, {
+    // Keyed by the canonical video URL so playlist and time parameters share one index
+    pageUrl: getYouTubeVideoUrl(),
+    fullText: extractTranscriptFullText(transcript),
+    freshChunks: () => chunkTranscript(transcript),
+    emptyMessage: 'Video transcript is empty',
+  });
+}
 
-  const tabsToChunk = allTabs;
+// ============================================================
+// Broad path: every chunk on the page, no vector search
+// ============================================================
 
-  // Index key is per-document (all tabs always included)
-  const baseUrl = googleDocsUrlWithoutTab(pageUrl);
-  const urlHash = await sha256(`gdocs:${baseUrl}`);
+async function buildPageChunks(transcript: YouTubeTranscriptSegment[] | null): Promise<ReturnType<typeof chunkPage>> {
+  if (isYouTubeWatchPage() && transcript && transcript.length > 0) return chunkTranscript(transcript);
+  if (!isPdfDocument()) return chunkPage();
+  try {
+    return chunkPdfPages(await extractPdfPages());
+  } catch (err) {
+    console.warn('[WebpageChatView] Could not read PDF text:', err);
+    return [];
+  }
+}
 
-  const fullText = extractGoogleDocFullText(tabsToChunk);
-  const contentHash = await hashPageContent(fullText);
+// ============================================================
+// Shared: index content by URL, then search it
+// ============================================================
+
+interface IndexableContent {
+  /** Key of the stored index (hashed) */
+  pageUrl: string;
+  /** Full text; its hash decides whether the stored index is stale */
+  fullText: string;
+  /** Splits the content into chunks; only called when (re-)indexing */
+  freshChunks: () => PageChunk[];
+  /** Error thrown when there is nothing to chunk */
+  emptyMessage: string;
+}
+
+/**
+ * Search the stored index for `content`, (re-)indexing it first when it is
+ * missing or its text has changed. Shared by the page, PDF and transcript paths.
+ */
+async function searchIndexedContent(
+  question: string,
+  onIndexingStart: () => void,
+  content: IndexableContent
+): Promise<ReturnType<typeof chunkPage>> {
+  const { pageUrl } = content;
+  const urlHash = await hashPageUrl(pageUrl);
+  const contentHash = await hashPageContent(content.fullText);
 
   let storedIndex = await getVectorIndex(urlHash);
 
   if (!storedIndex || storedIndex.pageContentHash !== contentHash) {
     onIndexingStart();
 
-    const freshChunks = chunkGoogleDocTabs(tabsToChunk);
-    if (freshChunks.length === 0) throw new Error('Google Doc has no content to index');
+    const freshChunks = content.freshChunks();
+    if (freshChunks.length === 0) throw new Error(content.emptyMessage);
 
-    const texts = freshChunks.map((c) => c.text);
-    const vectors = await embedTexts(texts);
+    const chunks = await embedChunksIncrementally(freshChunks, storedIndex);
 
-    await putVectorIndex({
+    await storeVectorIndex({
       pageUrlHash: urlHash,
       pageContentHash: contentHash,
       indexedAt: new Date().toISOString(),
-      chunks: freshChunks.map((c, i) => ({
-        chunkId: c.chunkId,
-        text: c.text,
-        vector: vectors[i],
-        metadata: c.metadata,
-      })),
+      pageUrl,
+      pageTitle: document.title,
+      chunks,
     });
 
     storedIndex = await getVectorIndex(urlHash);
@@ -2030,6 +2465,71 @@ async function buildGoogleDocsChunks(
   return searchVectorIndex(storedIndex, question);
 }
 
+// ============================================================
+// Shared: incremental re-embedding
+// ============================================================
+
+/**
+ * Turn freshly chunked content into stored chunks, re-embedding only chunks
+ * whose text is new or changed since `previousIndex`. Unchanged chunks reuse
+ * their stored vector; chunks no longer on the page are simply not carried over.
+ */
+async function embedChunksIncrementally(
+  freshChunks: PageChunk[],
+  previousIndex: VectorIndex | null
+): Promise<StoredChunk[]> {
+  const vectorsByHash = new Map<string, number[]>();
+  for (const chunk of previousIndex?.chunks ?? []) {
+    const hash = chunk.contentHash ?? await sha256(chunk.text);
+    vectorsByHash.set(hash, chunk.vector);
+  }
+
+  const hashes = await Promise.all(freshChunks.map((c) => sha256(c.text)));
+  const toEmbed = [...new Set(hashes.filter((h) => !vectorsByHash.has(h)))];
+
+  if (toEmbed.length > 0) {
+    const textByHash = new Map(hashes.map((h, i) => [h, freshChunks[i].text]));
+    const vectors = await embedTexts(toEmbed.map((h) => textByHash.get(h)!));
+    toEmbed.forEach((h, i) => vectorsByHash.set(h, vectors[i]));
+  }
+
+  console.log(`[WebpageChatView] Indexed ${freshChunks.length} chunk(s): ${toEmbed.length} embedded, ${freshChunks.length - toEmbed.length} reused`);
+
+  return freshChunks.map((c, i) => ({
+    chunkId: c.chunkId,
+    text: c.text,
+    vector: vectorsByHash.get(hashes[i])!,
+    metadata: c.metadata,
+    contentHash: hashes[i],
+  }));
+}
+
+// ============================================================
+// Shared: forget the current page's stored index
+// ============================================================
+
+/**
+ * Delete the stored vector index for the current page so the next question
+ * re-indexes it from scratch. Uses the same keys as the chunk builders above.
+ */
+async function forgetCurrentPageIndex(): Promise<void> {
+  const pageUrl = window.location.href;
+  const urlHash = isGoogleDocsPage()
+    ? await sha256(`gdocs:${googleDocsUrlWithoutTab(pageUrl)}`)
+    : await hashPageUrl(pageUrl);
+  await deleteVectorIndex(urlHash);
+}
+
+// ============================================================
+// Shared: persist an index and keep the store within budget
+// ============================================================
+
+async function storeVectorIndex(index: VectorIndex): Promise<void> {
+  await putVectorIndex(index);
+  const budgetMb = await ChromeStorage.getVectorIndexBudgetMb();
+  await enforceVectorIndexBudget(budgetMb * 1024 * 1024, index.pageUrlHash);
+}
+
 // ============================================================
 // Shared: search a stored vector index
 // ============================================================
@@ -2039,8 +2539,16 @@ async function searchVectorIndex(
   question: string
 ): Promise<ReturnType<typeof chunkPage>> {
   const questionVector = await embedText(question);
+  return rankStoredChunks(storedIndex.chunks, questionVector, question);
+}
 
-  const scored = storedIndex.chunks
+/** Cosine top-K over stored chunks, then BM25 rerank against the question */
+function rankStoredChunks(
+  chunks: StoredChunk[],
+  questionVector: number[],
+  question: string
+): ReturnType<typeof chunkPage> {
+  const scored = chunks
     .map((c) => ({
       chunkId: c.chunkId,
       text: c.text,
@@ -2050,6 +2558,14 @@ async function searchVectorIndex(
     .sort((a, b) => b.cosineScore - a.cosineScore)
     .slice(0, TOP_COSINE);
 
+  return rerankScoredChunks(scored, question);
+}
+
+/** BM25 rerank of cosine-ranked chunks against the question */
+function rerankScoredChunks(
+  scored: (PageChunk & { cosineScore: number })[],
+  question: string
+): ReturnType<typeof chunkPage> {
   const reranked = bm25Rerank(question, scored, TOP_AFTER_RERANK);
 
   return reranked.map((c) => ({
@@ -2058,3 +2574,104 @@ async function searchVectorIndex(
     metadata: c.metadata,
   }));
 }
+
+// ============================================================
+// Collection path: search the indexes of several pages at once
+// ============================================================
+
+const COLLECTION_FOLDER_LINK_LIMIT = 200;
+
+interface CollectionPage {
+  pageUrlHash: string;
+  pageUrl?: string;
+  pageTitle?: string;
+}
+
+function fetchFolderLinks(folderId: string): Promise<SavedLinkResponse[]> {
+  return new Promise((resolve, reject) => {
+    SavedLinkService.getSavedLinksByFolder(folderId, 0, COLLECTION_FOLDER_LINK_LIMIT, {
+      onSuccess: (response) => resolve(response.links),
+      onError: (_code, message) => reject(new Error(message)),
+      onLoginRequired: () => reject(new Error('LOGIN_REQUIRED')),
+    });
+  });
+}
+
+async function resolveCollectionPages(scope: ChatCollectionScope): Promise<CollectionPage[]> {
+  if (scope.kind === 'pages') {
+    return scope.pageUrlHashes.map((pageUrlHash) => ({ pageUrlHash }));
+  }
+  const links = await fetchFolderLinks(scope.folderId);
+  return Promise.all(
+    links.map(async (link) => ({
+      pageUrlHash: await hashPageUrl(link.url),
+      pageUrl: link.url,
+      pageTitle: link.name ?? undefined,
+    }))
+  );
+}
+
+/**
+ * Retrieve the best chunks across every indexed page in the collection, on
+ * any site. Pages are only searchable once they have been indexed (chatted
+ * with) in this browser.
+ * Chunks from other pages get page-prefixed ids (chunk ids are only unique per
+ * page) and carry `sourceUrl` so their citations can open the source page.
+ */
+async function buildCollectionChunks(
+  scope: ChatCollectionScope,
+  question: string
+): Promise<ReturnType<typeof chunkPage>> {
+  const pages = await resolveCollectionPages(scope);
+  const currentUrlHash = await hashPageUrl(window.location.href);
+
+  const questionVector = await embedText(question);
+  const { indexedPages, matches } = await searchVectorIndexes(
+    pages.map((page) => page.pageUrlHash),
+    questionVector,
+    TOP_COSINE
+  );
+
+  if (indexedPages === 0) {
+    throw new Error("None of the pages in this collection have been indexed yet. Open a page and ask a question about it to index it.");
+  }
+  console.log(`[WebpageChatView] Collection search over ${indexedPages}/${pages.length} indexed page(s)`);
+
+  const pagesByHash = new Map(pages.map((page) => [page.pageUrlHash, page]));
+  const scored = matches.map(({ pageUrlHash, pageUrl, pageTitle, chunk, cosineScore }) => {
+    if (pageUrlHash === currentUrlHash) {
+      return { chunkId: chunk.chunkId, text: chunk.text, metadata: chunk.metadata, cosineScore };
+    }
+    const page = pagesByHash.get(pageUrlHash);
+    return {
+      chunkId: `${pageUrlHash.slice(0, 8)}_${chunk.chunkId}`,
+      text: chunk.text,
+      metadata: {
+        ...chunk.metadata,
+        sourceUrl: pageUrl ?? page?.pageUrl,
+        sourceTitle: pageTitle ?? page?.pageTitle,
+      },
+      cosineScore,
+    };
+  });
+  return rerankScoredChunks(scored, question);
+}
+
+/** Carry a chunk's source page and video time onto its citation (the API does not echo them back) */
+function withCitationSource(
+  citation: CitationDetail,
+  chunks: ReturnType<typeof chunkPage>
+): CitationDetail {
+  const chunk = chunks.find((c) => c.chunkId === citation.chunkId);
+  const startTime = citation.startTime ?? chunk?.metadata.startTime;
+  if (citation.sourceUrl || !chunk?.metadata.sourceUrl) {
+    return startTime === citation.startTime ? citation : { ...citation, startTime };
+  }
+  return {
+    ...citation,
+    startTime,
+    sourceUrl: chunk.metadata.sourceUrl,
+    sourceTitle: chunk.metadata.sourceTitle,
+    pageNumber: citation.pageNumber ?? chunk.metadata.pageNumber,
+  };
+}
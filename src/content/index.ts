@@ -7,7 +7,7 @@ import { createStore, Provider } from 'jotai';
 
 // Import components
 import { FAB } from './components/FAB';
-import { SidePanel } from './components/SidePanel';
+import { SidePanel, type PdfAnnotationActions, type YouTubeCaptionActions, type AnnotationsViewActions } from './components/SidePanel';
 import { ContentActionsTrigger } from './components/ContentActions';
 import { DisableNotificationModal } from './components/DisableNotificationModal';
 import { LoginModal } from './components/LoginModal';
@@ -22,6 +22,19 @@ import { FolderListModal } from './components/FolderListModal';
 import { SavedParagraphIcon } from './components/SavedParagraphIcon';
 import { WelcomeModal } from './components/WelcomeModal/WelcomeModal';
 import { ReviewPromptModal } from './components/ReviewPromptModal/ReviewPromptModal';
+import { CommandPalette, type CommandPaletteItem } from './components/CommandPalette/CommandPalette';
+import { ReaderToolbar } from './components/ReaderToolbar/ReaderToolbar';
+import {
+  SHORTCUT_COMMANDS,
+  resolveShortcutBindings,
+  bindingFromEvent,
+  commandForBinding,
+  type ShortcutBindings,
+  type ShortcutCommandId,
+} from './utils/shortcutRegistry';
+import { loadSiteExtractionRule } from './utils/siteExtractionRules';
+import { ReaderView } from './utils/readerView';
+import type { ReaderPreferencesDTO } from '@/storage/chrome-local/dto';
 import { BookmarkSavedToast } from './components/BookmarkSavedToast';
 import { Spinner } from './components/ui/Spinner';
 import bookmarkSavedToastStyles from './styles/bookmarkSavedToast.shadow.css?inline';
@@ -53,6 +66,8 @@ import folderListModalStyles from './styles/folderListModal.shadow.css?inline';
 import savedParagraphIconStyles from './styles/savedParagraphIcon.shadow.css?inline';
 import welcomeModalStyles from './styles/welcomeModal.shadow.css?inline';
 import reviewPromptModalStyles from './styles/reviewPromptModal.shadow.css?inline';
+import commandPaletteStyles from './styles/commandPalette.shadow.css?inline';
+import readerToolbarStyles from './styles/readerToolbar.shadow.css?inline';
 import baseSidePanelStyles from './styles/baseSidePanel.shadow.css?inline';
 import spinnerStyles from './styles/spinner.shadow.css?inline';
 import webpageChatStyles from './styles/webpageChat.shadow.css?inline';
@@ -63,17 +78,17 @@ import userFeedbackModalStyles from './styles/userFeedbackModal.shadow.css?inlin
 // Import color CSS variables
 import { getAllColorVariables } from '../constants/colors.css.js';
 import { COLORS } from '../constants/colors';
-import { getCurrentTheme } from '../constants/theme';
+import { getCurrentTheme, type Theme } from '../constants/theme';
 
 // Import services and utilities
 // SummariseService removed — summarise now goes through WebpageChatService (/answer)
-import { SimplifyService } from '../api-services/SimplifyService';
+import { simplifyWithFallback, explainWordWithFallback } from '../api-services/AIProvider';
 import { SimplifyImageService } from '../api-services/SimplifyImageService';
 import { getLanguageCode, getLanguageName, TranslateTextItem, translateWithFallback } from '../api-services/TranslateService';
 import { AskService } from '../api-services/AskService';
 import { AskImageService } from '../api-services/AskImageService';
 import { ApiErrorHandler } from '../api-services/ApiErrorHandler';
-import { WordsExplanationV2Service, type WordInfo } from '../api-services/WordsExplanationV2Service';
+import type { WordInfo } from '../api-services/WordsExplanationV2Service';
 import { MoreExamplesService } from '../api-services/MoreExamplesService';
 import { WordSynonymsService } from '../api-services/WordSynonymsService';
 import { WordAntonymsService } from '../api-services/WordAntonymsService';
@@ -86,6 +101,7 @@ import { SavedImageService } from '../api-services/SavedImageService';
 import { UserSettingsService } from '../api-services/UserSettingsService';
 import { SubscriptionService } from '../api-services/SubscriptionService';
 import type { FolderWithSubFoldersResponse } from '../api-services/dto/FolderDTO';
+import type { SaveParagraphRequest, SavedParagraphResponse } from '../api-services/dto/SavedParagraphDTO';
 import { extractPageContent, extractPageContentWithIds } from './utils/pageContentExtractor';
 import { registerGetPageContentOrWait, registerGetSummarisePayloadOrWait } from './pageContentBridge';
 import { addTextUnderline, removeTextUnderline, pulseTextBackground, changeUnderlineColor, type UnderlineState } from './utils/textSelectionUnderline';
@@ -112,7 +128,17 @@ import {
   imageExplanationPanelOpenAtom,
   type ImageExplanationState,
 } from '../store/imageExplanationAtoms';
-import { youtubeTranscriptSegmentsAtom } from '../store/youtubeTranscriptAtoms';
+import {
+  youtubeTranscriptSegmentsAtom,
+  youtubeTranscriptVideoIdAtom,
+  youtubeChapterMarkersAtom,
+  youtubeCaptionTracksAtom,
+  youtubeCaptionTrackIdAtom,
+  youtubeTranslatedSegmentsAtom,
+  youtubeTranslationStatusAtom,
+  youtubeCaptionOverlayEnabledAtom,
+  type YouTubeTranscriptSegment,
+} from '../store/youtubeTranscriptAtoms';
 import {
   wordExplanationsAtom,
   activeWordIdAtom,
@@ -127,20 +153,85 @@ import { WebHighlightService } from '../api-services/WebHighlightService';
 import { HighlightColourService } from '../api-services/HighlightColourService';
 import { webHighlightsAtom, highlightColoursAtom, selectedHighlightColourIdAtom, type WebHighlightState } from '../store/webHighlightAtoms';
 import { buildAnchor, resolveAnchor } from './utils/highlightAnchor';
-import { applyHighlight, removeHighlight, getHighlightIdFromElement, getLastMarkElement } from './utils/highlightRenderer';
+import { applyHighlight, removeHighlight, renameHighlight, recolorHighlight, getHighlightIdFromElement, getLastMarkElement, applySharedHighlight, removeSharedHighlight } from './utils/highlightRenderer';
+import { locateAndPulsateText } from './utils/citationManager';
 import { HighlightDotMenu } from './components/HighlightDotMenu/HighlightDotMenu';
 import highlightDotMenuStyles from './styles/highlightDotMenu.shadow.css?inline';
 import { WebNoteService } from '../api-services/WebNoteService';
+import { LOCAL_ANNOTATIONS_MIGRATED_MESSAGE } from '../api-services/LocalAnnotationAdapter';
+import { AnnotationShareService } from '../api-services/AnnotationShareService';
+import type { WebNoteResponse } from '../api-services/dto/WebNoteDTO';
+import type { AnchorData, WebHighlightResponse } from '../api-services/dto/WebHighlightDTO';
+import type { LibraryItemType } from '../api-services/dto/AnnotationLibraryDTO';
+import type { NoteReplyResponse } from '../api-services/dto/AnnotationShareDTO';
+import { exportPageAnnotations, downloadExportFile, type ExportFormat } from './utils/exportFormatter';
+import { deleteLegacyVectorIndexes } from './utils/vectorStore';
 import { webNotesAtom, type WebNoteState } from '../store/webNoteAtoms';
-import { injectNoteAnchorSpan, removeNoteAnchorSpan } from './utils/noteAnchorSpan';
+import { pageAnnotationsAtom, type PageAnnotation, type PageAnnotationKind } from '../store/pageAnnotationAtoms';
+import { sharedAnnotationsAtom, noteRepliesAtom, pageSharesAtom, type SharedAnnotationState } from '../store/sharedAnnotationAtoms';
+import { orphanedAnnotationsAtom, reattachingAnnotationIdAtom, type OrphanedAnnotation } from '../store/orphanedAnnotationAtoms';
+import { pdfNoteDraftAtom } from '../store/pdfAnnotationAtoms';
+import {
+  isPdfDocument,
+  getPdfDocumentUrl,
+  extractPdfPages,
+  getPdfSelectedText,
+  goToPdfPage,
+  buildPdfAnchor,
+} from './utils/pdfDocument';
+import { extractPdfFullText, extractPdfContentWithIds } from './utils/pdfChunker';
+import {
+  isYouTubeWatchPage,
+  getYouTubeVideoId,
+  requestYouTubeTranscript,
+  YOUTUBE_TRANSCRIPT_MESSAGE,
+} from './utils/youtubeVideo';
+import {
+  buildTranscriptChapters,
+  extractTranscriptContentWithIds,
+  extractTranscriptFullText,
+} from './utils/youtubeTranscriptChunker';
+import { translateTranscript } from './utils/youtubeTranscriptTranslator';
+import {
+  showYouTubeCaptionOverlay,
+  hideYouTubeCaptionOverlay,
+  refreshYouTubeCaptionOverlay,
+  type YouTubeCaptionSource,
+} from './utils/youtubeCaptionOverlay';
+import { injectNoteAnchorSpan, removeNoteAnchorSpan, renameNoteAnchorSpan } from './utils/noteAnchorSpan';
+import {
+  createTempId,
+  isTempId,
+  enqueueOutboxOperation,
+  listOutboxEntries,
+  mergeQueuedHighlights,
+  mergeQueuedNotes,
+  getOutboxSyncStatuses,
+  onOutboxEvent,
+  startOutboxSync,
+  retryOutboxItem,
+  discardOutboxItem,
+  isTransientSyncError,
+  type OutboxEvent,
+} from './utils/syncOutbox';
+import {
+  addWordReviewCard,
+  removeWordReviewCard,
+  getDueWordReviewCards,
+  getWordContext,
+} from './utils/wordReviewDeck';
 import { NoteIconLayer } from './components/NoteIconLayer/NoteIconLayer';
 import { NoteEditor } from './components/NoteEditor/NoteEditor';
+import type { NoteReplyThreadProps } from './components/NoteReplyThread/NoteReplyThread';
+import { SharedAnnotationLayer } from './components/SharedAnnotationLayer/SharedAnnotationLayer';
 import noteIconLayerStyles from './styles/noteIconLayer.shadow.css?inline';
 import noteEditorStyles from './styles/noteEditor.shadow.css?inline';
+import noteReplyThreadStyles from './styles/noteReplyThread.shadow.css?inline';
+import authorAvatarStyles from './styles/authorAvatar.shadow.css?inline';
+import sharedAnnotationLayerStyles from './styles/sharedAnnotationLayer.shadow.css?inline';
 import {
   webpageChatPendingAnnotationAtom,
   webpageChatHasConversationAtom,
-  webpageChatShowRefreshWarningAtom,
   webpageChatPendingImageQuestionAtom,
   webpageChatSessionsAtom,
   webpageChatActiveSessionIdAtom,
@@ -148,6 +239,17 @@ import {
   webpageChatAutoSubmitQuestionAtom,
   makeSessionId,
 } from '../store/webpageChatAtoms';
+import { WebpageChatSessionService } from '../api-services/WebpageChatSessionService';
+import type { GetWebpageChatSessionsResponse } from '../api-services/dto/WebpageChatSessionDTO';
+import {
+  getChatSessions,
+  putChatSessions,
+  deleteChatSessions,
+  toPersistedSession,
+  fromPersistedSession,
+  mergeChatSessions,
+} from './utils/chatSessionStore';
+import { hashPageUrl, normalizeUrl } from './utils/urlHasher';
 
 /** Shared prompt used by the FAB Summarise button, Ctrl+M, and the chat panel pill. */
 const SUMMARISE_PAGE_QUESTION = 'Summarise this page';
@@ -177,6 +279,8 @@ const WARNING_TOAST_HOST_ID = 'xplaino-warning-toast-host';
 const FOLDER_LIST_MODAL_HOST_ID = 'xplaino-folder-list-modal-host';
 const WELCOME_MODAL_HOST_ID = 'xplaino-welcome-modal-host';
 const REVIEW_PROMPT_MODAL_HOST_ID = 'xplaino-review-prompt-modal-host';
+const COMMAND_PALETTE_HOST_ID = 'xplaino-command-palette-host';
+const READER_TOOLBAR_HOST_ID = 'xplaino-reader-toolbar-host';
 const YOUTUBE_ASK_AI_BUTTON_HOST_ID = 'xplaino-youtube-ask-ai-button-host';
 
 /**
@@ -211,11 +315,14 @@ let wordAskAICloseHandler: (() => void) | null = null;
 let toastRoot: ReactDOM.Root | null = null;
 let welcomeModalRoot: ReactDOM.Root | null = null;
 let reviewPromptModalRoot: ReactDOM.Root | null = null;
+let commandPaletteRoot: ReactDOM.Root | null = null;
+let readerToolbarRoot: ReactDOM.Root | null = null;
 
 // Modal state
 let modalVisible = false;
 let welcomeModalVisible = false;
 let reviewPromptModalVisible = false;
+let commandPaletteVisible = false;
 
 // Shared state for side panel
 let sidePanelOpen = false;
@@ -303,6 +410,11 @@ const NOTE_ICON_HOST_ID = 'xplaino-note-icon-host';
 const NOTE_EDITOR_HOST_ID = 'xplaino-note-editor-host';
 let noteIconRoot: ReactDOM.Root | null = null;
 let noteEditorRoot: ReactDOM.Root | null = null;
+// Shared annotation layer state (other users' highlights and notes on this page)
+const SHARED_ANNOTATION_HOST_ID = 'xplaino-shared-annotation-host';
+let sharedAnnotationRoot: ReactDOM.Root | null = null;
+/** ID of the shared highlight or note whose card is open */
+let openSharedAnnotationId: string | null = null;
 /** Resolved DOM ranges for notes — stored outside atoms (Range is not serialisable) */
 const noteResolvedRanges = new Map<string, Range>();
 /** State of the currently open note editor, or null if closed */
@@ -339,6 +451,7 @@ ChromeStorage.getPanelWidth().then((w) => {
 let isSummarising = false;
 let canHideFABActions = true;
 let forceShowFABActions = false; // Force-show FAB actions (e.g. from keyboard shortcut)
+let wordReviewDueCount = 0; // Saved words due for review today (FAB badge)
 
 // Text explanation view mode (not stored in atoms as it's UI state)
 let textExplanationViewMode: 'contextual' | 'translation' = 'contextual';
@@ -458,6 +571,12 @@ function setupGlobalAuthListener(): void {
       
       store.set(userAuthInfoAtom, newValue || null);
       console.log('[Content Script] userAuthInfoAtom updated from storage change');
+
+      // Shared annotations belong to the account; reload them on sign-in and sign-out
+      if (!!change.oldValue?.accessToken !== !!newValue?.accessToken) {
+        loadSharedAnnotations();
+        loadPageShares();
+      }
     }
   });
   
@@ -613,7 +732,7 @@ function closeAllSidebars(except?: 'main' | 'text' | 'image' | 'wordAskAI'): voi
 /**
  * Toggle side panel open/closed state
  */
-function setSidePanelOpen(open: boolean, initialTab?: 'summary' | 'chat' | 'settings'): void {
+function setSidePanelOpen(open: boolean, initialTab?: 'summary' | 'chat' | 'settings' | 'review' | 'annotations'): void {
   // If opening side panel, close all other sidebars (parallel animations)
   if (open) {
     closeAllSidebars('main');
@@ -677,18 +796,6 @@ function isYouTubePage(): boolean {
   }
 }
 
-/**
- * Check if current page is a YouTube watch page
- */
-function isYouTubeWatchPage(): boolean {
-  try {
-    const url = window.location.href;
-    return url.includes('youtube.com/watch');
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Check if current page is xplaino.com/getting-started (or www variant)
  * Extension should remain enabled on this page even if xplaino.com is BANNED
@@ -710,9 +817,9 @@ function isXplainoGettingStartedPage(url: string): boolean {
  */
 async function isExtensionAllowed(): Promise<boolean> {
   try {
-    // For YouTube pages, don't allow standard features
-    // YouTube pages will be handled separately
-    if (isYouTubePage()) {
+    // YouTube pages other than a single video don't get standard features;
+    // watch pages work on the video's transcript
+    if (isYouTubePage() && !isYouTubeWatchPage()) {
       console.log('[Content Script] YouTube page detected - standard features disabled');
       return false;
     }
@@ -803,10 +910,35 @@ async function injectFAB(): Promise<void> {
   // Render React component
   fabRoot = ReactDOM.createRoot(mountPoint);
   updateFAB();
+  refreshWordReviewDueCount();
 
   console.log('[Content Script] FAB injected successfully');
 }
 
+/**
+ * Recount the saved words due for review and update the FAB badge.
+ * Runs on injection, whenever any tab changes the deck and when the tab is
+ * shown again (the count grows as the day moves on).
+ */
+function refreshWordReviewDueCount(): void {
+  ChromeStorage.getWordReviewDeck()
+    .then((deck) => {
+      const count = getDueWordReviewCards(deck).length;
+      if (count === wordReviewDueCount) return;
+      wordReviewDueCount = count;
+      updateFAB();
+    })
+    .catch((err) => {
+      console.warn('[Content Script] Failed to count due review words:', err);
+    });
+}
+
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'visible' && fabRoot) {
+    refreshWordReviewDueCount();
+  }
+});
+
 /**
  * Remove FAB from the page
  */
@@ -843,6 +975,29 @@ function handleAskAboutPageClick(): void {
   setSidePanelOpen(true, 'chat');
 }
 
+/**
+ * Append a fresh, empty chat session and make it the active one
+ */
+function openNewChatSession(): void {
+  const newId = makeSessionId();
+  const nextCounter = store.get(webpageChatNextSessionCounterAtom);
+  store.set(webpageChatSessionsAtom, [
+    ...store.get(webpageChatSessionsAtom),
+    {
+      id: newId,
+      name: `Session ${nextCounter}`,
+      messages: [],
+      history: [],
+      citationMap: {},
+      activeCitations: [],
+      pendingAnnotation: null,
+      googleDocsTabScope: 'current',
+      lastUsedAt: Date.now(),
+    },
+  ]);
+  store.set(webpageChatActiveSessionIdAtom, newId);
+}
+
 /**
  * Handle summarise button click — opens the Ask AI chat panel in a fresh session
  * and auto-submits the summarise question through the /answer API.
@@ -857,22 +1012,7 @@ function handleSummariseClick(): void {
   // Reuse the active session if it has no messages yet; otherwise open a new one
   // so the summarise reply doesn't mix with an existing conversation.
   if (!activeSession || activeSession.messages.length > 0) {
-    const newId = makeSessionId();
-    const nextCounter = store.get(webpageChatNextSessionCounterAtom);
-    store.set(webpageChatSessionsAtom, [
-      ...existingSessions,
-      {
-        id: newId,
-        name: `Session ${nextCounter}`,
-        messages: [],
-        history: [],
-        citationMap: {},
-        activeCitations: [],
-        pendingAnnotation: null,
-        googleDocsTabScope: 'current',
-      },
-    ]);
-    store.set(webpageChatActiveSessionIdAtom, newId);
+    openNewChatSession();
   }
 
   // Signal WebpageChatView to auto-submit the summarise question
@@ -1071,6 +1211,8 @@ function updateFAB(): void {
           onToggleView: handleToggleView,
           onClearTranslations: handleClearTranslations,
           onOptions: () => setSidePanelOpen(true, 'settings'),
+          onReviewWords: () => setSidePanelOpen(true, 'review'),
+          onShowAnnotations: () => setSidePanelOpen(true, 'annotations'),
           onSaveUrl: handleFabSaveUrlClick,
           onFeatureRequest: () => store.set(showFeatureRequestModalAtom, true),
           isSummarising: isSummarising,
@@ -1085,6 +1227,7 @@ function updateFAB(): void {
           isBookmarked: isBookmarked,
           forceShowActions: forceShowFABActions,
           showWelcomeGlow: welcomeModalVisible,
+          reviewDueCount: wordReviewDueCount,
         })
       )
     );
@@ -1094,7 +1237,7 @@ function updateFAB(): void {
 /**
  * Update side panel state
  */
-function updateSidePanel(initialTab?: 'summary' | 'chat' | 'settings'): void {
+function updateSidePanel(initialTab?: 'summary' | 'chat' | 'settings' | 'review' | 'annotations'): void {
   if (sidePanelRoot) {
     // Handler for bookmark click from SidePanel
     const handleSidePanelBookmark = async () => {
@@ -1195,6 +1338,11 @@ function updateSidePanel(initialTab?: 'summary' | 'chat' | 'settings'): void {
           onShowBookmarkToast: showBookmarkToast,
           onBookmark: handleSidePanelBookmark,
           initialSavedLinkId: sidePanelSavedLinkId,
+          onReattachOrphan: handleReattachOrphan,
+          onDiscardOrphan: handleDiscardOrphan,
+          pdfAnnotationActions: getPdfAnnotationActions(),
+          youtubeCaptionActions: getYouTubeCaptionActions(),
+          annotationActions: getAnnotationActions(),
         })
       )
     );
@@ -1258,6 +1406,11 @@ async function injectSidePanel(): Promise<void> {
         initialTab: 'summary',
         onShowToast: showToast,
         onShowBookmarkToast: showBookmarkToast,
+        onReattachOrphan: handleReattachOrphan,
+        onDiscardOrphan: handleDiscardOrphan,
+        pdfAnnotationActions: getPdfAnnotationActions(),
+        youtubeCaptionActions: getYouTubeCaptionActions(),
+        annotationActions: getAnnotationActions(),
       })
     )
   );
@@ -1675,8 +1828,8 @@ async function handleWordExplain(
     // Increment API counter for review prompt tracking
     incrementApiCounterAndCheckReview();
 
-    // Call words_explanation_v2 API
-    await WordsExplanationV2Service.explainWord(
+    // Call words_explanation_v2 API (or the on-device model, see AIProvider)
+    await explainWordWithFallback(
       word,
       contextText, // Pass surrounding context instead of empty string
       languageCode,
@@ -1687,10 +1840,9 @@ async function handleWordExplain(
 
           console.log('[Content Script] Word explanation event:', wordInfo);
 
-          // Parse raw_response to get meaning and examples
-          const { meaning, examples } = WordsExplanationV2Service.parseRawResponse(
-            wordInfo.raw_response
-          );
+          // Meaning and examples are parsed from raw_response by the service
+          const meaning = wordInfo.meaning ?? '';
+          const examples = wordInfo.examples ?? [];
 
           // Format content as markdown (without word, as it's now in the header)
           let formattedContent = meaning;
@@ -4092,8 +4244,8 @@ async function handleGetContextualMeaning(wordId: string): Promise<void> {
   // Increment API counter for review prompt tracking
   incrementApiCounterAndCheckReview();
 
-  // Call words_explanation_v2 API
-  await WordsExplanationV2Service.explainWord(
+  // Call words_explanation_v2 API (or the on-device model, see AIProvider)
+  await explainWordWithFallback(
     wordAtomState.word,
     contextText, // Pass surrounding context instead of empty string
     languageCodeForWord,
@@ -4104,10 +4256,9 @@ async function handleGetContextualMeaning(wordId: string): Promise<void> {
 
         console.log('[Content Script] Word explanation event:', wordInfo);
 
-        // Parse raw_response to get meaning and examples
-        const { meaning, examples } = WordsExplanationV2Service.parseRawResponse(
-          wordInfo.raw_response
-        );
+        // Meaning and examples are parsed from raw_response by the service
+        const meaning = wordInfo.meaning ?? '';
+        const examples = wordInfo.examples ?? [];
 
         // Format content as markdown
         let formattedContent = meaning;
@@ -5646,7 +5797,7 @@ function updateTextExplanationPanel(): void {
       incrementApiCounterAndCheckReview();
 
       try {
-        await SimplifyService.simplify(
+        await simplifyWithFallback(
           [
             {
               textStartIndex,
@@ -8116,6 +8267,9 @@ async function handleWordBookmarkClick(wordId: string): Promise<void> {
       {
         onSuccess: async () => {
           console.log('[Content Script] Word removed from saved list successfully');
+          removeWordReviewCard(atomState.savedWordId!).catch((err) => {
+            console.warn('[Content Script] Failed to drop review card:', err);
+          });
           const updated = new Map(store.get(wordExplanationsAtom));
           const currentState = updated.get(wordId);
           if (currentState) {
@@ -8986,10 +9140,18 @@ async function handleModalDontShowAgain(): Promise<void> {
 // WEB HIGHLIGHT FEATURE
 // =============================================================================
 
+/**
+ * Page URL highlights and notes are saved under. PDFs drop the `#page=N`
+ * fragment the viewer adds to the address bar.
+ */
+function getAnnotationPageUrl(): string {
+  return isPdfDocument() ? getPdfDocumentUrl() : window.location.href;
+}
+
 /**
  * Handle the "Highlight" button click from ContentActionsTrigger.
- * Builds a multi-strategy anchor from the current Range, sends it to the
- * backend, and immediately applies the visual highlight on success.
+ * Builds a multi-strategy anchor from the current Range, applies the visual
+ * highlight right away under a temporary ID and queues the create in the sync outbox.
  */
 async function handleHighlightClick(selectedText: string, range?: Range, hexcode?: string): Promise<void> {
   console.log('[Content Script] ===== Highlight clicked =====');
@@ -9024,54 +9186,47 @@ async function handleHighlightClick(selectedText: string, range?: Range, hexcode
   // Increment API counter for review prompt + feedback tracking
   incrementApiCounterAndCheckReview();
 
-  WebHighlightService.createHighlight(
-    {
-      pageUrl: window.location.href,
+  const tempId = createTempId();
+  const markElements = await applyHighlight(range, tempId, effectiveHexcode);
+  if (markElements.length === 0) {
+    console.warn('[Content Script] Could not apply highlight to DOM');
+  }
+
+  const newHighlights = new Map(store.get(webHighlightsAtom));
+  newHighlights.set(tempId, {
+    id: tempId,
+    selectedText: text,
+    anchor,
+    color: effectiveHexcode ?? null,
+    wrapperElements: markElements,
+    syncStatus: 'pending',
+  } satisfies WebHighlightState);
+  store.set(webHighlightsAtom, newHighlights);
+
+  showToast(navigator.onLine ? 'Highlight saved!' : 'Highlight saved offline, it will sync when you reconnect', 'success');
+  window.getSelection()?.removeAllRanges();
+
+  await enqueueOutboxOperation({
+    type: 'createHighlight',
+    tempId,
+    request: {
+      pageUrl: getAnnotationPageUrl(),
       selectedText: text,
       anchor,
       ...(effectiveHexcode ? { color: effectiveHexcode } : {}),
     },
-    {
-      onSuccess: async (response) => {
-        const highlight = response.highlight;
-        console.log('[Content Script] Highlight saved with id:', highlight.id);
-
-        const markElements = await applyHighlight(range, highlight.id, highlight.color);
-        if (markElements.length === 0) {
-          console.warn('[Content Script] Highlight saved but could not apply to DOM');
-        }
-
-        const newHighlights = new Map(store.get(webHighlightsAtom));
-        newHighlights.set(highlight.id, {
-          id: highlight.id,
-          selectedText: highlight.selectedText,
-          anchor: highlight.anchor,
-          color: highlight.color,
-          wrapperElements: markElements,
-        } satisfies WebHighlightState);
-        store.set(webHighlightsAtom, newHighlights);
-
-        showToast('Highlight saved!', 'success');
-        window.getSelection()?.removeAllRanges();
-      },
-      onError: (errorCode, errorMessage) => {
-        console.error('[Content Script] Highlight save failed:', errorCode, errorMessage);
-        showToast('Failed to save highlight', 'error');
-      },
-      onLoginRequired: () => {
-        ApiErrorHandler.triggerLoginRequired();
-      },
-    }
-  );
+  });
 }
 
 /**
  * Sets up a debounced MutationObserver that calls `retryFn` whenever new DOM
  * nodes appear. Disconnects once `retryFn` returns true (all items resolved)
- * or after `timeoutMs` milliseconds (default 10 s).
+ * or after `timeoutMs` milliseconds (default 10 s), calling `onGiveUp` if
+ * items are still unresolved at that point.
  */
 function retryUnresolvedWithObserver(
   retryFn: () => Promise<boolean>,
+  onGiveUp?: () => void,
   timeoutMs = 10_000
 ): void {
   let debounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -9089,7 +9244,11 @@ function retryUnresolvedWithObserver(
 
   observer.observe(document.body, { childList: true, subtree: true });
 
-  const killTimer = setTimeout(() => observer.disconnect(), timeoutMs);
+  const killTimer = setTimeout(() => {
+    observer.disconnect();
+    if (debounceTimer) clearTimeout(debounceTimer);
+    onGiveUp?.();
+  }, timeoutMs);
 }
 
 /**
@@ -9097,84 +9256,175 @@ function retryUnresolvedWithObserver(
  * Runs non-blocking after the rest of the UI is initialised.
  */
 async function loadWebHighlights(): Promise<void> {
-  console.log('[Content Script] Loading web highlights for:', window.location.href);
+  const pageUrl = getAnnotationPageUrl();
+  console.log('[Content Script] Loading web highlights for:', pageUrl);
 
   WebHighlightService.getHighlights(
-    window.location.href,
+    pageUrl,
     {
       onSuccess: async (response) => {
-        console.log('[Content Script] Loaded', response.highlights.length, 'highlights');
-        const newHighlights = new Map<string, WebHighlightState>();
-        const unresolved: typeof response.highlights = [];
+        applyLoadedHighlights(mergeQueuedHighlights(response.highlights, await listOutboxEntries(), pageUrl));
+      },
+      onError: async (errorCode, errorMessage) => {
+        // Non-critical — log and continue with only the highlights still waiting to sync
+        console.warn('[Content Script] Could not load highlights:', errorCode, errorMessage);
+        applyLoadedHighlights(mergeQueuedHighlights([], await listOutboxEntries(), pageUrl));
+      },
+    }
+  );
+}
 
-        for (const highlight of response.highlights) {
-          try {
-            const range = resolveAnchor(highlight.anchor);
-            if (!range) {
-              console.warn('[Content Script] Could not locate highlight in DOM, will retry:', highlight.id);
-              unresolved.push(highlight);
-              continue;
-            }
+/**
+ * Apply loaded highlights to the DOM, retrying ones whose anchor is not rendered yet.
+ */
+async function applyLoadedHighlights(highlights: WebHighlightResponse[]): Promise<void> {
+  console.log('[Content Script] Loaded', highlights.length, 'highlights');
+  const newHighlights = new Map<string, WebHighlightState>();
+  const unresolved: typeof highlights = [];
 
-            const markElements = await applyHighlight(range, highlight.id, highlight.color);
-            if (markElements.length === 0) {
-              console.warn('[Content Script] Highlight resolved but apply produced no marks, will retry:', highlight.id);
-              unresolved.push(highlight);
-              continue;
-            }
+  for (const highlight of highlights) {
+    // PDF anchors have no DOM to resolve; the side panel lists them by page
+    if (highlight.anchor.pageNumber) {
+      newHighlights.set(highlight.id, {
+        id: highlight.id,
+        selectedText: highlight.selectedText,
+        anchor: highlight.anchor,
+        color: highlight.color,
+        wrapperElements: [],
+      } satisfies WebHighlightState);
+      continue;
+    }
 
-            newHighlights.set(highlight.id, {
-              id: highlight.id,
-              selectedText: highlight.selectedText,
-              anchor: highlight.anchor,
-              color: highlight.color,
-              wrapperElements: markElements,
-            } satisfies WebHighlightState);
-          } catch (err) {
-            console.warn('[Content Script] Error applying highlight, skipping:', highlight.id, err);
-          }
-        }
+    try {
+      const range = resolveAnchor(highlight.anchor);
+      if (!range) {
+        console.warn('[Content Script] Could not locate highlight in DOM, will retry:', highlight.id);
+        unresolved.push(highlight);
+        continue;
+      }
 
-        store.set(webHighlightsAtom, newHighlights);
+      const markElements = await applyHighlight(range, highlight.id, highlight.color);
+      if (markElements.length === 0) {
+        console.warn('[Content Script] Highlight resolved but apply produced no marks, will retry:', highlight.id);
+        unresolved.push(highlight);
+        continue;
+      }
 
-        if (unresolved.length > 0) {
-          console.log('[Content Script] Retrying', unresolved.length, 'unresolved highlights via MutationObserver');
-          const remaining = [...unresolved];
-          retryUnresolvedWithObserver(async () => {
-            const stillUnresolved: typeof remaining = [];
-            for (const highlight of remaining.splice(0)) {
-              try {
-                const range = resolveAnchor(highlight.anchor);
-                if (!range) { stillUnresolved.push(highlight); continue; }
-                const markElements = await applyHighlight(range, highlight.id, highlight.color);
-                if (markElements.length === 0) { stillUnresolved.push(highlight); continue; }
-                const updated = new Map(store.get(webHighlightsAtom));
-                updated.set(highlight.id, {
-                  id: highlight.id,
-                  selectedText: highlight.selectedText,
-                  anchor: highlight.anchor,
-                  color: highlight.color,
-                  wrapperElements: markElements,
-                } satisfies WebHighlightState);
-                store.set(webHighlightsAtom, updated);
-                console.log('[Content Script] Retry resolved highlight:', highlight.id);
-              } catch (err) {
-                stillUnresolved.push(highlight);
-              }
-            }
-            remaining.push(...stillUnresolved);
-            return remaining.length === 0;
-          });
+      newHighlights.set(highlight.id, {
+        id: highlight.id,
+        selectedText: highlight.selectedText,
+        anchor: highlight.anchor,
+        color: highlight.color,
+        wrapperElements: markElements,
+      } satisfies WebHighlightState);
+    } catch (err) {
+      console.warn('[Content Script] Error applying highlight, skipping:', highlight.id, err);
+    }
+  }
+
+  store.set(webHighlightsAtom, newHighlights);
+  refreshSyncStatuses();
+
+  if (unresolved.length > 0) {
+    console.log('[Content Script] Retrying', unresolved.length, 'unresolved highlights via MutationObserver');
+    const remaining = [...unresolved];
+    retryUnresolvedWithObserver(async () => {
+      const stillUnresolved: typeof remaining = [];
+      for (const highlight of remaining.splice(0)) {
+        try {
+          const range = resolveAnchor(highlight.anchor);
+          if (!range) { stillUnresolved.push(highlight); continue; }
+          const markElements = await applyHighlight(range, highlight.id, highlight.color);
+          if (markElements.length === 0) { stillUnresolved.push(highlight); continue; }
+          const updated = new Map(store.get(webHighlightsAtom));
+          updated.set(highlight.id, {
+            id: highlight.id,
+            selectedText: highlight.selectedText,
+            anchor: highlight.anchor,
+            color: highlight.color,
+            wrapperElements: markElements,
+          } satisfies WebHighlightState);
+          store.set(webHighlightsAtom, updated);
+          refreshSyncStatuses();
+          console.log('[Content Script] Retry resolved highlight:', highlight.id);
+        } catch (err) {
+          stillUnresolved.push(highlight);
         }
+      }
+      remaining.push(...stillUnresolved);
+      return remaining.length === 0;
+    }, () => addOrphanedAnnotations(remaining.map((highlight) => ({
+      kind: 'highlight',
+      id: highlight.id,
+      selectedText: highlight.selectedText,
+      anchor: highlight.anchor,
+      color: highlight.color,
+    }))));
+  }
+}
+
+/**
+ * Fetch the paragraphs bookmarked on this page and restore their underline
+ * and icon. Bookmarks saved without an anchor can't be placed and are skipped.
+ * Runs non-blocking after the rest of the UI is initialised.
+ */
+async function loadSavedParagraphs(): Promise<void> {
+  if (isPdfDocument()) return;
+  // Bookmarks are only kept for signed-in users. An expired access token still
+  // counts: the request refreshes it
+  const authInfo = await ChromeStorage.getAuthInfo();
+  if (!authInfo?.isLoggedIn) return;
+  const sourceUrl = window.location.href;
+  console.log('[Content Script] Loading saved paragraphs for:', sourceUrl);
+
+  SavedParagraphService.getSavedParagraphsBySourceUrl(
+    sourceUrl,
+    {
+      onSuccess: (response) => {
+        applyLoadedSavedParagraphs(response.paragraphs);
       },
       onError: (errorCode, errorMessage) => {
-        // Non-critical — log and continue without highlights
-        console.warn('[Content Script] Could not load highlights:', errorCode, errorMessage);
+        // Non-critical — bookmarks just aren't marked on the page
+        console.warn('[Content Script] Could not load saved paragraphs:', errorCode, errorMessage);
       },
     }
   );
 }
 
+/**
+ * Mark loaded bookmarks on the page, retrying ones whose anchor is not rendered yet.
+ */
+async function applyLoadedSavedParagraphs(paragraphs: SavedParagraphResponse[]): Promise<void> {
+  const shown = new Set([...savedParagraphs.values()].map((state) => state.paragraphId));
+  const pending = paragraphs.filter(
+    (paragraph): paragraph is SavedParagraphResponse & { anchor: AnchorData } =>
+      !!paragraph.anchor && !shown.has(paragraph.id)
+  );
+  console.log('[Content Script] Loaded', paragraphs.length, 'saved paragraphs,', pending.length, 'to restore');
+
+  const restore = async (): Promise<boolean> => {
+    for (const paragraph of pending.splice(0)) {
+      const range = resolveAnchor(paragraph.anchor);
+      if (!range) {
+        pending.push(paragraph);
+        continue;
+      }
+      try {
+        await addSavedParagraphIcons(paragraph.id, paragraph.content, range, false);
+      } catch (err) {
+        console.warn('[Content Script] Error restoring saved paragraph, skipping:', paragraph.id, err);
+      }
+    }
+    return pending.length === 0;
+  };
+
+  if (await restore()) return;
+  console.log('[Content Script] Retrying', pending.length, 'unresolved saved paragraphs via MutationObserver');
+  retryUnresolvedWithObserver(restore, () => {
+    console.warn('[Content Script] Could not locate', pending.length, 'saved paragraphs on the page');
+  });
+}
+
 /**
  * Fetch available highlight colours and restore the user's previous choice.
  * Runs concurrently with other init tasks — failures are non-fatal.
@@ -9200,7 +9450,8 @@ async function loadHighlightColours(): Promise<void> {
 }
 
 /**
- * Delete a saved highlight: remove from backend then from DOM and atom state.
+ * Delete a saved highlight: remove it from the DOM and atom state right away
+ * and queue the backend delete in the sync outbox.
  */
 async function handleHighlightRemove(highlightId: string): Promise<void> {
   console.log('[Content Script] Removing highlight:', highlightId);
@@ -9209,24 +9460,15 @@ async function handleHighlightRemove(highlightId: string): Promise<void> {
   hoveredHighlightId = null;
   updateHighlightDot();
 
-  WebHighlightService.deleteHighlight(highlightId, {
-    onSuccess: () => {
-      removeHighlight(highlightId);
+  removeHighlight(highlightId);
 
-      const newHighlights = new Map(store.get(webHighlightsAtom));
-      newHighlights.delete(highlightId);
-      store.set(webHighlightsAtom, newHighlights);
+  const newHighlights = new Map(store.get(webHighlightsAtom));
+  newHighlights.delete(highlightId);
+  store.set(webHighlightsAtom, newHighlights);
 
-      showToast('Highlight removed', 'success');
-    },
-    onError: (errorCode, errorMessage) => {
-      console.error('[Content Script] Highlight delete failed:', errorCode, errorMessage);
-      showToast('Failed to remove highlight', 'error');
-    },
-    onLoginRequired: () => {
-      ApiErrorHandler.triggerLoginRequired();
-    },
-  });
+  showToast('Highlight removed', 'success');
+
+  await enqueueOutboxOperation({ type: 'deleteHighlight', highlightId, pageUrl: getAnnotationPageUrl() });
 }
 
 // =============================================================================
@@ -9238,81 +9480,110 @@ async function handleHighlightRemove(highlightId: string): Promise<void> {
  * Runs non-blocking after the rest of the UI is initialised.
  */
 async function loadWebNotes(): Promise<void> {
-  console.log('[Content Script] Loading web notes for:', window.location.href);
+  const pageUrl = getAnnotationPageUrl();
+  console.log('[Content Script] Loading web notes for:', pageUrl);
 
   WebNoteService.getWebNotes(
-    window.location.href,
+    pageUrl,
     {
       onSuccess: async (response) => {
-        console.log('[Content Script] Loaded', response.notes.length, 'notes');
-        const newNotes = new Map<string, WebNoteState>();
-        const unresolved: typeof response.notes = [];
-
-        for (const note of response.notes) {
-          try {
-            const range = resolveAnchor(note.anchor);
-            if (!range) {
-              console.warn('[Content Script] Could not locate note anchor in DOM, will retry:', note.id);
-              unresolved.push(note);
-              continue;
-            }
-
-            noteResolvedRanges.set(note.id, range);
-            const anchorSpan = injectNoteAnchorSpan(range, note.id);
-
-            newNotes.set(note.id, {
-              id: note.id,
-              selectedText: note.selectedText,
-              anchor: note.anchor,
-              content: note.content,
-              anchorSpan,
-            } satisfies WebNoteState);
-          } catch (err) {
-            console.warn('[Content Script] Error restoring note, skipping:', note.id, err);
-          }
-        }
-
-        store.set(webNotesAtom, newNotes);
-        updateNoteIconLayer();
-
-        if (unresolved.length > 0) {
-          console.log('[Content Script] Retrying', unresolved.length, 'unresolved notes via MutationObserver');
-          const remaining = [...unresolved];
-          retryUnresolvedWithObserver(async () => {
-            const stillUnresolved: typeof remaining = [];
-            for (const note of remaining.splice(0)) {
-              try {
-                const range = resolveAnchor(note.anchor);
-                if (!range) { stillUnresolved.push(note); continue; }
-                noteResolvedRanges.set(note.id, range);
-                const anchorSpan = injectNoteAnchorSpan(range, note.id);
-                const updated = new Map(store.get(webNotesAtom));
-                updated.set(note.id, {
-                  id: note.id,
-                  selectedText: note.selectedText,
-                  anchor: note.anchor,
-                  content: note.content,
-                  anchorSpan,
-                } satisfies WebNoteState);
-                store.set(webNotesAtom, updated);
-                updateNoteIconLayer();
-                console.log('[Content Script] Retry resolved note:', note.id);
-              } catch (err) {
-                stillUnresolved.push(note);
-              }
-            }
-            remaining.push(...stillUnresolved);
-            return remaining.length === 0;
-          });
-        }
+        applyLoadedNotes(mergeQueuedNotes(response.notes, await listOutboxEntries(), pageUrl));
       },
-      onError: (errorCode, errorMessage) => {
+      onError: async (errorCode, errorMessage) => {
         console.warn('[Content Script] Could not load notes:', errorCode, errorMessage);
+        applyLoadedNotes(mergeQueuedNotes([], await listOutboxEntries(), pageUrl));
       },
     }
   );
 }
 
+/**
+ * Inject anchor spans for loaded notes, retrying ones whose anchor is not rendered yet.
+ */
+async function applyLoadedNotes(notes: WebNoteResponse[]): Promise<void> {
+  console.log('[Content Script] Loaded', notes.length, 'notes');
+  const newNotes = new Map<string, WebNoteState>();
+  const unresolved: typeof notes = [];
+
+  for (const note of notes) {
+    // PDF anchors have no DOM to resolve; the side panel lists them by page
+    if (note.anchor.pageNumber) {
+      newNotes.set(note.id, {
+        id: note.id,
+        selectedText: note.selectedText,
+        anchor: note.anchor,
+        content: note.content,
+        anchorSpan: null,
+      } satisfies WebNoteState);
+      continue;
+    }
+
+    try {
+      const range = resolveAnchor(note.anchor);
+      if (!range) {
+        console.warn('[Content Script] Could not locate note anchor in DOM, will retry:', note.id);
+        unresolved.push(note);
+        continue;
+      }
+
+      noteResolvedRanges.set(note.id, range);
+      const anchorSpan = injectNoteAnchorSpan(range, note.id);
+
+      newNotes.set(note.id, {
+        id: note.id,
+        selectedText: note.selectedText,
+        anchor: note.anchor,
+        content: note.content,
+        anchorSpan,
+      } satisfies WebNoteState);
+    } catch (err) {
+      console.warn('[Content Script] Error restoring note, skipping:', note.id, err);
+    }
+  }
+
+  store.set(webNotesAtom, newNotes);
+  updateNoteIconLayer();
+  refreshSyncStatuses();
+
+  if (unresolved.length > 0) {
+    console.log('[Content Script] Retrying', unresolved.length, 'unresolved notes via MutationObserver');
+    const remaining = [...unresolved];
+    retryUnresolvedWithObserver(async () => {
+      const stillUnresolved: typeof remaining = [];
+      for (const note of remaining.splice(0)) {
+        try {
+          const range = resolveAnchor(note.anchor);
+          if (!range) { stillUnresolved.push(note); continue; }
+          noteResolvedRanges.set(note.id, range);
+          const anchorSpan = injectNoteAnchorSpan(range, note.id);
+          const updated = new Map(store.get(webNotesAtom));
+          updated.set(note.id, {
+            id: note.id,
+            selectedText: note.selectedText,
+            anchor: note.anchor,
+            content: note.content,
+            anchorSpan,
+          } satisfies WebNoteState);
+          store.set(webNotesAtom, updated);
+          updateNoteIconLayer();
+          refreshSyncStatuses();
+          console.log('[Content Script] Retry resolved note:', note.id);
+        } catch (err) {
+          stillUnresolved.push(note);
+        }
+      }
+      remaining.push(...stillUnresolved);
+      return remaining.length === 0;
+    }, () => addOrphanedAnnotations(remaining.map((note) => ({
+      kind: 'note',
+      id: note.id,
+      selectedText: note.selectedText,
+      anchor: note.anchor,
+      content: note.content,
+    }))));
+  }
+}
+
 /**
  * Inject the note icon layer shadow host (once).
  */
@@ -9346,6 +9617,8 @@ async function injectNoteEditor(): Promise<void> {
   const colorVariables = await getAllColorVariables();
   injectStyles(shadow, colorVariables, true);
   injectStyles(shadow, noteEditorStyles);
+  injectStyles(shadow, authorAvatarStyles);
+  injectStyles(shadow, noteReplyThreadStyles);
 
   document.documentElement.appendChild(host);
   noteEditorRoot = ReactDOM.createRoot(mountPoint);
@@ -9388,6 +9661,7 @@ function updateNoteIconLayer(): void {
           handleNoteHover(noteId, noteIconPositions[noteId]),
         onLeave: () => handleNoteLeave(),
         onClick: (noteId, anchorRect) => handleNoteIconClick(noteId, anchorRect),
+        onRetrySync: (noteId) => retryOutboxItem(noteId),
       })
     )
   );
@@ -9412,6 +9686,11 @@ function updateNoteEditor(): void {
         mode: noteEditorOpenState.mode,
         noteId: noteEditorOpenState.noteId,
         initialContent: noteEditorOpenState.initialContent ?? '',
+        selectedText:
+          noteEditorOpenState.pendingSelectedText ??
+          (noteEditorOpenState.noteId
+            ? store.get(webNotesAtom).get(noteEditorOpenState.noteId)?.selectedText
+            : undefined),
         position: noteEditorOpenState.position,
         onSave: (content) => handleNoteSave(content),
         onUpdate: (noteId, content) => handleNoteUpdate(noteId, content),
@@ -9419,11 +9698,29 @@ function updateNoteEditor(): void {
         onClose: () => closeNoteEditor(),
         onMouseEnter: () => cancelNoteLeaveTimer(),
         onMouseLeave: () => scheduleNoteEditorHide(),
+        replyThread: getNoteReplyThreadProps(noteEditorOpenState),
       })
     )
   );
 }
 
+/**
+ * Reply thread for the note open in the editor. Only synced notes of signed-in
+ * users have replies; the first render starts loading them.
+ */
+function getNoteReplyThreadProps(state: NoteEditorOpenState): NoteReplyThreadProps | undefined {
+  const noteId = state.noteId;
+  if (state.mode !== 'edit' || !noteId || isTempId(noteId) || !store.get(isUserLoggedInAtom)) return undefined;
+  const replies = store.get(noteRepliesAtom).get(noteId) ?? null;
+  if (!replies) loadNoteReplies(noteId);
+  return {
+    replies,
+    currentUserId: store.get(userAuthInfoAtom)?.user?.id ?? null,
+    onReply: (content: string, parentReplyId?: string) => replyToNote(noteId, content, parentReplyId),
+    onDelete: (replyId: string) => deleteNoteReply(noteId, replyId),
+  };
+}
+
 /**
  * Open the note editor in create mode for a new selection.
  */
@@ -9452,6 +9749,7 @@ function handleNoteCreate(selectedText: string, range?: Range): void {
 
 /**
  * Called by NoteEditor when the user saves a new note.
+ * The note appears immediately under a temporary ID; the create is queued in the sync outbox.
  */
 function handleNoteSave(content: string): void {
   const state = noteEditorOpenState;
@@ -9464,135 +9762,84 @@ function handleNoteSave(content: string): void {
   // Increment API counter for review prompt + feedback tracking
   incrementApiCounterAndCheckReview();
 
-  WebNoteService.createNote(
-    {
-      pageUrl: window.location.href,
+  const tempId = createTempId();
+  const anchorSpan = injectNoteAnchorSpan(range, tempId);
+  noteResolvedRanges.set(tempId, range);
+
+  const newNotes = new Map(store.get(webNotesAtom));
+  newNotes.set(tempId, {
+    id: tempId,
+    selectedText,
+    anchor,
+    content,
+    anchorSpan,
+    syncStatus: 'pending',
+  } satisfies WebNoteState);
+  store.set(webNotesAtom, newNotes);
+
+  showToast(navigator.onLine ? 'Note saved!' : 'Note saved offline, it will sync when you reconnect', 'success');
+  window.getSelection()?.removeAllRanges();
+  closeNoteEditor();
+  updateNoteIconLayer();
+
+  enqueueOutboxOperation({
+    type: 'createNote',
+    tempId,
+    request: {
+      pageUrl: getAnnotationPageUrl(),
       selectedText,
       anchor,
       content,
     },
-    {
-      onSuccess: (response) => {
-        const note = response.note;
-        if (!note) {
-          // Unauthenticated — soft failure
-          showToast('Please log in to save notes', 'error');
-          closeNoteEditor();
-          return;
-        }
-
-        const anchorSpan = injectNoteAnchorSpan(range, note.id);
-        noteResolvedRanges.set(note.id, range);
-
-        const newNotes = new Map(store.get(webNotesAtom));
-        newNotes.set(note.id, {
-          id: note.id,
-          selectedText: note.selectedText,
-          anchor: note.anchor,
-          content: note.content,
-          anchorSpan,
-        } satisfies WebNoteState);
-        store.set(webNotesAtom, newNotes);
-
-        showToast('Note saved!', 'success');
-        window.getSelection()?.removeAllRanges();
-        closeNoteEditor();
-        updateNoteIconLayer();
-      },
-      onError: (errorCode, errorMessage) => {
-        console.error('[Content Script] Note save failed:', errorCode, errorMessage);
-        showToast('Failed to save note', 'error');
-      },
-      onLoginRequired: () => {
-        ApiErrorHandler.triggerLoginRequired();
-      },
-    }
-  );
+  });
 }
 
 /**
  * Called by NoteEditor when the user updates an existing note.
  */
 function handleNoteUpdate(noteId: string, content: string): void {
-  WebNoteService.updateNote(
-    noteId,
-    content,
-    {
-      onSuccess: (response) => {
-        const note = response.note;
-        if (!note) {
-          showToast('Note not found', 'error');
-          return;
-        }
+  const newNotes = new Map(store.get(webNotesAtom));
+  const existing = newNotes.get(noteId);
+  if (existing) {
+    newNotes.set(noteId, { ...existing, content, syncStatus: 'pending' });
+    store.set(webNotesAtom, newNotes);
+  }
 
-        const newNotes = new Map(store.get(webNotesAtom));
-        const existing = newNotes.get(noteId);
-        if (existing) {
-          newNotes.set(noteId, { ...existing, content: note.content });
-          store.set(webNotesAtom, newNotes);
-        }
+  showToast('Note updated!', 'success');
+  closeNoteEditor();
+  updateNoteIconLayer();
 
-        showToast('Note updated!', 'success');
-        closeNoteEditor();
-        updateNoteIconLayer();
-      },
-      onError: (errorCode, errorMessage) => {
-        console.error('[Content Script] Note update failed:', errorCode, errorMessage);
-        if (errorCode === 'HTTP_404') {
-          showToast('Note no longer exists', 'error');
-          // Clean up locally
-          const newNotes = new Map(store.get(webNotesAtom));
-          newNotes.delete(noteId);
-          store.set(webNotesAtom, newNotes);
-          removeNoteAnchorSpan(noteId);
-          noteResolvedRanges.delete(noteId);
-          closeNoteEditor();
-          updateNoteIconLayer();
-        } else {
-          showToast('Failed to update note', 'error');
-        }
-      },
-      onLoginRequired: () => {
-        ApiErrorHandler.triggerLoginRequired();
-      },
-    }
-  );
+  enqueueOutboxOperation({ type: 'updateNote', noteId, content, pageUrl: getAnnotationPageUrl() });
 }
 
 /**
  * Called by NoteEditor when the user deletes a note.
  */
 function handleNoteDelete(noteId: string): void {
-  WebNoteService.deleteNote(
-    noteId,
-    {
-      onSuccess: () => {
-        removeNoteAnchorSpan(noteId);
-        noteResolvedRanges.delete(noteId);
+  removeNoteLocally(noteId);
+  showToast('Note deleted', 'success');
+  closeNoteEditor();
+  updateNoteIconLayer();
 
-        const tempId = noteTempHighlightIds.get(noteId);
-        if (tempId) {
-          removeHighlight(tempId);
-          noteTempHighlightIds.delete(noteId);
-        }
+  enqueueOutboxOperation({ type: 'deleteNote', noteId, pageUrl: getAnnotationPageUrl() });
+}
 
-        const newNotes = new Map(store.get(webNotesAtom));
-        newNotes.delete(noteId);
-        store.set(webNotesAtom, newNotes);
+/**
+ * Remove a note's anchor span, hover highlight and atom entry.
+ */
+function removeNoteLocally(noteId: string): void {
+  removeNoteAnchorSpan(noteId);
+  noteResolvedRanges.delete(noteId);
 
-        showToast('Note deleted', 'success');
-        closeNoteEditor();
-        updateNoteIconLayer();
-      },
-      onError: (errorCode, errorMessage) => {
-        console.error('[Content Script] Note delete failed:', errorCode, errorMessage);
-        showToast('Failed to delete note', 'error');
-      },
-      onLoginRequired: () => {
-        ApiErrorHandler.triggerLoginRequired();
-      },
-    }
-  );
+  const tempId = noteTempHighlightIds.get(noteId);
+  if (tempId) {
+    removeHighlight(tempId);
+    noteTempHighlightIds.delete(noteId);
+  }
+
+  const newNotes = new Map(store.get(webNotesAtom));
+  newNotes.delete(noteId);
+  store.set(webNotesAtom, newNotes);
 }
 
 /**
@@ -9865,6 +10112,12 @@ function updateHighlightDot(): void {
       React.createElement(HighlightDotMenu, {
         position,
         isMenuOpen: menuOpenHighlightId === id,
+        syncStatus: store.get(webHighlightsAtom).get(id)?.syncStatus,
+        onRetrySync: () => {
+          menuOpenHighlightId = null;
+          updateHighlightDot();
+          retryOutboxItem(id);
+        },
         onDotClick: () => {
           menuOpenHighlightId = menuOpenHighlightId === id ? null : id;
           updateHighlightDot();
@@ -9975,49 +10228,418 @@ function setupHighlightHoverListener(): void {
 }
 
 // =============================================================================
-// TOAST INJECTION
+// SYNC OUTBOX
 // =============================================================================
 
 /**
- * Show a toast message
+ * Copy the outbox sync state onto highlights and notes, then re-render their indicators.
  */
-function showToast(message: string, type: 'success' | 'error' = 'success'): void {
-  console.log('[Content Script] Showing toast:', message, type);
-  
-  // Clear any existing timeout
-  if (toastTimeoutId) {
-    clearTimeout(toastTimeoutId);
-    toastTimeoutId = null;
+async function refreshSyncStatuses(): Promise<void> {
+  const statuses = await getOutboxSyncStatuses();
+
+  const highlights = store.get(webHighlightsAtom);
+  if (Array.from(highlights.values()).some((h) => h.syncStatus !== statuses.get(h.id))) {
+    const updated = new Map(highlights);
+    updated.forEach((h, id) => updated.set(id, { ...h, syncStatus: statuses.get(id) }));
+    store.set(webHighlightsAtom, updated);
   }
-  
-  toastMessage = message;
-  toastType = type;
-  toastClosing = false;
-  injectToast();
-  updateToast();
-  
-  // Auto-hide after 3 seconds with slide-out animation
-  toastTimeoutId = setTimeout(() => {
-    // Trigger slide-out animation
-    toastClosing = true;
-    updateToast();
-    
-    // Wait for animation to complete (300ms) before clearing
-    setTimeout(() => {
-      toastMessage = null;
-      toastClosing = false;
-      updateToast();
-      toastTimeoutId = null;
-    }, 300);
-  }, 3000);
+
+  const notes = store.get(webNotesAtom);
+  if (Array.from(notes.values()).some((n) => n.syncStatus !== statuses.get(n.id))) {
+    const updated = new Map(notes);
+    updated.forEach((n, id) => updated.set(id, { ...n, syncStatus: statuses.get(id) }));
+    store.set(webNotesAtom, updated);
+  }
+
+  updateHighlightDot();
+  updateNoteIconLayer();
 }
 
 /**
- * Inject Toast into the page with Shadow DOM
+ * Move a highlight from its temporary ID to the ID the backend assigned.
  */
-async function injectToast(): Promise<void> {
-  // Check if already injected
-  if (shadowHostExists(TOAST_HOST_ID)) {
+function rekeyHighlight(tempId: string, serverId: string): void {
+  const highlights = store.get(webHighlightsAtom);
+  const highlight = highlights.get(tempId);
+  if (!highlight) return;
+
+  renameHighlight(tempId, serverId);
+  const updated = new Map<string, WebHighlightState>();
+  highlights.forEach((h, id) => updated.set(id === tempId ? serverId : id, id === tempId ? { ...h, id: serverId } : h));
+  store.set(webHighlightsAtom, updated);
+
+  if (hoveredHighlightId === tempId) hoveredHighlightId = serverId;
+  if (menuOpenHighlightId === tempId) menuOpenHighlightId = serverId;
+}
+
+/**
+ * Move a note, and the hover/editor state keyed by it, from its temporary ID to the server ID.
+ */
+function rekeyNote(tempId: string, serverId: string): void {
+  const notes = store.get(webNotesAtom);
+  const note = notes.get(tempId);
+  if (!note) return;
+
+  renameNoteAnchorSpan(tempId, serverId);
+  const updated = new Map<string, WebNoteState>();
+  notes.forEach((n, id) => updated.set(id === tempId ? serverId : id, id === tempId ? { ...n, id: serverId } : n));
+  store.set(webNotesAtom, updated);
+
+  for (const map of [noteResolvedRanges, noteTempHighlightIds, noteTempBgOverrides] as Map<string, unknown>[]) {
+    if (map.has(tempId)) {
+      map.set(serverId, map.get(tempId));
+      map.delete(tempId);
+    }
+  }
+  if (notePinnedId === tempId) notePinnedId = serverId;
+  if (noteEditorOpenState?.noteId === tempId) {
+    noteEditorOpenState = { ...noteEditorOpenState, noteId: serverId };
+    updateNoteEditor();
+  }
+}
+
+/**
+ * React to outbox results from this tab or another tab on the same site.
+ */
+async function handleOutboxEvent(event: OutboxEvent): Promise<void> {
+  const { operation } = event.entry;
+
+  if (event.type === 'synced') {
+    if (event.serverId && operation.type === 'createHighlight') {
+      rekeyHighlight(operation.tempId, event.serverId);
+    } else if (event.serverId && operation.type === 'createNote') {
+      rekeyNote(operation.tempId, event.serverId);
+    }
+  } else {
+    const errorCode = event.entry.lastError;
+    if (errorCode === 'LOGIN_REQUIRED') {
+      // Kept as failed so "Retry sync" works once the user has signed in.
+      // Every open tab gets the event; only the one in view asks to sign in
+      if (!document.hidden) ApiErrorHandler.triggerLoginRequired();
+    } else if (operation.type === 'updateNote' && errorCode === 'HTTP_404') {
+      // Deleted elsewhere; the local copy has nothing left to sync to
+      await discardOutboxItem(operation.noteId);
+      removeNoteLocally(operation.noteId);
+      if (!document.hidden) showToast('Note no longer exists', 'error');
+    } else if (!document.hidden) {
+      const label = operation.type.startsWith('save') ? 'Bookmark' : operation.type.endsWith('Note') ? 'Note' : 'Highlight';
+      showToast(`${label} could not be synced`, 'error');
+    }
+  }
+
+  await refreshSyncStatuses();
+}
+
+// =============================================================================
+// ORPHANED ANNOTATIONS
+// =============================================================================
+
+/**
+ * List highlights/notes that never resolved in the side panel so they can be re-attached.
+ */
+function addOrphanedAnnotations(orphans: OrphanedAnnotation[]): void {
+  if (orphans.length === 0) return;
+  console.log('[Content Script] Could not anchor', orphans.length, 'annotations, listing them as orphaned');
+  const existing = store.get(orphanedAnnotationsAtom);
+  const known = new Set(existing.map((o) => o.id));
+  store.set(orphanedAnnotationsAtom, [...existing, ...orphans.filter((o) => !known.has(o.id))]);
+}
+
+function removeOrphanedAnnotation(id: string): void {
+  store.set(orphanedAnnotationsAtom, store.get(orphanedAnnotationsAtom).filter((o) => o.id !== id));
+  if (store.get(reattachingAnnotationIdAtom) === id) {
+    store.set(reattachingAnnotationIdAtom, null);
+  }
+}
+
+/**
+ * Called from the side panel: the user's next text selection becomes the orphan's new anchor.
+ */
+function handleReattachOrphan(id: string): void {
+  store.set(reattachingAnnotationIdAtom, id);
+  showToast('Select the text to attach it to (Esc to cancel)', 'success');
+}
+
+/**
+ * Called from the side panel: delete an orphan instead of re-attaching it.
+ */
+function handleDiscardOrphan(id: string): void {
+  const orphan = store.get(orphanedAnnotationsAtom).find((o) => o.id === id);
+  if (!orphan) return;
+
+  removeOrphanedAnnotation(id);
+  const pageUrl = getAnnotationPageUrl();
+  if (orphan.kind === 'note') {
+    enqueueOutboxOperation({ type: 'deleteNote', noteId: id, pageUrl });
+    showToast('Note deleted', 'success');
+  } else {
+    enqueueOutboxOperation({ type: 'deleteHighlight', highlightId: id, pageUrl });
+    showToast('Highlight removed', 'success');
+  }
+}
+
+/**
+ * Move the orphan being re-attached onto `range`. Saved anchors cannot be
+ * edited, so the annotation is recreated on the new text and the old one deleted.
+ */
+async function completeReattach(range: Range): Promise<void> {
+  const id = store.get(reattachingAnnotationIdAtom);
+  const orphan = store.get(orphanedAnnotationsAtom).find((o) => o.id === id);
+  store.set(reattachingAnnotationIdAtom, null);
+  if (!orphan) return;
+
+  removeOrphanedAnnotation(orphan.id);
+  const selectedText = range.toString();
+  const anchor = buildAnchor(range);
+  const pageUrl = getAnnotationPageUrl();
+  const tempId = createTempId();
+
+  if (orphan.kind === 'highlight') {
+    const markElements = await applyHighlight(range, tempId, orphan.color);
+    const newHighlights = new Map(store.get(webHighlightsAtom));
+    newHighlights.set(tempId, {
+      id: tempId,
+      selectedText,
+      anchor,
+      color: orphan.color ?? null,
+      wrapperElements: markElements,
+      syncStatus: 'pending',
+    } satisfies WebHighlightState);
+    store.set(webHighlightsAtom, newHighlights);
+
+    await enqueueOutboxOperation({
+      type: 'createHighlight',
+      tempId,
+      request: { pageUrl, selectedText, anchor, ...(orphan.color ? { color: orphan.color } : {}) },
+    });
+    await enqueueOutboxOperation({ type: 'deleteHighlight', highlightId: orphan.id, pageUrl });
+  } else {
+    const content = orphan.content ?? '';
+    const anchorSpan = injectNoteAnchorSpan(range, tempId);
+    noteResolvedRanges.set(tempId, range);
+    const newNotes = new Map(store.get(webNotesAtom));
+    newNotes.set(tempId, {
+      id: tempId,
+      selectedText,
+      anchor,
+      content,
+      anchorSpan,
+      syncStatus: 'pending',
+    } satisfies WebNoteState);
+    store.set(webNotesAtom, newNotes);
+    updateNoteIconLayer();
+
+    await enqueueOutboxOperation({
+      type: 'createNote',
+      tempId,
+      request: { pageUrl, selectedText, anchor, content },
+    });
+    await enqueueOutboxOperation({ type: 'deleteNote', noteId: orphan.id, pageUrl });
+  }
+
+  window.getSelection()?.removeAllRanges();
+  showToast(orphan.kind === 'note' ? 'Note re-attached' : 'Highlight re-attached', 'success');
+}
+
+/**
+ * While a re-attach is pending, take the next non-empty page selection; Escape cancels.
+ */
+function setupReattachListener(): void {
+  document.addEventListener('mouseup', () => {
+    if (!store.get(reattachingAnnotationIdAtom)) return;
+    // Let the browser finish updating the selection
+    setTimeout(() => {
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+      const range = selection.getRangeAt(0);
+      if (!range.toString().trim()) return;
+      completeReattach(range.cloneRange());
+    }, 10);
+  }, true);
+
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && store.get(reattachingAnnotationIdAtom)) {
+      store.set(reattachingAnnotationIdAtom, null);
+    }
+  }, true);
+}
+
+// =============================================================================
+// PDF ANNOTATIONS
+// =============================================================================
+
+/**
+ * Actions for the side panel's PDF annotations list, or undefined when the tab
+ * is not showing a PDF.
+ */
+function getPdfAnnotationActions(): PdfAnnotationActions | undefined {
+  if (!isPdfDocument()) return undefined;
+  return {
+    onHighlightSelection: handlePdfHighlightSelection,
+    onNoteFromSelection: handlePdfNoteFromSelection,
+    onSaveNoteDraft: handlePdfNoteDraftSave,
+    onCancelNoteDraft: () => store.set(pdfNoteDraftAtom, null),
+    onGoToPage: goToPdfPage,
+    onUpdateNote: handleNoteUpdate,
+    onDeleteHighlight: handleHighlightRemove,
+    onDeleteNote: handleNoteDelete,
+  };
+}
+
+/**
+ * Read the PDF viewer's selection and anchor it to a page of the document.
+ * Shows a toast and returns null when there is nothing usable to anchor.
+ */
+async function capturePdfSelection(): Promise<{ selectedText: string; anchor: AnchorData } | null> {
+  const selectedText = (await getPdfSelectedText()).trim();
+  if (!selectedText) {
+    showToast('Select text in the PDF first', 'error');
+    return null;
+  }
+
+  let anchor: AnchorData | null;
+  try {
+    anchor = buildPdfAnchor(await extractPdfPages(), selectedText);
+  } catch (err) {
+    console.warn('[Content Script] Could not read PDF text:', err);
+    showToast('Could not read this PDF', 'error');
+    return null;
+  }
+  if (!anchor) {
+    showToast('Could not find the selected text in this PDF', 'error');
+    return null;
+  }
+  return { selectedText, anchor };
+}
+
+/**
+ * Highlight the PDF selection. It is listed in the side panel under a
+ * temporary ID and the create is queued in the sync outbox.
+ */
+async function handlePdfHighlightSelection(): Promise<void> {
+  const selection = await capturePdfSelection();
+  if (!selection) return;
+
+  const colours = store.get(highlightColoursAtom);
+  const selectedId = store.get(selectedHighlightColourIdAtom);
+  const hexcode = colours.find((c) => c.id === selectedId)?.hexcode;
+
+  incrementApiCounterAndCheckReview();
+
+  const tempId = createTempId();
+  const newHighlights = new Map(store.get(webHighlightsAtom));
+  newHighlights.set(tempId, {
+    id: tempId,
+    selectedText: selection.selectedText,
+    anchor: selection.anchor,
+    color: hexcode ?? null,
+    wrapperElements: [],
+    syncStatus: 'pending',
+  } satisfies WebHighlightState);
+  store.set(webHighlightsAtom, newHighlights);
+
+  showToast(navigator.onLine ? 'Highlight saved!' : 'Highlight saved offline, it will sync when you reconnect', 'success');
+
+  await enqueueOutboxOperation({
+    type: 'createHighlight',
+    tempId,
+    request: {
+      pageUrl: getAnnotationPageUrl(),
+      selectedText: selection.selectedText,
+      anchor: selection.anchor,
+      ...(hexcode ? { color: hexcode } : {}),
+    },
+  });
+}
+
+/**
+ * Start a note on the PDF selection; the side panel shows the draft for writing.
+ */
+async function handlePdfNoteFromSelection(): Promise<void> {
+  const selection = await capturePdfSelection();
+  if (selection) store.set(pdfNoteDraftAtom, selection);
+}
+
+/**
+ * Save the drafted PDF note under a temporary ID and queue the create in the sync outbox.
+ */
+function handlePdfNoteDraftSave(content: string): void {
+  const draft = store.get(pdfNoteDraftAtom);
+  if (!draft) return;
+  store.set(pdfNoteDraftAtom, null);
+
+  incrementApiCounterAndCheckReview();
+
+  const tempId = createTempId();
+  const newNotes = new Map(store.get(webNotesAtom));
+  newNotes.set(tempId, {
+    id: tempId,
+    selectedText: draft.selectedText,
+    anchor: draft.anchor,
+    content,
+    anchorSpan: null,
+    syncStatus: 'pending',
+  } satisfies WebNoteState);
+  store.set(webNotesAtom, newNotes);
+
+  showToast(navigator.onLine ? 'Note saved!' : 'Note saved offline, it will sync when you reconnect', 'success');
+
+  enqueueOutboxOperation({
+    type: 'createNote',
+    tempId,
+    request: {
+      pageUrl: getAnnotationPageUrl(),
+      selectedText: draft.selectedText,
+      anchor: draft.anchor,
+      content,
+    },
+  });
+}
+
+// =============================================================================
+// TOAST INJECTION
+// =============================================================================
+
+/**
+ * Show a toast message
+ */
+function showToast(message: string, type: 'success' | 'error' = 'success'): void {
+  console.log('[Content Script] Showing toast:', message, type);
+  
+  // Clear any existing timeout
+  if (toastTimeoutId) {
+    clearTimeout(toastTimeoutId);
+    toastTimeoutId = null;
+  }
+  
+  toastMessage = message;
+  toastType = type;
+  toastClosing = false;
+  injectToast();
+  updateToast();
+  
+  // Auto-hide after 3 seconds with slide-out animation
+  toastTimeoutId = setTimeout(() => {
+    // Trigger slide-out animation
+    toastClosing = true;
+    updateToast();
+    
+    // Wait for animation to complete (300ms) before clearing
+    setTimeout(() => {
+      toastMessage = null;
+      toastClosing = false;
+      updateToast();
+      toastTimeoutId = null;
+    }, 300);
+  }, 3000);
+}
+
+/**
+ * Inject Toast into the page with Shadow DOM
+ */
+async function injectToast(): Promise<void> {
+  // Check if already injected
+  if (shadowHostExists(TOAST_HOST_ID)) {
     return;
   }
 
@@ -10604,13 +11226,15 @@ async function handleFolderModalSave(folderId: string | null): Promise<void> {
   // Increment API counter for review prompt + feedback tracking
   incrementApiCounterAndCheckReview();
 
-  // Save paragraph
+  // Save paragraph, anchored so its bookmark can be restored on revisit
+  const request: SaveParagraphRequest = {
+    content: folderModalText,
+    source_url: folderModalSourceUrl,
+    folder_id: folderId || undefined,
+    anchor: folderModalRange && !isPdfDocument() ? buildAnchor(folderModalRange) : undefined,
+  };
   SavedParagraphService.saveParagraph(
-    {
-      content: folderModalText,
-      source_url: folderModalSourceUrl,
-      folder_id: folderId || undefined,
-    },
+    request,
     {
       onSuccess: async (response) => {
         console.log('[Content Script] Text saved successfully with id:', response.id);
@@ -10835,6 +11459,12 @@ async function handleFolderModalSave(folderId: string | null): Promise<void> {
       },
       onError: (errorCode, message) => {
         console.error('[Content Script] Failed to save text:', errorCode, message);
+        if (isTransientSyncError(errorCode)) {
+          enqueueOutboxOperation({ type: 'saveParagraph', request });
+          closeFolderListModal();
+          showToast('Saved offline, it will sync when you reconnect', 'success');
+          return;
+        }
         folderModalSaving = false;
         updateFolderListModal();
         showToast(`Failed to save text: ${message}`, 'error');
@@ -10877,13 +11507,14 @@ async function handleFolderModalSaveForLink(folderId: string | null, name?: stri
   incrementApiCounterAndCheckReview();
 
   // Save link
+  const request = {
+    url: folderModalLinkUrl,
+    name: nameToSaveLimited || undefined,
+    summary: filteredSummary,
+    folder_id: folderId || undefined,
+  };
   await SavedLinkService.saveLink(
-    {
-      url: folderModalLinkUrl,
-      name: nameToSaveLimited || undefined,
-      summary: filteredSummary,
-      folder_id: folderId || undefined,
-    },
+    request,
     {
       onSuccess: async (response) => {
         console.log('[Content Script] Link saved successfully with id:', response.id);
@@ -10920,6 +11551,12 @@ async function handleFolderModalSaveForLink(folderId: string | null, name?: stri
       },
       onError: (errorCode, message) => {
         console.error('[Content Script] Failed to save link:', errorCode, message);
+        if (isTransientSyncError(errorCode)) {
+          enqueueOutboxOperation({ type: 'saveLink', request });
+          closeFolderListModal();
+          showToast('Saved offline, it will sync when you reconnect', 'success');
+          return;
+        }
         folderModalSaving = false;
         let displayMessage = 'Failed to save link';
         
@@ -11013,13 +11650,14 @@ async function handleFolderModalSaveForImage(folderId: string | null): Promise<v
   incrementApiCounterAndCheckReview();
 
   // Save image
+  const request = {
+    sourceUrl: window.location.href,
+    imageUrl: imageUrl,
+    folderId: folderId || undefined,
+    name: undefined, // Can be enhanced later to allow custom names
+  };
   await SavedImageService.saveImage(
-    {
-      sourceUrl: window.location.href,
-      imageUrl: imageUrl,
-      folderId: folderId || undefined,
-      name: undefined, // Can be enhanced later to allow custom names
-    },
+    request,
     {
       onSuccess: async (response) => {
         console.log('[Content Script] Image saved successfully with id:', response.id);
@@ -11078,6 +11716,12 @@ async function handleFolderModalSaveForImage(folderId: string | null): Promise<v
       },
       onError: (errorCode, message) => {
         console.error('[Content Script] Failed to save image:', errorCode, message);
+        if (isTransientSyncError(errorCode)) {
+          enqueueOutboxOperation({ type: 'saveImage', request });
+          closeFolderListModal();
+          showToast('Saved offline, it will sync when you reconnect', 'success');
+          return;
+        }
         folderModalSaving = false;
         updateFolderListModal();
         
@@ -11159,13 +11803,14 @@ async function handleFolderModalSaveForWord(folderId: string | null): Promise<vo
   incrementApiCounterAndCheckReview();
 
   // Save word
+  const request = {
+    word: folderModalWord,
+    sourceUrl: window.location.href,
+    contextualMeaning: folderModalWordContextualMeaning,
+    folderId: folderId || undefined,
+  };
   SavedWordsService.saveWord(
-    {
-      word: folderModalWord,
-      sourceUrl: window.location.href,
-      contextualMeaning: folderModalWordContextualMeaning,
-      folderId: folderId || undefined,
-    },
+    request,
     {
       onSuccess: async (response) => {
         console.log('[Content Script] Word saved successfully with id:', response.id);
@@ -11184,6 +11829,25 @@ async function handleFolderModalSaveForWord(folderId: string | null): Promise<vo
           console.log('[Content Script] Removed bookmark folder preference on save');
         }
         
+        // Add the word to the review deck, with what the popover already loaded
+        const reviewState = folderModalWordId ? store.get(wordExplanationsAtom).get(folderModalWordId) : undefined;
+        let reviewContextRange = reviewState?.range ?? null;
+        if (reviewState?.wordSpanElement?.isConnected) {
+          reviewContextRange = document.createRange();
+          reviewContextRange.selectNodeContents(reviewState.wordSpanElement);
+        }
+        addWordReviewCard({
+          savedWordId: response.id,
+          word: response.word,
+          meaning: reviewState?.meaning || response.contextual_meaning || '',
+          examples: reviewState?.examples ?? [],
+          synonyms: reviewState?.synonyms ?? [],
+          sourceUrl: response.sourceUrl,
+          context: reviewContextRange ? getWordContext(reviewContextRange) : '',
+        }).catch((err) => {
+          console.warn('[Content Script] Failed to add review card:', err);
+        });
+
         // Update word state
         if (folderModalWordId) {
           const updated = new Map(store.get(wordExplanationsAtom));
@@ -11224,6 +11888,13 @@ async function handleFolderModalSaveForWord(folderId: string | null): Promise<vo
           }
         }
         
+        if (isTransientSyncError(errorCode)) {
+          enqueueOutboxOperation({ type: 'saveWord', request });
+          closeFolderListModal();
+          showToast('Saved offline, it will sync when you reconnect', 'success');
+          return;
+        }
+
         let displayMessage = 'Failed to save word';
         
         // Handle specific error codes
@@ -11980,74 +12651,268 @@ function removeYouTubeAskAIButton(): void {
 }
 
 /**
- * Initialize YouTube watch page
+ * Wait for the page-context fetcher to deliver the current video's transcript.
+ * Resolves with null when the video has no captions or nothing arrives in time.
  */
-async function initYouTubeWatchPage(): Promise<void> {
-  console.log('[Content Script] Initializing YouTube watch page...');
-  
-  // Check domain status - don't inject button if domain is BANNED
-  const currentDomain = extractDomain(window.location.href);
-  if (currentDomain) {
-    const domainStatus = await ChromeStorage.getDomainStatus(currentDomain);
-    if (domainStatus === DomainStatus.BANNED) {
-      console.log(`[Content Script] Domain "${currentDomain}" is BANNED - YouTube Ask AI button will not be shown`);
-      removeYouTubeAskAIButton();
-      return;
-    }
-  }
-  
-  // Wait a bit for page to fully load
-  if (document.readyState === 'loading') {
-    await new Promise((resolve) => {
-      document.addEventListener('DOMContentLoaded', resolve);
+function waitForYouTubeTranscript(timeoutMs = 8000): Promise<YouTubeTranscriptSegment[] | null> {
+  const currentSegments = (): YouTubeTranscriptSegment[] | null | undefined => {
+    const segments = store.get(youtubeTranscriptSegmentsAtom);
+    if (!segments || store.get(youtubeTranscriptVideoIdAtom) !== getYouTubeVideoId()) return undefined;
+    return segments.length > 0 ? segments : null;
+  };
+
+  const ready = currentSegments();
+  if (ready !== undefined) return Promise.resolve(ready);
+
+  return new Promise((resolve) => {
+    const finish = (segments: YouTubeTranscriptSegment[] | null) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(segments);
+    };
+    const timer = setTimeout(() => {
+      console.warn('[Content Script] YouTube transcript not received in time');
+      finish(null);
+    }, timeoutMs);
+    const unsubscribe = store.sub(youtubeTranscriptSegmentsAtom, () => {
+      const segments = currentSegments();
+      if (segments !== undefined) finish(segments);
     });
-  }
-  
-  // Additional wait for YouTube's dynamic content
-  await new Promise((resolve) => setTimeout(resolve, 1000));
-  
-  await injectYouTubeAskAIButton();
+  });
 }
 
 // =============================================================================
-// INITIALIZATION
+// YOUTUBE CAPTION TRACKS AND TRANSLATION
 // =============================================================================
 
+let youtubeTranslationAbortController: AbortController | null = null;
+
+function getYouTubeCaptionActions(): YouTubeCaptionActions | undefined {
+  if (!isYouTubeWatchPage()) return undefined;
+  return {
+    onSelectTrack: handleYouTubeCaptionTrackSelect,
+    onTranslate: () => {
+      translateYouTubeTranscript();
+    },
+    onShowTranslatedCaptionsChange: handleShowTranslatedCaptionsChange,
+  };
+}
+
+/** What the caption overlay shows, read on every playback update */
+function getYouTubeCaptionSource(): YouTubeCaptionSource {
+  return {
+    segments: store.get(youtubeTranscriptSegmentsAtom),
+    translated: store.get(youtubeTranslatedSegmentsAtom),
+  };
+}
+
 /**
- * Handle xplaino_text query parameter for auto-search
+ * Drop the transcript translation (it follows segment order, so it is only
+ * valid for the transcript it was made from)
  */
-function handleXplainoTextSearch(): void {
-  const urlParams = new URLSearchParams(window.location.search);
-  const searchText = urlParams.get('xplaino_text');
-  
-  if (searchText) {
-    // Wait for DOM to be ready, then search
-    setTimeout(() => {
-      // window.find() is a non-standard but widely supported API
-      const found = (window as any).find(searchText, false, false, false, false, false);
-      if (found) {
-        console.log(`[Content Script] Found and highlighted: "${searchText}"`);
-      } else {
-        console.log(`[Content Script] Text not found: "${searchText}"`);
-      }
-    }, 100);
-  }
+function resetYouTubeTranslation(): void {
+  youtubeTranslationAbortController?.abort();
+  youtubeTranslationAbortController = null;
+  store.set(youtubeTranslatedSegmentsAtom, null);
+  store.set(youtubeTranslationStatusAtom, 'idle');
+  refreshYouTubeCaptionOverlay();
 }
 
 /**
- * Handle xplaino_image query parameter for auto-scroll to image
+ * Translate the transcript into the user's native language, segment by
+ * segment, so the overlay fills in as batches arrive.
+ * With `promptForLanguage` off (automatic runs) a missing native language is skipped quietly.
  */
-function handleXplainoImageSearch(): void {
-  const urlParams = new URLSearchParams(window.location.search);
-  const searchImage = urlParams.get('xplaino_image');
-
-  if (searchImage) {
-    // Wait for DOM + images to load, then search
-    setTimeout(() => {
-      const images = document.querySelectorAll('img');
-      let found = false;
+async function translateYouTubeTranscript(promptForLanguage = true): Promise<void> {
+  const segments = store.get(youtubeTranscriptSegmentsAtom);
+  if (!segments || segments.length === 0) {
+    if (promptForLanguage) showToast('This video has no transcript to translate', 'error');
+    return;
+  }
 
-      for (const img of images) {
+  const nativeLanguage = await ChromeStorage.getUserSettingNativeLanguage();
+  if (!nativeLanguage) {
+    if (!promptForLanguage) return;
+    if (!store.get(isUserLoggedInAtom)) {
+      showToast('Login and set your native language to translate', 'error');
+      setSidePanelOpen(true, 'settings');
+      return;
+    }
+    await showWarningToast();
+    return;
+  }
+
+  const targetLanguageCode = getLanguageCode(nativeLanguage);
+  if (!targetLanguageCode) {
+    console.error('[Content Script] Could not get language code for:', nativeLanguage);
+    if (promptForLanguage) showToast('Invalid language setting', 'error');
+    return;
+  }
+
+  resetYouTubeTranslation();
+  const abortController = new AbortController();
+  youtubeTranslationAbortController = abortController;
+  store.set(youtubeTranslatedSegmentsAtom, new Array<string | null>(segments.length).fill(null));
+  store.set(youtubeTranslationStatusAtom, 'translating');
+
+  try {
+    await translateTranscript(
+      segments,
+      targetLanguageCode,
+      {
+        onSegment: (index, translatedText) => {
+          if (abortController.signal.aborted) return;
+          const translated = [...(store.get(youtubeTranslatedSegmentsAtom) ?? [])];
+          translated[index] = translatedText;
+          store.set(youtubeTranslatedSegmentsAtom, translated);
+          refreshYouTubeCaptionOverlay();
+        },
+        onSubscriptionRequired: () => {
+          store.set(showSubscriptionModalAtom, true);
+        },
+      },
+      abortController
+    );
+    if (!abortController.signal.aborted) {
+      store.set(youtubeTranslationStatusAtom, 'done');
+    }
+  } catch (error) {
+    if (abortController.signal.aborted) return;
+    console.error('[Content Script] YouTube transcript translation failed:', error);
+    store.set(youtubeTranslationStatusAtom, 'error');
+    // Login and subscription prompts are shown by their own handlers
+    const message = error instanceof Error ? error.message : '';
+    if (message !== 'LOGIN_REQUIRED' && message !== 'SUBSCRIPTION_REQUIRED') {
+      showToast('Could not translate the transcript', 'error');
+    }
+  } finally {
+    if (youtubeTranslationAbortController === abortController) {
+      youtubeTranslationAbortController = null;
+    }
+  }
+}
+
+/**
+ * Re-read the transcript from another caption track and remember its
+ * language for later videos
+ */
+async function handleYouTubeCaptionTrackSelect(trackId: string): Promise<void> {
+  const track = store.get(youtubeCaptionTracksAtom).find((t) => t.id === trackId);
+  if (!track || trackId === store.get(youtubeCaptionTrackIdAtom)) return;
+
+  resetYouTubeTranslation();
+  store.set(youtubeCaptionTrackIdAtom, trackId);
+  requestYouTubeTranscript({ trackId });
+
+  const preferences = await ChromeStorage.getYouTubeCaptionPreferences();
+  await ChromeStorage.setYouTubeCaptionPreferences({ ...preferences, languageCode: track.languageCode });
+}
+
+async function handleShowTranslatedCaptionsChange(show: boolean): Promise<void> {
+  store.set(youtubeCaptionOverlayEnabledAtom, show);
+  if (show) {
+    showYouTubeCaptionOverlay(getYouTubeCaptionSource);
+    const status = store.get(youtubeTranslationStatusAtom);
+    if (status === 'idle' || status === 'error') {
+      translateYouTubeTranscript();
+    }
+  } else {
+    hideYouTubeCaptionOverlay();
+  }
+
+  const preferences = await ChromeStorage.getYouTubeCaptionPreferences();
+  await ChromeStorage.setYouTubeCaptionPreferences({ ...preferences, showTranslatedCaptions: show });
+}
+
+/**
+ * A new transcript arrived (another video or track): start over on its translation
+ */
+function handleYouTubeTranscriptChanged(): void {
+  resetYouTubeTranslation();
+  if (store.get(youtubeCaptionOverlayEnabledAtom)) {
+    translateYouTubeTranscript(false);
+  }
+}
+
+/**
+ * Initialize YouTube watch page
+ */
+async function initYouTubeWatchPage(): Promise<void> {
+  console.log('[Content Script] Initializing YouTube watch page...');
+  
+  // Check domain status - don't inject button if domain is BANNED
+  const currentDomain = extractDomain(window.location.href);
+  if (currentDomain) {
+    const domainStatus = await ChromeStorage.getDomainStatus(currentDomain);
+    if (domainStatus === DomainStatus.BANNED) {
+      console.log(`[Content Script] Domain "${currentDomain}" is BANNED - YouTube Ask AI button will not be shown`);
+      removeYouTubeAskAIButton();
+      return;
+    }
+  }
+
+  // Chat and summaries on watch pages read the transcript; fetch it right away,
+  // in the caption language the user picked last
+  const captionPreferences = await ChromeStorage.getYouTubeCaptionPreferences();
+  store.set(youtubeCaptionOverlayEnabledAtom, captionPreferences.showTranslatedCaptions);
+  requestYouTubeTranscript({ languageCode: captionPreferences.languageCode });
+  
+  // Wait a bit for page to fully load
+  if (document.readyState === 'loading') {
+    await new Promise((resolve) => {
+      document.addEventListener('DOMContentLoaded', resolve);
+    });
+  }
+  
+  // Additional wait for YouTube's dynamic content
+  await new Promise((resolve) => setTimeout(resolve, 1000));
+
+  if (captionPreferences.showTranslatedCaptions) {
+    showYouTubeCaptionOverlay(getYouTubeCaptionSource);
+  }
+  
+  await injectYouTubeAskAIButton();
+}
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Handle xplaino_text query parameter for auto-search
+ */
+function handleXplainoTextSearch(): void {
+  const urlParams = new URLSearchParams(window.location.search);
+  const searchText = urlParams.get('xplaino_text');
+  
+  if (searchText) {
+    // Wait for DOM to be ready, then search
+    setTimeout(() => {
+      // window.find() is a non-standard but widely supported API
+      const found = (window as any).find(searchText, false, false, false, false, false);
+      if (found) {
+        console.log(`[Content Script] Found and highlighted: "${searchText}"`);
+      } else {
+        console.log(`[Content Script] Text not found: "${searchText}"`);
+      }
+    }, 100);
+  }
+}
+
+/**
+ * Handle xplaino_image query parameter for auto-scroll to image
+ */
+function handleXplainoImageSearch(): void {
+  const urlParams = new URLSearchParams(window.location.search);
+  const searchImage = urlParams.get('xplaino_image');
+
+  if (searchImage) {
+    // Wait for DOM + images to load, then search
+    setTimeout(() => {
+      const images = document.querySelectorAll('img');
+      let found = false;
+
+      for (const img of images) {
         const imgSrc = img.src || img.currentSrc;
         if (imgSrc && (imgSrc === searchImage || decodeURIComponent(imgSrc) === decodeURIComponent(searchImage))) {
           // Scroll the image into view
@@ -12133,6 +12998,11 @@ async function initContentScript(): Promise<void> {
   await ChromeStorage.ensureFeedbackFields();
   await ChromeStorage.ensureFeatureDiscoveryFlags();
 
+  // User-defined extraction rule for this site, used by summaries, page chat and translation
+  loadSiteExtractionRule().catch((err) => {
+    console.warn('[Content Script] Failed to load site extraction rule:', err);
+  });
+
   // Load feature discovery flags into Jotai atoms
   try {
     const [showImageFeature, showTextFeature, showWordFeature] = await Promise.all([
@@ -12173,8 +13043,8 @@ async function initContentScript(): Promise<void> {
   // Handle xplaino_image query parameter for auto-scroll to image
   handleXplainoImageSearch();
   
-  // Handle YouTube pages separately
-  if (isYouTubePage()) {
+  // Handle YouTube pages separately: only watch pages get the standard features
+  if (isYouTubePage() && !isYouTubeWatchPage()) {
     console.log('[Content Script] YouTube page detected');
     
     // Remove any standard features that might have been injected
@@ -12192,14 +13062,19 @@ async function initContentScript(): Promise<void> {
     removeToast();
     removeWelcomeModal();
     removeReviewPromptModal();
-    
-    // For watch pages, inject the Ask AI button
-    if (isYouTubeWatchPage()) {
-      await initYouTubeWatchPage();
-    }
+    removeCommandPalette();
+    hideYouTubeCaptionOverlay();
+    resetYouTubeTranslation();
     
     return;
   }
+
+  if (isYouTubeWatchPage()) {
+    console.log('[Content Script] YouTube watch page detected');
+    initYouTubeWatchPage().catch((error) => {
+      console.warn('[Content Script] Error initializing YouTube watch page:', error);
+    });
+  }
   
   const allowed = await isExtensionAllowed();
   
@@ -12221,6 +13096,20 @@ async function initContentScript(): Promise<void> {
     );
     registerGetSummarisePayloadOrWait(async () => {
       await pageContentReadyPromise;
+      // PDF text has no elements to point back to
+      if (isPdfDocument()) {
+        store.set(summaryIdToElementMapAtom, new Map());
+        return { content: extractPdfContentWithIds(await extractPdfPages()) };
+      }
+      // YouTube summary blocks are transcript chapters keyed by start time
+      if (isYouTubeWatchPage()) {
+        const transcript = await waitForYouTubeTranscript();
+        if (transcript) {
+          store.set(summaryIdToElementMapAtom, new Map());
+          const chapters = buildTranscriptChapters(transcript, store.get(youtubeChapterMarkersAtom));
+          return { content: extractTranscriptContentWithIds(chapters) };
+        }
+      }
       const { content, idToElement } = extractPageContentWithIds();
       store.set(summaryIdToElementMapAtom, idToElement);
       return { content };
@@ -12229,7 +13118,12 @@ async function initContentScript(): Promise<void> {
     const runPageRead = async (): Promise<void> => {
       store.set(pageReadingStatusAtom, 'PAGE_READING_IN_PROGRESS');
       try {
-        const content = extractPageContent();
+        const transcript = isYouTubeWatchPage() ? await waitForYouTubeTranscript() : null;
+        const content = isPdfDocument()
+          ? extractPdfFullText(await extractPdfPages())
+          : transcript
+            ? extractTranscriptFullText(transcript)
+            : extractPageContent();
         store.set(pageContentAtom, content);
         store.set(pageReadingStatusAtom, 'PAGE_READING_COMPLETED');
       } catch {
@@ -12250,6 +13144,9 @@ async function initContentScript(): Promise<void> {
       injectImageExplanationIconContainer(),
       injectImageExplanationPanel(),
       runPageRead(),
+      restoreWebpageChatSessions().catch((error) => {
+        console.warn('[Content Script] Failed to restore chat sessions:', error);
+      }),
     ]);
     setupImageHoverDetection();
 
@@ -12270,7 +13167,27 @@ async function initContentScript(): Promise<void> {
     // Load highlight colours and saved highlights asynchronously (non-blocking)
     loadHighlightColours();
     loadWebHighlights();
+    loadSavedParagraphs();
     setupHighlightHoverListener();
+    setupReattachListener();
+
+    // Replay highlight, note and bookmark changes made while offline
+    onOutboxEvent(handleOutboxEvent);
+    startOutboxSync();
+
+    // Chat page indexes moved to the background worker; drop this site's old copy
+    deleteLegacyVectorIndexes();
+
+    // Highlights and notes saved while signed out get account ids after login
+    chrome.runtime.onMessage.addListener((message) => {
+      if (message?.type !== LOCAL_ANNOTATIONS_MIGRATED_MESSAGE) return;
+      for (const [localId, serverId] of Object.entries(message.idMap as Record<string, string>)) {
+        rekeyHighlight(localId, serverId);
+        rekeyNote(localId, serverId);
+      }
+      updateHighlightDot();
+      updateNoteIconLayer();
+    });
 
     // Load saved notes and inject the note icon layer (non-blocking)
     injectNoteIconLayer().then(() => {
@@ -12278,6 +13195,15 @@ async function initContentScript(): Promise<void> {
     });
     injectNoteEditor();
 
+    // Show teammates' shared highlights and notes, and who this page is shared with
+    injectSharedAnnotationLayer().then(() => {
+      loadSharedAnnotations();
+    });
+    loadPageShares();
+
+    // Scroll to the item the user opened from the library, once it is restored
+    openPendingLibraryTarget();
+
     // Keep note icon positions in sync with scroll and resize.
     // Use rAF-throttling so icon positions update in the same frame as the scroll paint,
     // preventing the brief displacement caused by async React re-renders.
@@ -12287,6 +13213,7 @@ async function initContentScript(): Promise<void> {
       noteIconLayerRAF = requestAnimationFrame(() => {
         noteIconLayerRAF = null;
         updateNoteIconLayer();
+        updateSharedAnnotationLayer();
         // Keep the note editor in sync with scroll/resize too
         if (noteEditorOpenState) {
           if (noteEditorOpenState.mode === 'edit' && noteEditorOpenState.noteId) {
@@ -12360,34 +13287,752 @@ async function initContentScript(): Promise<void> {
     removeToast();
     removeWelcomeModal();
     removeReviewPromptModal();
+    removeCommandPalette();
     removeYouTubeAskAIButton();
     removeUserSelectOverride();
   }
 }
 
-// Setup global auth listener (runs once at script initialization)
-setupGlobalAuthListener();
+// Setup global auth listener (runs once at script initialization)
+setupGlobalAuthListener();
+
+// =============================================================================
+// PAGE ANNOTATIONS EXPORT
+// =============================================================================
+
+/**
+ * Fetch every highlight and note saved on this page and download them.
+ * Fetched fresh rather than read from the atoms, which drop timestamps and
+ * anchors that could not be resolved in the current DOM.
+ */
+async function exportPageAnnotationsAs(format: ExportFormat): Promise<void> {
+  const pageUrl = window.location.href;
+
+  const fetchHighlights = new Promise<WebHighlightResponse[]>((resolve, reject) => {
+    WebHighlightService.getHighlights(pageUrl, {
+      onSuccess: (response) => resolve(response.highlights),
+      onError: (_code, message) => reject(new Error(message)),
+    });
+  });
+  const fetchNotes = new Promise<WebNoteResponse[]>((resolve, reject) => {
+    WebNoteService.getWebNotes(pageUrl, {
+      onSuccess: (response) => resolve(response.notes),
+      onError: (_code, message) => reject(new Error(message)),
+    });
+  });
+
+  try {
+    const [highlights, notes] = await Promise.all([fetchHighlights, fetchNotes]);
+    if (highlights.length === 0 && notes.length === 0) {
+      showToast('No highlights or notes on this page', 'error');
+      return;
+    }
+    downloadExportFile(await exportPageAnnotations(highlights, notes, { url: pageUrl, title: document.title }, format));
+  } catch (error) {
+    console.error('[Content Script] Failed to export annotations:', error);
+    showToast('Failed to export highlights and notes', 'error');
+  }
+}
+
+// =============================================================================
+// ANNOTATIONS OVERVIEW
+// =============================================================================
+
+/** First DOM node of an annotation, for sorting; null when it has none on the page */
+function getPageAnnotationNode(annotation: PageAnnotation): Node | null {
+  switch (annotation.kind) {
+    case 'highlight':
+      return store.get(webHighlightsAtom).get(annotation.id)?.wrapperElements[0] ?? null;
+    case 'note':
+      return noteResolvedRanges.get(annotation.id)?.startContainer
+        ?? store.get(webNotesAtom).get(annotation.id)?.anchorSpan
+        ?? null;
+    case 'bookmark':
+      return savedParagraphs.get(annotation.id)?.range?.startContainer ?? null;
+    case 'word':
+      return store.get(wordExplanationsAtom).get(annotation.id)?.wordSpanElement ?? null;
+    case 'image':
+      return store.get(imageExplanationsAtom).get(annotation.id)?.imageElement ?? null;
+  }
+}
+
+/**
+ * Rebuild the annotations overview from highlight, note, saved paragraph, word
+ * and image state, in document order. Annotations with no DOM position (PDF
+ * highlights and notes, detached nodes) go last.
+ */
+function refreshPageAnnotations(): void {
+  const annotations: PageAnnotation[] = [];
+
+  store.get(webHighlightsAtom).forEach((highlight) => {
+    annotations.push({ kind: 'highlight', id: highlight.id, text: highlight.selectedText, color: highlight.color });
+  });
+  store.get(webNotesAtom).forEach((note) => {
+    annotations.push({ kind: 'note', id: note.id, text: note.selectedText, content: note.content });
+  });
+  savedParagraphs.forEach((state) => {
+    annotations.push({ kind: 'bookmark', id: state.id, text: state.selectedText });
+  });
+  store.get(wordExplanationsAtom).forEach((state, id) => {
+    if (state.isSaved) annotations.push({ kind: 'word', id, text: state.word });
+  });
+  store.get(imageExplanationsAtom).forEach((state) => {
+    annotations.push({
+      kind: 'image',
+      id: state.id,
+      text: state.imageElement.alt || state.streamingText.slice(0, 200),
+      imageSrc: state.imageElement.currentSrc || state.imageElement.src,
+    });
+  });
+
+  const nodes = new Map(annotations.map((annotation) => {
+    const node = getPageAnnotationNode(annotation);
+    return [annotation, node?.isConnected ? node : null];
+  }));
+  annotations.sort((a, b) => {
+    const nodeA = nodes.get(a);
+    const nodeB = nodes.get(b);
+    if (!nodeA || !nodeB) return (nodeA ? 0 : 1) - (nodeB ? 0 : 1);
+    if (nodeA === nodeB) return 0;
+    return nodeA.compareDocumentPosition(nodeB) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+
+  store.set(pageAnnotationsAtom, annotations);
+}
+
+store.sub(webHighlightsAtom, refreshPageAnnotations);
+store.sub(webNotesAtom, refreshPageAnnotations);
+store.sub(wordExplanationsAtom, refreshPageAnnotations);
+store.sub(imageExplanationsAtom, refreshPageAnnotations);
+
+/**
+ * Scroll to an annotation listed in the overview. Highlights and notes are
+ * re-resolved from their anchors in case the page has re-rendered since.
+ */
+function scrollToPageAnnotation(annotation: PageAnnotation): void {
+  switch (annotation.kind) {
+    case 'highlight': {
+      const highlight = store.get(webHighlightsAtom).get(annotation.id);
+      if (!highlight) return;
+      if (highlight.anchor.pageNumber) {
+        goToPdfPage(highlight.anchor.pageNumber);
+        return;
+      }
+      scrollToAndHighlightText(resolveAnchor(highlight.anchor) ?? rangeOfElements(highlight.wrapperElements));
+      return;
+    }
+    case 'note': {
+      const note = store.get(webNotesAtom).get(annotation.id);
+      if (!note) return;
+      if (note.anchor.pageNumber) {
+        goToPdfPage(note.anchor.pageNumber);
+        return;
+      }
+      scrollToAndHighlightText(resolveAnchor(note.anchor) ?? noteResolvedRanges.get(note.id) ?? null);
+      return;
+    }
+    case 'bookmark': {
+      const state = savedParagraphs.get(annotation.id);
+      if (!state) return;
+      scrollToAndHighlightText(state.range, state.underlineState);
+      pulseTextBackground(state.underlineState);
+      return;
+    }
+    case 'word': {
+      const element = store.get(wordExplanationsAtom).get(annotation.id)?.wordSpanElement;
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+    case 'image': {
+      const element = store.get(imageExplanationsAtom).get(annotation.id)?.imageElement;
+      if (element) scrollToAndHighlightImage(element);
+      return;
+    }
+  }
+}
+
+/** Range from the first to the last of `elements`, or null when there are none */
+function rangeOfElements(elements: HTMLElement[]): Range | null {
+  const first = elements[0];
+  const last = elements[elements.length - 1];
+  if (!first?.isConnected || !last?.isConnected) return null;
+  const range = document.createRange();
+  range.setStartBefore(first);
+  range.setEndAfter(last);
+  return range;
+}
+
+/**
+ * Remove annotations selected in the overview, each through its own delete
+ * path (outbox for highlights and notes, the API for bookmarks and words).
+ */
+function deletePageAnnotations(annotations: PageAnnotation[]): void {
+  for (const annotation of annotations) {
+    switch (annotation.kind) {
+      case 'highlight':
+        handleHighlightRemove(annotation.id);
+        break;
+      case 'note':
+        handleNoteDelete(annotation.id);
+        break;
+      case 'bookmark': {
+        const state = savedParagraphs.get(annotation.id);
+        if (state) handleRemoveSavedParagraph(state.paragraphId, state.id);
+        break;
+      }
+      case 'word':
+        if (store.get(wordExplanationsAtom).get(annotation.id)?.isSaved) {
+          handleWordBookmarkClick(annotation.id);
+        }
+        break;
+      case 'image':
+        removeImageExplanation(annotation.id);
+        break;
+    }
+  }
+  if (annotations.length > 1) {
+    showToast(`Removed ${annotations.length} annotations`, 'success');
+  }
+}
+
+/**
+ * Give highlights another colour: repaint them now and queue the change in
+ * the sync outbox.
+ */
+async function recolorPageHighlights(highlightIds: string[], color: string): Promise<void> {
+  const newHighlights = new Map(store.get(webHighlightsAtom));
+  const changed = highlightIds.filter((id) => {
+    const highlight = newHighlights.get(id);
+    if (!highlight || highlight.color?.toLowerCase() === color.toLowerCase()) return false;
+    newHighlights.set(id, { ...highlight, color, syncStatus: 'pending' });
+    return true;
+  });
+  if (changed.length === 0) return;
+  store.set(webHighlightsAtom, newHighlights);
+
+  await Promise.all(changed.map((id) => recolorHighlight(id, color)));
+  showToast(changed.length === 1 ? 'Highlight recoloured' : `${changed.length} highlights recoloured`, 'success');
+
+  const pageUrl = getAnnotationPageUrl();
+  for (const highlightId of changed) {
+    await enqueueOutboxOperation({ type: 'updateHighlight', highlightId, color, pageUrl });
+  }
+}
+
+/** Actions for the side panel's annotations overview */
+function getAnnotationActions(): AnnotationsViewActions {
+  return {
+    onScrollTo: scrollToPageAnnotation,
+    onDelete: deletePageAnnotations,
+    onRecolor: recolorPageHighlights,
+    onShare: sharePageAnnotations,
+    onUnshare: unsharePageAnnotations,
+    onExport: exportPageAnnotationsAs,
+  };
+}
+
+// =============================================================================
+// LIBRARY NAVIGATION
+// =============================================================================
+
+/** Items opened from the library longer ago than this are not scrolled to */
+const LIBRARY_TARGET_MAX_AGE_MS = 60_000;
+/** How long to wait for the item to be restored before finding it by its text */
+const LIBRARY_TARGET_RESTORE_WAIT_MS = 10_000;
+/** Snippet length for finding an item by its text */
+const LIBRARY_TARGET_SNIPPET_LENGTH = 60;
+
+const LIBRARY_TARGET_KINDS: Partial<Record<LibraryItemType, PageAnnotationKind>> = {
+  highlight: 'highlight',
+  note: 'note',
+  paragraph: 'bookmark',
+};
+
+function withoutHash(url: string): string {
+  return url.split('#')[0];
+}
+
+/**
+ * Wait until an annotation is in the overview list (restored on the page),
+ * resolving null if it does not show up in time.
+ */
+function waitForPageAnnotation(kind: PageAnnotationKind, id: string): Promise<PageAnnotation | null> {
+  const find = () => store.get(pageAnnotationsAtom).find((a) => a.kind === kind && a.id === id) ?? null;
+  const found = find();
+  if (found) return Promise.resolve(found);
+
+  return new Promise((resolve) => {
+    const finish = (annotation: PageAnnotation | null) => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      resolve(annotation);
+    };
+    const timeoutId = setTimeout(() => finish(null), LIBRARY_TARGET_RESTORE_WAIT_MS);
+    const unsubscribe = store.sub(pageAnnotationsAtom, () => {
+      const annotation = find();
+      if (annotation) finish(annotation);
+    });
+  });
+}
+
+/**
+ * Scroll to the item the user opened from the library, if it was opened on
+ * this page. Highlights, notes and paragraphs are scrolled to once they are
+ * restored; anything that is not restored (or is not restored on the page,
+ * like saved words) is found by its anchor or text instead.
+ */
+async function openPendingLibraryTarget(): Promise<void> {
+  const target = await ChromeStorage.getPendingLibraryTarget();
+  if (!target || withoutHash(target.url) !== withoutHash(getAnnotationPageUrl())) return;
+  await ChromeStorage.removePendingLibraryTarget();
+  if (Date.now() - target.openedAt > LIBRARY_TARGET_MAX_AGE_MS) return;
+  console.log('[Content Script] Opening library item:', target.type, target.id);
+
+  if (target.type === 'image') {
+    const image = Array.from(document.images).find((img) => img.currentSrc === target.imageUrl || img.src === target.imageUrl);
+    if (image) scrollToAndHighlightImage(image);
+    return;
+  }
+
+  const kind = LIBRARY_TARGET_KINDS[target.type];
+  // Saved paragraphs are listed under the id of their bookmark state
+  const annotationId = target.type === 'paragraph' ? `saved-paragraph-${target.id}` : target.id;
+  const annotation = kind ? await waitForPageAnnotation(kind, annotationId) : null;
+  if (annotation) {
+    scrollToPageAnnotation(annotation);
+    return;
+  }
+
+  if (target.anchor?.pageNumber) {
+    goToPdfPage(target.anchor.pageNumber);
+    return;
+  }
+  const range = target.anchor ? resolveAnchor(target.anchor) : null;
+  if (range) {
+    scrollToAndHighlightText(range);
+    return;
+  }
+  const text = target.text.trim();
+  locateAndPulsateText(text.slice(0, LIBRARY_TARGET_SNIPPET_LENGTH), text.slice(-LIBRARY_TARGET_SNIPPET_LENGTH));
+}
+
+// =============================================================================
+// SHARED ANNOTATIONS
+// =============================================================================
+
+/** Pages are shared by account; annotations saved while signed out stay local */
+function canShareAnnotations(): boolean {
+  return store.get(isUserLoggedInAtom);
+}
+
+/**
+ * Inject the shared annotation layer shadow host (once).
+ */
+async function injectSharedAnnotationLayer(): Promise<void> {
+  if (shadowHostExists(SHARED_ANNOTATION_HOST_ID)) return;
+
+  const { host, shadow, mountPoint } = createShadowHost({
+    id: SHARED_ANNOTATION_HOST_ID,
+    zIndex: 2147483638,
+  });
+
+  const colorVariables = await getAllColorVariables();
+  injectStyles(shadow, colorVariables, true);
+  injectStyles(shadow, authorAvatarStyles);
+  injectStyles(shadow, noteReplyThreadStyles);
+  injectStyles(shadow, sharedAnnotationLayerStyles);
+
+  document.documentElement.appendChild(host);
+  sharedAnnotationRoot = ReactDOM.createRoot(mountPoint);
+}
+
+/**
+ * Re-render author avatars for shared annotations, positioned at the rightmost
+ * edge of their ranges (re-evaluated on every call, like the note icons).
+ */
+function updateSharedAnnotationLayer(): void {
+  if (!sharedAnnotationRoot) return;
+
+  const annotations = Array.from(store.get(sharedAnnotationsAtom).values()).filter((a) => a.range);
+  const positions: Record<string, { left: number; top: number }> = {};
+  for (const { id, range } of annotations) {
+    if (!range) continue;
+    try {
+      const rects = Array.from(range.getClientRects());
+      if (rects.length > 0) {
+        positions[id] = { left: Math.max(...rects.map((r) => r.right)) + 4, top: rects[0].top };
+      }
+    } catch {
+      // Range may be detached after DOM mutations; skip it
+    }
+  }
+  if (openSharedAnnotationId && !positions[openSharedAnnotationId]) openSharedAnnotationId = null;
+
+  sharedAnnotationRoot.render(
+    React.createElement(
+      Provider,
+      { store },
+      React.createElement(SharedAnnotationLayer, {
+        annotations,
+        positions,
+        openId: openSharedAnnotationId,
+        onOpen: (id) => {
+          openSharedAnnotationId = id;
+          if (store.get(sharedAnnotationsAtom).get(id)?.kind === 'note') loadNoteReplies(id);
+          updateSharedAnnotationLayer();
+        },
+        onClose: () => {
+          openSharedAnnotationId = null;
+          updateSharedAnnotationLayer();
+        },
+        replies: store.get(noteRepliesAtom),
+        currentUserId: store.get(userAuthInfoAtom)?.user?.id ?? null,
+        onReply: replyToNote,
+        onDeleteReply: deleteNoteReply,
+      })
+    )
+  );
+}
+
+/**
+ * Resolve a shared annotation's anchor; highlights also get their marks.
+ * Returns false when the anchor is not on the page (yet).
+ */
+async function placeSharedAnnotation(annotation: SharedAnnotationState): Promise<boolean> {
+  const range = resolveAnchor(annotation.anchor);
+  if (!range) return false;
+  if (annotation.kind === 'highlight') {
+    const marks = await applySharedHighlight(
+      range,
+      annotation.id,
+      annotation.color,
+      annotation.author.name || annotation.author.email
+    );
+    if (marks.length === 0) return false;
+    // Marks replace the text nodes the range pointed into
+    const markRange = document.createRange();
+    markRange.setStartBefore(marks[0]);
+    markRange.setEndAfter(marks[marks.length - 1]);
+    annotation.range = markRange;
+  } else {
+    annotation.range = range;
+  }
+  return true;
+}
+
+/** Incremented on every load so a superseded load stops placing annotations */
+let sharedAnnotationsLoadId = 0;
+
+/**
+ * Load highlights and notes others have shared on this page and show them in
+ * the shared style. Anchors not rendered yet are retried as the page changes.
+ */
+async function loadSharedAnnotations(): Promise<void> {
+  const loadId = ++sharedAnnotationsLoadId;
+  removeSharedHighlight();
+  openSharedAnnotationId = null;
+  store.set(sharedAnnotationsAtom, new Map());
+  if (!canShareAnnotations()) return;
+
+  const pageUrl = getAnnotationPageUrl();
+  let response;
+  try {
+    response = await AnnotationShareService.getSharedAnnotations(pageUrl);
+  } catch (error) {
+    console.warn('[Content Script] Could not load shared annotations:', error);
+    return;
+  }
+  // A newer load (sign-in or sign-out meanwhile) owns the page now
+  if (loadId !== sharedAnnotationsLoadId) return;
+
+  const annotations: SharedAnnotationState[] = [
+    ...response.highlights.map((highlight) => ({
+      kind: 'highlight' as const,
+      id: highlight.id,
+      selectedText: highlight.selectedText,
+      anchor: highlight.anchor,
+      color: highlight.color,
+      content: highlight.note,
+      author: highlight.author,
+      createdAt: highlight.createdAt,
+      range: null,
+    })),
+    ...response.notes.map((note) => ({
+      kind: 'note' as const,
+      id: note.id,
+      selectedText: note.selectedText,
+      anchor: note.anchor,
+      color: null,
+      content: note.content,
+      author: note.author,
+      createdAt: note.createdAt,
+      range: null,
+    })),
+  // PDF anchors have no DOM range to draw on
+  ].filter((annotation) => !annotation.anchor.pageNumber);
+  console.log('[Content Script] Loaded', annotations.length, 'shared annotations');
+
+  const unresolved: SharedAnnotationState[] = [];
+  for (const annotation of annotations) {
+    try {
+      if (!(await placeSharedAnnotation(annotation))) unresolved.push(annotation);
+    } catch (err) {
+      console.warn('[Content Script] Error placing shared annotation, skipping:', annotation.id, err);
+    }
+  }
+  store.set(sharedAnnotationsAtom, new Map(annotations.map((annotation) => [annotation.id, annotation])));
+
+  if (unresolved.length > 0) {
+    retryUnresolvedWithObserver(async () => {
+      if (loadId !== sharedAnnotationsLoadId) return true;
+      const stillUnresolved: SharedAnnotationState[] = [];
+      for (const annotation of unresolved.splice(0)) {
+        try {
+          if (!(await placeSharedAnnotation(annotation))) stillUnresolved.push(annotation);
+        } catch {
+          stillUnresolved.push(annotation);
+        }
+      }
+      unresolved.push(...stillUnresolved);
+      store.set(sharedAnnotationsAtom, new Map(store.get(sharedAnnotationsAtom)));
+      return unresolved.length === 0;
+    });
+  }
+}
+
+/** People the signed-in user shares this page's annotations with */
+async function loadPageShares(): Promise<void> {
+  if (!canShareAnnotations()) {
+    store.set(pageSharesAtom, []);
+    return;
+  }
+  try {
+    const response = await AnnotationShareService.listPageShares(getAnnotationPageUrl());
+    store.set(pageSharesAtom, response.shares);
+  } catch (error) {
+    console.warn('[Content Script] Could not load page shares:', error);
+  }
+}
+
+/**
+ * Share this page's highlights and notes with a user, by email address or
+ * user ID. Errors are thrown for the side panel to show.
+ */
+async function sharePageAnnotations(recipient: string): Promise<void> {
+  const share = await AnnotationShareService.sharePage({
+    pageUrl: getAnnotationPageUrl(),
+    ...(recipient.includes('@') ? { sharedToEmail: recipient } : { sharedToUserId: recipient }),
+  });
+  store.set(pageSharesAtom, [...store.get(pageSharesAtom).filter((s) => s.id !== share.id), share]);
+  showToast(`Shared with ${share.sharedTo.name || share.sharedTo.email}`, 'success');
+}
+
+async function unsharePageAnnotations(shareId: string): Promise<void> {
+  await AnnotationShareService.deletePageShare(shareId);
+  store.set(pageSharesAtom, store.get(pageSharesAtom).filter((share) => share.id !== shareId));
+}
+
+/** Note IDs whose replies are being fetched, so repeated renders fetch once */
+const loadingNoteReplies = new Set<string>();
+
+async function loadNoteReplies(noteId: string): Promise<void> {
+  if (loadingNoteReplies.has(noteId)) return;
+  loadingNoteReplies.add(noteId);
+  try {
+    const response = await AnnotationShareService.listNoteReplies(noteId);
+    setNoteReplies(noteId, response.replies);
+  } catch (error) {
+    console.warn('[Content Script] Could not load note replies:', noteId, error);
+    setNoteReplies(noteId, []);
+  } finally {
+    loadingNoteReplies.delete(noteId);
+  }
+}
+
+function setNoteReplies(noteId: string, replies: NoteReplyResponse[]): void {
+  const updated = new Map(store.get(noteRepliesAtom));
+  updated.set(noteId, replies);
+  store.set(noteRepliesAtom, updated);
+}
+
+/** Post a reply on a note; errors are thrown for the reply form to show */
+async function replyToNote(noteId: string, content: string, parentReplyId?: string): Promise<void> {
+  const reply = await AnnotationShareService.createNoteReply(noteId, {
+    content,
+    ...(parentReplyId ? { parentReplyId } : {}),
+  });
+  setNoteReplies(noteId, [...(store.get(noteRepliesAtom).get(noteId) ?? []), reply]);
+}
+
+async function deleteNoteReply(noteId: string, replyId: string): Promise<void> {
+  await AnnotationShareService.deleteNoteReply(noteId, replyId);
+  setNoteReplies(noteId, (store.get(noteRepliesAtom).get(noteId) ?? []).filter((reply) => reply.id !== replyId));
+}
+
+store.sub(sharedAnnotationsAtom, updateSharedAnnotationLayer);
+store.sub(noteRepliesAtom, () => {
+  updateSharedAnnotationLayer();
+  updateNoteEditor();
+});
 
 // =============================================================================
 // KEYBOARD SHORTCUTS
 // =============================================================================
 
+// Active bindings (defaults merged with the user's overrides from Settings)
+let shortcutBindings: ShortcutBindings = resolveShortcutBindings(null);
+// True when the user switched shortcuts off for the current domain
+let shortcutsDisabledOnDomain = false;
+
+const isMacPlatform = /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+
+/** Text selection captured when a shortcut fires (before the palette steals focus) */
+interface ShortcutSelection {
+  text: string;
+  range: Range;
+  iconPosition: { x: number; y: number };
+}
+
+// Selection captured when the command palette was opened
+let commandPaletteSelection: ShortcutSelection | null = null;
+
+/**
+ * Load shortcut bindings and the per-domain disable flag from storage
+ */
+async function loadShortcutSettings(): Promise<void> {
+  const [overrides, disabledDomains] = await Promise.all([
+    ChromeStorage.getShortcutBindingOverrides(),
+    ChromeStorage.getShortcutsDisabledDomains(),
+  ]);
+  shortcutBindings = resolveShortcutBindings(overrides);
+  shortcutsDisabledOnDomain = disabledDomains.includes(extractDomain(window.location.href));
+}
+
+/**
+ * Snapshot the current page selection, with the icon position used by
+ * ContentActions (left of the containing element, level with the selection)
+ */
+function captureShortcutSelection(): ShortcutSelection | null {
+  const sel = window.getSelection();
+  if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return null;
+  const text = sel.toString().trim();
+  if (!text) return null;
+
+  const range = sel.getRangeAt(0).cloneRange();
+  let node: Node | null = range.startContainer;
+  while (node && node.nodeType !== Node.ELEMENT_NODE) node = node.parentNode;
+  const containingElement = (node as HTMLElement | null) ?? document.body;
+
+  return {
+    text,
+    range,
+    iconPosition: {
+      x: containingElement.getBoundingClientRect().left - 30,
+      y: range.getBoundingClientRect().top,
+    },
+  };
+}
+
+/**
+ * Run a shortcut/palette command
+ */
+function runShortcutCommand(id: ShortcutCommandId, selection: ShortcutSelection | null): void {
+  console.log('[Content Script] Running shortcut command:', id);
+
+  const command = SHORTCUT_COMMANDS.find((c) => c.id === id);
+  if (command?.requiresSelection && !selection) {
+    showToast('Select some text first', 'error');
+    return;
+  }
+
+  switch (id) {
+    case 'openCommandPalette':
+      openCommandPalette(selection);
+      break;
+    case 'summarisePage':
+      handleSummariseClick();
+      break;
+    case 'askAboutPage':
+      handleAskAboutPageClick();
+      break;
+    case 'newChatSession':
+      openNewChatSession();
+      setSidePanelOpen(true, 'chat');
+      break;
+    case 'translatePage':
+      handleTranslateClick();
+      break;
+    case 'toggleTranslationView':
+      if (!pageTranslationManager) {
+        showToast('Translate the page first', 'error');
+        break;
+      }
+      handleToggleView(pageViewMode === 'translated' ? 'original' : 'translated');
+      break;
+    case 'clearTranslations':
+      handleClearTranslations();
+      break;
+    case 'explainSelection':
+      handleExplainClick(selection!.text, selection!.range, selection!.iconPosition);
+      break;
+    case 'highlightSelection':
+      handleHighlightClick(selection!.text, selection!.range);
+      break;
+    case 'addNote':
+      handleNoteCreate(selection!.text, selection!.range);
+      break;
+    case 'bookmarkSelection':
+      handleContentActionsBookmarkClick(selection!.text);
+      break;
+    case 'bookmarkLink':
+      handleFabSaveUrlClick();
+      break;
+    case 'exportAnnotationsMarkdown':
+      exportPageAnnotationsAs('markdown');
+      break;
+    case 'exportAnnotationsHtml':
+      exportPageAnnotationsAs('html');
+      break;
+    case 'exportAnnotationsJson':
+      exportPageAnnotationsAs('json');
+      break;
+    case 'reviewSavedWords':
+      setSidePanelOpen(true, 'review');
+      break;
+    case 'showPageAnnotations':
+      setSidePanelOpen(true, 'annotations');
+      break;
+    case 'openSettings':
+      setSidePanelOpen(true, 'settings');
+      break;
+    case 'toggleReaderView':
+      toggleReaderView();
+      break;
+  }
+}
+
 /**
- * Setup global keyboard shortcuts:
- * - Ctrl/Cmd + M → Summarise page
- * - Ctrl/Cmd + B → Ask about page
- * - Ctrl/Cmd + K → Translate page
+ * Setup global keyboard shortcuts from the shortcut registry.
+ * Defaults: Ctrl/Cmd + M (summarise), + B (ask page), + K (translate),
+ * + Shift + P (command palette); users can rebind them in Settings.
  */
 function setupKeyboardShortcuts(): void {
+  loadShortcutSettings().catch((err) => {
+    console.warn('[Content Script] Failed to load shortcut settings:', err);
+  });
+
   // Register on window in the capture phase so our handler fires before
   // any other extension's listener. Using stopImmediatePropagation()
   // prevents other listeners on the same target from running.
   window.addEventListener('keydown', (e: KeyboardEvent) => {
-    const modifier = e.metaKey || e.ctrlKey;
-    if (!modifier) return;
+    if (shortcutsDisabledOnDomain) return;
 
-    // Ignore if user is typing in an input/textarea/contenteditable
-    const target = e.target as HTMLElement;
+    const binding = bindingFromEvent(e);
+    if (!binding) return;
+
+    // Ignore if user is typing in an input/textarea/contenteditable.
+    // composedPath() sees through shadow roots (e.g. the palette's own search box).
+    const target = (e.composedPath()[0] ?? e.target) as HTMLElement;
     if (
       target.tagName === 'INPUT' ||
       target.tagName === 'TEXTAREA' ||
@@ -12396,36 +14041,213 @@ function setupKeyboardShortcuts(): void {
       return;
     }
 
-    if (e.key === 'm' || e.key === 'M') {
-      e.preventDefault();
-      e.stopPropagation();
-      e.stopImmediatePropagation();
-      handleSummariseClick();
-    } else if (e.key === 'b' || e.key === 'B') {
-      e.preventDefault();
-      e.stopPropagation();
-      e.stopImmediatePropagation();
-      handleAskAboutPageClick();
-    } else if (e.key === 'k' || e.key === 'K') {
-      e.preventDefault();
-      e.stopPropagation();
-      e.stopImmediatePropagation();
-      handleTranslateClick();
-    }
+    const commandId = commandForBinding(shortcutBindings, binding);
+    if (!commandId) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.stopImmediatePropagation();
+    runShortcutCommand(commandId, captureShortcutSelection());
   }, true); // capture phase for highest priority
 }
 
+// =============================================================================
+// COMMAND PALETTE INJECTION
+// =============================================================================
+
+/**
+ * Open the command palette, remembering the selection it was opened with
+ */
+function openCommandPalette(selection: ShortcutSelection | null): void {
+  commandPaletteSelection = selection;
+  commandPaletteVisible = true;
+  injectCommandPalette().then(() => updateCommandPalette());
+}
+
+/**
+ * Inject Command Palette into the page with Shadow DOM
+ */
+async function injectCommandPalette(): Promise<void> {
+  if (shadowHostExists(COMMAND_PALETTE_HOST_ID)) return;
+
+  const { host, shadow, mountPoint } = createShadowHost({
+    id: COMMAND_PALETTE_HOST_ID,
+    zIndex: 2147483647,
+  });
+
+  const colorVariables = await getAllColorVariables();
+  injectStyles(shadow, colorVariables, true);
+  injectStyles(shadow, commandPaletteStyles);
+
+  document.documentElement.appendChild(host);
+  commandPaletteRoot = ReactDOM.createRoot(mountPoint);
+
+  console.log('[Content Script] Command Palette injected successfully');
+}
+
+/**
+ * Re-render the command palette with current bindings and selection state
+ */
+function updateCommandPalette(): void {
+  if (!commandPaletteRoot) return;
+
+  const commands: CommandPaletteItem[] = SHORTCUT_COMMANDS
+    .filter((c) => c.id !== 'openCommandPalette')
+    .map((c) => ({
+      id: c.id,
+      label: c.label,
+      binding: shortcutBindings[c.id],
+      disabledReason: c.requiresSelection && !commandPaletteSelection ? 'Select text first' : undefined,
+    }));
+
+  commandPaletteRoot.render(
+    React.createElement(CommandPalette, {
+      visible: commandPaletteVisible,
+      commands,
+      isMac: isMacPlatform,
+      onRun: (id: ShortcutCommandId) => runShortcutCommand(id, commandPaletteSelection),
+      onClose: handleCommandPaletteClose,
+    })
+  );
+}
+
+/**
+ * Close the palette and restore the page selection it was opened with
+ */
+function handleCommandPaletteClose(): void {
+  commandPaletteVisible = false;
+  updateCommandPalette();
+
+  if (commandPaletteSelection) {
+    const sel = window.getSelection();
+    sel?.removeAllRanges();
+    sel?.addRange(commandPaletteSelection.range);
+  }
+}
+
+/**
+ * Remove Command Palette from the page
+ */
+function removeCommandPalette(): void {
+  removeShadowHost(COMMAND_PALETTE_HOST_ID, commandPaletteRoot);
+  commandPaletteRoot = null;
+  commandPaletteVisible = false;
+  commandPaletteSelection = null;
+}
+
 // Setup keyboard shortcuts (runs once at script initialization)
 setupKeyboardShortcuts();
 
+// =============================================================================
+// READER VIEW
+// =============================================================================
+
+const readerView = new ReaderView();
+let readerPreferences: ReaderPreferencesDTO = ChromeStorage.READER_PREFERENCES_DEFAULT;
+let readerTheme: Theme = 'light';
+
+/**
+ * Open the reader view, or close it if it is open
+ */
+function toggleReaderView(): void {
+  if (readerView.isActive()) {
+    closeReaderView();
+  } else {
+    openReaderView();
+  }
+}
+
+/**
+ * Open the reader view over the page's main content
+ */
+async function openReaderView(): Promise<void> {
+  readerPreferences = await ChromeStorage.getReaderPreferences();
+  readerTheme = readerPreferences.theme ?? await getCurrentTheme();
+
+  if (!readerView.enter(readerPreferences, readerTheme)) {
+    showToast('Couldn’t find the main content on this page', 'error');
+    return;
+  }
+  await injectReaderToolbar();
+  updateReaderToolbar();
+}
+
+/**
+ * Close the reader view and return to the original page layout
+ */
+function closeReaderView(): void {
+  readerView.exit();
+  removeShadowHost(READER_TOOLBAR_HOST_ID, readerToolbarRoot);
+  readerToolbarRoot = null;
+}
+
+/**
+ * Re-read preferences and theme (changed in the toolbar or in another tab) and apply them
+ */
+async function refreshReaderView(): Promise<void> {
+  if (!readerView.isActive()) return;
+  readerPreferences = await ChromeStorage.getReaderPreferences();
+  readerTheme = readerPreferences.theme ?? await getCurrentTheme();
+  readerView.applyPreferences(readerPreferences, readerTheme);
+  updateReaderToolbar();
+}
+
+/**
+ * Inject the Reader Toolbar into the page with Shadow DOM
+ */
+async function injectReaderToolbar(): Promise<void> {
+  if (shadowHostExists(READER_TOOLBAR_HOST_ID)) return;
+
+  const { host, shadow, mountPoint } = createShadowHost({
+    id: READER_TOOLBAR_HOST_ID,
+    zIndex: 2147483646,
+  });
+
+  const colorVariables = await getAllColorVariables();
+  injectStyles(shadow, colorVariables, true);
+  injectStyles(shadow, readerToolbarStyles);
+
+  document.documentElement.appendChild(host);
+  readerToolbarRoot = ReactDOM.createRoot(mountPoint);
+
+  console.log('[Content Script] Reader Toolbar injected successfully');
+}
+
+function updateReaderToolbar(): void {
+  if (!readerToolbarRoot) return;
+
+  readerToolbarRoot.render(
+    React.createElement(ReaderToolbar, {
+      visible: readerView.isActive(),
+      preferences: readerPreferences,
+      theme: readerTheme,
+      onChange: (preferences: ReaderPreferencesDTO) => {
+        // Apply immediately; the storage listener re-applies the same values in every tab
+        readerPreferences = preferences;
+        readerTheme = preferences.theme ?? readerTheme;
+        readerView.applyPreferences(readerPreferences, readerTheme);
+        updateReaderToolbar();
+        ChromeStorage.setReaderPreferences(preferences);
+      },
+      onClose: closeReaderView,
+    })
+  );
+}
+
 // =============================================================================
 // SAVED PARAGRAPH ICONS INJECTION
 // =============================================================================
 
 /**
- * Add saved paragraph icons and underline after successful save
+ * Add saved paragraph icons and underline after successful save, or when a
+ * bookmark is restored on page load (which leaves the user's selection alone)
  */
-async function addSavedParagraphIcons(paragraphId: string, selectedText: string, range: Range): Promise<void> {
+async function addSavedParagraphIcons(
+  paragraphId: string,
+  selectedText: string,
+  range: Range,
+  clearSelection = true
+): Promise<void> {
   console.log('[Content Script] Adding saved paragraph icons for paragraph:', paragraphId);
   
   // Calculate icon position
@@ -12481,13 +14303,16 @@ async function addSavedParagraphIcons(paragraphId: string, selectedText: string,
   updateSavedParagraphIconContainer();
   
   // Clear text selection
-  window.getSelection()?.removeAllRanges();
+  if (clearSelection) {
+    window.getSelection()?.removeAllRanges();
+  }
 }
 
 /**
  * Update saved paragraph icon container
  */
 function updateSavedParagraphIconContainer(): void {
+  refreshPageAnnotations();
   if (!savedParagraphIconRoot) return;
   
   // If no saved paragraphs, don't render anything
@@ -12742,39 +14567,157 @@ store.sub(activePanelWidthAtom, () => {
 });
 
 // =============================================================================
-// PAGE REFRESH GUARD — intercept keyboard shortcuts to show a custom dialog
+// WEBPAGE CHAT SESSION PERSISTENCE
 // =============================================================================
-// We intentionally do NOT use window.beforeunload because:
-//   • The browser's native "Changes you made may not be saved" message is misleading
-//     (highlights and notes ARE saved permanently — only chat sessions are transient).
-//   • We show a custom dialog instead that accurately describes what will be lost.
-// Keyboard shortcut interception covers F5, Ctrl/Cmd+R, and Ctrl/Cmd+Shift+R.
-// Toolbar refresh-button clicks cannot be intercepted in a content script without
-// beforeunload — those will simply reload without a warning (acceptable trade-off).
+// Chat sessions are stored per normalized page URL by the background worker so
+// a reload restores them. When the user enables session sync in Settings (and
+// is logged in) they are also pushed to / pulled from the backend, under the
+// same normalized URL, so the same sessions appear in another browser.
+
+const CHAT_SESSION_PERSIST_DEBOUNCE_MS = 800;
+
+// Page the restored sessions belong to. Captured once at restore time so SPA
+// navigations keep writing to the page the conversation started on.
+let chatSessionsPageUrl: string | null = null;
+let chatSessionsPageUrlHash: string | null = null;
+// True when a record exists (locally or remotely) that must be cleared once
+// every session is emptied.
+let chatSessionsStored = false;
+let chatSessionPersistTimer: number | null = null;
+
+async function isChatSessionSyncActive(): Promise<boolean> {
+  const [enabled, authInfo] = await Promise.all([
+    ChromeStorage.getWebpageChatSessionSyncEnabled(),
+    ChromeStorage.getAuthInfo(),
+  ]);
+  return enabled && !!authInfo?.accessToken && !!authInfo?.isLoggedIn;
+}
+
+function fetchRemoteChatSessions(pageUrl: string): Promise<GetWebpageChatSessionsResponse | null> {
+  return new Promise((resolve) => {
+    WebpageChatSessionService.getSessions(pageUrl, {
+      onSuccess: (response) => resolve(response),
+      onError: (errorCode, errorMessage) => {
+        console.warn('[Content Script] Failed to fetch synced chat sessions:', errorCode, errorMessage);
+        resolve(null);
+      },
+    });
+  });
+}
+
+/**
+ * Load persisted chat sessions for the current page (local, merged with the
+ * backend copy when sync is on) into the Jotai store.
+ */
+async function restoreWebpageChatSessions(): Promise<void> {
+  const pageUrl = normalizeUrl(window.location.href);
+  const pageUrlHash = await hashPageUrl(window.location.href);
+  const local = await getChatSessions(pageUrlHash);
 
-function handleChatRefreshKeydown(e: KeyboardEvent): void {
-  const isF5 = e.key === 'F5';
-  const isCtrlR = (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'r';
-  if (!isF5 && !isCtrlR) return;
+  let persisted = local?.sessions ?? [];
+  let activeSessionId = local?.activeSessionId ?? null;
 
-  if (!store.get(webpageChatHasConversationAtom)) return;
+  if (await isChatSessionSyncActive()) {
+    const remote = await fetchRemoteChatSessions(pageUrl);
+    if (remote && remote.sessions.length > 0) {
+      persisted = mergeChatSessions(persisted, remote.sessions);
+      const remoteUpdatedAt = remote.updatedAt ? Date.parse(remote.updatedAt) : 0;
+      const localUpdatedAt = local ? Date.parse(local.updatedAt) : 0;
+      if (remote.activeSessionId && remoteUpdatedAt > localUpdatedAt) {
+        activeSessionId = remote.activeSessionId;
+      }
+    }
+  }
+
+  chatSessionsPageUrl = pageUrl;
+  chatSessionsPageUrlHash = pageUrlHash;
+  chatSessionsStored = persisted.length > 0;
+  if (persisted.length === 0) return;
+
+  const restored = persisted.map(fromPersistedSession);
+
+  // The user may already have started chatting while we were loading —
+  // keep their live sessions and append the restored ones after them.
+  if (store.get(webpageChatHasConversationAtom)) {
+    const current = store.get(webpageChatSessionsAtom);
+    const currentIds = new Set(current.map((s) => s.id));
+    store.set(webpageChatSessionsAtom, [
+      ...current,
+      ...restored.filter((s) => !currentIds.has(s.id)),
+    ]);
+  } else {
+    store.set(webpageChatSessionsAtom, restored);
+    const active = restored.find((s) => s.id === activeSessionId)
+      ?? restored.reduce((a, b) => (b.lastUsedAt > a.lastUsedAt ? b : a));
+    store.set(webpageChatActiveSessionIdAtom, active.id);
+  }
 
-  e.preventDefault();
-  e.stopPropagation();
-  store.set(webpageChatShowRefreshWarningAtom, true);
+  console.log('[Content Script] Restored', restored.length, 'chat session(s) for this page');
 }
 
-let refreshKeydownAttached = false;
+/**
+ * Store the current sessions (and push them to the backend when sync is on).
+ * Pages where every session is empty are not stored; an existing record is cleared.
+ */
+async function persistWebpageChatSessions(): Promise<void> {
+  if (!chatSessionsPageUrl || !chatSessionsPageUrlHash) return;
 
-store.sub(webpageChatHasConversationAtom, () => {
+  const pageUrl = chatSessionsPageUrl;
+  const pageUrlHash = chatSessionsPageUrlHash;
   const hasConversation = store.get(webpageChatHasConversationAtom);
-  if (hasConversation && !refreshKeydownAttached) {
-    window.addEventListener('keydown', handleChatRefreshKeydown, true);
-    refreshKeydownAttached = true;
-  } else if (!hasConversation && refreshKeydownAttached) {
-    window.removeEventListener('keydown', handleChatRefreshKeydown, true);
-    refreshKeydownAttached = false;
+  if (!hasConversation && !chatSessionsStored) return;
+
+  const activeSessionId = store.get(webpageChatActiveSessionIdAtom);
+  const sessions = hasConversation
+    ? store.get(webpageChatSessionsAtom).map(toPersistedSession)
+    : [];
+
+  if (hasConversation) {
+    await putChatSessions({
+      pageUrlHash,
+      pageUrl,
+      activeSessionId,
+      sessions,
+      updatedAt: new Date().toISOString(),
+    });
+  } else {
+    await deleteChatSessions(pageUrlHash);
+  }
+  chatSessionsStored = hasConversation;
+
+  if (await isChatSessionSyncActive()) {
+    WebpageChatSessionService.saveSessions(
+      { pageUrl, activeSessionId, sessions },
+      {
+        onSuccess: () => {},
+        onError: (errorCode, errorMessage) => {
+          console.warn('[Content Script] Failed to sync chat sessions:', errorCode, errorMessage);
+        },
+      }
+    );
   }
+}
+
+function schedulePersistWebpageChatSessions(): void {
+  // Nothing is written until the restore has run, so the empty initial
+  // session can never overwrite a stored conversation.
+  if (!chatSessionsPageUrlHash) return;
+  if (chatSessionPersistTimer !== null) clearTimeout(chatSessionPersistTimer);
+  chatSessionPersistTimer = window.setTimeout(() => {
+    chatSessionPersistTimer = null;
+    persistWebpageChatSessions();
+  }, CHAT_SESSION_PERSIST_DEBOUNCE_MS);
+}
+
+store.sub(webpageChatSessionsAtom, schedulePersistWebpageChatSessions);
+store.sub(webpageChatActiveSessionIdAtom, schedulePersistWebpageChatSessions);
+
+// Flush a pending debounced write before the page goes away (reload / navigation)
+window.addEventListener('pagehide', () => {
+  if (chatSessionPersistTimer === null) return;
+  clearTimeout(chatSessionPersistTimer);
+  chatSessionPersistTimer = null;
+  persistWebpageChatSessions();
 });
 
 // Debounce timer for theme refresh to prevent duplicate calls
@@ -12851,6 +14794,7 @@ async function refreshThemeInAllShadowRoots(): Promise<void> {
           SUBSCRIPTION_MODAL_HOST_ID,
           FEATURE_REQUEST_MODAL_HOST_ID,
           WELCOME_MODAL_HOST_ID,
+          COMMAND_PALETTE_HOST_ID,
           YOUTUBE_ASK_AI_BUTTON_HOST_ID,
           SAVED_PARAGRAPH_ICON_HOST_ID,
         ];
@@ -12977,6 +14921,33 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
     }
   }
   
+  // Saved-word review deck changed (a review, a save or a sync in any tab)
+  if (areaName === 'local' && changes[ChromeStorage.KEYS.WORD_REVIEW_DECK] && fabRoot) {
+    refreshWordReviewDueCount();
+  }
+
+  // Listen for shortcut binding / per-domain disable changes made in Settings
+  if (
+    areaName === 'local' &&
+    (changes[ChromeStorage.KEYS.SHORTCUT_BINDINGS] || changes[ChromeStorage.KEYS.SHORTCUTS_DISABLED_DOMAINS])
+  ) {
+    loadShortcutSettings().catch((err) => {
+      console.warn('[Content Script] Failed to reload shortcut settings:', err);
+    });
+  }
+
+  // Listen for content extraction rule changes made in Settings (any tab)
+  if (areaName === 'local' && changes[ChromeStorage.KEYS.SITE_EXTRACTION_RULES]) {
+    loadSiteExtractionRule().catch((err) => {
+      console.warn('[Content Script] Failed to reload site extraction rule:', err);
+    });
+  }
+
+  // Reader view typography or theme changed (toolbar in this or another tab)
+  if (areaName === 'local' && changes[ChromeStorage.KEYS.READER_PREFERENCES]) {
+    refreshReaderView();
+  }
+
   // Listen for theme changes
   if (areaName === 'local') {
     const themeKeys = [
@@ -12997,6 +14968,7 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
       });
       
       refreshThemeInAllShadowRoots();
+      refreshReaderView();
     }
   }
 });
@@ -13016,16 +14988,23 @@ window.addEventListener('message', (event: MessageEvent) => {
     }
     
     // Check if this is a transcript message
-    if (event.data && event.data.type === 'XPLAINO_YOUTUBE_TRANSCRIPT') {
-      const segments = event.data.segments;
-      console.log('[Content Script] Received YouTube transcript segments:', segments);
+    if (event.data && event.data.type === YOUTUBE_TRANSCRIPT_MESSAGE) {
+      const { videoId, segments, chapters, tracks, trackId } = event.data;
       console.log('[Content Script] Number of segments:', segments?.length || 0);
+
+      // A late answer for a video we navigated away from
+      if (videoId !== getYouTubeVideoId()) {
+        console.log('[Content Script] Ignoring transcript for another video:', videoId);
+        return;
+      }
       
-      // Update the atom with the segments
-      store.set(youtubeTranscriptSegmentsAtom, segments);
-      
-      // Console log the segments as requested
-      console.log('[Content Script] YouTube transcript segments saved to state:', segments);
+      // Video and chapters first: waiters subscribe to the segments atom
+      store.set(youtubeTranscriptVideoIdAtom, videoId);
+      store.set(youtubeChapterMarkersAtom, Array.isArray(chapters) ? chapters : []);
+      store.set(youtubeCaptionTracksAtom, Array.isArray(tracks) ? tracks : []);
+      store.set(youtubeCaptionTrackIdAtom, typeof trackId === 'string' ? trackId : null);
+      store.set(youtubeTranscriptSegmentsAtom, Array.isArray(segments) ? segments : []);
+      handleYouTubeTranscriptChanged();
     }
   } catch (error) {
     console.error('[Content Script] Error handling transcript message:', error);
@@ -13084,6 +15063,11 @@ if (isYouTubePage()) {
   // Also listen for YouTube's custom navigation events
   document.addEventListener('yt-navigate-start', () => {
     removeYouTubeAskAIButton();
+    // Transcript and summary belong to the video being left
+    store.set(youtubeTranscriptSegmentsAtom, null);
+    store.set(youtubeTranscriptVideoIdAtom, null);
+    store.set(youtubeChapterMarkersAtom, []);
+    store.set(summaryAtom, '');
   });
   
   document.addEventListener('yt-navigate-finish', () => {
@@ -0,0 +1,100 @@
+// src/content/utils/chatSessionStore.ts
+// Content-side access to persisted "Chat with Webpage" sessions, plus the
+// conversions between live and stored sessions. The records are kept by the
+// background worker; each read or write is a message round trip.
+
+import type { ChatSession } from '@/store/webpageChatAtoms';
+import type { WebpageChatSessionPayload } from '@/api-services/dto/WebpageChatSessionDTO';
+import type { ChatSessionRequest, StoredChatSessions } from '@/storage/indexed-db/chatSessionStore';
+
+export type { StoredChatSessions } from '@/storage/indexed-db/chatSessionStore';
+
+/** Message type handled by the background worker */
+export const CHAT_SESSIONS_MESSAGE = 'CHAT_SESSIONS';
+
+function send<T>(request: ChatSessionRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type: CHAT_SESSIONS_MESSAGE, request }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Extension messaging failed'));
+        return;
+      }
+      if (!response?.success) {
+        reject(new Error(response?.error || 'Chat session request failed'));
+        return;
+      }
+      resolve(response.data as T);
+    });
+  });
+}
+
+export async function getChatSessions(urlHash: string): Promise<StoredChatSessions | null> {
+  try {
+    return await send<StoredChatSessions | null>({ op: 'get', urlHash });
+  } catch (err) {
+    console.warn('[ChatSessionStore] getChatSessions failed:', err);
+    return null;
+  }
+}
+
+export async function putChatSessions(record: StoredChatSessions): Promise<void> {
+  try {
+    await send({ op: 'put', record });
+  } catch (err) {
+    console.warn('[ChatSessionStore] putChatSessions failed:', err);
+  }
+}
+
+export async function deleteChatSessions(urlHash: string): Promise<void> {
+  try {
+    await send({ op: 'delete', urlHash });
+  } catch (err) {
+    console.warn('[ChatSessionStore] deleteChatSessions failed:', err);
+  }
+}
+
+// =============================================================================
+// Conversion helpers
+// =============================================================================
+
+/** Drop transient UI state (live <mark> highlights, unconsumed annotation) before persisting */
+export function toPersistedSession(session: ChatSession): WebpageChatSessionPayload {
+  return {
+    id: session.id,
+    name: session.name,
+    messages: session.messages,
+    history: session.history,
+    citationMap: session.citationMap,
+    googleDocsTabScope: session.googleDocsTabScope,
+    lastUsedAt: session.lastUsedAt,
+  };
+}
+
+export function fromPersistedSession(session: WebpageChatSessionPayload): ChatSession {
+  return {
+    ...session,
+    googleDocsTabScope: session.googleDocsTabScope ?? 'current',
+    lastUsedAt: session.lastUsedAt ?? 0,
+    activeCitations: [],
+    pendingAnnotation: null,
+  };
+}
+
+/**
+ * Merge local and remote session lists by session id.
+ * When both sides have the same session, the one used most recently wins.
+ * Result is ordered by creation (first-seen order: local, then remote-only).
+ */
+export function mergeChatSessions(
+  local: WebpageChatSessionPayload[],
+  remote: WebpageChatSessionPayload[]
+): WebpageChatSessionPayload[] {
+  const byId = new Map<string, WebpageChatSessionPayload>();
+  for (const s of [...local, ...remote]) {
+    const existing = byId.get(s.id);
+    if (!existing || (s.lastUsedAt ?? 0) > (existing.lastUsedAt ?? 0)) {
+      byId.set(s.id, s);
+    }
+  }
+  return Array.from(byId.values());
+}
@@ -603,3 +603,44 @@ export function parseAnswerCitations(answer: string): ParsedAnswer {
 
   return { parsedText, citations };
 }
+
+/** Percent-encode a text directive term (the directive syntax reserves "-", "," and "&") */
+function encodeTextDirectiveTerm(term: string): string {
+  return encodeURIComponent(term).replace(/-/g, '%2D');
+}
+
+/**
+ * Build a URL that opens a cited chunk's source page scrolled to the passage,
+ * using a Text Fragment (`#:~:text=start,end`). Snippets are trimmed to whole
+ * words because fragment matching is word-bounded. PDF citations open at
+ * `#page=N` instead, since the PDF viewer ignores text fragments, and
+ * YouTube transcript citations open the video at `t=Ns`.
+ * Returns null when the citation does not point at another page.
+ */
+export function buildCitationSourceUrl(citation: CitationDetail): string | null {
+  if (!citation.sourceUrl) return null;
+
+  if (citation.startTime !== undefined) {
+    const url = new URL(citation.sourceUrl);
+    url.searchParams.set('t', `${Math.floor(citation.startTime)}s`);
+    return url.toString();
+  }
+
+  // PDF chunks have a page but no DOM position (Google Docs chunks also carry a tab)
+  if (citation.pageNumber && !citation.startXPath && !citation.tabId) {
+    const url = new URL(citation.sourceUrl);
+    url.hash = `page=${citation.pageNumber}`;
+    return url.toString();
+  }
+
+  const start = citation.textSnippetStart.trim().replace(/\s+\S*$/, '');
+  const end = citation.textSnippetEnd.trim().replace(/^\S*\s+/, '');
+  if (!start) return citation.sourceUrl;
+
+  const url = new URL(citation.sourceUrl);
+  url.hash = '';
+  const directive = end && end !== start
+    ? `${encodeTextDirectiveTerm(start)},${encodeTextDirectiveTerm(end)}`
+    : encodeTextDirectiveTerm(start);
+  return `${url.toString()}#:~:text=${directive}`;
+}
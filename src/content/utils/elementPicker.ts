@@ -0,0 +1,165 @@
+// src/content/utils/elementPicker.ts
+// Visual element picker: hover to outline an element, click to choose it.
+// Arrow Up widens the choice to the parent, Arrow Down narrows it back, Escape cancels.
+
+import { COLORS } from '../../constants/colors';
+import { isExtensionElement } from './pageContentExtractor';
+
+export interface ElementPickerOptions {
+  /** Instruction shown at the top of the page while picking */
+  hint: string;
+  onPick: (element: Element) => void;
+  onCancel?: () => void;
+}
+
+const OVERLAY_Z_INDEX = '2147483646';
+
+function createOverlay(): HTMLDivElement {
+  const overlay = document.createElement('div');
+  overlay.id = 'xplaino-element-picker-outline';
+  const style = overlay.style;
+  style.setProperty('position', 'fixed', 'important');
+  style.setProperty('pointer-events', 'none', 'important');
+  style.setProperty('z-index', OVERLAY_Z_INDEX, 'important');
+  style.setProperty('border', `2px solid ${COLORS.PRIMARY}`, 'important');
+  style.setProperty('background', 'rgba(13, 128, 112, 0.12)', 'important');
+  style.setProperty('border-radius', '4px', 'important');
+  style.setProperty('transition', 'all 60ms ease-out', 'important');
+  style.setProperty('display', 'none', 'important');
+  return overlay;
+}
+
+function createHintBar(text: string): HTMLDivElement {
+  const hint = document.createElement('div');
+  hint.id = 'xplaino-element-picker-hint';
+  hint.textContent = `${text} · ↑ wider · ↓ narrower · Esc to cancel`;
+  const style = hint.style;
+  style.setProperty('position', 'fixed', 'important');
+  style.setProperty('top', '12px', 'important');
+  style.setProperty('left', '50%', 'important');
+  style.setProperty('transform', 'translateX(-50%)', 'important');
+  style.setProperty('z-index', OVERLAY_Z_INDEX, 'important');
+  style.setProperty('padding', '8px 14px', 'important');
+  style.setProperty('border-radius', '8px', 'important');
+  style.setProperty('background', COLORS.PRIMARY, 'important');
+  style.setProperty('color', '#FFFFFF', 'important');
+  style.setProperty('font', '13px/1.4 system-ui, sans-serif', 'important');
+  style.setProperty('pointer-events', 'none', 'important');
+  style.setProperty('box-shadow', '0 4px 12px rgba(0, 0, 0, 0.2)', 'important');
+  return hint;
+}
+
+/** The page element under the pointer, ignoring the extension's own UI */
+function pageElementFromEvent(event: MouseEvent): Element | null {
+  const target = event.composedPath()[0];
+  if (!(target instanceof Element)) return null;
+  for (let el: Element | null = target; el; el = el.parentElement) {
+    if (isExtensionElement(el)) return null;
+  }
+  if (target === document.documentElement || target === document.body) return null;
+  return target;
+}
+
+/**
+ * Start picking. Returns a function that stops the picker without choosing.
+ */
+export function startElementPicker(options: ElementPickerOptions): () => void {
+  const overlay = createOverlay();
+  const hintBar = createHintBar(options.hint);
+  document.documentElement.append(overlay, hintBar);
+
+  let current: Element | null = null;
+  /** Elements passed through with Arrow Up, for Arrow Down */
+  let narrowerStack: Element[] = [];
+  let stopped = false;
+
+  const highlight = (element: Element | null) => {
+    current = element;
+    if (!element) {
+      overlay.style.setProperty('display', 'none', 'important');
+      return;
+    }
+    const rect = element.getBoundingClientRect();
+    overlay.style.setProperty('display', 'block', 'important');
+    overlay.style.setProperty('top', `${rect.top}px`, 'important');
+    overlay.style.setProperty('left', `${rect.left}px`, 'important');
+    overlay.style.setProperty('width', `${rect.width}px`, 'important');
+    overlay.style.setProperty('height', `${rect.height}px`, 'important');
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    document.removeEventListener('mousemove', onMouseMove, true);
+    document.removeEventListener('mousedown', swallow, true);
+    document.removeEventListener('mouseup', swallow, true);
+    document.removeEventListener('click', onClick, true);
+    window.removeEventListener('keydown', onKeyDown, true);
+    window.removeEventListener('scroll', onScroll, true);
+    overlay.remove();
+    hintBar.remove();
+  };
+
+  const pick = () => {
+    const picked = current;
+    stop();
+    if (picked) options.onPick(picked);
+    else options.onCancel?.();
+  };
+
+  const onMouseMove = (event: MouseEvent) => {
+    const element = pageElementFromEvent(event);
+    if (element === null || element === current || narrowerStack.includes(element)) return;
+    narrowerStack = [];
+    highlight(element);
+  };
+
+  const swallow = (event: MouseEvent) => {
+    if (!pageElementFromEvent(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const onClick = (event: MouseEvent) => {
+    if (!pageElementFromEvent(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    pick();
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      stop();
+      options.onCancel?.();
+    } else if (event.key === 'Enter' && current) {
+      event.preventDefault();
+      event.stopPropagation();
+      pick();
+    } else if (event.key === 'ArrowUp' && current) {
+      event.preventDefault();
+      event.stopPropagation();
+      const parent = current.parentElement;
+      if (parent && parent !== document.body && parent !== document.documentElement) {
+        narrowerStack.push(current);
+        highlight(parent);
+      }
+    } else if (event.key === 'ArrowDown' && narrowerStack.length > 0) {
+      event.preventDefault();
+      event.stopPropagation();
+      highlight(narrowerStack.pop() ?? null);
+    }
+  };
+
+  const onScroll = () => highlight(current);
+
+  document.addEventListener('mousemove', onMouseMove, true);
+  document.addEventListener('mousedown', swallow, true);
+  document.addEventListener('mouseup', swallow, true);
+  document.addEventListener('click', onClick, true);
+  window.addEventListener('keydown', onKeyDown, true);
+  window.addEventListener('scroll', onScroll, true);
+
+  return stop;
+}
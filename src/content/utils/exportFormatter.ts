@@ -0,0 +1,459 @@
+// src/content/utils/exportFormatter.ts
+// Builds Markdown, standalone HTML and JSON exports of chat sessions, the Summary tab
+// and page annotations, and downloads them as files.
+
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import type { ChatSession } from '@/store/webpageChatAtoms';
+import type { ChatMessage } from '@/store/summaryAtoms';
+import type { CitationDetail } from '@/api-services/WebpageChatService';
+import type { WebNoteResponse } from '@/api-services/dto/WebNoteDTO';
+import type { AnchorData, WebHighlightResponse } from '@/api-services/dto/WebHighlightDTO';
+import { CITE_PATTERN } from './citationManager';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'json', label: 'JSON' },
+];
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/** The page an export was taken from */
+export interface ExportPage {
+  url: string;
+  title: string;
+}
+
+/** Written as YAML front matter (Markdown), a header block (HTML) or `meta` (JSON) */
+interface ExportMeta {
+  title: string;
+  pageUrl: string;
+  pageTitle: string;
+  exportedAt: string;
+  /** Newest timestamp among the exported items, when known */
+  updatedAt?: string;
+}
+
+/** A quoted passage that a numbered [N] marker in the body points to */
+interface ExportReference {
+  number: number;
+  quote: string;
+  sourceUrl?: string;
+  sourceTitle?: string;
+}
+
+interface ExportDocument {
+  kind: 'chat' | 'summary' | 'annotations';
+  meta: ExportMeta;
+  /** Body as Markdown; also rendered for the HTML export */
+  markdown: string;
+  /** Structured payload for the JSON export */
+  data: Record<string, unknown>;
+}
+
+// Summary ref format: [[[ref:("id1","id2")]]] or [[[ref:("id1")]]]
+export const SUMMARY_REF_PATTERN = /\[\[\[ref:\s*\(([^)]*)\)\]\]\]/g;
+// Ask ref format: [[[(N)substring]]] where N is the block number (same as our sequential ID)
+export const SUMMARY_ASK_REF_PATTERN = /\[\[\[\((\d+)\)([\s\S]*?)\]\]\]/g;
+
+const QUOTE_MAX_LENGTH = 300;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toQuote(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > QUOTE_MAX_LENGTH
+    ? collapsed.slice(0, QUOTE_MAX_LENGTH).trimEnd() + '…'
+    : collapsed;
+}
+
+function citationQuote(citation: CitationDetail): string {
+  if (citation.text) return toQuote(citation.text);
+  return toQuote(`${citation.textSnippetStart} … ${citation.textSnippetEnd}`);
+}
+
+/** Prefix every line with "> " so multi-line text stays inside one blockquote */
+function blockquote(text: string): string {
+  return text.split('\n').map((line) => `> ${line}`).join('\n');
+}
+
+function referenceMarker(numbers: number[]): string {
+  return numbers.map((n) => `\\[${n}\\]`).join('');
+}
+
+function referencesMarkdown(references: ExportReference[]): string {
+  if (references.length === 0) return '';
+  const entries = references.map((ref) => {
+    const source = ref.sourceUrl ? ` [${ref.sourceTitle || ref.sourceUrl}](${ref.sourceUrl})` : '';
+    return `**${referenceMarker([ref.number])}**${source}\n\n${blockquote(ref.quote)}`;
+  });
+  return `## Sources\n\n${entries.join('\n\n')}`;
+}
+
+function latest(timestamps: string[]): string | undefined {
+  return timestamps.reduce<string | undefined>((max, t) => (!max || t > max ? t : max), undefined);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'page';
+}
+
+// =============================================================================
+// Renderers
+// =============================================================================
+
+function frontMatter(meta: ExportMeta): string {
+  const lines = [
+    `title: ${JSON.stringify(meta.title)}`,
+    `source: ${JSON.stringify(meta.pageUrl)}`,
+    `page_title: ${JSON.stringify(meta.pageTitle)}`,
+    `exported_at: ${JSON.stringify(meta.exportedAt)}`,
+  ];
+  if (meta.updatedAt) lines.push(`updated_at: ${JSON.stringify(meta.updatedAt)}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+async function renderHtml(doc: ExportDocument): Promise<string> {
+  const { meta } = doc;
+  // Loaded on demand so the server renderer is only fetched when an HTML export runs
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(
+    React.createElement(ReactMarkdown, { remarkPlugins: [remarkBreaks] }, doc.markdown)
+  );
+  const rows = [
+    `<dt>Source</dt><dd><a href="${escapeHtml(meta.pageUrl)}">${escapeHtml(meta.pageTitle || meta.pageUrl)}</a></dd>`,
+    `<dt>Exported</dt><dd><time datetime="${meta.exportedAt}">${meta.exportedAt}</time></dd>`,
+  ];
+  if (meta.updatedAt) {
+    rows.push(`<dt>Updated</dt><dd><time datetime="${meta.updatedAt}">${meta.updatedAt}</time></dd>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="source" content="${escapeHtml(meta.pageUrl)}">
+<meta name="exported-at" content="${meta.exportedAt}">
+<title>${escapeHtml(meta.title)}</title>
+<style>
+body { max-width: 760px; margin: 40px auto; padding: 0 16px; font-family: system-ui, sans-serif; line-height: 1.6; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 24px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; font-size: 14px; }
+dt { font-weight: 600; }
+dd { margin: 0; word-break: break-all; }
+blockquote { margin: 8px 0; padding: 4px 12px; border-left: 3px solid #d0d7de; color: #57606a; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(meta.title)}</h1>
+<dl>${rows.join('')}</dl>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+async function renderExport(doc: ExportDocument, format: ExportFormat): Promise<ExportFile> {
+  const date = doc.meta.exportedAt.slice(0, 10);
+  const basename = `xplaino-${doc.kind}-${slugify(doc.meta.pageTitle || doc.meta.title)}-${date}`;
+
+  switch (format) {
+    case 'markdown':
+      return {
+        filename: `${basename}.md`,
+        mimeType: 'text/markdown;charset=utf-8',
+        content: frontMatter(doc.meta) + doc.markdown + '\n',
+      };
+    case 'html':
+      return {
+        filename: `${basename}.html`,
+        mimeType: 'text/html;charset=utf-8',
+        content: await renderHtml(doc),
+      };
+    case 'json':
+      return {
+        filename: `${basename}.json`,
+        mimeType: 'application/json;charset=utf-8',
+        content: JSON.stringify({ meta: doc.meta, ...doc.data }, null, 2),
+      };
+  }
+}
+
+// =============================================================================
+// Chat session
+// =============================================================================
+
+/**
+ * Export a webpage chat session. Inline [[cite:…]] markers become numbered
+ * references whose quoted snippets are listed under "Sources".
+ */
+export function exportChatSession(
+  session: ChatSession,
+  page: ExportPage,
+  format: ExportFormat
+): Promise<ExportFile> {
+  const references: ExportReference[] = [];
+  const numberByChunkId = new Map<string, number>();
+
+  const resolveCitations = (text: string, citationMap: Record<string, CitationDetail>) => {
+    const numbers: number[] = [];
+    const resolved = text.replace(CITE_PATTERN, (_match, raw: string) => {
+      const markerNumbers: number[] = [];
+      for (const chunkId of raw.split(',').map((id) => id.trim())) {
+        const citation = citationMap[chunkId] ?? session.citationMap[chunkId];
+        if (!citation) continue;
+        let number = numberByChunkId.get(chunkId);
+        if (number === undefined) {
+          number = references.length + 1;
+          numberByChunkId.set(chunkId, number);
+          references.push({
+            number,
+            quote: citationQuote(citation),
+            sourceUrl: citation.sourceUrl,
+            sourceTitle: citation.sourceTitle,
+          });
+        }
+        markerNumbers.push(number);
+      }
+      numbers.push(...markerNumbers);
+      return markerNumbers.length > 0 ? ` ${referenceMarker(markerNumbers)}` : '';
+    });
+    return { text: resolved, numbers };
+  };
+
+  const blocks: string[] = [`# ${session.name}`];
+  const messages: Record<string, unknown>[] = [];
+
+  for (const message of session.messages) {
+    if (message.type === 'annotation' && message.annotation) {
+      blocks.push(blockquote(message.annotation.selectedText));
+      messages.push({ role: 'annotation', text: message.annotation.selectedText });
+    } else if (message.type === 'user' && message.content) {
+      const image = message.imageContext ? ` _(about an image: ${message.imageContext.imageUrl})_` : '';
+      blocks.push(`**You:** ${message.content}${image}`);
+      messages.push({ role: 'user', text: message.content, imageUrl: message.imageContext?.imageUrl });
+    } else if (message.type === 'assistant' && message.content) {
+      const { text, numbers } = resolveCitations(message.content, message.citationMap ?? {});
+      blocks.push(`**Xplaino:**\n\n${text}`);
+      messages.push({ role: 'assistant', text, references: numbers });
+    }
+  }
+
+  const sources = referencesMarkdown(references);
+  if (sources) blocks.push(sources);
+
+  return renderExport(
+    {
+      kind: 'chat',
+      meta: {
+        title: session.name,
+        pageUrl: page.url,
+        pageTitle: page.title,
+        exportedAt: new Date().toISOString(),
+        updatedAt: new Date(session.lastUsedAt).toISOString(),
+      },
+      markdown: blocks.join('\n\n'),
+      data: {
+        session: { id: session.id, name: session.name, collectionScope: session.collectionScope ?? null },
+        messages,
+        references,
+      },
+    },
+    format
+  );
+}
+
+// =============================================================================
+// Summary tab
+// =============================================================================
+
+/**
+ * Export the Summary tab: the summary followed by its Q&A thread.
+ * `resolveRef` maps a summary reference id to the page text it points at;
+ * refs it can't resolve are dropped.
+ */
+export function exportSummary(
+  summary: string,
+  chatMessages: ChatMessage[],
+  page: ExportPage,
+  format: ExportFormat,
+  resolveRef: (id: string) => string | null
+): Promise<ExportFile> {
+  const references: ExportReference[] = [];
+
+  const addReference = (quote: string) => {
+    const number = references.length + 1;
+    references.push({ number, quote: toQuote(quote) });
+    return number;
+  };
+
+  const resolveRefs = (text: string) =>
+    text
+      .replace(SUMMARY_REF_PATTERN, (_match, inner: string) => {
+        const numbers = inner
+          .split(',')
+          .map((s) => s.trim().replace(/^"|"$/g, ''))
+          .map((id) => resolveRef(id))
+          .filter((quote): quote is string => !!quote)
+          .map(addReference);
+        return numbers.length > 0 ? ` ${referenceMarker(numbers)}` : '';
+      })
+      .replace(SUMMARY_ASK_REF_PATTERN, (_match, id: string, substring: string) => {
+        const quote = substring.trim() || resolveRef(id);
+        return quote ? ` ${referenceMarker([addReference(quote)])}` : '';
+      });
+
+  const resolvedSummary = resolveRefs(summary);
+  const resolvedMessages = chatMessages.map((m) => ({
+    role: m.role,
+    text: m.role === 'assistant' ? resolveRefs(m.content) : m.content,
+  }));
+
+  const blocks: string[] = ['# Summary'];
+  if (resolvedSummary) blocks.push(resolvedSummary);
+  if (resolvedMessages.length > 0) {
+    blocks.push('## Questions');
+    for (const m of resolvedMessages) {
+      blocks.push(m.role === 'user' ? `**You:** ${m.text}` : `**Xplaino:**\n\n${m.text}`);
+    }
+  }
+  const sources = referencesMarkdown(references);
+  if (sources) blocks.push(sources);
+
+  return renderExport(
+    {
+      kind: 'summary',
+      meta: {
+        title: `Summary of ${page.title || page.url}`,
+        pageUrl: page.url,
+        pageTitle: page.title,
+        exportedAt: new Date().toISOString(),
+      },
+      markdown: blocks.join('\n\n'),
+      data: { summary: resolvedSummary, messages: resolvedMessages, references },
+    },
+    format
+  );
+}
+
+// =============================================================================
+// Page annotations
+// =============================================================================
+
+/**
+ * Document order of two anchors. PDF anchors are ordered by page first: their
+ * text offsets restart on every page (and may be missing).
+ */
+function compareAnchors(a: AnchorData, b: AnchorData): number {
+  return (
+    (a.pageNumber ?? 0) - (b.pageNumber ?? 0) ||
+    (a.textPosition?.start ?? 0) - (b.textPosition?.start ?? 0)
+  );
+}
+
+/** Export every highlight and note on a page, in document order */
+export function exportPageAnnotations(
+  highlights: WebHighlightResponse[],
+  notes: WebNoteResponse[],
+  page: ExportPage,
+  format: ExportFormat
+): Promise<ExportFile> {
+  const byPosition = <T extends { anchor: AnchorData }>(a: T, b: T) => compareAnchors(a.anchor, b.anchor);
+  const sortedHighlights = [...highlights].sort(byPosition);
+  const sortedNotes = [...notes].sort(byPosition);
+
+  const blocks: string[] = [`# Annotations on ${page.title || page.url}`];
+
+  if (sortedHighlights.length > 0) {
+    blocks.push('## Highlights');
+    for (const h of sortedHighlights) {
+      const parts = [blockquote(h.selectedText)];
+      if (h.note) parts.push(h.note);
+      parts.push(`_Highlighted ${h.createdAt}_`);
+      blocks.push(parts.join('\n\n'));
+    }
+  }
+
+  if (sortedNotes.length > 0) {
+    blocks.push('## Notes');
+    for (const n of sortedNotes) {
+      blocks.push(`${blockquote(n.selectedText)}\n\n${n.content}\n\n_Updated ${n.updatedAt}_`);
+    }
+  }
+
+  if (sortedHighlights.length === 0 && sortedNotes.length === 0) {
+    blocks.push('_No highlights or notes on this page._');
+  }
+
+  return renderExport(
+    {
+      kind: 'annotations',
+      meta: {
+        title: `Annotations on ${page.title || page.url}`,
+        pageUrl: page.url,
+        pageTitle: page.title,
+        exportedAt: new Date().toISOString(),
+        updatedAt: latest([...highlights.map((h) => h.updatedAt), ...notes.map((n) => n.updatedAt)]),
+      },
+      markdown: blocks.join('\n\n'),
+      data: {
+        highlights: sortedHighlights.map(({ id, selectedText, color, note, createdAt, updatedAt }) => ({
+          id, selectedText, color, note, createdAt, updatedAt,
+        })),
+        notes: sortedNotes.map(({ id, selectedText, content, createdAt, updatedAt }) => ({
+          id, selectedText, content, createdAt, updatedAt,
+        })),
+      },
+    },
+    format
+  );
+}
+
+// =============================================================================
+// Download
+// =============================================================================
+
+/** Save an export through a temporary object URL */
+export function downloadExportFile(file: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -6,10 +6,12 @@
  * highlighted text after page re-loads:
  *   1. XPath + character offset  – exact structural match
  *   2. Text quote (exact + context) – fuzzy substring match
- *   3. Body text position (start/end char offsets) – last resort
+ *   3. Body text position (start/end char offsets) – positional fallback
  *
  * On resolution, strategies are attempted in order and the first one that
- * produces a Range whose text matches the saved text is returned.
+ * produces a Range whose text matches the saved text is returned. When the
+ * page text has since been edited, an approximate (edit-tolerant) search for
+ * the quote is the last resort.
  */
 
 import type {
@@ -185,6 +187,10 @@ export function buildAnchor(range: Range): AnchorData {
  * Strategy 3 — Body text position:
  *   Walk text nodes and slice at the recorded character offsets.
  *
+ * Strategy 4 — Approximate text quote:
+ *   Find text within a few edits of `exact`, scored by quote similarity,
+ *   prefix/suffix context and distance from the recorded position.
+ *
  * Returns null if no strategy yields a matching Range.
  */
 export function resolveAnchor(anchor: AnchorData): Range | null {
@@ -237,9 +243,224 @@ export function resolveAnchor(anchor: AnchorData): Range | null {
     }
   }
 
+  // ---- Strategy 4: Approximate text quote ----
+  const fuzzy = findApproximateQuote(bodyText, anchor.textQuote, anchor.textPosition);
+  if (fuzzy) {
+    const range = buildRangeFromBodyOffset(textNodes, fuzzy.start, fuzzy.end);
+    if (range) return range;
+  }
+
   return null;
 }
 
+// ---------------------------------------------------------------------------
+// Approximate quote matching
+// ---------------------------------------------------------------------------
+
+/** Longest pattern the bit-parallel search handles (one bit per character) */
+const MAX_BITAP_PATTERN = 31;
+/** Quotes shorter than this are too ambiguous to match approximately */
+const MIN_FUZZY_QUOTE_LENGTH = 8;
+/** Share of a quote's characters that may differ from the page text */
+const FUZZY_ERROR_RATIO = 0.25;
+/** Minimum similarity between the matched text and the saved quote */
+const FUZZY_QUOTE_THRESHOLD = 0.75;
+/** Minimum weighted score for a candidate to be accepted */
+const FUZZY_SCORE_THRESHOLD = 0.7;
+/** Best-looking candidates that get scored in full */
+const MAX_FUZZY_CANDIDATES = 20;
+/** Characters compared from each end of a long quote when scoring */
+const SIMILARITY_SAMPLE_LENGTH = 100;
+
+/** Relative weight of each signal in a candidate's score (sums to 1) */
+const FUZZY_WEIGHTS = { quote: 0.6, prefix: 0.15, suffix: 0.15, position: 0.1 };
+
+interface BitapHit {
+  /** Exclusive end index of the match in the searched text */
+  end: number;
+  errors: number;
+}
+
+/**
+ * Locate the saved quote in text that has changed slightly since it was saved.
+ *
+ * Candidates come from an edit-tolerant search for the quote's opening
+ * characters; for long quotes the closing characters are searched for near
+ * where the quote should end. Each candidate is scored on how closely its
+ * text, its prefix/suffix context and its position match what was saved.
+ * Returns the best candidate's body text offsets, or null if none scores
+ * above the threshold.
+ */
+function findApproximateQuote(
+  bodyText: string,
+  textQuote: AnchorTextQuote,
+  textPosition: AnchorTextPosition
+): { start: number; end: number } | null {
+  const { exact, prefix, suffix } = textQuote;
+  if (exact.length < MIN_FUZZY_QUOTE_LENGTH || !bodyText) return null;
+
+  const head = exact.slice(0, MAX_BITAP_PATTERN);
+  const heads = collapseHits(bitapSearch(bodyText, head, Math.floor(head.length * FUZZY_ERROR_RATIO)))
+    .sort((a, b) => a.errors - b.errors)
+    .slice(0, MAX_FUZZY_CANDIDATES);
+
+  // textPosition is 0/0 when it could not be computed at save time
+  const hasPosition = textPosition.end > textPosition.start;
+
+  let best: { start: number; end: number } | null = null;
+  let bestScore = FUZZY_SCORE_THRESHOLD;
+
+  for (const hit of heads) {
+    const headStart = Math.max(0, hit.end - head.length);
+    const end = exact.length <= MAX_BITAP_PATTERN ? hit.end : findQuoteEnd(bodyText, exact, headStart);
+    if (end === null) continue;
+
+    // Insertions/deletions in the head shift where the quote really starts
+    let start = headStart;
+    let quoteScore = -1;
+    for (let s = Math.max(0, headStart - hit.errors); s <= Math.min(end - 1, headStart + hit.errors); s++) {
+      const score = similarity(bodyText.slice(s, end), exact);
+      if (score > quoteScore) {
+        quoteScore = score;
+        start = s;
+      }
+    }
+    if (quoteScore < FUZZY_QUOTE_THRESHOLD) continue;
+
+    const prefixScore = similarity(bodyText.slice(Math.max(0, start - prefix.length), start), prefix);
+    const suffixScore = similarity(bodyText.slice(end, end + suffix.length), suffix);
+    const positionScore = hasPosition
+      ? 1 - Math.min(1, Math.abs(start - textPosition.start) / bodyText.length)
+      : 0.5;
+
+    const score =
+      FUZZY_WEIGHTS.quote * quoteScore +
+      FUZZY_WEIGHTS.prefix * prefixScore +
+      FUZZY_WEIGHTS.suffix * suffixScore +
+      FUZZY_WEIGHTS.position * positionScore;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = { start, end };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find where a long quote ends, given where it starts, by searching for its
+ * closing characters around the expected end (allowing for added or removed text).
+ */
+function findQuoteEnd(bodyText: string, exact: string, start: number): number | null {
+  const tail = exact.slice(-MAX_BITAP_PATTERN);
+  const expectedEnd = start + exact.length;
+  const slack = Math.ceil(exact.length * FUZZY_ERROR_RATIO);
+  const windowStart = Math.max(start, expectedEnd - slack - tail.length);
+  const window = bodyText.slice(windowStart, expectedEnd + slack);
+
+  let best: BitapHit | null = null;
+  for (const hit of collapseHits(bitapSearch(window, tail, Math.floor(tail.length * FUZZY_ERROR_RATIO)))) {
+    if (
+      !best ||
+      hit.errors < best.errors ||
+      (hit.errors === best.errors &&
+        Math.abs(windowStart + hit.end - expectedEnd) < Math.abs(windowStart + best.end - expectedEnd))
+    ) {
+      best = hit;
+    }
+  }
+  return best ? windowStart + best.end : null;
+}
+
+/**
+ * Bit-parallel approximate search (Wu–Manber "shift-and" with k errors), the
+ * same technique diff-match-patch's match_bitap uses. Reports every text
+ * position where the pattern ends with at most `maxErrors` insertions,
+ * deletions or substitutions. `pattern` must be at most MAX_BITAP_PATTERN long.
+ */
+function bitapSearch(text: string, pattern: string, maxErrors: number): BitapHit[] {
+  const m = pattern.length;
+  const charMasks = new Map<string, number>();
+  for (let i = 0; i < m; i++) {
+    charMasks.set(pattern[i], (charMasks.get(pattern[i]) ?? 0) | (1 << i));
+  }
+  const matchBit = 1 << (m - 1);
+
+  // state[d] bit i: pattern[0..i] matches text ending here with at most d errors
+  const state: number[] = [];
+  for (let d = 0; d <= maxErrors; d++) state.push((1 << d) - 1);
+
+  const hits: BitapHit[] = [];
+  for (let j = 0; j < text.length; j++) {
+    const mask = charMasks.get(text[j]) ?? 0;
+    let previous = state[0];
+    state[0] = ((state[0] << 1) | 1) & mask;
+    for (let d = 1; d <= maxErrors; d++) {
+      const current = state[d];
+      // match | insertion | substitution + deletion
+      state[d] = (((current << 1) | 1) & mask) | previous | (((previous | state[d - 1]) << 1) | 1);
+      previous = current;
+    }
+    for (let d = 0; d <= maxErrors; d++) {
+      if (state[d] & matchBit) {
+        hits.push({ end: j + 1, errors: d });
+        break;
+      }
+    }
+  }
+  return hits;
+}
+
+/** Reduce runs of adjacent hits (one fuzzy match ends at several positions) to their best hit. */
+function collapseHits(hits: BitapHit[]): BitapHit[] {
+  const collapsed: BitapHit[] = [];
+  let lastEnd = -2;
+  for (const hit of hits) {
+    const current = collapsed[collapsed.length - 1];
+    if (current && hit.end - lastEnd <= 1) {
+      if (hit.errors < current.errors) collapsed[collapsed.length - 1] = hit;
+    } else {
+      collapsed.push(hit);
+    }
+    lastEnd = hit.end;
+  }
+  return collapsed;
+}
+
+/**
+ * Normalised edit-distance similarity (1 = identical, 0 = nothing in common).
+ * Long strings are compared on their opening and closing characters only.
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const sample = (s: string) =>
+    s.length > SIMILARITY_SAMPLE_LENGTH * 2
+      ? s.slice(0, SIMILARITY_SAMPLE_LENGTH) + s.slice(-SIMILARITY_SAMPLE_LENGTH)
+      : s;
+  const x = sample(a);
+  const y = sample(b);
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+/** Edit distance between two strings (two-row dynamic programming). */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
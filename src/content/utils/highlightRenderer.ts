@@ -15,6 +15,12 @@ import { getCurrentTheme } from '../../constants/theme';
 /** Data attribute used to identify and look up highlight mark elements. */
 export const HIGHLIGHT_DATA_ATTR = 'data-xplaino-highlight-id';
 
+/**
+ * Data attribute on the marks of other users' shared highlights. Kept apart
+ * from HIGHLIGHT_DATA_ATTR so they never open the own-highlight menu.
+ */
+export const SHARED_HIGHLIGHT_DATA_ATTR = 'data-xplaino-shared-highlight-id';
+
 // Default colours (theme-aware applied at runtime)
 const HIGHLIGHT_BG_LIGHT = 'rgba(255, 235, 59, 0.45)';
 const HIGHLIGHT_BG_DARK = 'rgba(255, 235, 59, 0.30)';
@@ -23,6 +29,11 @@ const HIGHLIGHT_BG_DARK = 'rgba(255, 235, 59, 0.30)';
 const HIGHLIGHT_COLOR_OPACITY_LIGHT = 0.40;
 const HIGHLIGHT_COLOR_OPACITY_DARK = 0.28;
 
+// Shared highlights are a fainter tint with a dashed underline in the full colour
+const SHARED_HIGHLIGHT_OPACITY_LIGHT = 0.18;
+const SHARED_HIGHLIGHT_OPACITY_DARK = 0.14;
+const SHARED_HIGHLIGHT_DEFAULT_COLOR = '#f5c400';
+
 /**
  * Ensure a colour value has the desired transparency.
  * Colours that already carry an alpha channel (rgba/hsla) have their alpha
@@ -152,9 +163,10 @@ function getBlocksInRange(range: Range): HTMLElement[] {
 function createMarkElement(
   highlightId: string,
   bgColor: string,
+  dataAttr: string,
 ): HTMLElement {
   const mark = document.createElement('mark');
-  mark.setAttribute(HIGHLIGHT_DATA_ATTR, highlightId);
+  mark.setAttribute(dataAttr, highlightId);
 
   mark.style.backgroundColor = bgColor;
   mark.style.color = 'inherit';
@@ -182,6 +194,7 @@ function wrapBlockPortion(
   range: Range,
   highlightId: string,
   bgColor: string,
+  dataAttr: string,
 ): HTMLElement | null {
   try {
     const blockRange = document.createRange();
@@ -202,7 +215,7 @@ function wrapBlockPortion(
 
     if (blockRange.collapsed || blockRange.toString().trim() === '') return null;
 
-    const mark = createMarkElement(highlightId, bgColor);
+    const mark = createMarkElement(highlightId, bgColor, dataAttr);
 
     try {
       blockRange.surroundContents(mark);
@@ -222,6 +235,60 @@ function wrapBlockPortion(
   }
 }
 
+/**
+ * Wrap `range` in mark elements, one per block for multi-block selections.
+ * Returns the created marks; empty ones are dropped.
+ */
+function wrapRange(
+  range: Range,
+  highlightId: string,
+  bgColor: string,
+  dataAttr: string,
+): HTMLElement[] {
+  const markElements: HTMLElement[] = [];
+
+  if (isMultiBlockSelection(range)) {
+    const blocks = getBlocksInRange(range);
+    for (const block of blocks) {
+      const mark = wrapBlockPortion(block, range, highlightId, bgColor, dataAttr);
+      if (mark) markElements.push(mark);
+    }
+  } else {
+    // Single-block selection
+    const clonedRange = range.cloneRange();
+    const mark = createMarkElement(highlightId, bgColor, dataAttr);
+    try {
+      clonedRange.surroundContents(mark);
+    } catch {
+      const contents = clonedRange.extractContents();
+      mark.appendChild(contents);
+      clonedRange.insertNode(mark);
+    }
+    if (mark.textContent?.trim()) {
+      markElements.push(mark);
+    }
+  }
+
+  return markElements;
+}
+
+/** Unwrap marks back into their parents (same approach as removeTextUnderline) */
+function unwrapMarks(marks: NodeListOf<HTMLElement>): void {
+  marks.forEach((mark) => {
+    try {
+      const parent = mark.parentNode;
+      if (!parent) return;
+
+      while (mark.firstChild) {
+        parent.insertBefore(mark.firstChild, mark);
+      }
+      parent.removeChild(mark);
+    } catch (error) {
+      console.error('[highlightRenderer] Error removing highlight mark:', error);
+    }
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -251,33 +318,41 @@ export async function applyHighlight(
       ? toTransparentColor(color, isDark ? HIGHLIGHT_COLOR_OPACITY_DARK : HIGHLIGHT_COLOR_OPACITY_LIGHT)
       : (isDark ? HIGHLIGHT_BG_DARK : HIGHLIGHT_BG_LIGHT);
 
-    const markElements: HTMLElement[] = [];
+    return wrapRange(range, highlightId, bgColor, HIGHLIGHT_DATA_ATTR);
+  } catch (error) {
+    console.error('[highlightRenderer] Error applying highlight:', error);
+    return [];
+  }
+}
 
-    if (isMultiBlockSelection(range)) {
-      const blocks = getBlocksInRange(range);
-      for (const block of blocks) {
-        const mark = wrapBlockPortion(block, range, highlightId, bgColor);
-        if (mark) markElements.push(mark);
-      }
-    } else {
-      // Single-block selection
-      const clonedRange = range.cloneRange();
-      const mark = createMarkElement(highlightId, bgColor);
-      try {
-        clonedRange.surroundContents(mark);
-      } catch {
-        const contents = clonedRange.extractContents();
-        mark.appendChild(contents);
-        clonedRange.insertNode(mark);
-      }
-      if (mark.textContent?.trim()) {
-        markElements.push(mark);
-      }
-    }
+/**
+ * Apply another user's shared highlight: a fainter tint with a dashed
+ * underline, tagged with SHARED_HIGHLIGHT_DATA_ATTR and titled with the author.
+ */
+export async function applySharedHighlight(
+  range: Range,
+  highlightId: string,
+  color: string | null,
+  authorName: string
+): Promise<HTMLElement[]> {
+  if (!range || range.collapsed) return [];
 
-    return markElements;
+  try {
+    const isDark = (await getCurrentTheme()) === 'dark';
+    const baseColor = color || SHARED_HIGHLIGHT_DEFAULT_COLOR;
+    const bgColor = toTransparentColor(
+      baseColor,
+      isDark ? SHARED_HIGHLIGHT_OPACITY_DARK : SHARED_HIGHLIGHT_OPACITY_LIGHT
+    );
+    const marks = wrapRange(range, highlightId, bgColor, SHARED_HIGHLIGHT_DATA_ATTR);
+    for (const mark of marks) {
+      mark.style.borderRadius = '0';
+      mark.style.borderBottom = `2px dashed ${baseColor}`;
+      mark.title = `Highlighted by ${authorName}`;
+    }
+    return marks;
   } catch (error) {
-    console.error('[highlightRenderer] Error applying highlight:', error);
+    console.error('[highlightRenderer] Error applying shared highlight:', error);
     return [];
   }
 }
@@ -287,23 +362,45 @@ export async function applyHighlight(
  * their contents back into the parent (same approach as removeTextUnderline).
  */
 export function removeHighlight(highlightId: string): void {
-  const marks = document.querySelectorAll<HTMLElement>(
+  unwrapMarks(document.querySelectorAll<HTMLElement>(
     `[${HIGHLIGHT_DATA_ATTR}="${CSS.escape(highlightId)}"]`
-  );
+  ));
+}
 
-  marks.forEach((mark) => {
-    try {
-      const parent = mark.parentNode;
-      if (!parent) return;
+/**
+ * Remove the marks of shared highlights: one highlight, or all of them when
+ * no ID is given (e.g. after the page's shares change).
+ */
+export function removeSharedHighlight(highlightId?: string): void {
+  const selector = highlightId
+    ? `[${SHARED_HIGHLIGHT_DATA_ATTR}="${CSS.escape(highlightId)}"]`
+    : `[${SHARED_HIGHLIGHT_DATA_ATTR}]`;
+  unwrapMarks(document.querySelectorAll<HTMLElement>(selector));
+}
 
-      while (mark.firstChild) {
-        parent.insertBefore(mark.firstChild, mark);
-      }
-      parent.removeChild(mark);
-    } catch (error) {
-      console.error('[highlightRenderer] Error removing highlight mark:', error);
-    }
-  });
+/**
+ * Repaint the <mark> elements of a highlight in another colour.
+ */
+export async function recolorHighlight(highlightId: string, color: string | null): Promise<void> {
+  const isDark = (await getCurrentTheme()) === 'dark';
+  const bgColor = color
+    ? toTransparentColor(color, isDark ? HIGHLIGHT_COLOR_OPACITY_DARK : HIGHLIGHT_COLOR_OPACITY_LIGHT)
+    : (isDark ? HIGHLIGHT_BG_DARK : HIGHLIGHT_BG_LIGHT);
+  document
+    .querySelectorAll<HTMLElement>(`[${HIGHLIGHT_DATA_ATTR}="${CSS.escape(highlightId)}"]`)
+    .forEach((mark) => {
+      mark.style.backgroundColor = bgColor;
+    });
+}
+
+/**
+ * Re-tag the <mark> elements of a highlight with a new ID, e.g. when a
+ * highlight created offline receives its server ID.
+ */
+export function renameHighlight(oldId: string, newId: string): void {
+  document
+    .querySelectorAll<HTMLElement>(`[${HIGHLIGHT_DATA_ATTR}="${CSS.escape(oldId)}"]`)
+    .forEach((mark) => mark.setAttribute(HIGHLIGHT_DATA_ATTR, newId));
 }
 
 /**
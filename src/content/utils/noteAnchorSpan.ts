@@ -28,3 +28,12 @@ export function removeNoteAnchorSpan(noteId: string): void {
     .querySelectorAll(`[${NOTE_ANCHOR_ATTR}="${CSS.escape(noteId)}"]`)
     .forEach((el) => el.remove());
 }
+
+/**
+ * Re-tags the anchor spans of a note with a new ID (temporary → server ID).
+ */
+export function renameNoteAnchorSpan(oldId: string, newId: string): void {
+  document
+    .querySelectorAll(`[${NOTE_ANCHOR_ATTR}="${CSS.escape(oldId)}"]`)
+    .forEach((el) => el.setAttribute(NOTE_ANCHOR_ATTR, newId));
+}
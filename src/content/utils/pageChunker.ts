@@ -2,14 +2,7 @@
 // DOM-aware page chunker that produces chunks with full anchor metadata.
 // Priority: heading+paragraphs > standalone <p> > <li> > <tr> > sliding window fallback.
 
-import {
-  findMainContentContainer,
-  isElementVisible,
-  isExtensionElement,
-  shouldExcludeByPattern,
-  EXCLUDED_TAGS,
-  EXCLUDED_CONTAINER_TAGS,
-} from './pageContentExtractor';
+import { createContentNodeFilter, getContentRoots } from './pageContentExtractor';
 
 export interface ChunkMetadata {
   startXPath: string;
@@ -22,6 +15,12 @@ export interface ChunkMetadata {
   tabName?: string;
   tabId?: string;
   pageNumber?: number;
+  /** Seconds into the video, for chunks of a YouTube transcript */
+  startTime?: number;
+  endTime?: number;
+  /** Set on chunks retrieved from another page's index during a collection chat */
+  sourceUrl?: string;
+  sourceTitle?: string;
 }
 
 export interface PageChunk {
@@ -153,29 +152,10 @@ function hasBlockChildren(el: Element): boolean {
   return false;
 }
 
-function collectBlocks(root: Element): Block[] {
-  const skipContainers = root !== document.body;
+function collectBlocks(root: Element, skipContainers: boolean): Block[] {
   const blocks: Block[] = [];
 
-  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
-    acceptNode: (node) => {
-      const el = node as Element;
-      // Hard reject: subtrees that can never contain readable content
-      if (EXCLUDED_TAGS.has(el.tagName)) return NodeFilter.FILTER_REJECT;
-      if (isExtensionElement(el)) return NodeFilter.FILTER_REJECT;
-      if (!isElementVisible(el)) return NodeFilter.FILTER_REJECT;
-      // Hard reject for semantic structural tags — their children are nav/boilerplate, not article content.
-      // Exception: HEADER inside a content root often wraps article titles/intros (e.g. WordPress themes),
-      // so soft-skip it to allow its block-level children to be collected.
-      if (skipContainers && EXCLUDED_CONTAINER_TAGS.has(el.tagName)) {
-        return el.tagName === 'HEADER' ? NodeFilter.FILTER_SKIP : NodeFilter.FILTER_REJECT;
-      }
-      // Soft skip for class/id patterns — a <div class="entry-header"> is not a nav element;
-      // its <p> children may be article content, so visit them
-      if (skipContainers && shouldExcludeByPattern(el)) return NodeFilter.FILTER_SKIP;
-      return NodeFilter.FILTER_ACCEPT;
-    },
-  });
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, createContentNodeFilter(skipContainers));
 
   let node: Element | null;
   while ((node = walker.nextNode() as Element | null)) {
@@ -208,8 +188,10 @@ function collectBlocks(root: Element): Block[] {
 // =============================================================================
 
 export function chunkPage(): PageChunk[] {
-  const root = findMainContentContainer() ?? document.body;
-  const blocks = collectBlocks(root);
+  const roots = getContentRoots();
+  // Included areas outside the main container count as content roots too
+  const skipContainers = roots[0] !== document.body;
+  const blocks = roots.flatMap((root) => collectBlocks(root, skipContainers));
 
   if (blocks.length === 0) return [];
 
@@ -312,6 +294,9 @@ export function chunkPage(): PageChunk[] {
 // =============================================================================
 
 export function extractFullPageText(): string {
-  const root = findMainContentContainer() ?? document.body;
-  return (root.textContent ?? '').replace(/\s+/g, ' ').trim();
+  return getContentRoots()
+    .map((root) => root.textContent ?? '')
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
 }
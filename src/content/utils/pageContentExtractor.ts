@@ -1,6 +1,8 @@
 // src/content/utils/pageContentExtractor.ts
 // Utility for extracting text content from web pages (in-memory only; no Chrome storage)
 
+import type { SiteExtractionRuleDTO } from '@/storage/chrome-local/dto';
+
 /**
  * Tags to exclude when extracting text content
  */
@@ -122,6 +124,56 @@ const EXCLUDED_PATTERNS = [
   /\bshare[-_]?(buttons?|links?|bar|icons?|panel)\b/i,
 ];
 
+// =============================================================================
+// USER EXTRACTION RULES
+// =============================================================================
+
+/** The user's rule for the current site (loaded by siteExtractionRules.ts); null = heuristics only */
+let activeExtractionRule: SiteExtractionRuleDTO | null = null;
+
+export function setActiveExtractionRule(rule: SiteExtractionRuleDTO | null): void {
+  activeExtractionRule = rule;
+}
+
+export function getActiveExtractionRule(): SiteExtractionRuleDTO | null {
+  return activeExtractionRule;
+}
+
+function matchesAnySelector(element: Element, selectors: string[]): boolean {
+  return selectors.some((selector) => {
+    try {
+      return element.matches(selector);
+    } catch {
+      return false; // Ignore invalid selectors
+    }
+  });
+}
+
+function isInsideAnySelector(element: Element, selectors: string[]): boolean {
+  return selectors.some((selector) => {
+    try {
+      return element.closest(selector) !== null;
+    } catch {
+      return false; // Ignore invalid selectors
+    }
+  });
+}
+
+/**
+ * Check if the user's rule excludes an element (and with it its subtree)
+ */
+export function isExcludedByRule(element: Element): boolean {
+  return !!activeExtractionRule && matchesAnySelector(element, activeExtractionRule.excludeSelectors);
+}
+
+/**
+ * Check if an element lies in an area the user's rule always includes.
+ * Built-in exclusions (nav/header/footer tags, class patterns, roles) don't apply there.
+ */
+export function isIncludedByRule(element: Element): boolean {
+  return !!activeExtractionRule && isInsideAnySelector(element, activeExtractionRule.includeSelectors);
+}
+
 /**
  * Check if an element should be excluded based on its ID/class
  */
@@ -176,6 +228,16 @@ function extractTextFromElement(element: Element, skipExcludedContainers = false
     return '';
   }
 
+  // Skip areas the user excluded for this site
+  if (isExcludedByRule(element)) {
+    return '';
+  }
+
+  // Inside an area the user included, the built-in container/pattern exclusions are off
+  if (activeExtractionRule && matchesAnySelector(element, activeExtractionRule.includeSelectors)) {
+    skipExcludedContainers = false;
+  }
+
   // Skip excluded container tags if flag is set
   if (skipExcludedContainers && EXCLUDED_CONTAINER_TAGS.has(element.tagName)) {
     return '';
@@ -237,11 +299,56 @@ function getSiteSpecificSelectors(hostname: string): string[] {
   return [];
 }
 
+/**
+ * The element matching the user's main-container override, if any
+ */
+function findRuleMainContainer(): Element | null {
+  const selector = activeExtractionRule?.mainSelector;
+  if (!selector) return null;
+  try {
+    return document.querySelector(selector);
+  } catch {
+    return null; // Ignore invalid selectors
+  }
+}
+
+/**
+ * Roots to extract content from, in document order: the main content
+ * container (or body) plus any areas the user's rule includes outside it.
+ */
+export function getContentRoots(): Element[] {
+  const body = document.body;
+  const main = findMainContentContainer() ?? body;
+  if (!activeExtractionRule || main === body) return [main];
+
+  const candidates: Element[] = [main];
+  for (const selector of activeExtractionRule.includeSelectors) {
+    try {
+      candidates.push(...Array.from(document.querySelectorAll(selector)));
+    } catch {
+      // Ignore invalid selectors
+    }
+  }
+
+  // Drop roots nested in another root so nothing is extracted twice
+  const roots = candidates.filter(
+    (el, index) => candidates.indexOf(el) === index && !candidates.some((other) => other !== el && other.contains(el))
+  );
+  return roots.sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+}
+
 /**
  * Try to find the main content container using various strategies
  */
 export function findMainContentContainer(): Element | null {
   const hostname = window.location.hostname;
+
+  // Strategy 0: The user's main-container override for this site
+  const ruleContainer = findRuleMainContainer();
+  if (ruleContainer) {
+    console.log(`[PageContentExtractor] Found content using site rule: ${activeExtractionRule?.mainSelector}`);
+    return ruleContainer;
+  }
   
   // Strategy 1: Try site-specific selectors
   const siteSelectors = getSiteSpecificSelectors(hostname);
@@ -313,12 +420,15 @@ export function extractPageContent(): string {
   const mainContent = findMainContentContainer();
   
   if (mainContent) {
-    // Extract text from the main content area, skipping nav/header/footer elements
-    const rawText = extractTextFromElement(mainContent, true);
+    // Extract text from the main content area (plus areas the site rule includes),
+    // skipping nav/header/footer elements
+    const rawText = getContentRoots()
+      .map((root) => extractTextFromElement(root, true))
+      .join(' ');
     const cleanedText = cleanText(rawText);
     
-    // Only use this if we got substantial content
-    if (cleanedText.length > 200) {
+    // Only use this if we got substantial content (a user-chosen container is always used)
+    if (cleanedText.length > 200 || mainContent === findRuleMainContainer()) {
       console.log(`[PageContentExtractor] Extracted ${cleanedText.length} chars from main content container`);
       return cleanedText;
     }
@@ -330,8 +440,39 @@ export function extractPageContent(): string {
   return cleanText(rawText);
 }
 
+/**
+ * Tree-walker filter for readable content under a content root.
+ * Rejects non-content tags, extension UI, hidden and rule-excluded subtrees.
+ * With `skipExcludedContainers` (root is a main content container, not body)
+ * nav/footer/aside subtrees are rejected and pattern-matched wrappers skipped,
+ * except inside areas the site rule includes.
+ */
+export function createContentNodeFilter(skipExcludedContainers: boolean): NodeFilter {
+  return {
+    acceptNode: (node) => {
+      const el = node as Element;
+      // Hard reject: subtrees that can never contain readable content
+      if (EXCLUDED_TAGS.has(el.tagName)) return NodeFilter.FILTER_REJECT;
+      if (isExtensionElement(el)) return NodeFilter.FILTER_REJECT;
+      if (!isElementVisible(el)) return NodeFilter.FILTER_REJECT;
+      if (isExcludedByRule(el)) return NodeFilter.FILTER_REJECT;
+      const applyHeuristics = skipExcludedContainers && !isIncludedByRule(el);
+      // Hard reject for semantic structural tags — their children are nav/boilerplate, not article content.
+      // Exception: HEADER inside a content root often wraps article titles/intros (e.g. WordPress themes),
+      // so soft-skip it to allow its block-level children to be collected.
+      if (applyHeuristics && EXCLUDED_CONTAINER_TAGS.has(el.tagName)) {
+        return el.tagName === 'HEADER' ? NodeFilter.FILTER_SKIP : NodeFilter.FILTER_REJECT;
+      }
+      // Soft skip for class/id patterns — a <div class="entry-header"> is not a nav element;
+      // its <p> children may be article content, so visit them
+      if (applyHeuristics && shouldExcludeByPattern(el)) return NodeFilter.FILTER_SKIP;
+      return NodeFilter.FILTER_ACCEPT;
+    },
+  };
+}
+
 /** Max total content length for summarise API (backend validation) */
-const SUMMARISE_MAX_CONTENT_LENGTH = 50_000;
+export const SUMMARISE_MAX_CONTENT_LENGTH = 50_000;
 
 /**
  * Block-level tags used for summary extraction (one ID per element).
@@ -362,57 +503,37 @@ export function extractPageContentWithIds(): ExtractPageContentWithIdsResult {
     return { content, idToElement };
   }
 
-  const root = findMainContentContainer() ?? body;
-  const skipExcludedContainers = root !== body;
+  const roots = getContentRoots();
+  const skipExcludedContainers = roots[0] !== body;
 
   let totalLength = 0;
   let nextId = 1;
 
-  const walker = document.createTreeWalker(
-    root,
-    NodeFilter.SHOW_ELEMENT,
-    {
-      acceptNode: (node) => {
-        const el = node as Element;
-        // Hard reject: subtrees that can never contain readable content
-        if (EXCLUDED_TAGS.has(el.tagName)) return NodeFilter.FILTER_REJECT;
-        if (isExtensionElement(el)) return NodeFilter.FILTER_REJECT;
-        if (!isElementVisible(el)) return NodeFilter.FILTER_REJECT;
-        // Hard reject for semantic structural tags — their children are nav/boilerplate, not article content.
-        // Exception: HEADER inside a content root often wraps article titles/intros (e.g. WordPress themes),
-        // so soft-skip it to allow its block-level children to be collected.
-        if (skipExcludedContainers && EXCLUDED_CONTAINER_TAGS.has(el.tagName)) {
-          return el.tagName === 'HEADER' ? NodeFilter.FILTER_SKIP : NodeFilter.FILTER_REJECT;
-        }
-        // Soft skip for class/id patterns — a <div class="entry-header"> is not a nav element;
-        // its <p> children may be article content, so visit them
-        if (skipExcludedContainers && shouldExcludeByPattern(el)) return NodeFilter.FILTER_SKIP;
-        return NodeFilter.FILTER_ACCEPT;
-      },
-    }
-  );
+  for (const root of roots) {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, createContentNodeFilter(skipExcludedContainers));
 
-  let node: Element | null;
-  while ((node = walker.nextNode() as Element | null)) {
-    const element = node as HTMLElement;
-    const tagName = element.tagName.toUpperCase();
-    if (!SUMMARY_BLOCK_TAGS.has(tagName)) continue;
+    let node: Element | null;
+    while ((node = walker.nextNode() as Element | null)) {
+      const element = node as HTMLElement;
+      const tagName = element.tagName.toUpperCase();
+      if (!SUMMARY_BLOCK_TAGS.has(tagName)) continue;
 
-    if (tagName === 'DIV' || tagName === 'SECTION' || tagName === 'ARTICLE' || tagName === 'SPAN') {
-      if (hasTranslatableChildren(element)) continue;
-    }
+      if (tagName === 'DIV' || tagName === 'SECTION' || tagName === 'ARTICLE' || tagName === 'SPAN') {
+        if (hasTranslatableChildren(element)) continue;
+      }
 
-    const text = cleanText(extractTextFromElement(element, false));
-    if (!text || text.length < 2) continue;
+      const text = cleanText(extractTextFromElement(element, false));
+      if (!text || text.length < 2) continue;
 
-    const remaining = SUMMARISE_MAX_CONTENT_LENGTH - totalLength;
-    if (remaining <= 0) break;
+      const remaining = SUMMARISE_MAX_CONTENT_LENGTH - totalLength;
+      if (remaining <= 0) break;
 
-    const textToAdd = text.length > remaining ? text.slice(0, remaining) : text;
-    const id = String(nextId++);
-    content[id] = textToAdd;
-    idToElement.set(id, element);
-    totalLength += textToAdd.length;
+      const textToAdd = text.length > remaining ? text.slice(0, remaining) : text;
+      const id = String(nextId++);
+      content[id] = textToAdd;
+      idToElement.set(id, element);
+      totalLength += textToAdd.length;
+    }
   }
 
   console.log(`[PageContentExtractor] extractPageContentWithIds: ${Object.keys(content).length} blocks, ${totalLength} chars`);
@@ -584,6 +705,11 @@ export function extractTranslatableElements(): TranslatableElement[] {
         if (!isElementVisible(element)) {
           return NodeFilter.FILTER_REJECT;
         }
+
+        // Skip areas the user excluded for this site
+        if (isExcludedByRule(element)) {
+          return NodeFilter.FILTER_REJECT;
+        }
         
         return NodeFilter.FILTER_ACCEPT;
       }
@@ -602,8 +728,8 @@ export function extractTranslatableElements(): TranslatableElement[] {
       continue;
     }
     
-    // Check if element should be excluded
-    if (shouldExcludeElement(element)) {
+    // Check if element should be excluded (areas the user included for this site are kept)
+    if (shouldExcludeElement(element) && !isIncludedByRule(element)) {
       continue;
     }
     
@@ -0,0 +1,147 @@
+// src/content/utils/pdfChunker.ts
+// Chunks extracted PDF page text into PageChunk[] with page metadata.
+
+import type { PageChunk, ChunkMetadata } from './pageChunker';
+import type { PdfPageText } from './pdfDocument';
+import { SUMMARISE_MAX_CONTENT_LENGTH } from './pageContentExtractor';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Same window size as the DOM chunker's sliding-window fallback (~300 tokens) */
+const WINDOW_TARGET_CHARS = 1200;
+/** Sentences carried into the next window, up to ~50 tokens */
+const WINDOW_OVERLAP_CHARS = 200;
+
+const SENTENCE_RE = /[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Sentences, with any longer than a window (tables, unpunctuated text) cut at word breaks */
+function splitSentences(text: string): string[] {
+  const sentences = (text.match(SENTENCE_RE) ?? [text]).map((s) => s.trim()).filter(Boolean);
+  return sentences.flatMap((sentence) => {
+    if (sentence.length <= WINDOW_TARGET_CHARS) return [sentence];
+    const pieces: string[] = [];
+    let piece = '';
+    for (const word of sentence.split(' ')) {
+      if (piece && piece.length + word.length + 1 > WINDOW_TARGET_CHARS) {
+        pieces.push(piece);
+        piece = '';
+      }
+      piece = piece ? `${piece} ${word}` : word;
+    }
+    if (piece) pieces.push(piece);
+    return pieces;
+  });
+}
+
+function buildPdfMetadata(text: string, pageNumber: number): ChunkMetadata {
+  return {
+    startXPath: '',
+    endXPath: '',
+    startOffset: 0,
+    endOffset: 0,
+    cssSelector: '',
+    textSnippetStart: text.slice(0, 60),
+    textSnippetEnd: text.slice(-60),
+    pageNumber,
+  };
+}
+
+/** Sentences from the end of a window that fit in the overlap budget */
+function overlapTail(sentences: string[]): string[] {
+  const tail: string[] = [];
+  let length = 0;
+  for (let i = sentences.length - 1; i > 0; i--) {
+    length += sentences[i].length + 1;
+    if (length > WINDOW_OVERLAP_CHARS) break;
+    tail.unshift(sentences[i]);
+  }
+  return tail;
+}
+
+// ---------------------------------------------------------------------------
+// Single-page chunking
+// ---------------------------------------------------------------------------
+
+function chunkPdfPage(page: PdfPageText, startIndex: number): PageChunk[] {
+  if (!page.text) return [];
+
+  const chunks: PageChunk[] = [];
+  let idx = startIndex;
+  let current: string[] = [];
+  let windowLength = 0;
+  let hasNewText = false;
+
+  const flush = () => {
+    const text = current.join(' ');
+    chunks.push({
+      chunkId: `chunk_${idx++}`,
+      text,
+      metadata: buildPdfMetadata(text, page.pageNumber),
+    });
+    current = overlapTail(current);
+    windowLength = current.join(' ').length;
+    hasNewText = false;
+  };
+
+  for (const sentence of splitSentences(page.text)) {
+    if (hasNewText && windowLength + sentence.length + 1 > WINDOW_TARGET_CHARS) flush();
+    current.push(sentence);
+    windowLength += sentence.length + 1;
+    hasNewText = true;
+  }
+  if (hasNewText) flush();
+
+  return chunks;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Chunk extracted PDF pages into PageChunk[].
+ * Chunks never span a page break, so each carries an exact `pageNumber`.
+ */
+export function chunkPdfPages(pages: PdfPageText[]): PageChunk[] {
+  const allChunks: PageChunk[] = [];
+  let nextIndex = 0;
+
+  for (const page of pages) {
+    const pageChunks = chunkPdfPage(page, nextIndex);
+    allChunks.push(...pageChunks);
+    nextIndex += pageChunks.length;
+  }
+
+  return allChunks;
+}
+
+/**
+ * Join all page text (used for content hashing and page reads).
+ */
+export function extractPdfFullText(pages: PdfPageText[]): string {
+  return pages.map((p) => p.text).filter(Boolean).join(' ');
+}
+
+/**
+ * Page text as ID-keyed blocks for the summarise v2 API, one block per page
+ * keyed by page number. Capped like `extractPageContentWithIds()`.
+ */
+export function extractPdfContentWithIds(pages: PdfPageText[]): Record<string, string> {
+  const content: Record<string, string> = {};
+  let totalLength = 0;
+  for (const page of pages) {
+    const remaining = SUMMARISE_MAX_CONTENT_LENGTH - totalLength;
+    if (remaining <= 0) break;
+    if (!page.text) continue;
+    const text = page.text.slice(0, remaining);
+    content[String(page.pageNumber)] = text;
+    totalLength += text.length;
+  }
+  return content;
+}
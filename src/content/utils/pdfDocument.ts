@@ -0,0 +1,180 @@
+// src/content/utils/pdfDocument.ts
+// Utilities for Chrome's built-in PDF viewer: detection, per-page text extraction,
+// reading the viewer's selection, page navigation and page + quote anchors.
+// The viewer renders inside a plugin frame the content script cannot walk, so the
+// text comes from parsing the PDF itself with PDF.js.
+
+import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
+
+export interface PdfPageText {
+  /** 1-based page number */
+  pageNumber: number;
+  /** Page text with whitespace collapsed */
+  text: string;
+}
+
+const PDF_WORKER_PATH = 'src/content/workers/pdfWorker.js';
+
+/** Pages beyond this are not extracted; very long documents would stall indexing */
+const MAX_PDF_PAGES = 500;
+
+/** How long to wait for the viewer to answer a selection request */
+const SELECTION_TIMEOUT_MS = 1000;
+
+/** Characters of context kept either side of a quote, matching DOM anchors */
+const QUOTE_CONTEXT_LENGTH = 32;
+
+/** Leading characters used to place a quote that spans a page break */
+const QUOTE_HEAD_LENGTH = 40;
+
+let cachedExtraction: { url: string; pages: Promise<PdfPageText[]> } | null = null;
+
+/**
+ * Returns true when the current tab is showing a PDF in Chrome's built-in viewer.
+ */
+export function isPdfDocument(): boolean {
+  return document.contentType === 'application/pdf';
+}
+
+/**
+ * URL of the current PDF without its fragment. The viewer keeps `#page=N` in the
+ * address bar, so this is the stable key for annotations and indexes.
+ */
+export function getPdfDocumentUrl(): string {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  return url.toString();
+}
+
+/**
+ * Extract the text of every page of the current PDF.
+ * The result is cached per document, so repeated calls are cheap.
+ */
+export function extractPdfPages(): Promise<PdfPageText[]> {
+  const url = getPdfDocumentUrl();
+  if (cachedExtraction?.url !== url) {
+    const pages = loadPdfPages(url);
+    // Do not cache failures — a later call should try again
+    pages.catch(() => {
+      if (cachedExtraction?.pages === pages) cachedExtraction = null;
+    });
+    cachedExtraction = { url, pages };
+  }
+  return cachedExtraction.pages;
+}
+
+async function loadPdfPages(url: string): Promise<PdfPageText[]> {
+  // Loaded on demand so PDF.js is only fetched on PDF tabs
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL(PDF_WORKER_PATH);
+
+  // The content script shares the PDF's origin, so this fetch reuses the page's cookies
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not download PDF (HTTP ${response.status})`);
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  const pdf = await pdfjs.getDocument({ data, isEvalSupported: false }).promise;
+  try {
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    if (pdf.numPages > MAX_PDF_PAGES) {
+      console.warn(`[PdfDocument] Only the first ${MAX_PDF_PAGES} of ${pdf.numPages} pages will be read`);
+    }
+
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+      pages.push({ pageNumber, text });
+      page.cleanup();
+    }
+
+    console.log(`[PdfDocument] Extracted text from ${pages.length} page(s)`);
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Ask the viewer for the text currently selected in the PDF.
+ * Resolves to an empty string when nothing is selected or the viewer does not answer.
+ */
+export function getPdfSelectedText(): Promise<string> {
+  const viewer = document.querySelector<HTMLEmbedElement>('embed[type="application/pdf"]');
+  if (!viewer) return Promise.resolve('');
+
+  return new Promise((resolve) => {
+    const finish = (text: string) => {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timer);
+      resolve(text);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'getSelectedTextReply') {
+        finish(String(event.data.selectedText ?? ''));
+      }
+    };
+    const timer = setTimeout(() => finish(''), SELECTION_TIMEOUT_MS);
+
+    window.addEventListener('message', onMessage);
+    // The <embed> exposes the viewer's scripting API through postMessage
+    (viewer as HTMLEmbedElement & { postMessage(message: unknown, targetOrigin: string): void })
+      .postMessage({ type: 'getSelectedText' }, '*');
+  });
+}
+
+/**
+ * Scroll the viewer to a 1-based page number.
+ */
+export function goToPdfPage(pageNumber: number): void {
+  window.location.hash = `page=${pageNumber}`;
+}
+
+/**
+ * Build a page + text quote anchor for text selected in the PDF.
+ * Returns null when the text cannot be found in the extracted pages.
+ */
+export function buildPdfAnchor(pages: PdfPageText[], selectedText: string): AnchorData | null {
+  const exact = selectedText.replace(/\s+/g, ' ').trim();
+  if (!exact) return null;
+
+  const match = findInPages(pages, exact)
+    ?? (exact.length > QUOTE_HEAD_LENGTH ? findInPages(pages, exact.slice(0, QUOTE_HEAD_LENGTH)) : null);
+  if (!match) return null;
+
+  const { page, start } = match;
+  const end = Math.min(start + exact.length, page.text.length);
+  return {
+    startContainer: { xpath: '', offset: start },
+    endContainer: { xpath: '', offset: end },
+    textQuote: {
+      exact,
+      prefix: page.text.slice(Math.max(0, start - QUOTE_CONTEXT_LENGTH), start),
+      suffix: page.text.slice(end, end + QUOTE_CONTEXT_LENGTH),
+    },
+    textPosition: { start, end },
+    pageNumber: page.pageNumber,
+  };
+}
+
+/** First page containing `needle`, trying an exact match before a case-insensitive one */
+function findInPages(
+  pages: PdfPageText[],
+  needle: string
+): { page: PdfPageText; start: number } | null {
+  for (const page of pages) {
+    const start = page.text.indexOf(needle);
+    if (start !== -1) return { page, start };
+  }
+  const lowerNeedle = needle.toLowerCase();
+  for (const page of pages) {
+    const start = page.text.toLowerCase().indexOf(lowerNeedle);
+    if (start !== -1) return { page, start };
+  }
+  return null;
+}
@@ -0,0 +1,301 @@
+// src/content/utils/readerView.ts
+// Distraction-free reader view built from the extracted main content.
+// The content roots are restyled in place and everything else on the page is
+// hidden, so highlights, notes, word explanations and translation keep working
+// on the page's own DOM and every anchor created in the reader is an anchor
+// into the original page.
+
+import { THEMES, type Theme } from '@/constants/theme';
+import type { ReaderPreferencesDTO } from '@/storage/chrome-local/dto';
+import {
+  EXCLUDED_CONTAINER_TAGS,
+  getContentRoots,
+  isExcludedByRule,
+  isExtensionElement,
+  isIncludedByRule,
+} from './pageContentExtractor';
+
+/** Role of a page element while the reader view is open */
+const READER_ATTR = 'data-xplaino-reader';
+const ACTIVE_ATTR = 'data-xplaino-reader-active';
+const STYLE_ELEMENT_ID = 'xplaino-reader-view-style';
+
+const FONT_STACKS: Record<ReaderPreferencesDTO['fontFamily'], string> = {
+  serif: "Charter, 'Iowan Old Style', Georgia, Cambria, 'Times New Roman', serif",
+  sans: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
+};
+
+/** Blocks used to keep the reading position when switching in and out */
+const POSITION_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figure, img, table';
+
+/** Our own marks and inserted nodes keep their styling inside the reader */
+const NOT_EXTENSION = ':not([class*="xplaino"]):not([data-xplaino-highlight-id]):not([data-text-explanation-wrapper])';
+
+const READER_CSS = `
+html[${ACTIVE_ATTR}] {
+  overflow: auto !important;
+  background: var(--xplaino-reader-bg) !important;
+}
+html[${ACTIVE_ATTR}] body {
+  background: var(--xplaino-reader-bg) !important;
+}
+[${READER_ATTR}="hidden"] {
+  display: none !important;
+}
+[${READER_ATTR}="path"] {
+  display: block !important;
+  position: static !important;
+  float: none !important;
+  width: auto !important;
+  min-width: 0 !important;
+  max-width: none !important;
+  height: auto !important;
+  min-height: 0 !important;
+  margin: 0 !important;
+  padding: 0 !important;
+  border: none !important;
+  box-shadow: none !important;
+  transform: none !important;
+  overflow: visible !important;
+  background: transparent !important;
+}
+[${READER_ATTR}="root"] {
+  display: block !important;
+  position: static !important;
+  float: none !important;
+  box-sizing: border-box !important;
+  width: auto !important;
+  max-width: var(--xplaino-reader-width) !important;
+  height: auto !important;
+  margin: 0 auto !important;
+  padding: 48px 24px !important;
+  border: none !important;
+  transform: none !important;
+  overflow: visible !important;
+  background: transparent !important;
+  color: var(--xplaino-reader-text) !important;
+  font-family: var(--xplaino-reader-font) !important;
+  font-size: var(--xplaino-reader-font-size) !important;
+  line-height: var(--xplaino-reader-line-height) !important;
+}
+[${READER_ATTR}="root"] :is(p, li, dd, dt, blockquote, figcaption, td, th, span, em, strong, b, i, u, small, div, section, article, header, label)${NOT_EXTENSION} {
+  font-family: inherit !important;
+  font-size: inherit !important;
+  line-height: inherit !important;
+  color: inherit !important;
+}
+[${READER_ATTR}="root"] :is(div, section, article, header, main, table, tr, td, th, blockquote, figure)${NOT_EXTENSION} {
+  background-color: transparent !important;
+  position: static !important;
+  float: none !important;
+  max-width: 100% !important;
+}
+[${READER_ATTR}="root"] :is(h1, h2, h3, h4, h5, h6) {
+  font-family: inherit !important;
+  line-height: 1.3 !important;
+  color: var(--xplaino-reader-text) !important;
+  margin: 1.4em 0 0.5em !important;
+}
+[${READER_ATTR}="root"] h1 { font-size: 1.9em !important; }
+[${READER_ATTR}="root"] h2 { font-size: 1.5em !important; }
+[${READER_ATTR}="root"] h3 { font-size: 1.25em !important; }
+[${READER_ATTR}="root"] :is(h4, h5, h6) { font-size: 1.1em !important; }
+[${READER_ATTR}="root"] p {
+  margin: 0 0 1em !important;
+}
+[${READER_ATTR}="root"] a {
+  color: var(--xplaino-reader-link) !important;
+}
+[${READER_ATTR}="root"] :is(blockquote) {
+  margin: 1em 0 !important;
+  padding-left: 1em !important;
+  border-left: 3px solid var(--xplaino-reader-border) !important;
+  color: var(--xplaino-reader-muted) !important;
+}
+[${READER_ATTR}="root"] :is(figcaption, small) {
+  font-size: 0.85em !important;
+  color: var(--xplaino-reader-muted) !important;
+}
+[${READER_ATTR}="root"] :is(pre, code, kbd, samp) {
+  font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace !important;
+  font-size: 0.85em !important;
+}
+[${READER_ATTR}="root"] pre {
+  overflow-x: auto !important;
+  white-space: pre !important;
+}
+[${READER_ATTR}="root"] :is(img, video, picture, iframe, svg, canvas) {
+  max-width: 100% !important;
+}
+[${READER_ATTR}="root"] img {
+  height: auto !important;
+}
+`;
+
+/** The first block whose bottom edge is below the top of the viewport */
+function findFirstVisibleBlock(scope: Element[]): Element | null {
+  for (const root of scope) {
+    for (const block of root.querySelectorAll(POSITION_BLOCK_SELECTOR)) {
+      const rect = block.getBoundingClientRect();
+      if (rect.height > 0 && rect.bottom > 0) return block;
+    }
+  }
+  return null;
+}
+
+/**
+ * Controls the reader view for the current page.
+ *
+ * Entering marks three kinds of elements: the content roots (restyled with the
+ * reader typography), their ancestors (flattened so the roots can be centred),
+ * and every other branch of the page (hidden). Inside the roots, areas the
+ * extractor skips — nav, footer and aside blocks and the site rule's
+ * exclusions — are hidden too. Exiting removes the marks and nothing else.
+ */
+export class ReaderView {
+  private roots: Element[] = [];
+  private marked: Element[] = [];
+
+  isActive(): boolean {
+    return this.roots.length > 0;
+  }
+
+  /**
+   * Open the reader view. Returns false when the page has no identifiable
+   * main content (the extractor would fall back to the whole body).
+   */
+  enter(preferences: ReaderPreferencesDTO, theme: Theme): boolean {
+    if (this.isActive()) {
+      this.applyPreferences(preferences, theme);
+      return true;
+    }
+
+    const roots = getContentRoots();
+    if (roots.length === 0 || roots[0] === document.body) return false;
+
+    const anchor = findFirstVisibleBlock(roots);
+
+    this.roots = roots;
+    this.injectStyles();
+    this.applyPreferences(preferences, theme);
+    for (const root of roots) {
+      this.mark(root, 'root');
+      this.markInsideRoot(root);
+    }
+    for (const root of roots) {
+      this.markOutsideRoot(root);
+    }
+    document.documentElement.setAttribute(ACTIVE_ATTR, 'true');
+
+    this.restorePosition(anchor);
+    console.log(`[ReaderView] Entered with ${roots.length} content root(s)`);
+    return true;
+  }
+
+  /**
+   * Close the reader view and return to the same passage on the original page
+   */
+  exit(): void {
+    if (!this.isActive()) return;
+
+    const anchor = findFirstVisibleBlock(this.roots);
+
+    for (const element of this.marked) {
+      element.removeAttribute(READER_ATTR);
+    }
+    this.marked = [];
+    this.roots = [];
+
+    const html = document.documentElement;
+    html.removeAttribute(ACTIVE_ATTR);
+    for (const property of Array.from(html.style)) {
+      if (property.startsWith('--xplaino-reader-')) html.style.removeProperty(property);
+    }
+    document.getElementById(STYLE_ELEMENT_ID)?.remove();
+
+    this.restorePosition(anchor);
+    console.log('[ReaderView] Exited');
+  }
+
+  /**
+   * Apply typography and theme. Cheap: only CSS variables change.
+   */
+  applyPreferences(preferences: ReaderPreferencesDTO, theme: Theme): void {
+    const colors = THEMES[theme];
+    const style = document.documentElement.style;
+    style.setProperty('--xplaino-reader-bg', colors['bg-primary']);
+    style.setProperty('--xplaino-reader-text', colors['text-primary']);
+    style.setProperty('--xplaino-reader-muted', colors['text-secondary']);
+    style.setProperty('--xplaino-reader-border', colors['border-default']);
+    style.setProperty('--xplaino-reader-link', colors['border-focus']);
+    style.setProperty('--xplaino-reader-font', FONT_STACKS[preferences.fontFamily]);
+    style.setProperty('--xplaino-reader-font-size', `${preferences.fontSize}px`);
+    style.setProperty('--xplaino-reader-line-height', String(preferences.lineHeight));
+    style.setProperty('--xplaino-reader-width', `${preferences.contentWidth}px`);
+  }
+
+  private injectStyles(): void {
+    if (document.getElementById(STYLE_ELEMENT_ID)) return;
+    const styleElement = document.createElement('style');
+    styleElement.id = STYLE_ELEMENT_ID;
+    styleElement.textContent = READER_CSS;
+    (document.head ?? document.documentElement).appendChild(styleElement);
+  }
+
+  private mark(element: Element, role: 'root' | 'path' | 'hidden'): void {
+    element.setAttribute(READER_ATTR, role);
+    this.marked.push(element);
+  }
+
+  /** Hide what the extractor would skip inside a root */
+  private markInsideRoot(root: Element): void {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
+      acceptNode: (node) => {
+        const el = node as Element;
+        if (isExtensionElement(el)) return NodeFilter.FILTER_REJECT;
+        if (isExcludedByRule(el)) return NodeFilter.FILTER_ACCEPT;
+        if (el.tagName !== 'HEADER' && EXCLUDED_CONTAINER_TAGS.has(el.tagName) && !isIncludedByRule(el)) {
+          return NodeFilter.FILTER_ACCEPT;
+        }
+        return NodeFilter.FILTER_SKIP;
+      },
+    });
+    const hidden: Element[] = [];
+    let node: Node | null;
+    while ((node = walker.nextNode())) hidden.push(node as Element);
+    // Marked after the walk; a hidden element's subtree is covered by display: none
+    for (const element of hidden) {
+      if (!hidden.some((other) => other !== element && other.contains(element))) this.mark(element, 'hidden');
+    }
+  }
+
+  /** Flatten the root's ancestors and hide their other branches */
+  private markOutsideRoot(root: Element): void {
+    let current: Element = root;
+    while (current.parentElement && current !== document.body) {
+      const parent: Element = current.parentElement;
+      if (!parent.hasAttribute(READER_ATTR)) this.mark(parent, 'path');
+      for (const sibling of parent.children) {
+        if (sibling.hasAttribute(READER_ATTR)) continue;
+        if (this.roots.some((r) => sibling.contains(r))) continue;
+        if (isExtensionElement(sibling) || sibling.tagName === 'SCRIPT' || sibling.tagName === 'STYLE') continue;
+        this.mark(sibling, 'hidden');
+      }
+      if (parent === document.body) break;
+      current = parent;
+    }
+  }
+
+  /** Scroll `anchor` back to the top of the viewport once layout has settled */
+  private restorePosition(anchor: Element | null): void {
+    requestAnimationFrame(() => {
+      if (anchor?.isConnected) {
+        anchor.scrollIntoView({ block: 'start' });
+      } else {
+        window.scrollTo(0, 0);
+      }
+      // Highlight, note and icon overlays reposition on resize
+      window.dispatchEvent(new Event('resize'));
+    });
+  }
+}
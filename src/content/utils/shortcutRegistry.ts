@@ -0,0 +1,197 @@
+// src/content/utils/shortcutRegistry.ts
+// Keyboard shortcut commands, binding parsing/formatting and conflict detection.
+// Bindings are canonical strings such as "Mod+Shift+P", where "Mod" is Cmd on macOS and Ctrl elsewhere.
+
+export type ShortcutCommandId =
+  | 'openCommandPalette'
+  | 'summarisePage'
+  | 'askAboutPage'
+  | 'newChatSession'
+  | 'translatePage'
+  | 'toggleTranslationView'
+  | 'clearTranslations'
+  | 'explainSelection'
+  | 'highlightSelection'
+  | 'addNote'
+  | 'bookmarkSelection'
+  | 'bookmarkLink'
+  | 'exportAnnotationsMarkdown'
+  | 'exportAnnotationsHtml'
+  | 'exportAnnotationsJson'
+  | 'reviewSavedWords'
+  | 'showPageAnnotations'
+  | 'toggleReaderView'
+  | 'openSettings';
+
+export interface ShortcutCommand {
+  id: ShortcutCommandId;
+  label: string;
+  /** Binding used until the user changes it; null means unbound by default */
+  defaultBinding: string | null;
+  /** The command acts on the current text selection */
+  requiresSelection?: boolean;
+}
+
+/** Every action reachable from the command palette, in palette order */
+export const SHORTCUT_COMMANDS: readonly ShortcutCommand[] = [
+  { id: 'openCommandPalette', label: 'Open command palette', defaultBinding: 'Mod+Shift+P' },
+  { id: 'summarisePage', label: 'Summarise page', defaultBinding: 'Mod+M' },
+  { id: 'askAboutPage', label: 'Ask about page', defaultBinding: 'Mod+B' },
+  { id: 'newChatSession', label: 'Start a new chat session', defaultBinding: null },
+  { id: 'translatePage', label: 'Translate page', defaultBinding: 'Mod+K' },
+  { id: 'toggleTranslationView', label: 'Toggle translated / original view', defaultBinding: null },
+  { id: 'clearTranslations', label: 'Clear page translation', defaultBinding: null },
+  { id: 'explainSelection', label: 'Explain selection', defaultBinding: null, requiresSelection: true },
+  { id: 'highlightSelection', label: 'Highlight selection', defaultBinding: null, requiresSelection: true },
+  { id: 'addNote', label: 'Add note to selection', defaultBinding: null, requiresSelection: true },
+  { id: 'bookmarkSelection', label: 'Bookmark selection', defaultBinding: null, requiresSelection: true },
+  { id: 'bookmarkLink', label: 'Bookmark this page link', defaultBinding: null },
+  { id: 'exportAnnotationsMarkdown', label: 'Export highlights and notes as Markdown', defaultBinding: null },
+  { id: 'exportAnnotationsHtml', label: 'Export highlights and notes as HTML', defaultBinding: null },
+  { id: 'exportAnnotationsJson', label: 'Export highlights and notes as JSON', defaultBinding: null },
+  { id: 'reviewSavedWords', label: 'Review saved words', defaultBinding: null },
+  { id: 'showPageAnnotations', label: 'Show annotations on this page', defaultBinding: null },
+  { id: 'toggleReaderView', label: 'Toggle reader view', defaultBinding: null },
+  { id: 'openSettings', label: 'Open settings', defaultBinding: null },
+];
+
+export type ShortcutBindings = Record<ShortcutCommandId, string | null>;
+
+/**
+ * Browser shortcuts a page-level listener should not take over.
+ * Binding one of these is reported as a conflict.
+ */
+const RESERVED_BINDINGS: Record<string, string> = {
+  'Mod+A': 'Select all',
+  'Mod+C': 'Copy',
+  'Mod+D': 'Bookmark tab',
+  'Mod+F': 'Find in page',
+  'Mod+L': 'Address bar',
+  'Mod+N': 'New window',
+  'Mod+P': 'Print',
+  'Mod+Q': 'Quit browser',
+  'Mod+R': 'Reload',
+  'Mod+S': 'Save page',
+  'Mod+T': 'New tab',
+  'Mod+V': 'Paste',
+  'Mod+W': 'Close tab',
+  'Mod+X': 'Cut',
+  'Mod+Z': 'Undo',
+  'Mod+Shift+N': 'New incognito window',
+  'Mod+Shift+T': 'Reopen closed tab',
+  'Mod+Shift+Z': 'Redo',
+};
+
+const MODIFIER_ORDER = ['Mod', 'Alt', 'Shift'] as const;
+
+/**
+ * Merge stored overrides over the defaults. Unknown ids and malformed
+ * bindings are ignored; an explicit null override unbinds the command.
+ */
+export function resolveShortcutBindings(
+  overrides: Record<string, string | null> | null
+): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  for (const command of SHORTCUT_COMMANDS) {
+    const override = overrides?.[command.id];
+    if (override === null) {
+      bindings[command.id] = null;
+    } else if (typeof override === 'string' && normalizeBinding(override)) {
+      bindings[command.id] = normalizeBinding(override);
+    } else {
+      bindings[command.id] = command.defaultBinding;
+    }
+  }
+  return bindings;
+}
+
+/** Parse and re-emit a binding in canonical modifier order; null when invalid */
+export function normalizeBinding(binding: string): string | null {
+  const parts = binding.split('+').map((p) => p.trim()).filter(Boolean);
+  const key = parts.pop();
+  if (!key) return null;
+
+  const modifiers = new Set(parts);
+  if (![...modifiers].every((m) => (MODIFIER_ORDER as readonly string[]).includes(m))) return null;
+  // Require Mod or Alt so a shortcut never swallows plain typing
+  if (!modifiers.has('Mod') && !modifiers.has('Alt')) return null;
+
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), key.length === 1 ? key.toUpperCase() : key].join('+');
+}
+
+/**
+ * Canonical binding for a keydown event, or null for modifier-only presses
+ * and combinations without Mod/Alt.
+ * Either Cmd or Ctrl counts as "Mod", matching the original hardcoded shortcuts.
+ * Letters and digits are read from `code` so Shift/Alt-altered characters
+ * (e.g. Alt+P producing "π" on macOS) still map to the physical key.
+ */
+export function bindingFromEvent(e: KeyboardEvent): string | null {
+  if (['Meta', 'Control', 'Alt', 'Shift'].includes(e.key)) return null;
+
+  let key: string;
+  if (e.code.startsWith('Key')) key = e.code.slice(3);
+  else if (e.code.startsWith('Digit')) key = e.code.slice(5);
+  else key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+
+  const parts: string[] = [];
+  if (e.metaKey || e.ctrlKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(key);
+  return normalizeBinding(parts.join('+'));
+}
+
+/** Human-readable binding, e.g. "⌘⇧P" on macOS or "Ctrl+Shift+P" elsewhere */
+export function formatBinding(binding: string, isMac: boolean): string {
+  const parts = binding.split('+');
+  if (isMac) {
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+    return parts.map((p) => symbols[p] ?? p).join('');
+  }
+  return parts.map((p) => (p === 'Mod' ? 'Ctrl' : p)).join('+');
+}
+
+export interface ShortcutConflict {
+  commandId: ShortcutCommandId;
+  binding: string;
+  /** What the binding clashes with: another command's label or a browser shortcut */
+  conflictsWith: string;
+  kind: 'duplicate' | 'reserved';
+}
+
+/** Bindings shared by several commands, or taken by the browser */
+export function findShortcutConflicts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const byBinding = new Map<string, ShortcutCommand[]>();
+
+  for (const command of SHORTCUT_COMMANDS) {
+    const binding = bindings[command.id];
+    if (!binding) continue;
+    byBinding.set(binding, [...(byBinding.get(binding) ?? []), command]);
+
+    const reserved = RESERVED_BINDINGS[binding];
+    if (reserved) {
+      conflicts.push({ commandId: command.id, binding, conflictsWith: reserved, kind: 'reserved' });
+    }
+  }
+
+  for (const [binding, commands] of byBinding) {
+    if (commands.length < 2) continue;
+    for (const command of commands) {
+      const others = commands.filter((c) => c.id !== command.id).map((c) => c.label);
+      conflicts.push({ commandId: command.id, binding, conflictsWith: others.join(', '), kind: 'duplicate' });
+    }
+  }
+
+  return conflicts;
+}
+
+/** Find the command bound to a canonical binding */
+export function commandForBinding(
+  bindings: ShortcutBindings,
+  binding: string
+): ShortcutCommandId | null {
+  const command = SHORTCUT_COMMANDS.find((c) => bindings[c.id] === binding);
+  return command?.id ?? null;
+}
@@ -0,0 +1,117 @@
+// src/content/utils/siteExtractionRules.ts
+// User-defined per-domain content extraction rules: storage lookup, applying the
+// current site's rule to the page content extractor, and selector helpers for the editor.
+
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import type { SiteExtractionRuleDTO } from '@/storage/chrome-local/dto';
+import { setActiveExtractionRule } from './pageContentExtractor';
+
+/** Classes that look generated (CSS modules, styled-components, hashes) make poor selectors */
+const UNSTABLE_CLASS_PATTERN = /^(css|sc|jsx|emotion)-|[0-9a-f]{5,}|__[a-z0-9]{4,}$/i;
+
+/** Hostname without "www.", lowercased */
+export function getRuleDomain(hostname: string = window.location.hostname): string {
+  const lower = hostname.toLowerCase();
+  return lower.startsWith('www.') ? lower.slice(4) : lower;
+}
+
+/**
+ * The rule for `domain`: an exact match, else the rule of the closest parent
+ * domain (a rule for "example.com" also covers "wiki.example.com").
+ */
+export function findSiteExtractionRule(
+  rules: Record<string, SiteExtractionRuleDTO>,
+  domain: string
+): SiteExtractionRuleDTO | null {
+  let candidate = domain;
+  for (;;) {
+    if (rules[candidate]) return rules[candidate];
+    const dot = candidate.indexOf('.');
+    if (dot < 0 || candidate.indexOf('.', dot + 1) < 0) return null;
+    candidate = candidate.slice(dot + 1);
+  }
+}
+
+/** Load the current site's rule from storage and hand it to the extractor */
+export async function loadSiteExtractionRule(): Promise<SiteExtractionRuleDTO | null> {
+  const rules = await ChromeStorage.getSiteExtractionRules();
+  const rule = findSiteExtractionRule(rules, getRuleDomain());
+  setActiveExtractionRule(rule);
+  return rule;
+}
+
+/** Whether `selector` is syntactically valid CSS */
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** One selector per line; blank lines dropped */
+export function parseSelectorList(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function isUnique(selector: string, element: Element): boolean {
+  try {
+    const matches = document.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch {
+    return false;
+  }
+}
+
+/** Tag plus up to two stable classes, e.g. "div.wiki-content" */
+function describeElement(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const classes = Array.from(element.classList)
+    .filter((c) => !UNSTABLE_CLASS_PATTERN.test(c) && !c.includes('xplaino'))
+    .slice(0, 2)
+    .map((c) => `.${CSS.escape(c)}`)
+    .join('');
+  return `${tag}${classes}`;
+}
+
+/**
+ * A selector that matches `element` alone, preferring ids and stable class
+ * names over positions so it keeps working as the page's content changes.
+ */
+export function getSelectorForElement(element: Element): string {
+  if (element.id && !UNSTABLE_CLASS_PATTERN.test(element.id)) {
+    const byId = `#${CSS.escape(element.id)}`;
+    if (isUnique(byId, element)) return byId;
+  }
+
+  const described = describeElement(element);
+  if (isUnique(described, element)) return described;
+
+  const parts: string[] = [];
+  let current: Element | null = element;
+  while (current && current !== document.body && current !== document.documentElement) {
+    const parentEl: Element | null = current.parentElement;
+    let part = describeElement(current);
+    if (parentEl) {
+      const tag = current.tagName;
+      const sameTag = Array.from(parentEl.children).filter((c) => c.tagName === tag);
+      if (sameTag.length > 1) part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+    }
+    parts.unshift(part);
+
+    const selector = parts.join(' > ');
+    if (isUnique(selector, element)) return selector;
+
+    // Anchor the path on the nearest ancestor with a usable id
+    if (parentEl?.id && !UNSTABLE_CLASS_PATTERN.test(parentEl.id)) {
+      const anchored = `#${CSS.escape(parentEl.id)} > ${selector}`;
+      if (isUnique(anchored, element)) return anchored;
+    }
+    current = parentEl;
+  }
+  return parts.join(' > ') || described;
+}
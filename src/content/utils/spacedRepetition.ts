@@ -0,0 +1,151 @@
+// src/content/utils/spacedRepetition.ts
+// SM-2 scheduling for saved-word review cards.
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+/** A failed card comes back this soon, so it is seen again in the same session */
+const RELEARN_DELAY_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** New (never reviewed) cards introduced per day */
+export const NEW_CARDS_PER_DAY = 20;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** SM-2 recall quality (0-5) for each grade button */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+  introducedAt: string | null;
+  lastReviewedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/** Schedule for a card that has never been reviewed: due right away */
+export function createInitialSchedule(now: Date = new Date()): ReviewSchedule {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: now.toISOString(),
+    introducedAt: null,
+    lastReviewedAt: null,
+  };
+}
+
+/**
+ * Apply one review. A passing grade grows the interval (1 day, 6 days, then
+ * interval × ease factor); "again" resets the repetitions and brings the card
+ * back in a few minutes. The ease factor is adjusted on every review.
+ */
+export function scheduleReview(
+  schedule: ReviewSchedule,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewSchedule {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+  const reviewedAt = now.toISOString();
+  const introducedAt = schedule.introducedAt ?? reviewedAt;
+
+  if (quality < 3) {
+    return {
+      easeFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60 * 1000).toISOString(),
+      introducedAt,
+      lastReviewedAt: reviewedAt,
+    };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 :
+    repetitions === 2 ? 6 :
+    Math.round(schedule.intervalDays * easeFactor);
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    introducedAt,
+    lastReviewedAt: reviewedAt,
+  };
+}
+
+/** Short label for the interval a grade would give, e.g. "10m", "6d", "3mo" */
+export function formatNextInterval(schedule: ReviewSchedule, grade: ReviewGrade, now: Date = new Date()): string {
+  const next = scheduleReview(schedule, grade, now);
+  const minutes = Math.round((new Date(next.dueAt).getTime() - now.getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = next.intervalDays;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+}
+
+// ---------------------------------------------------------------------------
+// Due counting
+// ---------------------------------------------------------------------------
+
+/** End of the local day, so everything due later today counts as due today */
+export function endOfToday(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function isSameLocalDay(iso: string, now: Date): boolean {
+  const date = new Date(iso);
+  return date.getFullYear() === now.getFullYear()
+    && date.getMonth() === now.getMonth()
+    && date.getDate() === now.getDate();
+}
+
+/**
+ * Cards to review today: every started card due by the end of the day, plus
+ * new cards up to what is left of today's new-card allowance.
+ * Returned in review order (started cards by due date, then new cards oldest first).
+ */
+export function selectDueCards<T extends ReviewSchedule>(cards: T[], now: Date = new Date()): T[] {
+  const cutoff = endOfToday(now).getTime();
+  const started = cards
+    .filter((c) => c.introducedAt !== null && new Date(c.dueAt).getTime() <= cutoff)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+  const introducedToday = cards.filter((c) => c.introducedAt !== null && isSameLocalDay(c.introducedAt, now)).length;
+  const newAllowance = Math.max(0, NEW_CARDS_PER_DAY - introducedToday);
+  const fresh = cards
+    .filter((c) => c.introducedAt === null)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+    .slice(0, newAllowance);
+
+  return [...started, ...fresh];
+}
@@ -0,0 +1,233 @@
+// src/content/utils/syncOutbox.ts
+// Offline-first outbox for highlight, note and bookmark writes.
+// Writes are applied to the page optimistically and queued with the background
+// worker, which replays them in order with exponential backoff, also after the
+// tab that queued them is closed. Items created offline carry a temporary
+// "local-…" id until their create call returns the server id.
+
+import type { WebHighlightResponse } from '@/api-services/dto/WebHighlightDTO';
+import type { WebNoteResponse } from '@/api-services/dto/WebNoteDTO';
+import type {
+  OutboxEntry,
+  OutboxEvent,
+  OutboxOperation,
+  OutboxSyncStatus,
+  SyncOutboxRequest,
+} from '@/storage/indexed-db/syncOutboxStore';
+
+export type { OutboxEntry, OutboxEvent, OutboxOperation, OutboxSyncStatus } from '@/storage/indexed-db/syncOutboxStore';
+
+/** Message type handled by the background worker */
+export const SYNC_OUTBOX_MESSAGE = 'SYNC_OUTBOX';
+/** Message type the background worker broadcasts to tabs with each sync result */
+export const OUTBOX_EVENT_MESSAGE = 'SYNC_OUTBOX_EVENT';
+
+const TEMP_ID_PREFIX = 'local-';
+
+// =============================================================================
+// Ids and helpers
+// =============================================================================
+
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/** Highlight or note id an operation applies to; null for bookmark saves */
+export function getOutboxItemId(operation: OutboxOperation): string | null {
+  switch (operation.type) {
+    case 'createHighlight':
+    case 'createNote':
+      return operation.tempId;
+    case 'updateHighlight':
+    case 'deleteHighlight':
+      return operation.highlightId;
+    case 'updateNote':
+    case 'deleteNote':
+      return operation.noteId;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Errors worth retrying later: no connectivity, timeouts, rate limiting and
+ * server-side failures. Everything else (validation, auth) fails permanently.
+ */
+export function isTransientSyncError(errorCode: string): boolean {
+  return (
+    errorCode === 'NETWORK_ERROR' ||
+    errorCode === 'HTTP_408' ||
+    errorCode === 'HTTP_429' ||
+    /^HTTP_5\d\d$/.test(errorCode)
+  );
+}
+
+function send<T>(request: SyncOutboxRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type: SYNC_OUTBOX_MESSAGE, request }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Extension messaging failed'));
+        return;
+      }
+      if (!response?.success) {
+        reject(new Error(response?.error || 'Sync outbox request failed'));
+        return;
+      }
+      resolve(response.data as T);
+    });
+  });
+}
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+/** All queued entries, oldest first */
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  try {
+    return await send<OutboxEntry[]>({ op: 'list' });
+  } catch (err) {
+    console.warn('[SyncOutbox] listOutboxEntries failed:', err);
+    return [];
+  }
+}
+
+/** Subscribe to sync results, whichever tab queued the operation */
+export function onOutboxEvent(listener: (event: OutboxEvent) => void): () => void {
+  const onMessage = (message: { type?: string; event?: OutboxEvent }) => {
+    if (message?.type === OUTBOX_EVENT_MESSAGE && message.event) listener(message.event);
+  };
+  chrome.runtime.onMessage.addListener(onMessage);
+  return () => chrome.runtime.onMessage.removeListener(onMessage);
+}
+
+/**
+ * Queue an operation and start replaying. Operations on an item whose create
+ * has not been sent yet are folded into that create (see the background side).
+ */
+export async function enqueueOutboxOperation(operation: OutboxOperation): Promise<void> {
+  try {
+    await send({ op: 'enqueue', operation });
+  } catch (err) {
+    console.warn('[SyncOutbox] enqueueOutboxOperation failed:', err);
+  }
+}
+
+/** Queue a failed entry (and anything waiting on it) for another attempt right away */
+export async function retryOutboxItem(itemId: string): Promise<void> {
+  try {
+    await send({ op: 'retry', itemId });
+  } catch (err) {
+    console.warn('[SyncOutbox] retryOutboxItem failed:', err);
+  }
+}
+
+/** Drop every queued operation for an item (e.g. the user cleared a failed highlight) */
+export async function discardOutboxItem(itemId: string): Promise<void> {
+  try {
+    await send({ op: 'discard', itemId });
+  } catch (err) {
+    console.warn('[SyncOutbox] discardOutboxItem failed:', err);
+  }
+}
+
+/** Sync state per highlight/note id; a failed entry wins over a pending one */
+export async function getOutboxSyncStatuses(): Promise<Map<string, OutboxSyncStatus>> {
+  const statuses = new Map<string, OutboxSyncStatus>();
+  for (const entry of await listOutboxEntries()) {
+    const itemId = getOutboxItemId(entry.operation);
+    if (!itemId || statuses.get(itemId) === 'failed') continue;
+    statuses.set(itemId, entry.status);
+  }
+  return statuses;
+}
+
+// =============================================================================
+// Merging queued changes into loaded data
+// =============================================================================
+
+/**
+ * Overlay queued changes on the highlights loaded for a page: drop ones whose
+ * delete is queued, apply queued recolours and add ones created offline
+ * (under their temporary ids).
+ */
+export function mergeQueuedHighlights(
+  highlights: WebHighlightResponse[],
+  entries: OutboxEntry[],
+  pageUrl: string
+): WebHighlightResponse[] {
+  const deleted = new Set<string>();
+  const recolored = new Map<string, string>();
+  const created: WebHighlightResponse[] = [];
+
+  for (const { operation, createdAt } of entries) {
+    if (operation.type === 'deleteHighlight' && operation.pageUrl === pageUrl) {
+      deleted.add(operation.highlightId);
+    } else if (operation.type === 'updateHighlight' && operation.pageUrl === pageUrl) {
+      recolored.set(operation.highlightId, operation.color);
+    } else if (operation.type === 'createHighlight' && operation.request.pageUrl === pageUrl) {
+      const timestamp = new Date(createdAt).toISOString();
+      created.push({
+        id: operation.tempId,
+        pageUrl,
+        selectedText: operation.request.selectedText,
+        anchor: operation.request.anchor,
+        color: operation.request.color ?? null,
+        note: operation.request.note ?? null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+  }
+
+  return [...highlights.filter((h) => !deleted.has(h.id)), ...created].map((h) =>
+    recolored.has(h.id) ? { ...h, color: recolored.get(h.id)! } : h
+  );
+}
+
+/**
+ * Overlay queued changes on the notes loaded for a page: drop deleted notes,
+ * apply queued content edits and add notes created offline.
+ */
+export function mergeQueuedNotes(
+  notes: WebNoteResponse[],
+  entries: OutboxEntry[],
+  pageUrl: string
+): WebNoteResponse[] {
+  const deleted = new Set<string>();
+  const edited = new Map<string, string>();
+  const created: WebNoteResponse[] = [];
+
+  for (const { operation, createdAt } of entries) {
+    if (operation.type === 'deleteNote' && operation.pageUrl === pageUrl) {
+      deleted.add(operation.noteId);
+    } else if (operation.type === 'updateNote' && operation.pageUrl === pageUrl) {
+      edited.set(operation.noteId, operation.content);
+    } else if (operation.type === 'createNote' && operation.request.pageUrl === pageUrl) {
+      const timestamp = new Date(createdAt).toISOString();
+      created.push({ id: operation.tempId, ...operation.request, createdAt: timestamp, updatedAt: timestamp });
+    }
+  }
+
+  return [...notes, ...created]
+    .filter((n) => !deleted.has(n.id))
+    .map((n) => (edited.has(n.id) ? { ...n, content: edited.get(n.id)! } : n));
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+function requestFlush(): void {
+  send({ op: 'flush' }).catch((err) => console.warn('[SyncOutbox] flush request failed:', err));
+}
+
+/** Replay queued operations now and whenever connectivity returns */
+export function startOutboxSync(): void {
+  window.addEventListener('online', requestFlush);
+  requestFlush();
+}
@@ -1,69 +1,76 @@
 // src/content/utils/vectorStore.ts
-// IndexedDB persistence for page vector indexes.
-// Keyed by SHA-256 hash of normalized page URL.
+// Content-side access to the page vector indexes.
+// Backed by vectorIndexStore in the background worker. Failures are logged and
+// treated as a missing index.
 
-import { ChunkMetadata } from './pageChunker';
+import type {
+  VectorIndex,
+  VectorIndexMeta,
+  VectorIndexRequest,
+  VectorSearchResult,
+} from '@/storage/indexed-db/vectorIndexStore';
 
-const DB_NAME = 'xplaino_webpage_chat';
-const STORE_NAME = 'page_vector_index';
-const DB_VERSION = 1;
+export type {
+  StoredChunk,
+  VectorIndex,
+  VectorIndexMeta,
+  VectorSearchMatch,
+  VectorSearchResult,
+} from '@/storage/indexed-db/vectorIndexStore';
 
-export interface StoredChunk {
-  chunkId: string;
-  text: string;
-  vector: number[];
-  metadata: ChunkMetadata;
-}
+/** Message type handled by the background worker */
+export const VECTOR_INDEX_MESSAGE = 'VECTOR_INDEX';
 
-export interface VectorIndex {
-  pageUrlHash: string;
-  pageContentHash: string;
-  indexedAt: string;
-  chunks: StoredChunk[];
-}
+/** Database earlier versions kept in each site's own IndexedDB */
+const LEGACY_DB_NAME = 'xplaino_webpage_chat';
 
-function openDB(): Promise<IDBDatabase> {
+function send<T>(request: VectorIndexRequest): Promise<T> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'pageUrlHash' });
+    chrome.runtime.sendMessage({ type: VECTOR_INDEX_MESSAGE, request }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || 'Extension messaging failed'));
+        return;
       }
-    };
-
-    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
-    request.onerror = () => reject(request.error);
+      if (!response?.success) {
+        reject(new Error(response?.error || 'Vector index request failed'));
+        return;
+      }
+      resolve(response.data as T);
+    });
   });
 }
 
 export async function getVectorIndex(urlHash: string): Promise<VectorIndex | null> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const req = store.get(urlHash);
-      req.onsuccess = () => resolve((req.result as VectorIndex) ?? null);
-      req.onerror = () => reject(req.error);
-    });
+    return await send<VectorIndex | null>({ op: 'get', urlHash });
   } catch (err) {
     console.warn('[VectorStore] getVectorIndex failed:', err);
     return null;
   }
 }
 
+/**
+ * Best `topK` chunks (by cosine score) across the indexes of several pages.
+ * The search runs in the background worker, so vectors never cross the message
+ * boundary; pages without an index are skipped.
+ */
+export async function searchVectorIndexes(
+  urlHashes: string[],
+  questionVector: number[],
+  topK: number
+): Promise<VectorSearchResult> {
+  if (urlHashes.length === 0) return { indexedPages: 0, matches: [] };
+  try {
+    return await send<VectorSearchResult>({ op: 'search', urlHashes, questionVector, topK });
+  } catch (err) {
+    console.warn('[VectorStore] searchVectorIndexes failed:', err);
+    return { indexedPages: 0, matches: [] };
+  }
+}
+
 export async function putVectorIndex(index: VectorIndex): Promise<void> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const req = store.put(index);
-      req.onsuccess = () => resolve();
-      req.onerror = () => reject(req.error);
-    });
+    await send({ op: 'put', index });
   } catch (err) {
     console.warn('[VectorStore] putVectorIndex failed:', err);
   }
@@ -71,15 +78,46 @@ export async function putVectorIndex(index: VectorIndex): Promise<void> {
 
 export async function deleteVectorIndex(urlHash: string): Promise<void> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      const req = store.delete(urlHash);
-      req.onsuccess = () => resolve();
-      req.onerror = () => reject(req.error);
-    });
+    await send({ op: 'delete', urlHash });
   } catch (err) {
     console.warn('[VectorStore] deleteVectorIndex failed:', err);
   }
 }
+
+/** All stored indexes across every site, most recently accessed first */
+export async function listVectorIndexes(): Promise<VectorIndexMeta[]> {
+  try {
+    return await send<VectorIndexMeta[]>({ op: 'list' });
+  } catch (err) {
+    console.warn('[VectorStore] listVectorIndexes failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Evict least-recently-used indexes, across every site, until the combined
+ * size fits the budget. `keepUrlHash` (typically the index just written) is
+ * never evicted.
+ * @returns Hashes of the evicted indexes
+ */
+export async function enforceVectorIndexBudget(
+  budgetBytes: number,
+  keepUrlHash?: string
+): Promise<string[]> {
+  try {
+    return await send<string[]>({ op: 'enforceBudget', budgetBytes, keepUrlHash });
+  } catch (err) {
+    console.warn('[VectorStore] enforceVectorIndexBudget failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Delete the indexes earlier versions stored in this site's own IndexedDB.
+ * They only cache embeddings, so they are dropped rather than migrated: the
+ * page is indexed again the next time it is chatted with.
+ */
+export function deleteLegacyVectorIndexes(): void {
+  const request = indexedDB.deleteDatabase(LEGACY_DB_NAME);
+  request.onerror = () => console.warn('[VectorStore] Could not delete legacy indexes:', request.error);
+}
@@ -0,0 +1,277 @@
+// src/content/utils/wordReviewDeck.ts
+// Local flashcard deck for saved-word review. Cards live in chrome.storage.local
+// (shared by every tab); their SM-2 scheduling is synced to the backend so a
+// deck follows the user across browsers. Merging is last-write-wins per card.
+
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import type { WordReviewCardDTO } from '@/storage/chrome-local/dto';
+import { SavedWordsService, type SavedWordResponse } from '@/api-services/SavedWordsService';
+import { WordReviewService } from '@/api-services/WordReviewService';
+import { MoreExamplesService } from '@/api-services/MoreExamplesService';
+import { WordSynonymsService } from '@/api-services/WordSynonymsService';
+import type { WordReviewStatePayload } from '@/api-services/dto/WordReviewDTO';
+import { getTextQuote } from './highlightAnchor';
+import { createInitialSchedule, scheduleReview, selectDueCards, type ReviewGrade } from './spacedRepetition';
+
+const SAVED_WORDS_PAGE_SIZE = 100;
+/** Characters of page text taken on each side of the word before trimming to sentences */
+const CONTEXT_SCAN_CHARS = 200;
+
+export type WordReviewCardContent = Pick<
+  WordReviewCardDTO,
+  'savedWordId' | 'word' | 'meaning' | 'examples' | 'synonyms' | 'sourceUrl' | 'context'
+>;
+
+export type RefreshDeckResult = 'synced' | 'signed-out' | 'error';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function createCard(content: WordReviewCardContent, now: Date = new Date()): WordReviewCardDTO {
+  return {
+    ...content,
+    ...createInitialSchedule(now),
+    updatedAt: now.toISOString(),
+    dirty: false,
+  };
+}
+
+function toStatePayload(card: WordReviewCardDTO): WordReviewStatePayload {
+  return {
+    savedWordId: card.savedWordId,
+    easeFactor: card.easeFactor,
+    intervalDays: card.intervalDays,
+    repetitions: card.repetitions,
+    dueAt: card.dueAt,
+    introducedAt: card.introducedAt,
+    lastReviewedAt: card.lastReviewedAt,
+    updatedAt: card.updatedAt,
+  };
+}
+
+/**
+ * The sentence(s) around a word selection on the page, used as the card's
+ * context. Falls back to the raw surrounding text if no sentence break is found.
+ */
+export function getWordContext(range: Range): string {
+  const { exact, prefix, suffix } = getTextQuote(range, CONTEXT_SCAN_CHARS);
+  const sentenceStart = Math.max(prefix.lastIndexOf('. '), prefix.lastIndexOf('? '), prefix.lastIndexOf('! '));
+  const before = sentenceStart >= 0 ? prefix.slice(sentenceStart + 2) : prefix;
+  const endMatch = suffix.match(/[.!?](\s|$)/);
+  const after = endMatch?.index !== undefined ? suffix.slice(0, endMatch.index + 1) : suffix;
+  return `${before}${exact}${after}`.replace(/\s+/g, ' ').trim();
+}
+
+function fetchSavedWordsPage(offset: number): Promise<{ words: SavedWordResponse[]; total: number } | null> {
+  return new Promise((resolve) => {
+    SavedWordsService.getSavedWords(offset, SAVED_WORDS_PAGE_SIZE, {
+      onSuccess: (response) => resolve({ words: response.words, total: response.total }),
+      onError: (errorCode, errorMessage) => {
+        console.warn('[WordReviewDeck] Failed to load saved words:', errorCode, errorMessage);
+        resolve(null);
+      },
+      onLoginRequired: () => resolve(null),
+      onSubscriptionRequired: () => resolve(null),
+    });
+  });
+}
+
+async function fetchAllSavedWords(): Promise<SavedWordResponse[] | null> {
+  const words: SavedWordResponse[] = [];
+  for (;;) {
+    const page = await fetchSavedWordsPage(words.length);
+    if (!page) return null;
+    words.push(...page.words);
+    if (page.words.length === 0 || words.length >= page.total) return words;
+  }
+}
+
+function fetchRemoteStates(): Promise<WordReviewStatePayload[] | null> {
+  return new Promise((resolve) => {
+    WordReviewService.getReviewStates({
+      onSuccess: (response) => resolve(response.states),
+      onError: (errorCode, errorMessage) => {
+        console.warn('[WordReviewDeck] Failed to load review states:', errorCode, errorMessage);
+        resolve(null);
+      },
+    });
+  });
+}
+
+// =============================================================================
+// Deck operations
+// =============================================================================
+
+/** Add a card for a word that was just saved. An existing card is kept as is. */
+export async function addWordReviewCard(content: WordReviewCardContent): Promise<void> {
+  const deck = await ChromeStorage.getWordReviewDeck();
+  if (deck[content.savedWordId]) return;
+  deck[content.savedWordId] = createCard(content);
+  await ChromeStorage.setWordReviewDeck(deck);
+}
+
+/** Drop the card of a word that was removed from the saved list */
+export async function removeWordReviewCard(savedWordId: string): Promise<void> {
+  const deck = await ChromeStorage.getWordReviewDeck();
+  if (!deck[savedWordId]) return;
+  delete deck[savedWordId];
+  await ChromeStorage.setWordReviewDeck(deck);
+}
+
+/** Record a review, then push the new schedule in the background */
+export async function gradeWordReviewCard(savedWordId: string, grade: ReviewGrade): Promise<WordReviewCardDTO | null> {
+  const deck = await ChromeStorage.getWordReviewDeck();
+  const card = deck[savedWordId];
+  if (!card) return null;
+
+  const now = new Date();
+  const graded: WordReviewCardDTO = {
+    ...card,
+    ...scheduleReview(card, grade, now),
+    updatedAt: now.toISOString(),
+    dirty: true,
+  };
+  deck[savedWordId] = graded;
+  await ChromeStorage.setWordReviewDeck(deck);
+
+  pushWordReviewStates().catch((err) => {
+    console.warn('[WordReviewDeck] Failed to push review states:', err);
+  });
+  return graded;
+}
+
+/** Cards to review today, in review order */
+export function getDueWordReviewCards(deck: Record<string, WordReviewCardDTO>, now: Date = new Date()): WordReviewCardDTO[] {
+  return selectDueCards(Object.values(deck), now);
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/** Send every changed schedule to the backend. Cards stay dirty if the call fails. */
+export async function pushWordReviewStates(): Promise<void> {
+  const deck = await ChromeStorage.getWordReviewDeck();
+  const dirty = Object.values(deck).filter((c) => c.dirty);
+  if (dirty.length === 0) return;
+
+  const pushed = await new Promise<boolean>((resolve) => {
+    WordReviewService.saveReviewStates(
+      { states: dirty.map(toStatePayload) },
+      {
+        onSuccess: () => resolve(true),
+        onError: (errorCode, errorMessage) => {
+          console.warn('[WordReviewDeck] Failed to save review states:', errorCode, errorMessage);
+          resolve(false);
+        },
+        onLoginRequired: () => resolve(false),
+      }
+    );
+  });
+  if (!pushed) return;
+
+  // Re-read: a card graded again while the request was in flight stays dirty
+  const latest = await ChromeStorage.getWordReviewDeck();
+  for (const card of dirty) {
+    const current = latest[card.savedWordId];
+    if (current && current.updatedAt === card.updatedAt) {
+      latest[card.savedWordId] = { ...current, dirty: false };
+    }
+  }
+  await ChromeStorage.setWordReviewDeck(latest);
+}
+
+/**
+ * Bring the deck in line with the saved-word list and the synced schedules:
+ * cards are added for words saved elsewhere, dropped for words no longer
+ * saved, and each card takes whichever schedule was changed last.
+ */
+export async function refreshWordReviewDeck(): Promise<RefreshDeckResult> {
+  const authInfo = await ChromeStorage.getAuthInfo();
+  if (!authInfo?.isLoggedIn) return 'signed-out';
+
+  const [savedWords, remoteStates] = await Promise.all([fetchAllSavedWords(), fetchRemoteStates()]);
+  if (!savedWords) return 'error';
+
+  // Read the deck only after the network calls so reviews made meanwhile are kept
+  const deck = await ChromeStorage.getWordReviewDeck();
+  const savedIds = new Set(savedWords.map((w) => w.id));
+
+  for (const id of Object.keys(deck)) {
+    if (!savedIds.has(id)) delete deck[id];
+  }
+  for (const saved of savedWords) {
+    if (deck[saved.id]) continue;
+    deck[saved.id] = createCard({
+      savedWordId: saved.id,
+      word: saved.word,
+      meaning: saved.contextual_meaning ?? '',
+      examples: [],
+      synonyms: [],
+      sourceUrl: saved.sourceUrl,
+      context: '',
+    }, new Date(saved.createdAt));
+  }
+
+  for (const state of remoteStates ?? []) {
+    const card = deck[state.savedWordId];
+    if (!card || card.updatedAt >= state.updatedAt) continue;
+    deck[state.savedWordId] = { ...card, ...state, dirty: false };
+  }
+
+  await ChromeStorage.setWordReviewDeck(deck);
+  await pushWordReviewStates();
+  return remoteStates ? 'synced' : 'error';
+}
+
+// =============================================================================
+// Card content
+// =============================================================================
+
+/**
+ * Fill in examples and synonyms for a card that has none yet (words saved
+ * from another device or before review existed). Resolves to the updated card.
+ */
+export async function enrichWordReviewCard(card: WordReviewCardDTO): Promise<WordReviewCardDTO> {
+  const needsExamples = card.examples.length === 0 && card.meaning.length > 0;
+  const needsSynonyms = card.synonyms.length === 0;
+  if (!needsExamples && !needsSynonyms) return card;
+
+  const [examples, synonyms] = await Promise.all([
+    needsExamples
+      ? new Promise<string[]>((resolve) => {
+          MoreExamplesService.getMoreExamples(
+            { word: card.word, meaning: card.meaning, examples: [] },
+            {
+              onSuccess: (response) => resolve(response.examples),
+              onError: () => resolve([]),
+              onLoginRequired: () => resolve([]),
+              onSubscriptionRequired: () => resolve([]),
+            }
+          );
+        })
+      : Promise.resolve(card.examples),
+    needsSynonyms
+      ? new Promise<string[]>((resolve) => {
+          WordSynonymsService.getSynonyms(
+            { words: [card.word] },
+            {
+              onSuccess: (response) => resolve(response.synonyms[0]?.synonyms ?? []),
+              onError: () => resolve([]),
+              onLoginRequired: () => resolve([]),
+              onSubscriptionRequired: () => resolve([]),
+            }
+          );
+        })
+      : Promise.resolve(card.synonyms),
+  ]);
+
+  const deck = await ChromeStorage.getWordReviewDeck();
+  const current = deck[card.savedWordId];
+  if (!current) return { ...card, examples, synonyms };
+  const enriched = { ...current, examples, synonyms };
+  deck[card.savedWordId] = enriched;
+  await ChromeStorage.setWordReviewDeck(deck);
+  return enriched;
+}
@@ -0,0 +1,129 @@
+// src/content/utils/youtubeCaptionOverlay.ts
+// Overlay on the YouTube player showing the current transcript line and its
+// translation, kept in sync with playback.
+
+import type { YouTubeTranscriptSegment } from '@/store/youtubeTranscriptAtoms';
+
+const OVERLAY_ID = 'xplaino-youtube-caption-overlay';
+
+export interface YouTubeCaptionSource {
+  segments: YouTubeTranscriptSegment[] | null;
+  /** Translations in segment order; null entries are not translated yet */
+  translated: (string | null)[] | null;
+}
+
+let overlay: HTMLDivElement | null = null;
+let originalLine: HTMLDivElement | null = null;
+let translatedLine: HTMLDivElement | null = null;
+let video: HTMLVideoElement | null = null;
+let getSource: (() => YouTubeCaptionSource) | null = null;
+
+/**
+ * Index of the segment playing at `time`, or -1 between segments
+ */
+function findSegmentIndex(segments: YouTubeTranscriptSegment[], time: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (parseFloat(segments[mid].start) <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (found === -1) return -1;
+  const { start, dur } = segments[found];
+  return time < parseFloat(start) + parseFloat(dur) ? found : -1;
+}
+
+/**
+ * Show the lines for the current playback time
+ */
+export function refreshYouTubeCaptionOverlay(): void {
+  if (!overlay || !video || !getSource || !originalLine || !translatedLine) return;
+  const { segments, translated } = getSource();
+  const index = segments ? findSegmentIndex(segments, video.currentTime) : -1;
+  const original = index >= 0 && segments ? segments[index].text : '';
+  const translation = index >= 0 ? translated?.[index] ?? '' : '';
+
+  originalLine.textContent = original;
+  translatedLine.textContent = translation;
+  overlay.style.display = original || translation ? 'flex' : 'none';
+}
+
+function createLine(fontSize: string, color: string): HTMLDivElement {
+  const line = document.createElement('div');
+  line.style.cssText = [
+    'max-width: 100%',
+    'padding: 2px 8px',
+    'border-radius: 4px',
+    'background: rgba(8, 8, 8, 0.75)',
+    `color: ${color}`,
+    `font-size: ${fontSize}`,
+    'line-height: 1.35',
+    'text-align: center',
+    'white-space: pre-wrap',
+  ].join(';');
+  return line;
+}
+
+/**
+ * Mount the overlay on the player. Captions are read from `source` on every
+ * time update, so translations arriving later show up without remounting.
+ * Returns false when the page has no player.
+ */
+export function showYouTubeCaptionOverlay(source: () => YouTubeCaptionSource): boolean {
+  const player = document.querySelector<HTMLElement>('#movie_player');
+  const playerVideo = player?.querySelector<HTMLVideoElement>('video') ?? null;
+  if (!player || !playerVideo) {
+    console.warn('[YouTubeCaptionOverlay] No player on the page');
+    return false;
+  }
+
+  hideYouTubeCaptionOverlay();
+  getSource = source;
+  video = playerVideo;
+
+  overlay = document.createElement('div');
+  overlay.id = OVERLAY_ID;
+  overlay.style.cssText = [
+    'position: absolute',
+    'left: 5%',
+    'right: 5%',
+    'top: 8%',
+    'z-index: 60',
+    'display: none',
+    'flex-direction: column',
+    'align-items: center',
+    'gap: 4px',
+    'pointer-events: none',
+    'font-family: "YouTube Noto", Roboto, Arial, sans-serif',
+  ].join(';');
+  originalLine = createLine('16px', '#ffffff');
+  translatedLine = createLine('18px', '#ffe680');
+  overlay.append(originalLine, translatedLine);
+  player.appendChild(overlay);
+
+  video.addEventListener('timeupdate', refreshYouTubeCaptionOverlay);
+  video.addEventListener('seeked', refreshYouTubeCaptionOverlay);
+  refreshYouTubeCaptionOverlay();
+  return true;
+}
+
+/**
+ * Remove the overlay and stop following playback
+ */
+export function hideYouTubeCaptionOverlay(): void {
+  video?.removeEventListener('timeupdate', refreshYouTubeCaptionOverlay);
+  video?.removeEventListener('seeked', refreshYouTubeCaptionOverlay);
+  overlay?.remove();
+  document.getElementById(OVERLAY_ID)?.remove();
+  overlay = null;
+  originalLine = null;
+  translatedLine = null;
+  video = null;
+  getSource = null;
+}
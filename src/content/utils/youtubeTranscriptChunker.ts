@@ -0,0 +1,241 @@
+// src/content/utils/youtubeTranscriptChunker.ts
+// Chunks YouTube transcript segments into PageChunk[] with start/end times,
+// splits the video into chapters for the summary, and regroups a finished
+// summary under timestamped chapter headings.
+
+import type { PageChunk, ChunkMetadata } from './pageChunker';
+import type { YouTubeChapterMarker, YouTubeTranscriptSegment } from '@/store/youtubeTranscriptAtoms';
+import { SUMMARISE_MAX_CONTENT_LENGTH } from './pageContentExtractor';
+import { SUMMARY_REF_PATTERN } from './exportFormatter';
+import { formatTimestamp } from './youtubeVideo';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Same window size as the DOM chunker's sliding-window fallback (~300 tokens) */
+const WINDOW_TARGET_CHARS = 1200;
+/** Segments carried into the next window, up to ~50 tokens */
+const WINDOW_OVERLAP_CHARS = 200;
+
+/** Videos without uploader chapters are split into parts of at least this length… */
+const MIN_AUTO_CHAPTER_SECONDS = 180;
+/** …and into at most this many parts */
+const MAX_AUTO_CHAPTERS = 10;
+
+export interface TranscriptChapter {
+  /** Uploader's chapter title; null for automatic parts */
+  title: string | null;
+  /** Seconds */
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TimedSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Numeric times, whitespace-collapsed text, empty segments dropped */
+function toTimedSegments(segments: YouTubeTranscriptSegment[]): TimedSegment[] {
+  const timed: TimedSegment[] = [];
+  for (const segment of segments) {
+    const text = segment.text.replace(/\s+/g, ' ').trim();
+    const start = parseFloat(segment.start);
+    if (!text || !Number.isFinite(start)) continue;
+    const dur = parseFloat(segment.dur);
+    timed.push({ text, start, end: start + (Number.isFinite(dur) ? dur : 0) });
+  }
+  return timed;
+}
+
+function buildTranscriptMetadata(window: TimedSegment[], text: string): ChunkMetadata {
+  return {
+    startXPath: '',
+    endXPath: '',
+    startOffset: 0,
+    endOffset: 0,
+    cssSelector: '',
+    textSnippetStart: text.slice(0, 60),
+    textSnippetEnd: text.slice(-60),
+    startTime: window[0].start,
+    endTime: window[window.length - 1].end,
+  };
+}
+
+/** Segments from the end of a window that fit in the overlap budget */
+function overlapTail(window: TimedSegment[]): TimedSegment[] {
+  const tail: TimedSegment[] = [];
+  let length = 0;
+  for (let i = window.length - 1; i > 0; i--) {
+    length += window[i].text.length + 1;
+    if (length > WINDOW_OVERLAP_CHARS) break;
+    tail.unshift(window[i]);
+  }
+  return tail;
+}
+
+// ---------------------------------------------------------------------------
+// Chat chunks
+// ---------------------------------------------------------------------------
+
+/**
+ * Chunk transcript segments into PageChunk[]. Segments are never split, so
+ * every chunk starts on a caption boundary and carries its `startTime`.
+ */
+export function chunkTranscript(segments: YouTubeTranscriptSegment[]): PageChunk[] {
+  const chunks: PageChunk[] = [];
+  let current: TimedSegment[] = [];
+  let windowLength = 0;
+  let hasNewText = false;
+
+  const flush = () => {
+    const text = current.map((s) => s.text).join(' ');
+    chunks.push({
+      chunkId: `chunk_${chunks.length}`,
+      text,
+      metadata: buildTranscriptMetadata(current, text),
+    });
+    current = overlapTail(current);
+    windowLength = current.reduce((sum, s) => sum + s.text.length + 1, 0);
+    hasNewText = false;
+  };
+
+  for (const segment of toTimedSegments(segments)) {
+    if (hasNewText && windowLength + segment.text.length + 1 > WINDOW_TARGET_CHARS) flush();
+    current.push(segment);
+    windowLength += segment.text.length + 1;
+    hasNewText = true;
+  }
+  if (hasNewText) flush();
+
+  return chunks;
+}
+
+/**
+ * Join all transcript text (used for content hashing and page reads).
+ */
+export function extractTranscriptFullText(segments: YouTubeTranscriptSegment[]): string {
+  return toTimedSegments(segments).map((s) => s.text).join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// Chapters
+// ---------------------------------------------------------------------------
+
+/**
+ * Split the transcript into chapters: the uploader's chapter markers when the
+ * video has them, otherwise parts of equal length cut at caption boundaries.
+ */
+export function buildTranscriptChapters(
+  segments: YouTubeTranscriptSegment[],
+  markers: YouTubeChapterMarker[]
+): TranscriptChapter[] {
+  const timed = toTimedSegments(segments);
+  if (timed.length === 0) return [];
+  const videoEnd = timed[timed.length - 1].end;
+
+  let starts: { title: string | null; start: number }[];
+  if (markers.length >= 2) {
+    starts = [...markers].sort((a, b) => a.start - b.start);
+  } else {
+    const partLength = Math.max(MIN_AUTO_CHAPTER_SECONDS, videoEnd / MAX_AUTO_CHAPTERS);
+    starts = [{ title: null, start: 0 }];
+    for (const segment of timed) {
+      if (segment.start >= starts[starts.length - 1].start + partLength) {
+        starts.push({ title: null, start: segment.start });
+      }
+    }
+  }
+
+  const chapters: TranscriptChapter[] = starts.map((s, i) => ({
+    title: s.title,
+    start: i === 0 ? 0 : s.start,
+    end: starts[i + 1]?.start ?? videoEnd,
+    text: '',
+  }));
+
+  let chapterIndex = 0;
+  const texts: string[][] = chapters.map(() => []);
+  for (const segment of timed) {
+    while (chapterIndex < chapters.length - 1 && segment.start >= chapters[chapterIndex + 1].start) chapterIndex++;
+    texts[chapterIndex].push(segment.text);
+  }
+  chapters.forEach((chapter, i) => {
+    chapter.text = texts[i].join(' ');
+  });
+  return chapters.filter((chapter) => chapter.text);
+}
+
+/**
+ * Chapter text as ID-keyed blocks for the summarise v2 API, keyed by the
+ * chapter's start second so summary references resolve to a time.
+ * Capped like `extractPageContentWithIds()`.
+ */
+export function extractTranscriptContentWithIds(chapters: TranscriptChapter[]): Record<string, string> {
+  const content: Record<string, string> = {};
+  let totalLength = 0;
+  for (const chapter of chapters) {
+    const remaining = SUMMARISE_MAX_CONTENT_LENGTH - totalLength;
+    if (remaining <= 0) break;
+    const text = (chapter.title ? `${chapter.title}. ${chapter.text}` : chapter.text).slice(0, remaining);
+    content[String(Math.floor(chapter.start))] = text;
+    totalLength += text.length;
+  }
+  return content;
+}
+
+// ---------------------------------------------------------------------------
+// Chapter summary
+// ---------------------------------------------------------------------------
+
+/** Inline-code marker for a clickable timestamp, e.g. `TIME_245` */
+export const TIMESTAMP_MARKER_PATTERN = /^TIME_(\d+)$/;
+
+/**
+ * Regroup a finished summary under one heading per chapter. Each paragraph or
+ * list item goes to the chapter its first reference points into; text without
+ * references stays with the item before it, or above the first chapter.
+ * Headings carry a `TIME_<seconds>` code marker the summary view renders as a
+ * seek button. The summary's own headings are dropped in favour of chapters.
+ */
+export function organizeSummaryByChapters(summary: string, chapters: TranscriptChapter[]): string {
+  if (chapters.length === 0) return summary;
+
+  const intro: string[] = [];
+  const byChapter: string[][] = chapters.map(() => []);
+  let lastChapter = -1;
+
+  for (const line of summary.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const firstRef = new RegExp(SUMMARY_REF_PATTERN.source).exec(trimmed);
+    const seconds = firstRef ? parseInt(firstRef[1].replace(/"/g, '').split(',')[0], 10) : NaN;
+    if (Number.isFinite(seconds)) {
+      let index = 0;
+      while (index < chapters.length - 1 && seconds >= chapters[index + 1].start) index++;
+      lastChapter = index;
+    }
+
+    if (lastChapter < 0) intro.push(trimmed);
+    else byChapter[lastChapter].push(trimmed);
+  }
+
+  // Nothing referenced a chapter: keep the summary as the API wrote it
+  if (byChapter.every((items) => items.length === 0)) return summary;
+
+  const sections = [intro.join('\n\n')];
+  chapters.forEach((chapter, i) => {
+    if (byChapter[i].length === 0) return;
+    const label = chapter.title ?? `${formatTimestamp(chapter.start)} – ${formatTimestamp(chapter.end)}`;
+    sections.push(`### \`TIME_${Math.floor(chapter.start)}\` ${label}\n\n${byChapter[i].join('\n\n')}`);
+  });
+  return sections.filter(Boolean).join('\n\n');
+}
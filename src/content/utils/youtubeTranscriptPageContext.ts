@@ -11,6 +11,8 @@
 declare global {
   interface Window {
     ytInitialPlayerResponse?: any;
+    ytInitialData?: YouTubeInitialData;
+    __xplainoTranscriptFetcher?: boolean;
   }
 }
 
@@ -23,11 +25,138 @@ interface TranscriptSegment {
   dur: string;
 }
 
+interface ChapterMarker {
+  title: string;
+  start: number;
+}
+
+type PlayerResponse = Window['ytInitialPlayerResponse'];
+
+interface ChapterRendererEntry {
+  chapterRenderer?: {
+    title?: { simpleText?: string };
+    timeRangeStartMillis?: number;
+  };
+}
+
+/** The parts of ytInitialData this script reads */
+interface YouTubeInitialData {
+  currentVideoEndpoint?: { watchEndpoint?: { videoId?: string } };
+  playerOverlays?: {
+    playerOverlayRenderer?: {
+      decoratedPlayerBarRenderer?: {
+        decoratedPlayerBarRenderer?: {
+          playerBar?: {
+            multiMarkersPlayerBarRenderer?: {
+              markersMap?: { value?: { chapters?: ChapterRendererEntry[] } }[];
+            };
+          };
+        };
+      };
+    };
+  };
+}
+
+/** The fields of a player response caption track this script reads */
+interface RawCaptionTrack {
+  baseUrl?: string;
+  vssId?: string;
+  languageCode?: string;
+  kind?: string;
+  name?: { simpleText?: string; runs?: { text?: string }[] };
+}
+
+/** A caption track as sent to the content script (baseUrl stays here) */
+interface CaptionTrack {
+  id: string;
+  languageCode: string;
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+/** Which track the content script asked for; empty fields fall back to the default */
+interface TrackSelection {
+  trackId?: string | null;
+  languageCode?: string | null;
+}
+
+// Keep in sync with youtubeVideo.ts (this script is bundled on its own)
+const TRANSCRIPT_MESSAGE = 'XPLAINO_YOUTUBE_TRANSCRIPT';
+const TRANSCRIPT_REQUEST_MESSAGE = 'XPLAINO_YOUTUBE_TRANSCRIPT_REQUEST';
+
+/** Tracks of the video being fetched and the one chosen, sent with its transcript */
+let captionTracks: CaptionTrack[] = [];
+let selectedTrackId: string | null = null;
+
+/**
+ * Player response for the current video. After SPA navigation
+ * ytInitialPlayerResponse still describes the first video, so the
+ * player's own response is preferred.
+ */
+function getPlayerResponse(videoId: string): PlayerResponse | null {
+  try {
+    const player = document.getElementById('movie_player') as
+      (HTMLElement & { getPlayerResponse?: () => PlayerResponse }) | null;
+    const live = player?.getPlayerResponse?.();
+    if (live?.videoDetails?.videoId === videoId) {
+      return live;
+    }
+  } catch {
+    // Player not ready yet
+  }
+  const initial = window.ytInitialPlayerResponse;
+  return initial?.videoDetails?.videoId === videoId ? initial : null;
+}
+
+/**
+ * Chapter markers set by the uploader, from the player bar's marker map.
+ * Only read when ytInitialData belongs to the current video.
+ */
+function getChapterMarkers(videoId: string): ChapterMarker[] {
+  try {
+    const data = window.ytInitialData;
+    if (data?.currentVideoEndpoint?.watchEndpoint?.videoId !== videoId) {
+      return [];
+    }
+    const markersMap = data?.playerOverlays?.playerOverlayRenderer?.decoratedPlayerBarRenderer
+      ?.decoratedPlayerBarRenderer?.playerBar?.multiMarkersPlayerBarRenderer?.markersMap;
+    if (!Array.isArray(markersMap)) {
+      return [];
+    }
+    const chapters = markersMap.flatMap((entry) => entry?.value?.chapters ?? []);
+    return chapters
+      .map((chapter) => ({
+        title: chapter?.chapterRenderer?.title?.simpleText ?? '',
+        start: (chapter?.chapterRenderer?.timeRangeStartMillis ?? NaN) / 1000,
+      }))
+      .filter((marker) => marker.title && Number.isFinite(marker.start));
+  } catch (error) {
+    console.error('[Xplaino] Error reading chapter markers:', error);
+    return [];
+  }
+}
+
+/**
+ * Send the transcript to the content script. Empty segments tell it the
+ * video has no usable captions, so it stops waiting.
+ */
+function postTranscript(videoId: string, segments: TranscriptSegment[]): void {
+  window.postMessage({
+    type: TRANSCRIPT_MESSAGE,
+    videoId,
+    segments,
+    chapters: getChapterMarkers(videoId),
+    tracks: captionTracks,
+    trackId: selectedTrackId,
+  }, window.location.origin);
+  console.log('[Xplaino] Sent', segments.length, 'transcript segments to content script');
+}
+
 /**
  * Fallback: Fetch transcript using XMLHttpRequest
  * Sometimes fetch() has issues with certain URLs, so we try XHR as backup
  */
-async function fetchTranscriptWithXHR(url: string): Promise<void> {
+async function fetchTranscriptWithXHR(url: string, videoId: string): Promise<void> {
   return new Promise((resolve) => {
     const xhr = new XMLHttpRequest();
     xhr.open('GET', url, true);
@@ -48,18 +177,12 @@ async function fetchTranscriptWithXHR(url: string): Promise<void> {
         if (segments.length > 0) {
           console.log('[Xplaino] Found', segments.length, 'transcript segments');
           console.log('[Xplaino] First segment example:', segments[0]);
-          console.log('[Xplaino] Full transcript:', segments);
-          
-          // Send segments to content script
-          window.postMessage({
-            type: 'XPLAINO_YOUTUBE_TRANSCRIPT',
-            segments: segments
-          }, '*');
-          console.log('[Xplaino] Sent transcript segments to content script');
         }
+        postTranscript(videoId, segments);
       } else {
         console.error('[Xplaino] XHR also failed:', xhr.status, xhr.statusText);
         console.error('[Xplaino] Response:', xhr.responseText);
+        postTranscript(videoId, []);
       }
       
       resolve();
@@ -67,6 +190,7 @@ async function fetchTranscriptWithXHR(url: string): Promise<void> {
     
     xhr.onerror = function() {
       console.error('[Xplaino] XHR request failed with network error');
+      postTranscript(videoId, []);
       resolve();
     };
     
@@ -96,60 +220,69 @@ function getVideoId(): string | null {
 }
 
 /**
- * Get caption track URL from player response
- * This URL points to the /api/timedtext endpoint with all necessary params
+ * Caption tracks offered by the video, auto-generated ("asr") ones included
  */
-function getCaptionTrackUrl(): string | null {
-  try {
-    const captions = window.ytInitialPlayerResponse?.captions;
-    
-    if (!captions) {
-      console.log('[Xplaino] No captions data found in player response');
-      return null;
-    }
-    
-    const renderer = captions.playerCaptionsTracklistRenderer;
-    if (!renderer) {
-      console.log('[Xplaino] No playerCaptionsTracklistRenderer found');
-      return null;
-    }
-    
-    const captionTracks = renderer.captionTracks;
-    if (!captionTracks || captionTracks.length === 0) {
-      console.log('[Xplaino] No caption tracks available');
-      return null;
-    }
-    
-      console.log('[Xplaino] Found', captionTracks.length, 'caption tracks');
-    console.log('[Xplaino] All tracks:', captionTracks);
-      
-      // Look for English track first, or use first available
-    const enTrack = captionTracks.find((t: any) => 
-      t.languageCode === 'en' || t.languageCode?.startsWith('en')
-    );
-    
-    const track = enTrack || captionTracks[0];
-      
-      console.log('[Xplaino] Selected track:', track.languageCode || track.name?.simpleText);
-    console.log('[Xplaino] Full track object:', track);
-    
-    if (!track.baseUrl) {
-      console.error('[Xplaino] Selected track has no baseUrl');
-      return null;
-    }
-    
-    // Ensure the URL is absolute
-    let captionUrl = track.baseUrl;
-    if (captionUrl.startsWith('/')) {
-      captionUrl = `https://www.youtube.com${captionUrl}`;
-    }
-    
-    console.log('[Xplaino] Caption track URL:', captionUrl);
-    return captionUrl;
-  } catch (error) {
-    console.error('[Xplaino] Error extracting caption track URL:', error);
+function getCaptionTracks(playerResponse: PlayerResponse): RawCaptionTrack[] {
+  const captionTracks = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+  if (!Array.isArray(captionTracks) || captionTracks.length === 0) {
+    console.log('[Xplaino] No caption tracks available');
+    return [];
+  }
+  console.log('[Xplaino] Found', captionTracks.length, 'caption tracks');
+  return (captionTracks as RawCaptionTrack[]).filter((t) => t?.baseUrl && t.languageCode);
+}
+
+function toCaptionTrack(track: RawCaptionTrack): CaptionTrack {
+  const name = track.name?.simpleText
+    ?? track.name?.runs?.map((run) => run.text ?? '').join('')
+    ?? track.languageCode
+    ?? '';
+  return {
+    id: track.vssId ?? `${track.kind === 'asr' ? 'a' : ''}.${track.languageCode}`,
+    languageCode: track.languageCode ?? '',
+    name,
+    isAutoGenerated: track.kind === 'asr',
+  };
+}
+
+/**
+ * Pick the requested track: by id, then by language (uploaded captions over
+ * auto-generated), then English, then the first track offered.
+ */
+function selectCaptionTrack(tracks: RawCaptionTrack[], selection: TrackSelection): RawCaptionTrack | null {
+  if (tracks.length === 0) return null;
+
+  if (selection.trackId) {
+    const byId = tracks.find((t) => toCaptionTrack(t).id === selection.trackId);
+    if (byId) return byId;
+  }
+
+  const byLanguage = (code: string) => {
+    const matches = tracks.filter((t) => t.languageCode === code || t.languageCode?.startsWith(`${code}-`));
+    return matches.find((t) => t.kind !== 'asr') ?? matches[0];
+  };
+
+  return (selection.languageCode ? byLanguage(selection.languageCode) : undefined)
+    ?? byLanguage('en')
+    ?? tracks[0];
+}
+
+/**
+ * Absolute timedtext URL for a caption track
+ */
+function getCaptionTrackUrl(track: RawCaptionTrack): string | null {
+  if (!track.baseUrl) {
+    console.error('[Xplaino] Selected track has no baseUrl');
     return null;
   }
+
+  let captionUrl = track.baseUrl;
+  if (captionUrl.startsWith('/')) {
+    captionUrl = `https://www.youtube.com${captionUrl}`;
+  }
+
+  console.log('[Xplaino] Caption track URL:', captionUrl);
+  return captionUrl;
 }
 
 /**
@@ -219,8 +352,10 @@ function parseTranscriptXML(xmlText: string): TranscriptSegment[] {
  * Fetch transcript using YouTube's timedtext API
  * GET https://www.youtube.com/api/timedtext
  */
-async function fetchYouTubeTranscript(): Promise<void> {
-  console.log('[Xplaino] Starting YouTube transcript fetch...');
+async function fetchYouTubeTranscript(selection: TrackSelection): Promise<void> {
+  console.log('[Xplaino] Starting YouTube transcript fetch...', selection);
+  captionTracks = [];
+  selectedTrackId = null;
   
   try {
     // Step 1: Get video ID
@@ -232,10 +367,17 @@ async function fetchYouTubeTranscript(): Promise<void> {
     
     console.log('[Xplaino] Video ID:', videoId);
     
-    // Step 2: Get caption track URL from player response
-    const captionUrl = getCaptionTrackUrl();
+    // Step 2: Choose a caption track from the player response
+    const tracks = getCaptionTracks(getPlayerResponse(videoId));
+    captionTracks = tracks.map(toCaptionTrack);
+    const track = selectCaptionTrack(tracks, selection);
+    selectedTrackId = track ? toCaptionTrack(track).id : null;
+    console.log('[Xplaino] Selected track:', selectedTrackId);
+
+    const captionUrl = track ? getCaptionTrackUrl(track) : null;
     if (!captionUrl) {
       console.error('[Xplaino] Could not get caption track URL. Video may not have captions.');
+      postTranscript(videoId, []);
       return;
     }
     
@@ -271,6 +413,7 @@ async function fetchYouTubeTranscript(): Promise<void> {
         console.error('[Xplaino] Could not read error response');
       }
       
+      postTranscript(videoId, []);
       return;
     }
     
@@ -299,7 +442,7 @@ async function fetchYouTubeTranscript(): Promise<void> {
       console.error('[Xplaino] Trying alternative method with XMLHttpRequest...');
       
       // Try with XMLHttpRequest as fallback
-      await fetchTranscriptWithXHR(captionUrl);
+      await fetchTranscriptWithXHR(captionUrl, videoId);
       return;
     }
     
@@ -308,21 +451,16 @@ async function fetchYouTubeTranscript(): Promise<void> {
     
     if (segments.length === 0) {
       console.warn('[Xplaino] No segments found in transcript');
-      return;
+    } else {
+      console.log('[Xplaino] Found', segments.length, 'transcript segments');
+      console.log('[Xplaino] First segment example:', segments[0]);
     }
     
-    console.log('[Xplaino] Found', segments.length, 'transcript segments');
-    console.log('[Xplaino] First segment example:', segments[0]);
-    console.log('[Xplaino] Full transcript:', segments);
-    
     // Step 6: Send segments to content script via postMessage
-    window.postMessage({
-      type: 'XPLAINO_YOUTUBE_TRANSCRIPT',
-      segments: segments
-    }, '*');
-    console.log('[Xplaino] Sent transcript segments to content script');
+    postTranscript(videoId, segments);
     
   } catch (error) {
+    postTranscript(getVideoId() ?? '', []);
     console.error('[Xplaino] Error fetching transcript:', error);
     console.error('[Xplaino] Error details:', {
       name: (error as Error).name,
@@ -332,14 +470,15 @@ async function fetchYouTubeTranscript(): Promise<void> {
   }
 }
 
-// Execute the transcript fetch with a small delay
-// This runs when the script is injected, but waits to ensure ytInitialPlayerResponse is ready
+// The content script requests the transcript once this script has loaded,
+// and again after navigating to another video or choosing another track
 console.log('[Xplaino] YouTube transcript fetcher script loaded in page context');
 
-// Wait for ytInitialPlayerResponse to be available
+// Wait for the current video's player response to be available
 async function waitForPlayerResponse(maxAttempts = 10, delayMs = 300): Promise<boolean> {
   for (let i = 0; i < maxAttempts; i++) {
-    if (window.ytInitialPlayerResponse?.videoDetails?.videoId) {
+    const videoId = getVideoId();
+    if (videoId && getPlayerResponse(videoId)) {
       console.log('[Xplaino] Player response is ready');
       return true;
     }
@@ -350,14 +489,25 @@ async function waitForPlayerResponse(maxAttempts = 10, delayMs = 300): Promise<b
 }
 
 // Start fetching after ensuring player response is ready
-(async () => {
+async function fetchWhenReady(selection: TrackSelection): Promise<void> {
   const isReady = await waitForPlayerResponse();
   if (isReady) {
-    await fetchYouTubeTranscript();
+    await fetchYouTubeTranscript(selection);
   } else {
     console.error('[Xplaino] Player response not available after waiting');
+    postTranscript(getVideoId() ?? '', []);
   }
-})().catch(error => {
-  console.error('[Xplaino] Unhandled error in transcript fetcher:', error);
-});
+}
+
+if (!window.__xplainoTranscriptFetcher) {
+  window.__xplainoTranscriptFetcher = true;
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window || event.data?.type !== TRANSCRIPT_REQUEST_MESSAGE) return;
+    const { trackId, languageCode } = event.data;
+    fetchWhenReady({ trackId, languageCode }).catch(error => {
+      console.error('[Xplaino] Unhandled error in transcript fetcher:', error);
+    });
+  });
+}
 
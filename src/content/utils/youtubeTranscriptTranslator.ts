@@ -0,0 +1,79 @@
+// src/content/utils/youtubeTranscriptTranslator.ts
+// Translates YouTube transcript segments in batches through translateWithFallback
+// (Chrome Translator API -> backend SSE fallback).
+
+import { translateWithFallback, TranslateTextItem } from '@/api-services/TranslateService';
+import type { YouTubeTranscriptSegment } from '@/store/youtubeTranscriptAtoms';
+
+/** Segments per request; small enough that captions near the start arrive quickly */
+const BATCH_SIZE = 25;
+
+export interface TranscriptTranslationCallbacks {
+  /** A segment (index into the transcript) has been translated */
+  onSegment: (index: number, translatedText: string) => void;
+  onLoginRequired?: () => void;
+  onSubscriptionRequired?: () => void;
+}
+
+/**
+ * Translate every segment of a transcript, in order. Resolves when all
+ * batches are done or the controller aborts; rejects on the first failed batch.
+ */
+export async function translateTranscript(
+  segments: YouTubeTranscriptSegment[],
+  targetLanguageCode: string,
+  callbacks: TranscriptTranslationCallbacks,
+  abortController: AbortController
+): Promise<void> {
+  for (let start = 0; start < segments.length; start += BATCH_SIZE) {
+    if (abortController.signal.aborted) return;
+    await translateBatch(segments, start, targetLanguageCode, callbacks, abortController);
+  }
+}
+
+function translateBatch(
+  segments: YouTubeTranscriptSegment[],
+  start: number,
+  targetLanguageCode: string,
+  callbacks: TranscriptTranslationCallbacks,
+  abortController: AbortController
+): Promise<void> {
+  const batch = segments.slice(start, start + BATCH_SIZE);
+  const texts: TranslateTextItem[] = batch.map((segment, i) => ({
+    id: String(start + i),
+    text: segment.text,
+  }));
+
+  return new Promise<void>((resolve, reject) => {
+    // An aborted backend request ends without calling back
+    abortController.signal.addEventListener('abort', () => resolve(), { once: true });
+
+    translateWithFallback(
+      { targetLangugeCode: targetLanguageCode, texts },
+      {
+        onProgress: (index, translatedText) => {
+          if (index < batch.length) callbacks.onSegment(start + index, translatedText);
+        },
+        onSuccess: (translatedTexts) => {
+          // The backend path may report only on completion
+          translatedTexts.forEach((text, i) => {
+            if (i < batch.length) callbacks.onSegment(start + i, text);
+          });
+          resolve();
+        },
+        onError: (errorCode, errorMessage) => {
+          reject(new Error(`Translation error: ${errorCode} - ${errorMessage}`));
+        },
+        onLoginRequired: () => {
+          callbacks.onLoginRequired?.();
+          reject(new Error('LOGIN_REQUIRED'));
+        },
+        onSubscriptionRequired: () => {
+          callbacks.onSubscriptionRequired?.();
+          reject(new Error('SUBSCRIPTION_REQUIRED'));
+        },
+      },
+      abortController
+    ).catch(reject);
+  });
+}
@@ -0,0 +1,98 @@
+// src/content/utils/youtubeVideo.ts
+// YouTube watch page helpers: page detection, the current video, player seeking
+// and requesting the transcript from the page-context fetcher.
+
+/** Message the page-context fetcher answers with the current video's transcript */
+export const YOUTUBE_TRANSCRIPT_MESSAGE = 'XPLAINO_YOUTUBE_TRANSCRIPT';
+/** Message asking the page-context fetcher to (re)fetch, e.g. after SPA navigation */
+export const YOUTUBE_TRANSCRIPT_REQUEST_MESSAGE = 'XPLAINO_YOUTUBE_TRANSCRIPT_REQUEST';
+
+/** Built by vite.config.ts from youtubeTranscriptPageContext.ts */
+const PAGE_CONTEXT_SCRIPT_PATH = 'src/content/utils/youtubePageContext.js';
+
+let pageContextScriptInjected = false;
+
+/** Caption track to fetch; empty fields fall back to English, else the first track */
+export interface YouTubeTrackSelection {
+  /** A track id from the last transcript message */
+  trackId?: string | null;
+  /** Preferred language when no track id is given */
+  languageCode?: string | null;
+}
+
+/**
+ * Check if the tab is a YouTube watch page (a single video)
+ */
+export function isYouTubeWatchPage(): boolean {
+  try {
+    const { hostname, pathname } = window.location;
+    return /(^|\.)youtube\.com$/.test(hostname) && pathname === '/watch';
+  } catch {
+    return false;
+  }
+}
+
+/** The `v` parameter of the watch page, or null */
+export function getYouTubeVideoId(): string | null {
+  if (!isYouTubeWatchPage()) return null;
+  return new URLSearchParams(window.location.search).get('v');
+}
+
+/**
+ * Canonical URL of the current video, without playlist, time or tracking
+ * parameters. Used to key chat indexes so every visit to a video shares one.
+ */
+export function getYouTubeVideoUrl(): string {
+  const videoId = getYouTubeVideoId();
+  return videoId ? `https://www.youtube.com/watch?v=${videoId}` : window.location.href;
+}
+
+/**
+ * Move the player to `seconds` and keep it playing if it was
+ */
+export function seekYouTubeVideo(seconds: number): void {
+  const video = document.querySelector<HTMLVideoElement>('#movie_player video, video.html5-main-video');
+  if (!video) {
+    console.warn('[YouTubeVideo] No player on the page to seek');
+    return;
+  }
+  video.currentTime = Math.max(0, seconds);
+  video.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+}
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour on
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Ask the page-context fetcher for the current video's transcript. The first
+ * call injects the fetcher and asks once it has loaded; later calls, after SPA
+ * navigation or choosing another caption track, message it directly.
+ * The answer arrives as a YOUTUBE_TRANSCRIPT_MESSAGE window message, listing
+ * the video's caption tracks and the one that was read.
+ */
+export function requestYouTubeTranscript(selection: YouTubeTrackSelection = {}): void {
+  const request = () => window.postMessage(
+    { type: YOUTUBE_TRANSCRIPT_REQUEST_MESSAGE, ...selection },
+    window.location.origin
+  );
+  if (!pageContextScriptInjected) {
+    pageContextScriptInjected = true;
+    const script = document.createElement('script');
+    script.src = chrome.runtime.getURL(PAGE_CONTEXT_SCRIPT_PATH);
+    script.onload = () => {
+      script.remove();
+      request();
+    };
+    (document.head ?? document.documentElement).appendChild(script);
+    return;
+  }
+  request();
+}
@@ -0,0 +1,5 @@
+// src/content/workers/pdfWorker.ts
+// PDF.js parsing worker. Bundled as its own script so pdfDocument.ts can point
+// PDF.js at it through chrome.runtime.getURL().
+
+import 'pdfjs-dist/build/pdf.worker.mjs';
@@ -0,0 +1,380 @@
+// src/pages/Library/Library.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Bookmark,
+  BookOpen,
+  ExternalLink,
+  Highlighter,
+  Image as ImageIcon,
+  Link as LinkIcon,
+  MessageSquare,
+  Search,
+  X,
+  type LucideIcon,
+} from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import { AnnotationLibraryService } from '@/api-services/AnnotationLibraryService';
+import { FolderService } from '@/api-services/FolderService';
+import { HighlightColourService, type HighlightColour } from '@/api-services/HighlightColourService';
+import type {
+  LibraryItemResponse,
+  LibraryItemType,
+  SearchLibraryRequest,
+} from '@/api-services/dto/AnnotationLibraryDTO';
+import type { FolderWithSubFoldersResponse } from '@/api-services/dto/FolderDTO';
+import { ChromeStorage } from '@/storage/chrome-local/ChromeStorage';
+import { extractDomain } from '@/utils/domain';
+import styles from './Library.module.css';
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const TYPE_LABELS: Record<LibraryItemType, { one: string; many: string }> = {
+  highlight: { one: 'Highlight', many: 'Highlights' },
+  note: { one: 'Note', many: 'Notes' },
+  paragraph: { one: 'Paragraph', many: 'Paragraphs' },
+  link: { one: 'Link', many: 'Links' },
+  word: { one: 'Word', many: 'Words' },
+  image: { one: 'Image', many: 'Images' },
+};
+
+const TYPE_ICONS: Record<LibraryItemType, LucideIcon> = {
+  highlight: Highlighter,
+  note: MessageSquare,
+  paragraph: Bookmark,
+  link: LinkIcon,
+  word: BookOpen,
+  image: ImageIcon,
+};
+
+const ALL_TYPES = Object.keys(TYPE_LABELS) as LibraryItemType[];
+
+interface FolderOption {
+  id: string;
+  label: string;
+}
+
+/** Folder tree as select options, sub-folders indented under their parent */
+function flattenFolders(folders: FolderWithSubFoldersResponse[], depth = 0): FolderOption[] {
+  return folders.flatMap((folder) => [
+    { id: folder.id, label: `${'  '.repeat(depth)}${folder.name}` },
+    ...flattenFolders(folder.subFolders ?? [], depth + 1),
+  ]);
+}
+
+/**
+ * Open a library item's page in a new tab. The content script on that page
+ * picks up the pending target and scrolls to the item once it is restored.
+ */
+async function openLibraryItem(item: LibraryItemResponse): Promise<void> {
+  if (item.type !== 'link') {
+    await ChromeStorage.setPendingLibraryTarget({
+      url: item.sourceUrl,
+      type: item.type,
+      id: item.id,
+      text: item.text,
+      anchor: item.anchor,
+      imageUrl: item.imageUrl,
+      openedAt: Date.now(),
+    });
+  }
+  await chrome.tabs.create({ url: item.sourceUrl });
+}
+
+/**
+ * Highlights, notes, saved paragraphs, links, words and images from every
+ * page, with full-text search and filters by type, domain, date, folder and
+ * colour. Opened from the popup as an extension page.
+ */
+export const Library: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [types, setTypes] = useState<LibraryItemType[]>([]);
+  const [domain, setDomain] = useState('');
+  const [createdAfter, setCreatedAfter] = useState('');
+  const [createdBefore, setCreatedBefore] = useState('');
+  const [folderId, setFolderId] = useState('');
+  const [colour, setColour] = useState<string | null>(null);
+
+  const [items, setItems] = useState<LibraryItemResponse[]>([]);
+  const [total, setTotal] = useState(0);
+  const [domains, setDomains] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [folders, setFolders] = useState<FolderOption[]>([]);
+  const [colours, setColours] = useState<HighlightColour[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  useEffect(() => {
+    FolderService.getAllFolders({
+      onSuccess: (response) => setFolders(flattenFolders(response.folders)),
+      onError: (errorCode, errorMessage) => {
+        console.warn('[Library] Could not load folders:', errorCode, errorMessage);
+      },
+    });
+    HighlightColourService.getColours()
+      .then(setColours)
+      .catch((err) => console.warn('[Library] Could not load highlight colours:', err));
+  }, []);
+
+  const search = useCallback((offset: number) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const request: SearchLibraryRequest = {
+      offset,
+      limit: PAGE_SIZE,
+      ...(debouncedQuery ? { query: debouncedQuery } : {}),
+      ...(types.length > 0 ? { types } : {}),
+      ...(domain ? { domain } : {}),
+      ...(createdAfter ? { createdAfter } : {}),
+      ...(createdBefore ? { createdBefore } : {}),
+      ...(folderId ? { folderId } : {}),
+      ...(colour ? { color: colour } : {}),
+    };
+
+    setIsLoading(true);
+    setError(null);
+    AnnotationLibraryService.searchLibrary(
+      request,
+      {
+        onSuccess: (response) => {
+          setItems((prev) => (offset === 0 ? response.items : [...prev, ...response.items]));
+          setTotal(response.total);
+          setDomains(response.domains);
+          setIsLoading(false);
+        },
+        onError: (errorCode, errorMessage) => {
+          if (errorCode === 'ABORTED') return;
+          console.error('[Library] Search failed:', errorCode, errorMessage);
+          setError('Could not load your library. Please try again.');
+          setIsLoading(false);
+        },
+        onLoginRequired: () => {
+          setError('Sign in to Xplaino to see your library.');
+          setIsLoading(false);
+        },
+        onSubscriptionRequired: () => {
+          setError('Your plan does not include the library.');
+          setIsLoading(false);
+        },
+      },
+      controller.signal
+    );
+  }, [debouncedQuery, types, domain, createdAfter, createdBefore, folderId, colour]);
+
+  // New filters start again from the first page
+  useEffect(() => {
+    search(0);
+  }, [search]);
+
+  const toggleType = (type: LibraryItemType) => {
+    setTypes((prev) => (prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]));
+  };
+
+  const hasFilters = types.length > 0 || !!domain || !!createdAfter || !!createdBefore || !!folderId || !!colour;
+
+  const clearFilters = () => {
+    setTypes([]);
+    setDomain('');
+    setCreatedAfter('');
+    setCreatedBefore('');
+    setFolderId('');
+    setColour(null);
+  };
+
+  const handleOpen = (item: LibraryItemResponse) => {
+    openLibraryItem(item).catch((err) => {
+      console.error('[Library] Could not open item:', err);
+    });
+  };
+
+  return (
+    <div className={styles.library}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Your library</h1>
+        <div className={styles.search}>
+          <Search size={16} />
+          <input
+            type="search"
+            className={styles.searchInput}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search highlights, notes, bookmarks, words…"
+            autoFocus
+          />
+          {query && (
+            <button type="button" className={styles.searchClear} onClick={() => setQuery('')} aria-label="Clear search">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </header>
+
+      <div className={styles.body}>
+        <aside className={styles.filters}>
+          <section className={styles.filterGroup}>
+            <h2 className={styles.filterTitle}>Type</h2>
+            <div className={styles.typeChips}>
+              {ALL_TYPES.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  className={`${styles.typeChip} ${types.includes(type) ? styles.typeChipActive : ''}`}
+                  onClick={() => toggleType(type)}
+                  aria-pressed={types.includes(type)}
+                >
+                  {TYPE_LABELS[type].many}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className={styles.filterGroup}>
+            <h2 className={styles.filterTitle}>Site</h2>
+            <select className={styles.select} value={domain} onChange={(e) => setDomain(e.target.value)}>
+              <option value="">All sites</option>
+              {domains.map((d) => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+            </select>
+          </section>
+
+          <section className={styles.filterGroup}>
+            <h2 className={styles.filterTitle}>Date</h2>
+            <label className={styles.dateField}>
+              <span>From</span>
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={createdAfter}
+                max={createdBefore || undefined}
+                onChange={(e) => setCreatedAfter(e.target.value)}
+              />
+            </label>
+            <label className={styles.dateField}>
+              <span>To</span>
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={createdBefore}
+                min={createdAfter || undefined}
+                onChange={(e) => setCreatedBefore(e.target.value)}
+              />
+            </label>
+          </section>
+
+          {folders.length > 0 && (
+            <section className={styles.filterGroup}>
+              <h2 className={styles.filterTitle}>Folder</h2>
+              <select className={styles.select} value={folderId} onChange={(e) => setFolderId(e.target.value)}>
+                <option value="">All folders</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>{folder.label}</option>
+                ))}
+              </select>
+            </section>
+          )}
+
+          {colours.length > 0 && (
+            <section className={styles.filterGroup}>
+              <h2 className={styles.filterTitle}>Highlight colour</h2>
+              <div className={styles.swatches}>
+                {colours.map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    className={`${styles.swatch} ${colour === c.hexcode ? styles.swatchActive : ''}`}
+                    style={{ backgroundColor: c.hexcode }}
+                    onClick={() => setColour(colour === c.hexcode ? null : c.hexcode)}
+                    aria-label={`Highlights in ${c.hexcode}`}
+                    aria-pressed={colour === c.hexcode}
+                  />
+                ))}
+              </div>
+            </section>
+          )}
+
+          {hasFilters && (
+            <button type="button" className={styles.clearFilters} onClick={clearFilters}>
+              Clear filters
+            </button>
+          )}
+        </aside>
+
+        <main className={styles.results}>
+          {error ? (
+            <p className={styles.message}>{error}</p>
+          ) : items.length === 0 && !isLoading ? (
+            <p className={styles.message}>
+              {debouncedQuery || hasFilters ? 'Nothing matches your search.' : 'Nothing saved yet.'}
+            </p>
+          ) : (
+            <>
+              <p className={styles.count}>{total === 1 ? '1 item' : `${total} items`}</p>
+              <ul className={styles.list}>
+                {items.map((item) => {
+                  const Icon = TYPE_ICONS[item.type];
+                  return (
+                    <li key={`${item.type}:${item.id}`}>
+                      <button
+                        type="button"
+                        className={styles.item}
+                        onClick={() => handleOpen(item)}
+                        title="Open on its page"
+                      >
+                        <span className={styles.itemMeta}>
+                          <Icon size={12} />
+                          {TYPE_LABELS[item.type].one}
+                          <span className={styles.itemSite}>{extractDomain(item.sourceUrl)}</span>
+                          <span>{new Date(item.createdAt).toLocaleDateString()}</span>
+                          <ExternalLink size={12} className={styles.itemOpen} />
+                        </span>
+                        {item.type === 'image' && item.imageUrl && (
+                          <img className={styles.itemImage} src={item.imageUrl} alt="" />
+                        )}
+                        <span
+                          className={styles.itemText}
+                          style={item.color ? { borderLeftColor: item.color } : undefined}
+                        >
+                          {item.text}
+                        </span>
+                        {item.content && (
+                          <div className={styles.itemContent}>
+                            <ReactMarkdown remarkPlugins={[remarkBreaks]}>{item.content}</ReactMarkdown>
+                          </div>
+                        )}
+                        {item.pageTitle && <span className={styles.itemPage}>{item.pageTitle}</span>}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {items.length < total && (
+                <button
+                  type="button"
+                  className={styles.loadMore}
+                  onClick={() => search(items.length)}
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Loading…' : 'Load more'}
+                </button>
+              )}
+            </>
+          )}
+          {isLoading && items.length === 0 && !error && <p className={styles.message}>Loading…</p>}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+Library.displayName = 'Library';
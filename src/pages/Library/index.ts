@@ -0,0 +1,3 @@
+// src/pages/Library/index.ts
+
+export { Library } from './Library';
@@ -90,6 +90,10 @@ export const Popup: React.FC = () => {
     chrome.tabs.create({ url: ENV.XPLAINO_WEBSITE_BASE_URL });
   };
 
+  const handleLibraryClick = () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL('library.html') });
+  };
+
   return (
     <div
       style={{
@@ -223,6 +227,28 @@ export const Popup: React.FC = () => {
         </div>
       )}
 
+      {/* Library Link - Bottom Left */}
+      <a
+        href="#"
+        onClick={(e) => {
+          e.preventDefault();
+          handleLibraryClick();
+        }}
+        style={{
+          position: 'absolute',
+          bottom: '16px',
+          left: '16px',
+          color: COLORS.PRIMARY,
+          fontSize: '13px',
+          fontWeight: 600,
+          fontStyle: 'italic',
+          textDecoration: 'underline',
+          cursor: 'pointer',
+        }}
+      >
+        Your library
+      </a>
+
       {/* Visit Website Link - Bottom Right */}
       <a
         href="#"
@@ -5,6 +5,11 @@ import type {
   UserSettingsDTO,
   UserAccountSettingsDTO,
   ExtensionSettingsDTO,
+  WordReviewCardDTO,
+  SiteExtractionRuleDTO,
+  ReaderPreferencesDTO,
+  YouTubeCaptionPreferencesDTO,
+  LibraryTargetDTO,
 } from './dto';
 import type { DomainStatus } from '@/types/domain';
 import type { SubscriptionStatusDTO } from '@/api-services/dto/SubscriptionDTO';
@@ -53,15 +58,42 @@ export class ChromeStorage {
     SHOULD_SHOW_TEXT_FEATURE: 'should-text-image-feature',
     SHOULD_SHOW_WORD_FEATURE: 'should-word-image-feature',
     SIDE_PANEL_WIDTH: 'side_panel_width',
-    TOKEN_REFRESH_LOCK: 'xplaino_token_refresh_lock',
     SELECTED_HIGHLIGHT_COLOUR_ID: 'selected_highlight_colour_id',
     HAS_USER_FEEDBACK_SUBMITTED: 'has_user_feedback_submitted',
+    WEBPAGE_CHAT_SESSION_SYNC_ENABLED: 'webpage_chat_session_sync_enabled',
+    VECTOR_INDEX_BUDGET_MB: 'vector_index_budget_mb',
+    SHORTCUT_BINDINGS: 'shortcut_bindings',
+    SHORTCUTS_DISABLED_DOMAINS: 'shortcuts_disabled_domains',
+    WORD_REVIEW_DECK: 'word_review_deck',
+    PREFER_ON_DEVICE_AI: 'prefer_on_device_ai',
+    SITE_EXTRACTION_RULES: 'site_extraction_rules',
+    READER_PREFERENCES: 'reader_preferences',
+    YOUTUBE_CAPTION_PREFERENCES: 'youtube_caption_preferences',
+    PENDING_LIBRARY_TARGET: 'pending_library_target',
   } as const;
 
   /** Panel width min/max (px) - must match panel components. Max kept lower so panel doesn’t push page content too far left. */
   static readonly PANEL_WIDTH_MIN = 300;
   static readonly PANEL_WIDTH_MAX = 800;
 
+  /** Default storage budget (MB) for all Chat-with-Webpage page indexes combined */
+  static readonly VECTOR_INDEX_BUDGET_MB_DEFAULT = 50;
+
+  /** Reader view typography used until the user changes it */
+  static readonly READER_PREFERENCES_DEFAULT: ReaderPreferencesDTO = {
+    fontSize: 19,
+    lineHeight: 1.7,
+    fontFamily: 'serif',
+    contentWidth: 680,
+    theme: null,
+  };
+
+  /** YouTube caption choices until the user picks a track or turns on translated captions */
+  static readonly YOUTUBE_CAPTION_PREFERENCES_DEFAULT: YouTubeCaptionPreferencesDTO = {
+    languageCode: null,
+    showTranslatedCaptions: false,
+  };
+
   // ============================================
   // GENERIC METHODS
   // ============================================
@@ -371,17 +403,6 @@ export class ChromeStorage {
     return this.remove(this.KEYS.XPLAINO_AUTH_INFO);
   }
 
-  static async getTokenRefreshLock(): Promise<{ lockId: string; acquiredAt: number } | null> {
-    return this.get<{ lockId: string; acquiredAt: number }>(this.KEYS.TOKEN_REFRESH_LOCK);
-  }
-
-  static async setTokenRefreshLock(data: { lockId: string; acquiredAt: number } | null): Promise<void> {
-    if (data === null) {
-      return this.remove(this.KEYS.TOKEN_REFRESH_LOCK);
-    }
-    return this.set(this.KEYS.TOKEN_REFRESH_LOCK, data);
-  }
-
   static async getSelectedHighlightColourId(): Promise<string | null> {
     return this.get<string>(this.KEYS.SELECTED_HIGHLIGHT_COLOUR_ID);
   }
@@ -785,6 +806,146 @@ export class ChromeStorage {
     return this.set(this.KEYS.DONT_SHOW_CHAT_WALKTHROUGH, dontShow);
   }
 
+  // --- Webpage Chat Session Sync ---
+  /**
+   * Whether persisted chat sessions are also synced to the backend so they
+   * follow the user across browsers. Off by default (local-only).
+   */
+  static async getWebpageChatSessionSyncEnabled(): Promise<boolean> {
+    const value = await this.get<boolean>(this.KEYS.WEBPAGE_CHAT_SESSION_SYNC_ENABLED);
+    return value ?? false;
+  }
+
+  static async setWebpageChatSessionSyncEnabled(enabled: boolean): Promise<void> {
+    return this.set(this.KEYS.WEBPAGE_CHAT_SESSION_SYNC_ENABLED, enabled);
+  }
+
+  // --- On-device AI Preference ---
+  /**
+   * Whether summaries, simplifications and word meanings should run on
+   * Chrome's built-in models before the backend. Off by default.
+   */
+  static async getPreferOnDeviceAI(): Promise<boolean> {
+    const value = await this.get<boolean>(this.KEYS.PREFER_ON_DEVICE_AI);
+    return value ?? false;
+  }
+
+  static async setPreferOnDeviceAI(prefer: boolean): Promise<void> {
+    return this.set(this.KEYS.PREFER_ON_DEVICE_AI, prefer);
+  }
+
+  // --- Page Index Storage Budget ---
+  /**
+   * Storage budget (MB) for the IndexedDB page vector indexes.
+   * Least-recently-used indexes are evicted once the total exceeds it.
+   */
+  static async getVectorIndexBudgetMb(): Promise<number> {
+    const value = await this.get<number>(this.KEYS.VECTOR_INDEX_BUDGET_MB);
+    return value ?? this.VECTOR_INDEX_BUDGET_MB_DEFAULT;
+  }
+
+  static async setVectorIndexBudgetMb(budgetMb: number): Promise<void> {
+    return this.set(this.KEYS.VECTOR_INDEX_BUDGET_MB, budgetMb);
+  }
+
+  // --- Keyboard Shortcuts ---
+  /**
+   * User overrides of the default shortcut bindings, keyed by command id.
+   * A null value means the user unbound that command.
+   */
+  static async getShortcutBindingOverrides(): Promise<Record<string, string | null>> {
+    const value = await this.get<Record<string, string | null>>(this.KEYS.SHORTCUT_BINDINGS);
+    return value ?? {};
+  }
+
+  static async setShortcutBindingOverrides(overrides: Record<string, string | null>): Promise<void> {
+    return this.set(this.KEYS.SHORTCUT_BINDINGS, overrides);
+  }
+
+  /** Domains on which all Xplaino keyboard shortcuts are switched off */
+  static async getShortcutsDisabledDomains(): Promise<string[]> {
+    const value = await this.get<string[]>(this.KEYS.SHORTCUTS_DISABLED_DOMAINS);
+    return value ?? [];
+  }
+
+  static async setShortcutsDisabledForDomain(domain: string, disabled: boolean): Promise<void> {
+    const domains = (await this.getShortcutsDisabledDomains()).filter((d) => d !== domain);
+    if (disabled) domains.push(domain);
+    return this.set(this.KEYS.SHORTCUTS_DISABLED_DOMAINS, domains);
+  }
+
+  // --- Word Review Deck ---
+  /**
+   * Flashcards for saved-word review, keyed by saved word id.
+   * Shared by all tabs; watch this key to keep due counts current.
+   */
+  static async getWordReviewDeck(): Promise<Record<string, WordReviewCardDTO>> {
+    const value = await this.get<Record<string, WordReviewCardDTO>>(this.KEYS.WORD_REVIEW_DECK);
+    return value ?? {};
+  }
+
+  static async setWordReviewDeck(deck: Record<string, WordReviewCardDTO>): Promise<void> {
+    return this.set(this.KEYS.WORD_REVIEW_DECK, deck);
+  }
+
+  // --- Site Extraction Rules ---
+  /**
+   * User-defined content extraction rules, keyed by domain.
+   * Watch this key to re-apply rules in open tabs.
+   */
+  static async getSiteExtractionRules(): Promise<Record<string, SiteExtractionRuleDTO>> {
+    const value = await this.get<Record<string, SiteExtractionRuleDTO>>(this.KEYS.SITE_EXTRACTION_RULES);
+    return value ?? {};
+  }
+
+  static async setSiteExtractionRule(rule: SiteExtractionRuleDTO): Promise<void> {
+    const rules = await this.getSiteExtractionRules();
+    rules[rule.domain] = rule;
+    return this.set(this.KEYS.SITE_EXTRACTION_RULES, rules);
+  }
+
+  static async removeSiteExtractionRule(domain: string): Promise<void> {
+    const rules = await this.getSiteExtractionRules();
+    if (!rules[domain]) return;
+    delete rules[domain];
+    return this.set(this.KEYS.SITE_EXTRACTION_RULES, rules);
+  }
+
+  // --- Reader View ---
+  static async getReaderPreferences(): Promise<ReaderPreferencesDTO> {
+    const value = await this.get<Partial<ReaderPreferencesDTO>>(this.KEYS.READER_PREFERENCES);
+    return { ...this.READER_PREFERENCES_DEFAULT, ...value };
+  }
+
+  static async setReaderPreferences(preferences: ReaderPreferencesDTO): Promise<void> {
+    return this.set(this.KEYS.READER_PREFERENCES, preferences);
+  }
+
+  // --- YouTube Captions ---
+  static async getYouTubeCaptionPreferences(): Promise<YouTubeCaptionPreferencesDTO> {
+    const value = await this.get<Partial<YouTubeCaptionPreferencesDTO>>(this.KEYS.YOUTUBE_CAPTION_PREFERENCES);
+    return { ...this.YOUTUBE_CAPTION_PREFERENCES_DEFAULT, ...value };
+  }
+
+  static async setYouTubeCaptionPreferences(preferences: YouTubeCaptionPreferencesDTO): Promise<void> {
+    return this.set(this.KEYS.YOUTUBE_CAPTION_PREFERENCES, preferences);
+  }
+
+  // --- Annotation Library ---
+  /** Item opened from the library, read by the content script of the page it opens */
+  static async getPendingLibraryTarget(): Promise<LibraryTargetDTO | null> {
+    const value = await this.get<LibraryTargetDTO>(this.KEYS.PENDING_LIBRARY_TARGET);
+    return value ?? null;
+  }
+
+  static async setPendingLibraryTarget(target: LibraryTargetDTO): Promise<void> {
+    return this.set(this.KEYS.PENDING_LIBRARY_TARGET, target);
+  }
+
+  static async removePendingLibraryTarget(): Promise<void> {
+    return this.remove(this.KEYS.PENDING_LIBRARY_TARGET);
+  }
+
   // --- PDF Badge Preference ---
   static async getDontShowPdfBadge(): Promise<boolean> {
     const value = await this.get<boolean>(this.KEYS.DONT_SHOW_PDF_BADGE);
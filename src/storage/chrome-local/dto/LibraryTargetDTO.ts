@@ -0,0 +1,19 @@
+// src/storage/chrome-local/dto/LibraryTargetDTO.ts
+
+import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
+import type { LibraryItemType } from '@/api-services/dto/AnnotationLibraryDTO';
+
+/**
+ * Library item the user opened, waiting for its page to load so the content
+ * script can scroll to it
+ */
+export interface LibraryTargetDTO {
+  url: string;
+  type: LibraryItemType;
+  id: string;
+  text: string;
+  anchor: AnchorData | null;
+  imageUrl: string | null;
+  /** When the item was opened (ms since epoch); stale targets are ignored */
+  openedAt: number;
+}
@@ -0,0 +1,20 @@
+// src/storage/chrome-local/dto/ReaderPreferencesDTO.ts
+
+import type { Theme } from '@/constants/theme';
+
+export type ReaderFontFamily = 'serif' | 'sans';
+
+/**
+ * Typography and theme of the reader view, shared by every site
+ */
+export interface ReaderPreferencesDTO {
+  /** Body text size in px */
+  fontSize: number;
+  /** Unitless line height */
+  lineHeight: number;
+  fontFamily: ReaderFontFamily;
+  /** Max width of the text column in px */
+  contentWidth: number;
+  /** Reader theme; null follows the extension theme for the site */
+  theme: Theme | null;
+}
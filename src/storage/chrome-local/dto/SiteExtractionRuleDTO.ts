@@ -0,0 +1,18 @@
+// src/storage/chrome-local/dto/SiteExtractionRuleDTO.ts
+
+/**
+ * User-defined content extraction rule for one domain (and its subdomains).
+ * Overrides the built-in main-content heuristics used for summaries, chat
+ * indexing and page translation.
+ */
+export interface SiteExtractionRuleDTO {
+  /** Domain without "www.", e.g. "wiki.example.com" */
+  domain: string;
+  /** Selector of the main content container; null keeps the automatic choice */
+  mainSelector: string | null;
+  /** Areas always extracted, even when the heuristics would skip them or they sit outside the main container */
+  includeSelectors: string[];
+  /** Areas never extracted */
+  excludeSelectors: string[];
+  updatedAt: string;
+}
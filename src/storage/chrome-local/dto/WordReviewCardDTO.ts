@@ -0,0 +1,21 @@
+// src/storage/chrome-local/dto/WordReviewCardDTO.ts
+
+import type { WordReviewStatePayload } from '@/api-services/dto/WordReviewDTO';
+
+/**
+ * Flashcard for one saved word in the local review deck.
+ * Content is captured when the word is saved (or filled in later from the API);
+ * the scheduling fields are what gets synced to the backend.
+ */
+export interface WordReviewCardDTO extends WordReviewStatePayload {
+  word: string;
+  meaning: string;
+  examples: string[];
+  synonyms: string[];
+  /** Page the word was saved from */
+  sourceUrl: string;
+  /** Text around the word on the source page, empty if unknown */
+  context: string;
+  /** Whether the scheduling fields changed since the last successful sync */
+  dirty: boolean;
+}
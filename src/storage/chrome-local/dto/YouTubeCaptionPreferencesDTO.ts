@@ -0,0 +1,11 @@
+// src/storage/chrome-local/dto/YouTubeCaptionPreferencesDTO.ts
+
+/**
+ * Caption choices on YouTube watch pages, shared by every video
+ */
+export interface YouTubeCaptionPreferencesDTO {
+  /** Language of the caption track last chosen; null uses the default (English, else the first track) */
+  languageCode: string | null;
+  /** Show the translated caption over the player, under the original */
+  showTranslatedCaptions: boolean;
+}
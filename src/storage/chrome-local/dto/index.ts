@@ -10,3 +10,8 @@ export type { UserSettingsDTO } from './UserSettingsDTO';
 export type { UserAccountSettingsDTO } from './UserAccountSettingsDTO';
 export type { ExtensionSettingsDTO } from './ExtensionSettingsDTO';
 
+export type { WordReviewCardDTO } from './WordReviewCardDTO';
+export type { SiteExtractionRuleDTO } from './SiteExtractionRuleDTO';
+export type { ReaderPreferencesDTO, ReaderFontFamily } from './ReaderPreferencesDTO';
+export type { YouTubeCaptionPreferencesDTO } from './YouTubeCaptionPreferencesDTO';
+export type { LibraryTargetDTO } from './LibraryTargetDTO';
@@ -0,0 +1,99 @@
+// src/storage/indexed-db/chatSessionStore.ts
+// IndexedDB persistence for "Chat with Webpage" sessions.
+// Keyed by SHA-256 hash of normalized page URL, so every page keeps its own sessions.
+// Conversations are not written into the storage of the site they were held on.
+
+import type { WebpageChatSessionPayload } from '@/api-services/dto/WebpageChatSessionDTO';
+
+const DB_NAME = 'xplaino_chat_sessions';
+const STORE_NAME = 'page_chat_sessions';
+const DB_VERSION = 1;
+
+export interface StoredChatSessions {
+  pageUrlHash: string;
+  /** Normalized page URL, as sent to the backend when session sync is on */
+  pageUrl: string;
+  activeSessionId: string;
+  sessions: WebpageChatSessionPayload[];
+  updatedAt: string;
+}
+
+/** Requests sent by the content-side chatSessionStore client to the background worker */
+export type ChatSessionRequest =
+  | { op: 'get'; urlHash: string }
+  | { op: 'put'; record: StoredChatSessions }
+  | { op: 'delete'; urlHash: string };
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'pageUrlHash' });
+      }
+    };
+
+    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getChatSessions(urlHash: string): Promise<StoredChatSessions | null> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+      const req = store.get(urlHash);
+      req.onsuccess = () => resolve((req.result as StoredChatSessions) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+  } catch (err) {
+    console.warn('[ChatSessionStore] getChatSessions failed:', err);
+    return null;
+  }
+}
+
+export async function putChatSessions(record: StoredChatSessions): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const req = store.put(record);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+  } catch (err) {
+    console.warn('[ChatSessionStore] putChatSessions failed:', err);
+  }
+}
+
+export async function deleteChatSessions(urlHash: string): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const req = store.delete(urlHash);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+  } catch (err) {
+    console.warn('[ChatSessionStore] deleteChatSessions failed:', err);
+  }
+}
+
+/** Read, replace or clear the sessions stored for one page */
+export function handleChatSessionRequest(request: ChatSessionRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'get':
+      return getChatSessions(request.urlHash);
+    case 'put':
+      return putChatSessions(request.record);
+    case 'delete':
+      return deleteChatSessions(request.urlHash);
+  }
+}
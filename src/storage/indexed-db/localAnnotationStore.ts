@@ -0,0 +1,285 @@
+// src/storage/indexed-db/localAnnotationStore.ts
+// IndexedDB persistence for highlights and notes made while signed out.
+// One database for every site, so everything saved while signed out can be
+// migrated on sign-in.
+
+import type {
+  CreateWebHighlightRequest,
+  WebHighlightResponse,
+} from '@/api-services/dto/WebHighlightDTO';
+import type { CreateWebNoteRequest, WebNoteResponse } from '@/api-services/dto/WebNoteDTO';
+import type {
+  LibraryItemResponse,
+  SearchLibraryRequest,
+  SearchLibraryResponse,
+} from '@/api-services/dto/AnnotationLibraryDTO';
+import { extractDomain } from '@/utils/domain';
+
+const DB_NAME = 'xplaino_local_annotations';
+const HIGHLIGHTS_STORE = 'highlights';
+const NOTES_STORE = 'notes';
+const DB_VERSION = 1;
+
+/** Prefix for ids issued on this device, so they never collide with server ids */
+const LOCAL_ID_PREFIX = 'device-';
+
+/** Requests sent by `LocalAnnotationAdapter` to the background worker */
+export type LocalAnnotationRequest =
+  | { op: 'getHighlights'; pageUrl: string }
+  | { op: 'createHighlight'; request: CreateWebHighlightRequest }
+  | { op: 'updateHighlight'; highlightId: string; color: string }
+  | { op: 'deleteHighlight'; highlightId: string }
+  | { op: 'getNotes'; pageUrl: string }
+  | { op: 'createNote'; request: CreateWebNoteRequest }
+  | { op: 'updateNote'; noteId: string; content: string }
+  | { op: 'deleteNote'; noteId: string }
+  | { op: 'searchLibrary'; request: SearchLibraryRequest };
+
+export interface LocalAnnotations {
+  highlights: WebHighlightResponse[];
+  notes: WebNoteResponse[];
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      for (const name of [HIGHLIGHTS_STORE, NOTES_STORE]) {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'id' });
+          store.createIndex('pageUrl', 'pageUrl', { unique: false });
+        }
+      }
+    };
+
+    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Whether an id was issued on this device rather than by the backend */
+export function isLocalAnnotationId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/** All records, or those for one page, oldest first */
+async function getAllFrom<T extends { createdAt: string }>(storeName: string, pageUrl?: string): Promise<T[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const req = pageUrl === undefined ? store.getAll() : store.index('pageUrl').getAll(pageUrl);
+    req.onsuccess = () => resolve((req.result as T[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function getFrom<T>(storeName: string, id: string): Promise<T | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(storeName, 'readonly').objectStore(storeName).get(id);
+    req.onsuccess = () => resolve((req.result as T) ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function putInto(storeName: string, record: object): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(storeName, 'readwrite').objectStore(storeName).put(record);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function deleteFrom(storeName: string, id: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(storeName, 'readwrite').objectStore(storeName).delete(id);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// =============================================================================
+// Highlights
+// =============================================================================
+
+export function getLocalHighlights(pageUrl: string): Promise<WebHighlightResponse[]> {
+  return getAllFrom<WebHighlightResponse>(HIGHLIGHTS_STORE, pageUrl);
+}
+
+export async function createLocalHighlight(request: CreateWebHighlightRequest): Promise<WebHighlightResponse> {
+  const now = new Date().toISOString();
+  const highlight: WebHighlightResponse = {
+    id: createLocalId(),
+    pageUrl: request.pageUrl,
+    selectedText: request.selectedText,
+    anchor: request.anchor,
+    color: request.color ?? null,
+    note: request.note ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putInto(HIGHLIGHTS_STORE, highlight);
+  return highlight;
+}
+
+/** Returns null when the highlight does not exist, mirroring the backend's 404 */
+export async function updateLocalHighlight(highlightId: string, color: string): Promise<WebHighlightResponse | null> {
+  const existing = await getFrom<WebHighlightResponse>(HIGHLIGHTS_STORE, highlightId);
+  if (!existing) return null;
+  const highlight = { ...existing, color, updatedAt: new Date().toISOString() };
+  await putInto(HIGHLIGHTS_STORE, highlight);
+  return highlight;
+}
+
+export function deleteLocalHighlight(highlightId: string): Promise<void> {
+  return deleteFrom(HIGHLIGHTS_STORE, highlightId);
+}
+
+// =============================================================================
+// Notes
+// =============================================================================
+
+export function getLocalNotes(pageUrl: string): Promise<WebNoteResponse[]> {
+  return getAllFrom<WebNoteResponse>(NOTES_STORE, pageUrl);
+}
+
+export async function createLocalNote(request: CreateWebNoteRequest): Promise<WebNoteResponse> {
+  const now = new Date().toISOString();
+  const note: WebNoteResponse = {
+    id: createLocalId(),
+    pageUrl: request.pageUrl,
+    selectedText: request.selectedText,
+    anchor: request.anchor,
+    content: request.content,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putInto(NOTES_STORE, note);
+  return note;
+}
+
+/** Returns null when the note does not exist, mirroring the backend's 404 */
+export async function updateLocalNote(noteId: string, content: string): Promise<WebNoteResponse | null> {
+  const existing = await getFrom<WebNoteResponse>(NOTES_STORE, noteId);
+  if (!existing) return null;
+  const note = { ...existing, content, updatedAt: new Date().toISOString() };
+  await putInto(NOTES_STORE, note);
+  return note;
+}
+
+export function deleteLocalNote(noteId: string): Promise<void> {
+  return deleteFrom(NOTES_STORE, noteId);
+}
+
+// =============================================================================
+// Library
+// =============================================================================
+
+function toLibraryItems({ highlights, notes }: LocalAnnotations): LibraryItemResponse[] {
+  const base = { pageTitle: null, folderId: null, imageUrl: null };
+  return [
+    ...highlights.map((h): LibraryItemResponse => ({
+      ...base,
+      id: h.id,
+      type: 'highlight',
+      sourceUrl: h.pageUrl,
+      text: h.selectedText,
+      content: h.note,
+      color: h.color,
+      anchor: h.anchor,
+      createdAt: h.createdAt,
+    })),
+    ...notes.map((n): LibraryItemResponse => ({
+      ...base,
+      id: n.id,
+      type: 'note',
+      sourceUrl: n.pageUrl,
+      text: n.selectedText,
+      content: n.content,
+      color: null,
+      anchor: n.anchor,
+      createdAt: n.createdAt,
+    })),
+  ];
+}
+
+/**
+ * Search the highlights and notes on this device the way the backend searches
+ * the library. Nothing else is kept locally, so a folder filter matches nothing.
+ */
+export async function searchLocalLibrary(request: SearchLibraryRequest): Promise<SearchLibraryResponse> {
+  const query = request.query?.trim().toLowerCase();
+  // Dates are whole days: any timestamp on the last day sorts before this bound
+  const createdBefore = request.createdBefore && `${request.createdBefore}\uffff`;
+  const matching = toLibraryItems(await listLocalAnnotations()).filter((item) =>
+    (!request.types?.length || request.types.includes(item.type)) &&
+    (!request.createdAfter || item.createdAt >= request.createdAfter) &&
+    (!createdBefore || item.createdAt <= createdBefore) &&
+    !request.folderId &&
+    (!request.color || item.color?.toLowerCase() === request.color.toLowerCase()) &&
+    (!query || `${item.text}\n${item.content ?? ''}`.toLowerCase().includes(query))
+  );
+
+  const domains = [...new Set(matching.map((item) => extractDomain(item.sourceUrl)))].sort();
+  const items = matching
+    .filter((item) => !request.domain || extractDomain(item.sourceUrl) === request.domain)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    items: items.slice(request.offset, request.offset + request.limit),
+    total: items.length,
+    offset: request.offset,
+    limit: request.limit,
+    domains,
+  };
+}
+
+// =============================================================================
+// Dispatch and migration
+// =============================================================================
+
+/** Everything stored on this device, oldest first */
+export async function listLocalAnnotations(): Promise<LocalAnnotations> {
+  try {
+    const [highlights, notes] = await Promise.all([
+      getAllFrom<WebHighlightResponse>(HIGHLIGHTS_STORE),
+      getAllFrom<WebNoteResponse>(NOTES_STORE),
+    ]);
+    return { highlights, notes };
+  } catch (err) {
+    console.warn('[LocalAnnotationStore] listLocalAnnotations failed:', err);
+    return { highlights: [], notes: [] };
+  }
+}
+
+/** Apply a LocalAnnotationAdapter request (sent over a message, or called directly by the outbox replay) */
+export function handleLocalAnnotationRequest(request: LocalAnnotationRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'getHighlights':
+      return getLocalHighlights(request.pageUrl);
+    case 'createHighlight':
+      return createLocalHighlight(request.request);
+    case 'updateHighlight':
+      return updateLocalHighlight(request.highlightId, request.color);
+    case 'deleteHighlight':
+      return deleteLocalHighlight(request.highlightId);
+    case 'getNotes':
+      return getLocalNotes(request.pageUrl);
+    case 'createNote':
+      return createLocalNote(request.request);
+    case 'updateNote':
+      return updateLocalNote(request.noteId, request.content);
+    case 'deleteNote':
+      return deleteLocalNote(request.noteId);
+    case 'searchLibrary':
+      return searchLocalLibrary(request.request);
+  }
+}
@@ -0,0 +1,105 @@
+// src/storage/indexed-db/syncOutboxStore.ts
+// IndexedDB outbox for highlight, note and bookmark writes that have not
+// reached the backend yet. Entries are kept oldest first and replayed in order.
+// Kept by the background worker, so a write queued on one site is replayed even
+// if that site is never opened again.
+
+import type { SaveWordRequest } from '@/api-services/SavedWordsService';
+import type { CreateWebHighlightRequest } from '@/api-services/dto/WebHighlightDTO';
+import type { CreateWebNoteRequest } from '@/api-services/dto/WebNoteDTO';
+import type { SaveParagraphRequest } from '@/api-services/dto/SavedParagraphDTO';
+import type { SaveLinkRequest } from '@/api-services/dto/SavedLinkDTO';
+import type { SaveImageRequest } from '@/api-services/dto/SavedImageDTO';
+
+const DB_NAME = 'xplaino_sync_outbox';
+const STORE_NAME = 'outbox';
+const DB_VERSION = 1;
+
+export type OutboxOperation =
+  | { type: 'createHighlight'; tempId: string; request: CreateWebHighlightRequest }
+  | { type: 'updateHighlight'; highlightId: string; color: string; pageUrl: string }
+  | { type: 'deleteHighlight'; highlightId: string; pageUrl: string }
+  | { type: 'createNote'; tempId: string; request: CreateWebNoteRequest }
+  | { type: 'updateNote'; noteId: string; content: string; pageUrl: string }
+  | { type: 'deleteNote'; noteId: string; pageUrl: string }
+  | { type: 'saveParagraph'; request: SaveParagraphRequest }
+  | { type: 'saveLink'; request: SaveLinkRequest }
+  | { type: 'saveWord'; request: SaveWordRequest }
+  | { type: 'saveImage'; request: SaveImageRequest };
+
+export type OutboxSyncStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  status: OutboxSyncStatus;
+  attempts: number;
+  /** Epoch ms before which the entry is not retried */
+  nextAttemptAt: number;
+  /** Error code of the last failed attempt */
+  lastError?: string;
+  createdAt: number;
+}
+
+export type OutboxEvent =
+  /** `serverId` is set when a create resolved a temporary id */
+  | { type: 'synced'; entry: OutboxEntry; serverId?: string }
+  | { type: 'failed'; entry: OutboxEntry };
+
+/** Requests sent by `syncOutbox` to the background worker */
+export type SyncOutboxRequest =
+  | { op: 'list' }
+  | { op: 'enqueue'; operation: OutboxOperation }
+  | { op: 'retry'; itemId: string }
+  | { op: 'discard'; itemId: string }
+  | { op: 'flush' };
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** All queued entries, oldest first */
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  try {
+    const db = await openDB();
+    const entries = await new Promise<OutboxEntry[]>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const req = tx.objectStore(STORE_NAME).getAll();
+      req.onsuccess = () => resolve((req.result as OutboxEntry[]) ?? []);
+      req.onerror = () => reject(req.error);
+    });
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (err) {
+    console.warn('[SyncOutboxStore] listOutboxEntries failed:', err);
+    return [];
+  }
+}
+
+/** Write and delete entries in one transaction */
+export async function writeOutboxEntries(put: OutboxEntry[], remove: string[] = []): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      for (const entry of put) store.put(entry);
+      for (const id of remove) store.delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (err) {
+    console.warn('[SyncOutboxStore] writeOutboxEntries failed:', err);
+  }
+}
@@ -0,0 +1,218 @@
+// src/storage/indexed-db/translationMemoryStore.ts
+// IndexedDB translation memory: translations keyed by language pair and a
+// SHA-256 of the source text, so repeated strings are translated once.
+// One memory shared by every site, bounded by size; the least recently used
+// entries go first.
+
+const DB_NAME = 'xplaino_translation_memory';
+const ENTRIES_STORE = 'entries';
+const STATS_STORE = 'stats';
+const STATS_KEY = 'totals';
+const DB_VERSION = 1;
+
+/** Storage budget for translated text; eviction brings the memory back under it */
+export const TRANSLATION_MEMORY_BUDGET_BYTES = 8 * 1024 * 1024;
+
+interface TranslationMemoryEntry {
+  /** `${sourceLanguage}:${targetLanguage}:${sha256(sourceText)}` */
+  key: string;
+  translatedText: string;
+  /** Approximate in-database size in bytes */
+  byteSize: number;
+  lastAccessedAt: string;
+}
+
+interface TranslationMemoryTotals {
+  id: typeof STATS_KEY;
+  hits: number;
+  misses: number;
+  entryCount: number;
+  byteSize: number;
+}
+
+export interface TranslationMemoryStats {
+  hits: number;
+  misses: number;
+  entryCount: number;
+  byteSize: number;
+}
+
+/** Requests sent by `TranslationMemory` to the background worker */
+export type TranslationMemoryRequest =
+  | { op: 'lookup'; keys: string[] }
+  | { op: 'store'; entries: { key: string; translatedText: string }[] }
+  | { op: 'getStats' }
+  | { op: 'clear' };
+
+const EMPTY_TOTALS: TranslationMemoryTotals = { id: STATS_KEY, hits: 0, misses: 0, entryCount: 0, byteSize: 0 };
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const store = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+        store.createIndex('lastAccessedAt', 'lastAccessedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STATS_STORE)) {
+        db.createObjectStore(STATS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function estimateEntryBytes(key: string, translatedText: string): number {
+  // UTF-16 strings plus the ISO timestamp
+  return (key.length + translatedText.length + 24) * 2;
+}
+
+function readTotals(store: IDBObjectStore, onRead: (totals: TranslationMemoryTotals) => void): void {
+  const req = store.get(STATS_KEY);
+  req.onsuccess = () => onRead({ ...EMPTY_TOTALS, ...(req.result as TranslationMemoryTotals | undefined) });
+}
+
+/**
+ * Cached translations for `keys`, in the same order (null where there is none).
+ * Hits are marked as recently used and counted towards the hit rate.
+ */
+export async function lookupTranslations(keys: string[]): Promise<(string | null)[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, STATS_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const results: (string | null)[] = new Array(keys.length).fill(null);
+    const now = new Date().toISOString();
+
+    keys.forEach((key, i) => {
+      const req = entries.get(key);
+      req.onsuccess = () => {
+        const entry = req.result as TranslationMemoryEntry | undefined;
+        if (!entry) return;
+        results[i] = entry.translatedText;
+        entries.put({ ...entry, lastAccessedAt: now });
+      };
+    });
+
+    const stats = tx.objectStore(STATS_STORE);
+    // Queued after the gets, so it runs once every result is known
+    readTotals(stats, (totals) => {
+      const hits = results.filter((r) => r !== null).length;
+      stats.put({ ...totals, hits: totals.hits + hits, misses: totals.misses + keys.length - hits });
+    });
+
+    tx.oncomplete = () => resolve(results);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Add translations, then evict least recently used entries while the memory
+ * is over budget
+ */
+export async function storeTranslations(
+  newEntries: { key: string; translatedText: string }[],
+  budgetBytes = TRANSLATION_MEMORY_BUDGET_BYTES
+): Promise<void> {
+  // One write per key; the same string can appear several times in a batch
+  const unique = new Map(newEntries.map(({ key, translatedText }) => [key, translatedText]));
+  if (unique.size === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, STATS_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const stats = tx.objectStore(STATS_STORE);
+    const now = new Date().toISOString();
+
+    readTotals(stats, (totals) => {
+      let { entryCount, byteSize } = totals;
+      let pending = unique.size;
+
+      const evict = () => {
+        if (byteSize <= budgetBytes) {
+          stats.put({ ...totals, entryCount, byteSize });
+          return;
+        }
+        const cursorReq = entries.index('lastAccessedAt').openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor || byteSize <= budgetBytes) {
+            stats.put({ ...totals, entryCount, byteSize });
+            return;
+          }
+          const entry = cursor.value as TranslationMemoryEntry;
+          cursor.delete();
+          entryCount -= 1;
+          byteSize -= entry.byteSize;
+          cursor.continue();
+        };
+      };
+
+      for (const [key, translatedText] of unique) {
+        const existingReq = entries.get(key);
+        existingReq.onsuccess = () => {
+          const existing = existingReq.result as TranslationMemoryEntry | undefined;
+          const entry: TranslationMemoryEntry = {
+            key,
+            translatedText,
+            byteSize: estimateEntryBytes(key, translatedText),
+            lastAccessedAt: now,
+          };
+          if (existing) {
+            byteSize -= existing.byteSize;
+          } else {
+            entryCount += 1;
+          }
+          byteSize += entry.byteSize;
+          entries.put(entry);
+          pending -= 1;
+          if (pending === 0) evict();
+        };
+      }
+    });
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getTranslationMemoryStats(): Promise<TranslationMemoryStats> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STATS_STORE, 'readonly');
+    readTotals(tx.objectStore(STATS_STORE), ({ hits, misses, entryCount, byteSize }) => {
+      resolve({ hits, misses, entryCount, byteSize });
+    });
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Forget every translation and reset the hit rate */
+export async function clearTranslationMemory(): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([ENTRIES_STORE, STATS_STORE], 'readwrite');
+    tx.objectStore(ENTRIES_STORE).clear();
+    tx.objectStore(STATS_STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Serve a TranslationMemory lookup, write, stats read or reset */
+export function handleTranslationMemoryRequest(request: TranslationMemoryRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'lookup':
+      return lookupTranslations(request.keys);
+    case 'store':
+      return storeTranslations(request.entries);
+    case 'getStats':
+      return getTranslationMemoryStats();
+    case 'clear':
+      return clearTranslationMemory();
+  }
+}
@@ -0,0 +1,283 @@
+// src/storage/indexed-db/vectorIndexStore.ts
+// IndexedDB persistence for page vector indexes.
+// Keyed by SHA-256 hash of normalized page URL.
+// A small metadata record per index (size, chunk count, last access) lives in a
+// separate object store so listing and LRU eviction never load the vectors.
+// Every site shares one store, one storage budget and one eviction order.
+// Indexes earlier versions kept per site are deleted by the content script,
+// not migrated.
+
+import type { ChunkMetadata } from '@/content/utils/pageChunker';
+import { cosineSimilarity } from '@/content/utils/embeddingClient';
+
+const DB_NAME = 'xplaino_webpage_chat';
+const STORE_NAME = 'page_vector_index';
+const META_STORE_NAME = 'page_vector_meta';
+const DB_VERSION = 2;
+
+export interface StoredChunk {
+  chunkId: string;
+  text: string;
+  vector: number[];
+  metadata: ChunkMetadata;
+  /**
+   * SHA-256 of `text`. Lets re-indexing reuse the vector of an unchanged chunk
+   * (absent on chunks written before incremental re-indexing).
+   */
+  contentHash?: string;
+}
+
+export interface VectorIndex {
+  pageUrlHash: string;
+  pageContentHash: string;
+  indexedAt: string;
+  chunks: StoredChunk[];
+  /** Shown in the Settings index list */
+  pageUrl?: string;
+  pageTitle?: string;
+}
+
+/** A chunk matched by `searchVectorIndexes`, without its vector, and the page it is from */
+export interface VectorSearchMatch {
+  pageUrlHash: string;
+  pageUrl?: string;
+  pageTitle?: string;
+  chunk: Omit<StoredChunk, 'vector'>;
+  cosineScore: number;
+}
+
+export interface VectorSearchResult {
+  /** How many of the requested pages have an index */
+  indexedPages: number;
+  /** Best matches across those pages, highest score first */
+  matches: VectorSearchMatch[];
+}
+
+/** Lightweight per-index summary used for listing and LRU eviction */
+export interface VectorIndexMeta {
+  pageUrlHash: string;
+  pageUrl?: string;
+  pageTitle?: string;
+  chunkCount: number;
+  /** Approximate in-database size of the index in bytes */
+  byteSize: number;
+  indexedAt: string;
+  /** Updated on every read; eviction removes the least recently accessed first */
+  lastAccessedAt: string;
+}
+
+/**
+ * Approximate the stored size of an index: UTF-16 strings (2 bytes/char)
+ * and vectors as float64 (8 bytes/dimension).
+ */
+export function estimateVectorIndexBytes(index: VectorIndex): number {
+  let bytes = (index.pageUrlHash.length + index.pageContentHash.length + index.indexedAt.length) * 2;
+  for (const chunk of index.chunks) {
+    bytes += (chunk.chunkId.length + chunk.text.length + (chunk.contentHash?.length ?? 0)) * 2;
+    bytes += chunk.vector.length * 8;
+    bytes += JSON.stringify(chunk.metadata).length * 2;
+  }
+  return bytes;
+}
+
+function buildMeta(index: VectorIndex, lastAccessedAt: string): VectorIndexMeta {
+  return {
+    pageUrlHash: index.pageUrlHash,
+    pageUrl: index.pageUrl,
+    pageTitle: index.pageTitle,
+    chunkCount: index.chunks.length,
+    byteSize: estimateVectorIndexBytes(index),
+    indexedAt: index.indexedAt,
+    lastAccessedAt,
+  };
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'pageUrlHash' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+        db.createObjectStore(META_STORE_NAME, { keyPath: 'pageUrlHash' });
+      }
+    };
+
+    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getVectorIndex(urlHash: string): Promise<VectorIndex | null> {
+  try {
+    const db = await openDB();
+    const index = await new Promise<VectorIndex | null>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const store = tx.objectStore(STORE_NAME);
+      const req = store.get(urlHash);
+      req.onsuccess = () => resolve((req.result as VectorIndex) ?? null);
+      req.onerror = () => reject(req.error);
+    });
+    if (index) touchVectorIndex(urlHash);
+    return index;
+  } catch (err) {
+    console.warn('[VectorStore] getVectorIndex failed:', err);
+    return null;
+  }
+}
+
+export async function putVectorIndex(index: VectorIndex): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      tx.objectStore(STORE_NAME).put(index);
+      tx.objectStore(META_STORE_NAME).put(buildMeta(index, new Date().toISOString()));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (err) {
+    console.warn('[VectorStore] putVectorIndex failed:', err);
+  }
+}
+
+export async function deleteVectorIndex(urlHash: string): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      tx.objectStore(STORE_NAME).delete(urlHash);
+      tx.objectStore(META_STORE_NAME).delete(urlHash);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (err) {
+    console.warn('[VectorStore] deleteVectorIndex failed:', err);
+  }
+}
+
+/** Bump lastAccessedAt so the index counts as recently used for eviction */
+async function touchVectorIndex(urlHash: string): Promise<void> {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(META_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(META_STORE_NAME);
+      const req = store.get(urlHash);
+      req.onsuccess = () => {
+        const meta = req.result as VectorIndexMeta | undefined;
+        if (meta) store.put({ ...meta, lastAccessedAt: new Date().toISOString() });
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (err) {
+    console.warn('[VectorStore] touchVectorIndex failed:', err);
+  }
+}
+
+/** All stored indexes, most recently accessed first */
+export async function listVectorIndexes(): Promise<VectorIndexMeta[]> {
+  try {
+    const db = await openDB();
+    const metas = await new Promise<VectorIndexMeta[]>((resolve, reject) => {
+      const tx = db.transaction(META_STORE_NAME, 'readonly');
+      const req = tx.objectStore(META_STORE_NAME).getAll();
+      req.onsuccess = () => resolve((req.result as VectorIndexMeta[]) ?? []);
+      req.onerror = () => reject(req.error);
+    });
+    return metas.sort((a, b) => b.lastAccessedAt.localeCompare(a.lastAccessedAt));
+  } catch (err) {
+    console.warn('[VectorStore] listVectorIndexes failed:', err);
+    return [];
+  }
+}
+
+/**
+ * Evict least-recently-used indexes until the combined size fits the budget.
+ * `keepUrlHash` (typically the index just written) is never evicted.
+ * @returns Hashes of the evicted indexes
+ */
+export async function enforceVectorIndexBudget(
+  budgetBytes: number,
+  keepUrlHash?: string
+): Promise<string[]> {
+  const metas = await listVectorIndexes();
+  let total = metas.reduce((sum, m) => sum + m.byteSize, 0);
+  if (total <= budgetBytes) return [];
+
+  const evicted: string[] = [];
+  // listVectorIndexes is newest-first; walk from the oldest end
+  for (let i = metas.length - 1; i >= 0 && total > budgetBytes; i--) {
+    const meta = metas[i];
+    if (meta.pageUrlHash === keepUrlHash) continue;
+    await deleteVectorIndex(meta.pageUrlHash);
+    total -= meta.byteSize;
+    evicted.push(meta.pageUrlHash);
+  }
+
+  if (evicted.length > 0) {
+    console.log('[VectorStore] Evicted', evicted.length, 'index(es) to fit storage budget');
+  }
+  return evicted;
+}
+
+/**
+ * Cosine top-K over the chunks of several indexes. Runs next to the data so
+ * only the best chunks, without vectors, are sent back; indexes are read one
+ * at a time so memory stays at one index plus `topK` matches.
+ */
+export async function searchVectorIndexes(
+  urlHashes: string[],
+  questionVector: number[],
+  topK: number
+): Promise<VectorSearchResult> {
+  let indexedPages = 0;
+  let matches: VectorSearchMatch[] = [];
+  for (const urlHash of urlHashes) {
+    const index = await getVectorIndex(urlHash);
+    if (!index || index.chunks.length === 0) continue;
+    indexedPages++;
+    for (const { vector, ...chunk } of index.chunks) {
+      matches.push({
+        pageUrlHash: urlHash,
+        pageUrl: index.pageUrl,
+        pageTitle: index.pageTitle,
+        chunk,
+        cosineScore: cosineSimilarity(questionVector, vector),
+      });
+    }
+    matches = matches.sort((a, b) => b.cosineScore - a.cosineScore).slice(0, topK);
+  }
+  return { indexedPages, matches };
+}
+
+/** Requests sent by the content-side vectorStore client to the background worker */
+export type VectorIndexRequest =
+  | { op: 'get'; urlHash: string }
+  | { op: 'search'; urlHashes: string[]; questionVector: number[]; topK: number }
+  | { op: 'put'; index: VectorIndex }
+  | { op: 'delete'; urlHash: string }
+  | { op: 'list' }
+  | { op: 'enforceBudget'; budgetBytes: number; keepUrlHash?: string };
+
+/** Serve a vectorStore request. Only `get` and `put` move whole indexes, vectors included */
+export function handleVectorIndexRequest(request: VectorIndexRequest): Promise<unknown> {
+  switch (request.op) {
+    case 'get':
+      return getVectorIndex(request.urlHash);
+    case 'search':
+      return searchVectorIndexes(request.urlHashes, request.questionVector, request.topK);
+    case 'put':
+      return putVectorIndex(request.index);
+    case 'delete':
+      return deleteVectorIndex(request.urlHash);
+    case 'list':
+      return listVectorIndexes();
+    case 'enforceBudget':
+      return enforceVectorIndexBudget(request.budgetBytes, request.keepUrlHash);
+  }
+}
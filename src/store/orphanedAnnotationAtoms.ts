@@ -0,0 +1,22 @@
+// src/store/orphanedAnnotationAtoms.ts
+// Jotai atoms for highlights and notes whose text could not be found on the page
+
+import { atom } from 'jotai';
+import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
+
+export interface OrphanedAnnotation {
+  kind: 'highlight' | 'note';
+  id: string;
+  selectedText: string;
+  anchor: AnchorData;
+  /** Highlight colour (highlights only) */
+  color?: string | null;
+  /** Note body (notes only) */
+  content?: string;
+}
+
+/** Annotations that stayed unresolved after the page settled, in load order */
+export const orphanedAnnotationsAtom = atom<OrphanedAnnotation[]>([]);
+
+/** ID of the orphan waiting for the user to select its new text, or null */
+export const reattachingAnnotationIdAtom = atom<string | null>(null);
@@ -0,0 +1,23 @@
+// src/store/pageAnnotationAtoms.ts
+// Jotai atoms for the overview of every annotation on the current page
+
+import { atom } from 'jotai';
+
+export type PageAnnotationKind = 'highlight' | 'note' | 'bookmark' | 'word' | 'image';
+
+export interface PageAnnotation {
+  kind: PageAnnotationKind;
+  /** ID in the annotation's own state (highlight, note, saved paragraph, word or image explanation) */
+  id: string;
+  /** Highlighted or bookmarked text, the saved word, or the image's description */
+  text: string;
+  /** Note body (notes only) */
+  content?: string;
+  /** Highlight colour (highlights only); null is the default yellow */
+  color?: string | null;
+  /** Image source, used as a thumbnail (images only) */
+  imageSrc?: string;
+}
+
+/** Every annotation on the page, in document order; rebuilt by the content script */
+export const pageAnnotationsAtom = atom<PageAnnotation[]>([]);
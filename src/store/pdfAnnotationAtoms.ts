@@ -0,0 +1,13 @@
+// src/store/pdfAnnotationAtoms.ts
+// Jotai atoms for highlights and notes made in Chrome's PDF viewer
+
+import { atom } from 'jotai';
+import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
+
+export interface PdfNoteDraft {
+  selectedText: string;
+  anchor: AnchorData;
+}
+
+/** Note being written for text selected in the PDF, or null */
+export const pdfNoteDraftAtom = atom<PdfNoteDraft | null>(null);
@@ -0,0 +1,37 @@
+// src/store/sharedAnnotationAtoms.ts
+// Jotai atoms for other users' annotations shared on the current page, replies
+// on notes, and the people this page's annotations are shared with
+
+import { atom } from 'jotai';
+import type {
+  AnnotationAuthor,
+  NoteReplyResponse,
+  PageAnnotationShareResponse,
+} from '@/api-services/dto/AnnotationShareDTO';
+import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
+
+export type SharedAnnotationKind = 'highlight' | 'note';
+
+export interface SharedAnnotationState {
+  kind: SharedAnnotationKind;
+  id: string;
+  selectedText: string;
+  anchor: AnchorData;
+  /** Highlight colour (highlights only); null is the default yellow */
+  color: string | null;
+  /** Note body in Markdown (notes only) */
+  content: string | null;
+  author: AnnotationAuthor;
+  createdAt: string;
+  /** Resolved text range, used to place the author avatar; null until the anchor resolves */
+  range: Range | null;
+}
+
+/** Map of shared highlight/note ID → runtime state */
+export const sharedAnnotationsAtom = atom<Map<string, SharedAnnotationState>>(new Map());
+
+/** Map of note ID → replies on it, oldest first; filled as notes are opened */
+export const noteRepliesAtom = atom<Map<string, NoteReplyResponse[]>>(new Map());
+
+/** People the signed-in user shares this page's annotations with */
+export const pageSharesAtom = atom<PageAnnotationShareResponse[]>([]);
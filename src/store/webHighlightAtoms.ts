@@ -2,6 +2,7 @@
 // Jotai atoms for Web Highlight state management
 
 import { atom } from 'jotai';
+import type { OutboxSyncStatus } from '@/content/utils/syncOutbox';
 import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
 import type { HighlightColour } from '@/api-services/HighlightColourService';
 
@@ -12,6 +13,8 @@ export interface WebHighlightState {
   color: string | null;
   /** References to the <mark> DOM nodes so they can be removed without a DOM query */
   wrapperElements: HTMLElement[];
+  /** Set while a change is queued in the sync outbox; absent once the server has it */
+  syncStatus?: OutboxSyncStatus;
 }
 
 /** Map of highlight ID → runtime highlight state (including DOM refs) */
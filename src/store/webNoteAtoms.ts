@@ -2,6 +2,7 @@
 // Jotai atoms for Web Note state management
 
 import { atom } from 'jotai';
+import type { OutboxSyncStatus } from '@/content/utils/syncOutbox';
 import type { AnchorData } from '@/api-services/dto/WebHighlightDTO';
 
 export interface WebNoteState {
@@ -11,6 +12,8 @@ export interface WebNoteState {
   content: string;
   /** Zero-width <span> injected at the end of the text range; used to position the note icon. */
   anchorSpan: HTMLSpanElement | null;
+  /** Set while a change is queued in the sync outbox; absent once the server has it */
+  syncStatus?: OutboxSyncStatus;
 }
 
 /** Map of note ID → runtime note state (including DOM refs). */
@@ -51,6 +51,14 @@ export interface RenderedMessage {
 
 export type GoogleDocsTabScope = 'current' | 'all';
 
+/**
+ * A set of pages a session chats over instead of the current page.
+ * Retrieval merges results from the stored vector index of every page in the set.
+ */
+export type ChatCollectionScope =
+  | { kind: 'folder'; folderId: string; name: string }
+  | { kind: 'pages'; pageUrlHashes: string[]; name: string };
+
 /** A single chat session with its own history, messages, and citation state */
 export interface ChatSession {
   id: string;
@@ -74,6 +82,10 @@ export interface ChatSession {
    * Sticky per session — does not reset when the user switches Docs tabs.
    */
   googleDocsTabScope: GoogleDocsTabScope;
+  /** Epoch ms of the last time this session was opened or asked a question */
+  lastUsedAt: number;
+  /** When set, questions are answered from this collection rather than the current page */
+  collectionScope?: ChatCollectionScope;
 }
 
 function createSession(id: string, name: string): ChatSession {
@@ -86,15 +98,18 @@ function createSession(id: string, name: string): ChatSession {
     activeCitations: [],
     pendingAnnotation: null,
     googleDocsTabScope: 'current',
+    lastUsedAt: Date.now(),
   };
 }
 
-const INITIAL_SESSION_ID = 'session-1';
-
 export function makeSessionId(): string {
   return `session-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 }
 
+// Unique per page load so a fresh initial session never collides with a
+// restored or synced session from another load / machine.
+const INITIAL_SESSION_ID = makeSessionId();
+
 // =============================================================================
 // Pending annotation (cross-boundary: set by content/index.ts, consumed in view)
 // =============================================================================
@@ -175,7 +190,7 @@ export const webpageChatIsLoadingAtom = atom<boolean>((get) => {
 
 /**
  * True when any session has at least one user or assistant message.
- * Used by the refresh-guard keyboard listener in content/index.ts.
+ * Used by the session persistence in content/index.ts to skip storing empty chats.
  */
 export const webpageChatHasConversationAtom = atom<boolean>((get) => {
   const sessions = get(webpageChatSessionsAtom);
@@ -184,13 +199,6 @@ export const webpageChatHasConversationAtom = atom<boolean>((get) => {
   );
 });
 
-/**
- * When true, the custom "Chat will be cleared on reload" warning modal is shown.
- * Set by the keyboard refresh interceptor in content/index.ts.
- * Reset to false when the user dismisses (Stay) or confirms (Reload).
- */
-export const webpageChatShowRefreshWarningAtom = atom<boolean>(false);
-
 // =============================================================================
 // Pending image question (cross-boundary: set by content/index.ts, consumed in view)
 // =============================================================================
@@ -10,6 +10,43 @@ export interface YouTubeTranscriptSegment {
   dur: string;    // Duration in seconds
 }
 
+/** Chapter marker set by the video's uploader */
+export interface YouTubeChapterMarker {
+  title: string;
+  start: number;  // Start time in seconds
+}
+
+/** A caption track offered by the video */
+export interface YouTubeCaptionTrack {
+  /** YouTube's track id (vssId), e.g. ".en", or "a.en" for auto-generated */
+  id: string;
+  languageCode: string;
+  /** Display name from YouTube, e.g. "English (auto-generated)" */
+  name: string;
+  isAutoGenerated: boolean;
+}
+
+export type YouTubeTranslationStatus = 'idle' | 'translating' | 'done' | 'error';
+
 /** Atom storing YouTube transcript segments (from timedtext API) */
 export const youtubeTranscriptSegmentsAtom = atom<YouTubeTranscriptSegment[] | null>(null);
 
+/** Video the transcript atoms belong to (YouTube navigates between videos without reloading) */
+export const youtubeTranscriptVideoIdAtom = atom<string | null>(null);
+
+/** The uploader's chapter markers for the video; empty when it has none */
+export const youtubeChapterMarkersAtom = atom<YouTubeChapterMarker[]>([]);
+
+/** Caption tracks the video offers */
+export const youtubeCaptionTracksAtom = atom<YouTubeCaptionTrack[]>([]);
+
+/** Track the transcript segments were read from */
+export const youtubeCaptionTrackIdAtom = atom<string | null>(null);
+
+/** Translated text per transcript segment (same order); null entries are not translated yet */
+export const youtubeTranslatedSegmentsAtom = atom<(string | null)[] | null>(null);
+
+export const youtubeTranslationStatusAtom = atom<YouTubeTranslationStatus>('idle');
+
+/** Whether the translated caption overlay is shown on the player */
+export const youtubeCaptionOverlayEnabledAtom = atom<boolean>(false);
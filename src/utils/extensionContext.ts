@@ -0,0 +1,13 @@
+// src/utils/extensionContext.ts
+
+/**
+ * Extension context utility functions
+ */
+
+/**
+ * Whether the code runs in the background service worker.
+ * The worker has no window; content scripts and extension pages do.
+ */
+export function isBackgroundContext(): boolean {
+  return typeof window === 'undefined';
+}
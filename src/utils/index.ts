@@ -6,4 +6,5 @@
  */
 
 export { extractDomain } from './domain';
+export { isBackgroundContext } from './extensionContext';
 
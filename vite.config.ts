@@ -20,9 +20,11 @@ export default defineConfig({
     rollupOptions: {
       input: {
         main: resolve(__dirname, 'index.html'),
+        library: resolve(__dirname, 'library.html'),
         youtubePageContext: resolve(__dirname, 'src/content/utils/youtubeTranscriptPageContext.ts'),
         chromeTranslatorBridge: resolve(__dirname, 'src/content/utils/chromeTranslatorBridge.js'),
         embeddingWorker: resolve(__dirname, 'src/content/workers/embeddingWorker.ts'),
+        pdfWorker: resolve(__dirname, 'src/content/workers/pdfWorker.ts'),
       },
       output: {
         entryFileNames: (chunkInfo) => {
@@ -33,7 +35,7 @@ export default defineConfig({
           if (chunkInfo.name === 'chromeTranslatorBridge') {
             return 'src/content/utils/[name].js';
           }
-          if (chunkInfo.name === 'embeddingWorker') {
+          if (chunkInfo.name === 'embeddingWorker' || chunkInfo.name === 'pdfWorker') {
             return 'src/content/workers/[name].js';
           }
           return 'assets/[name]-[hash].js';